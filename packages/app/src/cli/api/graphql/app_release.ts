@@ -1,8 +1,8 @@
 import {gql} from 'graphql-request'
 
 export const AppRelease = gql`
-  mutation AppRelease($apiKey: String!, $appVersionId: ID, $versionTag: String) {
-    appRelease(input: {apiKey: $apiKey, appVersionId: $appVersionId, versionTag: $versionTag}) {
+  mutation AppRelease($apiKey: String!, $appVersionId: ID, $versionTag: String, $message: String) {
+    appRelease(input: {apiKey: $apiKey, appVersionId: $appVersionId, versionTag: $versionTag, message: $message}) {
       appVersion {
         versionTag
         message
@@ -27,6 +27,7 @@ export interface AppReleaseVariables {
   apiKey: string
   versionTag?: string
   appVersionId?: number
+  message?: string
 }
 
 export interface AppReleaseSchema {
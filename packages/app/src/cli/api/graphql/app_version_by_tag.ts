@@ -11,6 +11,10 @@ export const AppVersionByTagQuery = gql`
         location
         message
         appModuleVersions {
+          registrationId
+          registrationUuid
+          registrationTitle
+          type
           config
           specification {
             identifier
@@ -0,0 +1,53 @@
+import {gql} from 'graphql-request'
+
+export const FunctionRunsQuery = gql`
+  query FunctionRunsQuery($apiKey: String!, $functionId: String!, $first: Int!) {
+    app(apiKey: $apiKey) {
+      functionRuns(functionId: $functionId, first: $first) {
+        nodes {
+          id
+          createdAt
+          status
+          shopDomain
+          export
+          input
+          output
+          logs
+        }
+      }
+    }
+  }
+`
+
+export interface FunctionRunsQueryVariables {
+  apiKey: string
+  functionId: string
+  first: number
+}
+
+export interface FunctionRun {
+  id: string
+  createdAt: string
+  status: 'success' | 'failure'
+  shopDomain: string
+  export: string
+
+  /**
+   * The input of the run, serialized as JSON.
+   */
+  input: string
+
+  /**
+   * The output of the run, serialized as JSON, or `null` when the run failed.
+   */
+  output: string | null
+  logs: string
+}
+
+export interface FunctionRunsQuerySchema {
+  app: {
+    functionRuns: {
+      nodes: FunctionRun[]
+    }
+  }
+}
@@ -1,13 +1,14 @@
 import {gql} from 'graphql-request'
 
 export const AppVersionsQuery = gql`
-  query AppVersionsQuery($apiKey: String!) {
+  query AppVersionsQuery($apiKey: String!, $first: Int, $after: String) {
     app(apiKey: $apiKey) {
       id
       organizationId
       title
-      appVersions {
+      appVersions(first: $first, after: $after) {
         nodes {
+          id
           createdAt
           distributionPercentage
           createdBy {
@@ -16,15 +17,28 @@ export const AppVersionsQuery = gql`
           message
           status
           versionTag
+          commitReference
+          appModuleVersions {
+            registrationTitle
+            type
+          }
         }
         pageInfo {
           totalResults
+          hasNextPage
+          endCursor
         }
       }
     }
   }
 `
 
+export interface AppVersionsQueryVariables {
+  apiKey: string
+  first?: number
+  after?: string
+}
+
 export interface AppVersionsQuerySchema {
   app: {
     id: string
@@ -32,6 +46,7 @@ export interface AppVersionsQuerySchema {
     title: string
     appVersions: {
       nodes: {
+        id: string
         createdAt: string
         distributionPercentage: number
         createdBy?: {
@@ -40,9 +55,16 @@ export interface AppVersionsQuerySchema {
         message?: string
         status: string
         versionTag: string
+        commitReference?: string
+        appModuleVersions: {
+          registrationTitle: string
+          type: string
+        }[]
       }[]
       pageInfo: {
         totalResults: number
+        hasNextPage?: boolean
+        endCursor?: string
       }
     }
   }
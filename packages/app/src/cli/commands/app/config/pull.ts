@@ -0,0 +1,36 @@
+import {appFlags} from '../../../flags.js'
+import {loadApp} from '../../../models/app/loader.js'
+import {loadLocalExtensionsSpecifications} from '../../../models/extensions/load-specifications.js'
+import pull from '../../../services/app/config/pull.js'
+import Command from '../../../utilities/app-command.js'
+import {Flags} from '@oclif/core'
+import {globalFlags} from '@shopify/cli-kit/node/cli'
+
+export default class ConfigPull extends Command {
+  static description = 'Update your app configuration file with the configuration in the Partner Dashboard.'
+
+  static flags = {
+    ...globalFlags,
+    ...appFlags,
+    force: Flags.boolean({
+      hidden: false,
+      description: 'Update the configuration file without asking for confirmation.',
+      env: 'SHOPIFY_FLAG_FORCE',
+      char: 'f',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {flags} = await this.parse(ConfigPull)
+    const app = await loadApp({
+      specifications: await loadLocalExtensionsSpecifications(),
+      directory: flags.path,
+      configName: flags.config,
+      mode: 'report',
+    })
+
+    this.failMissingNonTTYFlags(flags, ['force'])
+
+    await pull({app, force: flags.force})
+  }
+}
@@ -1,9 +1,12 @@
 import {inFunctionContext, functionFlags} from '../../../services/function/common.js'
 import {buildFunctionExtension} from '../../../services/build/extension.js'
+import {DEFAULT_REGRESSION_THRESHOLD, warnAboutProfileRegressions} from '../../../services/function/profile.js'
+import {validateFunctionExports} from '../../../services/function/wasm-exports.js'
 import {appFlags} from '../../../flags.js'
 import Command from '@shopify/cli-kit/node/base-command'
 import {globalFlags} from '@shopify/cli-kit/node/cli'
 import {renderSuccess} from '@shopify/cli-kit/node/ui'
+import {Flags} from '@oclif/core'
 
 export default class FunctionBuild extends Command {
   static description = 'Compile a function to wasm.'
@@ -12,6 +15,18 @@ export default class FunctionBuild extends Command {
     ...globalFlags,
     ...appFlags,
     ...functionFlags,
+    profile: Flags.boolean({
+      description:
+        'Run the inputs with a baseline against the built function, and warn when their instructions, memory usage or output size regressed.',
+      default: false,
+      env: 'SHOPIFY_FLAG_PROFILE',
+    }),
+    'regression-threshold': Flags.integer({
+      description:
+        'The increase of instructions, memory usage or output size since the baseline, in percent, to warn about.',
+      default: DEFAULT_REGRESSION_THRESHOLD,
+      env: 'SHOPIFY_FLAG_REGRESSION_THRESHOLD',
+    }),
   }
 
   public async run() {
@@ -27,7 +42,9 @@ export default class FunctionBuild extends Command {
           useTasks: true,
           environment: 'production',
         })
+        await validateFunctionExports(ourFunction)
         renderSuccess({headline: 'Function built successfully.'})
+        if (flags.profile) await warnAboutProfileRegressions(app, ourFunction, flags['regression-threshold'])
       },
     })
   }
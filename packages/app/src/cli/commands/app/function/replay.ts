@@ -0,0 +1,57 @@
+import {functionFlags, inFunctionContext} from '../../../services/function/common.js'
+import {replayFunction} from '../../../services/function/replay.js'
+import {appFlags} from '../../../flags.js'
+import {Flags} from '@oclif/core'
+import {globalFlags} from '@shopify/cli-kit/node/cli'
+import Command from '@shopify/cli-kit/node/base-command'
+
+export default class FunctionReplay extends Command {
+  static description = 'Replay a recent run of a deployed function against the local build of the function.'
+
+  static flags = {
+    ...globalFlags,
+    ...appFlags,
+    ...functionFlags,
+    'client-id': Flags.string({
+      hidden: false,
+      description: 'The Client ID of the app whose function runs are replayed.',
+      env: 'SHOPIFY_FLAG_CLIENT_ID',
+      exclusive: ['config'],
+    }),
+    limit: Flags.integer({
+      char: 'l',
+      description: 'The number of recent runs to pick from.',
+      default: 50,
+      env: 'SHOPIFY_FLAG_LIMIT',
+    }),
+    'run-id': Flags.string({
+      description:
+        'The id of the run to replay. If omitted, you pick one of the recent runs, or the most recent one is replayed when the terminal is not interactive.',
+      env: 'SHOPIFY_FLAG_RUN_ID',
+    }),
+    json: Flags.boolean({
+      char: 'j',
+      hidden: false,
+      description: 'Log the run result as a JSON object.',
+      env: 'SHOPIFY_FLAG_JSON',
+    }),
+  }
+
+  public async run() {
+    const {flags} = await this.parse(FunctionReplay)
+    await inFunctionContext({
+      path: flags.path,
+      configName: flags.config,
+      callback: async (app, ourFunction) => {
+        await replayFunction({
+          app,
+          extension: ourFunction,
+          apiKey: flags['client-id'],
+          json: flags.json,
+          limit: flags.limit,
+          runId: flags['run-id'],
+        })
+      },
+    })
+  }
+}
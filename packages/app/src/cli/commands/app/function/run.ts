@@ -1,8 +1,11 @@
 import {functionFlags, inFunctionContext} from '../../../services/function/common.js'
 import {runFunctionRunner} from '../../../services/function/build.js'
+import {warnAboutInvalidInput} from '../../../services/function/input-validation.js'
+import {DEFAULT_REGRESSION_THRESHOLD, profileFunction} from '../../../services/function/profile.js'
 import {appFlags} from '../../../flags.js'
 import Command from '@shopify/cli-kit/node/base-command'
 import {globalFlags} from '@shopify/cli-kit/node/cli'
+import {resolvePath} from '@shopify/cli-kit/node/path'
 import {Flags} from '@oclif/core'
 
 export default class FunctionRun extends Command {
@@ -30,6 +33,25 @@ export default class FunctionRun extends Command {
       description: 'Log the run result as a JSON object.',
       env: 'SHOPIFY_FLAG_JSON',
     }),
+    profile: Flags.boolean({
+      description:
+        'Report the instructions, memory usage and output size of the run, compared with the platform limits and the baseline of the input.',
+      default: false,
+      dependsOn: ['input'],
+      env: 'SHOPIFY_FLAG_PROFILE',
+    }),
+    'update-baseline': Flags.boolean({
+      description: 'Replace the baseline of the input with the resources it uses in this run.',
+      default: false,
+      dependsOn: ['profile'],
+      env: 'SHOPIFY_FLAG_UPDATE_BASELINE',
+    }),
+    'regression-threshold': Flags.integer({
+      description:
+        'The increase of instructions, memory usage or output size since the baseline, in percent, to warn about.',
+      default: DEFAULT_REGRESSION_THRESHOLD,
+      env: 'SHOPIFY_FLAG_REGRESSION_THRESHOLD',
+    }),
   }
 
   public async run() {
@@ -37,7 +59,24 @@ export default class FunctionRun extends Command {
     await inFunctionContext({
       path: flags.path,
       configName: flags.config,
-      callback: async (_app, ourFunction) => {
+      callback: async (app, ourFunction) => {
+        if (flags.input) {
+          // function-runner reads the input relative to the function directory
+          const input = resolvePath(ourFunction.directory, flags.input)
+          await warnAboutInvalidInput(ourFunction, {input, export: flags.export})
+
+          if (flags.profile) {
+            await profileFunction(app, ourFunction, {
+              input,
+              export: flags.export,
+              json: flags.json,
+              threshold: flags['regression-threshold'],
+              updateBaseline: flags['update-baseline'],
+            })
+            return
+          }
+        }
+
         await runFunctionRunner(ourFunction, {
           json: flags.json,
           input: flags.input,
@@ -0,0 +1,63 @@
+import {functionFlags, inFunctionContext} from '../../../services/function/common.js'
+import {FunctionTestReporter, testFunction} from '../../../services/function/test-runner.js'
+import {DEFAULT_REGRESSION_THRESHOLD} from '../../../services/function/profile.js'
+import {appFlags} from '../../../flags.js'
+import Command from '@shopify/cli-kit/node/base-command'
+import {globalFlags} from '@shopify/cli-kit/node/cli'
+import {resolvePath} from '@shopify/cli-kit/node/path'
+import {Flags} from '@oclif/core'
+
+export default class FunctionTest extends Command {
+  static description = 'Run the fixtures of the tests/fixtures directory against the built function.'
+
+  static flags = {
+    ...globalFlags,
+    ...appFlags,
+    ...functionFlags,
+    fixture: Flags.string({
+      char: 'f',
+      description: 'Only run the fixtures whose name includes this value.',
+      env: 'SHOPIFY_FLAG_FIXTURE',
+    }),
+    reporter: Flags.string({
+      description: 'The format of the report.',
+      options: ['default', 'json', 'junit'],
+      default: 'default',
+      env: 'SHOPIFY_FLAG_REPORTER',
+    }),
+    output: Flags.string({
+      char: 'o',
+      description: 'The file where the json or junit report is written, instead of the standard output.',
+      parse: async (input) => resolvePath(input),
+      env: 'SHOPIFY_FLAG_OUTPUT',
+    }),
+    'regression-threshold': Flags.integer({
+      description:
+        'The increase of instructions, memory usage or output size since the baseline, in percent, to warn about.',
+      default: DEFAULT_REGRESSION_THRESHOLD,
+      env: 'SHOPIFY_FLAG_REGRESSION_THRESHOLD',
+    }),
+    'update-baseline': Flags.boolean({
+      description: 'Replace the baselines of the fixtures with the resources they use in this run.',
+      default: false,
+      env: 'SHOPIFY_FLAG_UPDATE_BASELINE',
+    }),
+  }
+
+  public async run() {
+    const {flags} = await this.parse(FunctionTest)
+    await inFunctionContext({
+      path: flags.path,
+      configName: flags.config,
+      callback: async (app, ourFunction) => {
+        await testFunction(app, ourFunction, {
+          filter: flags.fixture,
+          reporter: flags.reporter as FunctionTestReporter,
+          outputFile: flags.output,
+          threshold: flags['regression-threshold'],
+          updateBaseline: flags['update-baseline'],
+        })
+      },
+    })
+  }
+}
@@ -0,0 +1,41 @@
+import {functionFlags, inFunctionContext} from '../../../services/function/common.js'
+import {validateFunctionInputFile} from '../../../services/function/input-validation.js'
+import {appFlags} from '../../../flags.js'
+import Command from '@shopify/cli-kit/node/base-command'
+import {globalFlags} from '@shopify/cli-kit/node/cli'
+import {resolvePath} from '@shopify/cli-kit/node/path'
+import {Flags} from '@oclif/core'
+
+export default class FunctionValidateInput extends Command {
+  static description = 'Validate an input JSON file against the input query and the schema of a function.'
+
+  static flags = {
+    ...globalFlags,
+    ...appFlags,
+    ...functionFlags,
+    input: Flags.string({
+      char: 'i',
+      description: 'The input JSON file to validate.',
+      parse: async (input) => resolvePath(input),
+      required: true,
+      env: 'SHOPIFY_FLAG_INPUT',
+    }),
+    export: Flags.string({
+      char: 'e',
+      description: 'Name of the wasm export whose target input query is used.',
+      default: '_start',
+      env: 'SHOPIFY_FLAG_EXPORT',
+    }),
+  }
+
+  public async run() {
+    const {flags} = await this.parse(FunctionValidateInput)
+    await inFunctionContext({
+      path: flags.path,
+      configName: flags.config,
+      callback: async (_app, ourFunction) => {
+        await validateFunctionInputFile(ourFunction, {input: flags.input, export: flags.export})
+      },
+    })
+  }
+}
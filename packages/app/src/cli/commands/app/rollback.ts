@@ -0,0 +1,72 @@
+import {appFlags} from '../../flags.js'
+import {AppInterface} from '../../models/app/app.js'
+import {loadApp} from '../../models/app/loader.js'
+import Command from '../../utilities/app-command.js'
+import {rollback} from '../../services/rollback.js'
+import {loadLocalExtensionsSpecifications} from '../../models/extensions/load-specifications.js'
+import {Flags} from '@oclif/core'
+import {globalFlags} from '@shopify/cli-kit/node/cli'
+import {addPublicMetadata} from '@shopify/cli-kit/node/metadata'
+
+export default class Rollback extends Command {
+  static description = 'Roll back your app to a previous app version.'
+
+  static flags = {
+    ...globalFlags,
+    ...appFlags,
+    'client-id': Flags.string({
+      hidden: false,
+      description: 'The Client ID of your app.',
+      env: 'SHOPIFY_FLAG_CLIENT_ID',
+      exclusive: ['config'],
+    }),
+    reset: Flags.boolean({
+      hidden: false,
+      description: 'Reset all your settings.',
+      env: 'SHOPIFY_FLAG_RESET',
+      default: false,
+    }),
+    force: Flags.boolean({
+      hidden: false,
+      description: 'Roll back without asking for confirmation.',
+      env: 'SHOPIFY_FLAG_FORCE',
+      char: 'f',
+    }),
+    to: Flags.string({
+      hidden: false,
+      description:
+        'The name of the app version to roll back to. Defaults to the version that was active before the current one, inferred from the order in which versions were created: the latest released version created after the active one (to undo a rollback), or else the latest released version created before it.',
+      env: 'SHOPIFY_FLAG_ROLLBACK_TO',
+    }),
+    message: Flags.string({
+      hidden: false,
+      description: 'A message recorded on the release. Defaults to "Roll back to <version>".',
+      env: 'SHOPIFY_FLAG_MESSAGE',
+    }),
+  }
+
+  async run(): Promise<void> {
+    const {flags} = await this.parse(Rollback)
+    const apiKey = flags['client-id']
+
+    await addPublicMetadata(() => ({
+      cmd_app_reset_used: flags.reset,
+    }))
+
+    const specifications = await loadLocalExtensionsSpecifications()
+    const app: AppInterface = await loadApp({specifications, directory: flags.path, configName: flags.config})
+
+    const requiredNonTTYFlags = ['force']
+    if (!apiKey && !app.configuration.client_id) requiredNonTTYFlags.push('client-id')
+    this.failMissingNonTTYFlags(flags, requiredNonTTYFlags)
+
+    await rollback({
+      app,
+      apiKey,
+      reset: flags.reset,
+      force: flags.force,
+      to: flags.to,
+      message: flags.message,
+    })
+  }
+}
@@ -0,0 +1,57 @@
+import {appFlags} from '../../../flags.js'
+import Command from '../../../utilities/app-command.js'
+import {LOCAL_VERSION, versionsDiff} from '../../../services/versions-diff.js'
+import {loadLocalExtensionsSpecifications} from '../../../models/extensions/load-specifications.js'
+import {AppInterface} from '../../../models/app/app.js'
+import {loadApp} from '../../../models/app/loader.js'
+import {globalFlags} from '@shopify/cli-kit/node/cli'
+import {Args, Flags} from '@oclif/core'
+
+export default class VersionsDiff extends Command {
+  static description = 'Compare the extensions and the configuration of two app versions.'
+  static examples = [
+    '<%= config.bin %> <%= command.id %> my-app-12 my-app-13',
+    `<%= config.bin %> <%= command.id %> my-app-13 ${LOCAL_VERSION}`,
+  ]
+
+  static flags = {
+    ...globalFlags,
+    ...appFlags,
+    'client-id': Flags.string({
+      hidden: false,
+      description: 'The Client ID of the app to compare the versions of.',
+      env: 'SHOPIFY_FLAG_CLIENT_ID',
+      exclusive: ['config'],
+    }),
+    json: Flags.boolean({
+      description: 'Output the differences as JSON.',
+      default: false,
+      env: 'SHOPIFY_FLAG_JSON',
+    }),
+  }
+
+  static args = {
+    from: Args.string({
+      description: `The name of the version to compare from, or ${LOCAL_VERSION} for the app in the current directory.`,
+      required: true,
+    }),
+    to: Args.string({
+      description: `The name of the version to compare to, or ${LOCAL_VERSION} for the app in the current directory.`,
+      required: true,
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {flags, args} = await this.parse(VersionsDiff)
+    const specifications = await loadLocalExtensionsSpecifications()
+    const app: AppInterface = await loadApp({specifications, directory: flags.path, configName: flags.config})
+
+    await versionsDiff({
+      app,
+      apiKey: flags['client-id'],
+      from: args.from,
+      to: args.to,
+      json: flags.json,
+    })
+  }
+}
@@ -1,6 +1,6 @@
 import {appFlags} from '../../../flags.js'
 import Command from '../../../utilities/app-command.js'
-import versionList from '../../../services/versions-list.js'
+import versionList, {parseDateFilter} from '../../../services/versions-list.js'
 import {loadLocalExtensionsSpecifications} from '../../../models/extensions/load-specifications.js'
 import {AppInterface} from '../../../models/app/app.js'
 import {loadApp} from '../../../models/app/loader.js'
@@ -32,6 +32,34 @@ export default class VersionsList extends Command {
       default: false,
       env: 'SHOPIFY_FLAG_JSON',
     }),
+    limit: Flags.integer({
+      description: 'The maximum number of versions to list.',
+      default: 10,
+      env: 'SHOPIFY_FLAG_LIMIT',
+    }),
+    all: Flags.boolean({
+      description: 'List all the versions of the app, ignoring --limit.',
+      default: false,
+      env: 'SHOPIFY_FLAG_ALL',
+    }),
+    status: Flags.string({
+      description: 'Only list the versions with this status. Can be passed multiple times.',
+      env: 'SHOPIFY_FLAG_STATUS',
+      options: ['active', 'released', 'inactive'],
+      multiple: true,
+    }),
+    'created-by': Flags.string({
+      description: 'Only list the versions created by someone whose name includes this text.',
+      env: 'SHOPIFY_FLAG_CREATED_BY',
+    }),
+    since: Flags.string({
+      description: 'Only list the versions created on or after this date, like 2024-01-31.',
+      env: 'SHOPIFY_FLAG_SINCE',
+    }),
+    until: Flags.string({
+      description: 'Only list the versions created before this date, like 2024-01-31.',
+      env: 'SHOPIFY_FLAG_UNTIL',
+    }),
   }
 
   static args = {
@@ -52,6 +80,13 @@ export default class VersionsList extends Command {
       apiKey,
       reset: false,
       json: flags.json,
+      filters: {
+        limit: flags.all ? undefined : flags.limit,
+        status: flags.status,
+        createdBy: flags['created-by'],
+        since: parseDateFilter('since', flags.since),
+        until: parseDateFilter('until', flags.until),
+      },
     })
   }
 }
@@ -0,0 +1,55 @@
+import {appFlags} from '../../../flags.js'
+import {loadApp} from '../../../models/app/loader.js'
+import {loadLocalExtensionsSpecifications} from '../../../models/extensions/load-specifications.js'
+import {webhookLogService} from '../../../services/webhook/log.js'
+import Command from '../../../utilities/app-command.js'
+import {Flags} from '@oclif/core'
+import {globalFlags} from '@shopify/cli-kit/node/cli'
+
+export default class WebhookLog extends Command {
+  static description = 'List the webhook deliveries captured by `app dev`, or send one of them again.'
+
+  static flags = {
+    ...globalFlags,
+    ...appFlags,
+    resend: Flags.string({
+      description: 'The id of a captured delivery to send again to the backend.',
+      env: 'SHOPIFY_FLAG_RESEND',
+    }),
+    address: Flags.string({
+      description:
+        'The URL of the backend to send the delivery again to, such as http://localhost:3000. The path of the delivery is appended to it.',
+      dependsOn: ['resend'],
+      env: 'SHOPIFY_FLAG_ADDRESS',
+    }),
+    limit: Flags.integer({
+      char: 'l',
+      description: 'The number of recent deliveries to list.',
+      default: 20,
+      env: 'SHOPIFY_FLAG_LIMIT',
+    }),
+    json: Flags.boolean({
+      char: 'j',
+      description: 'Output the deliveries as JSON.',
+      default: false,
+      env: 'SHOPIFY_FLAG_JSON',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {flags} = await this.parse(WebhookLog)
+    const app = await loadApp({
+      specifications: await loadLocalExtensionsSpecifications(),
+      directory: flags.path,
+      configName: flags.config,
+      mode: 'report',
+    })
+    await webhookLogService({
+      app,
+      resend: flags.resend,
+      address: flags.address,
+      limit: flags.limit,
+      json: flags.json,
+    })
+  }
+}
@@ -1,9 +1,19 @@
 import {DELIVERY_METHOD, WebhookTriggerFlags} from '../../services/webhook/trigger-flags.js'
 import {webhookTriggerService} from '../../services/webhook/trigger.js'
+import {
+  DEFAULT_OFFLINE_SHOP_DOMAIN,
+  WEBHOOK_FIXTURES_DIRECTORY,
+  offlineWebhookTriggerService,
+} from '../../services/webhook/offline-webhook.js'
+import {webhookTriggerFromConfigService} from '../../services/webhook/trigger-from-config.js'
 import {deliveryMethodInstructionsAsString} from '../../prompts/webhook/trigger.js'
+import {appFlags} from '../../flags.js'
+import {loadApp} from '../../models/app/loader.js'
+import {loadLocalExtensionsSpecifications} from '../../models/extensions/load-specifications.js'
 import {Flags} from '@oclif/core'
 import Command from '@shopify/cli-kit/node/base-command'
 import {renderWarning} from '@shopify/cli-kit/node/ui'
+import {cwd, resolvePath} from '@shopify/cli-kit/node/path'
 
 export default class WebhookTrigger extends Command {
   static description = 'Trigger delivery of a sample webhook topic payload to a designated address.'
@@ -56,6 +66,55 @@ export default class WebhookTrigger extends Command {
                     ${deliveryMethodInstructionsAsString(DELIVERY_METHOD.PUBSUB)}
                     ${deliveryMethodInstructionsAsString(DELIVERY_METHOD.EVENTBRIDGE)}`,
     }),
+    offline: Flags.boolean({
+      required: false,
+      hidden: false,
+      default: false,
+      env: 'SHOPIFY_FLAG_OFFLINE',
+      description: `Build and sign the webhook locally, without requesting Shopify, and send it to an HTTP address. The payload comes from ${WEBHOOK_FIXTURES_DIRECTORY}/{topic}.json unless --payload is passed.`,
+    }),
+    payload: Flags.string({
+      required: false,
+      hidden: false,
+      env: 'SHOPIFY_FLAG_PAYLOAD',
+      description: 'The JSON file with the payload to send offline.',
+      parse: async (input) => resolvePath(input),
+      dependsOn: ['offline'],
+    }),
+    shop: Flags.string({
+      required: false,
+      hidden: false,
+      default: DEFAULT_OFFLINE_SHOP_DOMAIN,
+      env: 'SHOPIFY_FLAG_SHOP',
+      description: 'The shop domain that offline and local deliveries come from.',
+    }),
+    replay: Flags.integer({
+      required: false,
+      hidden: false,
+      default: 1,
+      min: 1,
+      env: 'SHOPIFY_FLAG_REPLAY',
+      description: 'The number of times to send the same offline delivery, to test that it is handled only once.',
+      dependsOn: ['offline'],
+    }),
+    'from-config': Flags.boolean({
+      required: false,
+      hidden: false,
+      default: false,
+      env: 'SHOPIFY_FLAG_FROM_CONFIG',
+      description:
+        'Send a sample of every topic that the app configuration subscribes to, to the URI of its subscription.',
+      exclusive: ['topic', 'address', 'delivery-method', 'payload'],
+    }),
+    port: Flags.integer({
+      required: false,
+      hidden: false,
+      env: 'SHOPIFY_FLAG_PORT',
+      description:
+        'The port of the local backend that relative URIs, and URIs of the app URL, are delivered to. Defaults to the backend port when running under app dev.',
+      dependsOn: ['from-config'],
+    }),
+    ...appFlags,
   }
 
   public async run() {
@@ -77,6 +136,36 @@ export default class WebhookTrigger extends Command {
       })
     }
 
+    if (flags['from-config']) {
+      const app = await loadApp({
+        specifications: await loadLocalExtensionsSpecifications(),
+        directory: flags.path,
+        configName: flags.config,
+      })
+      // Processes that app dev starts receive the port of the backend
+      const backendPort = process.env.BACKEND_PORT ? Number(process.env.BACKEND_PORT) : undefined
+      await webhookTriggerFromConfigService({
+        app,
+        apiVersion: usedFlags.apiVersion,
+        clientSecret: usedFlags.clientSecret,
+        offline: flags.offline,
+        shopDomain: flags.shop,
+        localPort: flags.port ?? backendPort,
+      })
+      return
+    }
+
+    if (flags.offline) {
+      await offlineWebhookTriggerService({
+        ...usedFlags,
+        shopDomain: flags.shop,
+        payload: flags.payload,
+        replay: flags.replay,
+        directory: cwd(),
+      })
+      return
+    }
+
     await webhookTriggerService(usedFlags)
   }
 }
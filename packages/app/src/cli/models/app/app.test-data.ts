@@ -21,6 +21,7 @@ import {
   GenerateSignedUploadUrlSchema,
   GenerateSignedUploadUrlVariables,
 } from '../../api/graphql/generate_signed_upload_url.js'
+import {FunctionRunsQuerySchema, FunctionRunsQueryVariables} from '../../api/graphql/functions/function_runs.js'
 
 export const DEFAULT_CONFIG = {
   path: '/tmp/project/shopify.app.toml',
@@ -714,6 +715,14 @@ const generateSignedUploadUrlResponse: GenerateSignedUploadUrlSchema = {
   },
 }
 
+const emptyFunctionRuns: FunctionRunsQuerySchema = {
+  app: {
+    functionRuns: {
+      nodes: [],
+    },
+  },
+}
+
 export function testDeveloperPlatformClient(stubs: Partial<DeveloperPlatformClient> = {}): DeveloperPlatformClient {
   return {
     session: () => Promise.resolve(testPartnersUserSession),
@@ -737,6 +746,7 @@ export function testDeveloperPlatformClient(stubs: Partial<DeveloperPlatformClie
     deploy: (input: AppDeployVariables) => Promise.resolve(deployResponse),
     generateSignedUploadUrl: (input: GenerateSignedUploadUrlVariables) =>
       Promise.resolve(generateSignedUploadUrlResponse),
+    functionRuns: (input: FunctionRunsQueryVariables) => Promise.resolve(emptyFunctionRuns),
     ...stubs,
   }
 }
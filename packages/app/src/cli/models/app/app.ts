@@ -25,6 +25,23 @@ export const LegacyAppSchema = zod
   })
   .strict()
 
+const ReadinessConfigurationSchema = zod.object({
+  http_path: zod.preprocess(ensurePathStartsWithSlash, zod.string()).optional(),
+  timeout: zod.number().min(1).optional(),
+  restarts: zod.number().min(0).optional(),
+})
+
+export const DevProcessConfigurationSchema = zod.object({
+  name: zod.string(),
+  command: zod.string(),
+  directory: zod.string().optional(),
+  port: zod.number().max(65536).min(0).optional(),
+  path_prefix: zod.preprocess(ensurePathStartsWithSlash, zod.string()).optional(),
+  env: zod.record(zod.string(), zod.string()).optional(),
+  depends_on: zod.array(zod.string()).optional(),
+  readiness: ReadinessConfigurationSchema.optional(),
+})
+
 export const AppSchema = zod.object({
   client_id: zod.string(),
   build: zod
@@ -34,6 +51,11 @@ export const AppSchema = zod.object({
       include_config_on_deploy: zod.boolean().optional(),
     })
     .optional(),
+  dev: zod
+    .object({
+      processes: zod.array(DevProcessConfigurationSchema).optional(),
+    })
+    .optional(),
   extension_directories: zod.array(zod.string()).optional(),
   web_directories: zod.array(zod.string()).optional(),
 })
@@ -129,6 +151,8 @@ const baseWebConfigurationSchema = zod.object({
   }),
   name: zod.string().optional(),
   hmr_server: zod.object({http_paths: zod.string().array()}).optional(),
+  depends_on: zod.array(zod.string()).optional(),
+  readiness: ReadinessConfigurationSchema.optional(),
 })
 const webTypes = zod.enum([WebType.Frontend, WebType.Backend, WebType.Background]).default(WebType.Frontend)
 export const WebConfigurationSchema = zod.union([
@@ -142,6 +166,7 @@ export type CurrentAppConfiguration = zod.infer<typeof AppSchema> & {path: strin
 export type LegacyAppConfiguration = zod.infer<typeof LegacyAppSchema> & {path: string}
 export type WebConfiguration = zod.infer<typeof WebConfigurationSchema>
 export type ProcessedWebConfiguration = zod.infer<typeof ProcessedWebConfigurationSchema>
+export type DevProcessConfiguration = zod.infer<typeof DevProcessConfigurationSchema>
 export type WebConfigurationCommands = keyof WebConfiguration['commands']
 
 export interface Web {
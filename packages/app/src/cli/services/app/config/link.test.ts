@@ -9,7 +9,7 @@ import {
 import {selectConfigName} from '../../../prompts/config.js'
 import {loadApp} from '../../../models/app/loader.js'
 import {InvalidApiKeyErrorMessage, fetchOrCreateOrganizationApp} from '../../context.js'
-import {getCachedCommandInfo} from '../../local-storage.js'
+import {getCachedCommandInfo, setSyncedAppConfiguration} from '../../local-storage.js'
 import {AppInterface, CurrentAppConfiguration} from '../../../models/app/app.js'
 import {fetchAppRemoteConfiguration} from '../select-app.js'
 import {DeveloperPlatformClient} from '../../../utilities/developer-platform-client.js'
@@ -122,6 +122,7 @@ embedded = false
 `
       expect(content).toEqual(expectedContent)
       expect(saveCurrentConfig).toHaveBeenCalledWith({configFileName: 'shopify.app.toml', directory: tmp})
+      expect(setSyncedAppConfiguration).toHaveBeenCalledWith(tmp, 'shopify.app.toml', DEFAULT_REMOTE_CONFIGURATION)
       expect(renderSuccess).toHaveBeenCalledWith({
         headline: 'shopify.app.toml is now linked to "app1" on Shopify',
         body: 'Using shopify.app.toml as your default config.',
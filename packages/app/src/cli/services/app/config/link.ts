@@ -13,7 +13,7 @@ import {InvalidApiKeyErrorMessage, fetchOrCreateOrganizationApp, logMetadataForL
 import {BetaFlag} from '../../dev/fetch.js'
 import {configurationFileNames} from '../../../constants.js'
 import {writeAppConfigurationFile} from '../write-app-configuration-file.js'
-import {getCachedCommandInfo} from '../../local-storage.js'
+import {getCachedCommandInfo, setSyncedAppConfiguration} from '../../local-storage.js'
 import {ExtensionSpecification} from '../../../models/extensions/specification.js'
 import {loadLocalExtensionsSpecifications} from '../../../models/extensions/load-specifications.js'
 import {selectDeveloperPlatformClient, DeveloperPlatformClient} from '../../../utilities/developer-platform-client.js'
@@ -51,6 +51,7 @@ export default async function link(options: LinkOptions, shouldRenderSuccess = t
   configuration = deepMergeObjects(configuration, remoteAppConfiguration, replaceLocalArrayStrategy)
 
   await writeAppConfigurationFile(configuration, localApp.configSchema)
+  setSyncedAppConfiguration(directory, configFileName, remoteAppConfiguration)
   await saveCurrentConfig({configFileName, directory})
 
   if (shouldRenderSuccess) {
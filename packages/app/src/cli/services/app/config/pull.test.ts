@@ -0,0 +1,154 @@
+import pull from './pull.js'
+import {buildVersionedAppSchema, testApp, testDeveloperPlatformClient} from '../../../models/app/app.test-data.js'
+import {AppInterface, CurrentAppConfiguration} from '../../../models/app/app.js'
+import {fetchAppRemoteConfiguration} from '../select-app.js'
+import {setSyncedAppConfiguration} from '../../local-storage.js'
+import {describe, expect, test, vi} from 'vitest'
+import {inTemporaryDirectory, readFile, writeFile} from '@shopify/cli-kit/node/fs'
+import {joinPath} from '@shopify/cli-kit/node/path'
+import {decodeToml} from '@shopify/cli-kit/node/toml'
+import {renderConfirmationPrompt, renderInfo, renderSuccess} from '@shopify/cli-kit/node/ui'
+import {AbortSilentError} from '@shopify/cli-kit/node/error'
+
+vi.mock('../select-app.js')
+vi.mock('../../local-storage.js')
+vi.mock('@shopify/cli-kit/node/ui')
+
+const LOCAL_FILE = `# Learn more about configuring your app at https://shopify.dev/docs/apps/tools/cli/configuration
+
+client_id = "api-key"
+name = "my app" # shown to merchants
+application_url = "https://old.example.com"
+embedded = true
+
+[access_scopes]
+# Learn more at https://shopify.dev/docs/apps/tools/cli/configuration#access_scopes
+scopes = "read_products"
+
+[webhooks]
+api_version = "2023-07"
+
+[build]
+include_config_on_deploy = true
+
+# Keep the webhooks in sync with the backend
+`
+
+const PULLED_FILE = `# Learn more about configuring your app at https://shopify.dev/docs/apps/tools/cli/configuration
+
+client_id = "api-key"
+name = "my app" # shown to merchants
+application_url = "https://new.example.com"
+embedded = true
+
+[access_scopes]
+# Learn more at https://shopify.dev/docs/apps/tools/cli/configuration#access_scopes
+scopes = "read_products,write_orders"
+
+[webhooks]
+api_version = "2024-01"
+
+[build]
+include_config_on_deploy = true
+
+[auth]
+redirect_urls = [ "https://new.example.com/auth/callback" ]
+
+# Keep the webhooks in sync with the backend
+`
+
+const REMOTE_CONFIGURATION = {
+  name: 'my app',
+  application_url: 'https://new.example.com',
+  embedded: true,
+  access_scopes: {scopes: 'read_products,write_orders'},
+  webhooks: {api_version: '2024-01'},
+  auth: {redirect_urls: ['https://new.example.com/auth/callback']},
+}
+
+async function testAppWithFile(directory: string, file: string): Promise<AppInterface> {
+  const path = joinPath(directory, 'shopify.app.toml')
+  await writeFile(path, file)
+  const {schema, configSpecifications} = await buildVersionedAppSchema()
+  return testApp({
+    directory,
+    configuration: {...decodeToml(file), path} as CurrentAppConfiguration,
+    configSchema: schema,
+    specifications: configSpecifications,
+  })
+}
+
+describe('pull', () => {
+  test('rewrites the configuration file with the remote configuration, keeping its comments and key order', async () => {
+    await inTemporaryDirectory(async (tmp) => {
+      // Given
+      const app = await testAppWithFile(tmp, LOCAL_FILE)
+      vi.mocked(fetchAppRemoteConfiguration).mockResolvedValue(REMOTE_CONFIGURATION)
+      vi.mocked(renderConfirmationPrompt).mockResolvedValue(true)
+
+      // When
+      await pull({app, force: false, developerPlatformClient: testDeveloperPlatformClient()})
+
+      // Then
+      const file = await readFile(joinPath(tmp, 'shopify.app.toml'))
+      expect(renderConfirmationPrompt).toHaveBeenCalled()
+      expect(file).toEqual(PULLED_FILE)
+      expect(setSyncedAppConfiguration).toHaveBeenCalledWith(tmp, 'shopify.app.toml', REMOTE_CONFIGURATION)
+      expect(renderSuccess).toHaveBeenCalledWith({
+        headline: 'shopify.app.toml is now up to date with the Partner Dashboard.',
+      })
+    })
+  })
+
+  test("doesn't rewrite the configuration file when it matches the remote configuration", async () => {
+    await inTemporaryDirectory(async (tmp) => {
+      // Given
+      const app = await testAppWithFile(tmp, LOCAL_FILE)
+      vi.mocked(fetchAppRemoteConfiguration).mockResolvedValue({
+        name: 'my app',
+        application_url: 'https://old.example.com',
+        embedded: true,
+        access_scopes: {scopes: 'read_products'},
+        webhooks: {api_version: '2023-07'},
+      })
+
+      // When
+      await pull({app, force: false, developerPlatformClient: testDeveloperPlatformClient()})
+
+      // Then
+      expect(renderInfo).toHaveBeenCalledWith({
+        headline: 'shopify.app.toml is already up to date with the Partner Dashboard.',
+      })
+      expect(renderConfirmationPrompt).not.toHaveBeenCalled()
+      await expect(readFile(joinPath(tmp, 'shopify.app.toml'))).resolves.toEqual(LOCAL_FILE)
+    })
+  })
+
+  test("doesn't rewrite the configuration file when the user cancels", async () => {
+    await inTemporaryDirectory(async (tmp) => {
+      // Given
+      const app = await testAppWithFile(tmp, LOCAL_FILE)
+      vi.mocked(fetchAppRemoteConfiguration).mockResolvedValue(REMOTE_CONFIGURATION)
+      vi.mocked(renderConfirmationPrompt).mockResolvedValue(false)
+
+      // When
+      const result = pull({app, force: false, developerPlatformClient: testDeveloperPlatformClient()})
+
+      // Then
+      await expect(result).rejects.toThrowError(AbortSilentError)
+      expect(setSyncedAppConfiguration).not.toHaveBeenCalled()
+      await expect(readFile(joinPath(tmp, 'shopify.app.toml'))).resolves.toEqual(LOCAL_FILE)
+    })
+  })
+
+  test('throws an error when the configuration file is not linked to an app', async () => {
+    // Given
+    const app = testApp({}, 'legacy')
+
+    // When
+    const result = pull({app, force: true, developerPlatformClient: testDeveloperPlatformClient()})
+
+    // Then
+    await expect(result).rejects.toThrowError("The app configuration isn't linked to an app in the Partner Dashboard.")
+  })
+})
@@ -0,0 +1,196 @@
+import {AppInterface, AppSchema, CurrentAppConfiguration, isCurrentAppSchema} from '../../../models/app/app.js'
+import {InvalidApiKeyErrorMessage} from '../../context.js'
+import {buildDiffConfigContent} from '../../../prompts/config.js'
+import {fetchAppRemoteConfiguration} from '../select-app.js'
+import {rewriteConfiguration} from '../write-app-configuration-file.js'
+import {setSyncedAppConfiguration} from '../../local-storage.js'
+import {DeveloperPlatformClient, selectDeveloperPlatformClient} from '../../../utilities/developer-platform-client.js'
+import {AbortError, AbortSilentError} from '@shopify/cli-kit/node/error'
+import {readFile, writeFile} from '@shopify/cli-kit/node/fs'
+import {basename} from '@shopify/cli-kit/node/path'
+import {decodeToml, encodeToml} from '@shopify/cli-kit/node/toml'
+import {outputContent, outputInfo, outputToken} from '@shopify/cli-kit/node/output'
+import {renderConfirmationPrompt, renderInfo, renderSuccess} from '@shopify/cli-kit/node/ui'
+import {diffLines} from 'diff'
+
+export interface PullOptions {
+  app: AppInterface
+
+  /** If true, rewrite the configuration file without asking for confirmation */
+  force: boolean
+
+  developerPlatformClient?: DeveloperPlatformClient
+}
+
+/**
+ * Rewrites the configuration file of an app with the configuration in the
+ * Partner Dashboard, keeping the fields that are only used locally, and the
+ * comments and key order of the file where possible.
+ */
+export default async function pull(options: PullOptions) {
+  const {app} = options
+  const configuration = app.configuration
+  if (!isCurrentAppSchema(configuration)) {
+    throw new AbortError(
+      "The app configuration isn't linked to an app in the Partner Dashboard.",
+      'Run `shopify app config link` to link it first.',
+    )
+  }
+
+  const developerPlatformClient = options.developerPlatformClient ?? selectDeveloperPlatformClient()
+  const remoteApp = await developerPlatformClient.appFromId(configuration.client_id)
+  if (!remoteApp) {
+    const errorMessage = InvalidApiKeyErrorMessage(configuration.client_id)
+    throw new AbortError(errorMessage.message, errorMessage.tryMessage)
+  }
+
+  const remoteConfiguration = await fetchAppRemoteConfiguration(
+    remoteApp.apiKey,
+    developerPlatformClient,
+    app.specifications ?? [],
+    remoteApp.betas,
+  )
+  const localOnlyFields = Object.keys(AppSchema.shape).filter(
+    (field) => configuration[field as keyof CurrentAppConfiguration] !== undefined,
+  )
+  const pulledConfiguration = {
+    ...Object.fromEntries(
+      localOnlyFields.map((field) => [field, configuration[field as keyof CurrentAppConfiguration]]),
+    ),
+    ...remoteConfiguration,
+    path: configuration.path,
+  } as CurrentAppConfiguration
+
+  const fileName = basename(configuration.path)
+  const diff = buildDiffConfigContent(pulledConfiguration, configuration, app.configSchema, false)
+  if (!diff) {
+    renderInfo({headline: `${fileName} is already up to date with the Partner Dashboard.`})
+    return
+  }
+
+  outputInfo(outputContent`${outputToken.linesDiff(diffLines(diff.baselineContent, diff.updatedContent))}`)
+
+  const confirmed =
+    options.force ||
+    (await renderConfirmationPrompt({
+      message: `Update ${fileName} with the configuration in the Partner Dashboard?`,
+      confirmationMessage: 'Yes, update the file',
+      cancellationMessage: 'No, keep the file as it is',
+    }))
+  if (!confirmed) throw new AbortSilentError()
+
+  const file = await readFile(configuration.path)
+  const {path: _path, ...fields} = pulledConfiguration
+  const ordered = orderLike(rewriteConfiguration(app.configSchema, fields), decodeToml(file))
+  await writeFile(configuration.path, keepTomlComments(file, encodeToml(ordered as object)))
+  setSyncedAppConfiguration(app.directory, fileName, remoteConfiguration)
+
+  renderSuccess({headline: `${fileName} is now up to date with the Partner Dashboard.`})
+}
+
+function isTable(value: unknown): value is {[key: string]: unknown} {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Orders the keys of a value like the keys of a reference value, and places
+ * the keys that the reference doesn't have after them.
+ */
+function orderLike(value: unknown, reference: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => orderLike(item, Array.isArray(reference) ? reference[index] : undefined))
+  }
+  if (!isTable(value)) return value
+
+  const referenceTable = isTable(reference) ? reference : {}
+  const keys = [
+    ...Object.keys(referenceTable).filter((key) => key in value),
+    ...Object.keys(value).filter((key) => !(key in referenceTable)),
+  ]
+  return Object.fromEntries(keys.map((key) => [key, orderLike(value[key], referenceTable[key])]))
+}
+
+/**
+ * Identifies the lines of a TOML file that define a table or a key, so the
+ * same line can be found in another version of the file.
+ */
+function tomlLineIds(lines: string[]): (string | undefined)[] {
+  const arrayTables: {[name: string]: number} = {}
+  let table = ''
+
+  return lines.map((line) => {
+    const trimmed = line.trim()
+    const arrayTable = trimmed.match(/^\[\[\s*([^\]]+?)\s*\]\]/)
+    if (arrayTable) {
+      const name = arrayTable[1]!
+      arrayTables[name] = (arrayTables[name] ?? -1) + 1
+      table = `[[${name}]]${arrayTables[name]}`
+      return table
+    }
+    const standardTable = trimmed.match(/^\[\s*([^\]]+?)\s*\]/)
+    if (standardTable) {
+      table = `[${standardTable[1]}]`
+      return table
+    }
+    const key = trimmed.match(/^([\w-]+|"[^"]*"|'[^']*')\s*=/)
+    return key ? `${table}${key[1]}` : undefined
+  })
+}
+
+/**
+ * Finds the comment at the end of a TOML line, outside of strings.
+ */
+function inlineComment(line: string): string | undefined {
+  let quote: string | undefined
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index]!
+    if (quote) {
+      if (char === '\\' && quote === '"') index++
+      else if (char === quote) quote = undefined
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '#') {
+      return line.slice(index)
+    }
+  }
+}
+
+/**
+ * Copies the comments of a TOML file to an updated version of it. Comments
+ * are placed before, or at the end of, the same table or key they were in the
+ * original file. Comments after the last table or key are kept at the end.
+ */
+function keepTomlComments(original: string, updated: string): string {
+  const originalLines = original.split(/\r?\n/)
+  const originalIds = tomlLineIds(originalLines)
+  const commentsBefore: {[id: string]: string[]} = {}
+  const commentsAtEnd: {[id: string]: string} = {}
+  let pending: string[] = []
+
+  originalLines.forEach((line, index) => {
+    const id = originalIds[index]
+    if (line.trim().startsWith('#') || (line.trim() === '' && pending.length > 0)) {
+      pending.push(line.trim())
+    } else if (id) {
+      if (pending.length > 0) commentsBefore[id] = pending
+      const comment = inlineComment(line)
+      if (comment) commentsAtEnd[id] = comment
+      pending = []
+    }
+  })
+
+  const updatedLines = updated.split('\n')
+  const updatedIds = tomlLineIds(updatedLines)
+  const lines = updatedLines.flatMap((line, index) => {
+    const id = updatedIds[index]
+    if (!id) return [line]
+    const indentation = line.match(/^\s*/)![0]
+    const comments = (commentsBefore[id] ?? []).map((comment) => (comment ? `${indentation}${comment}` : ''))
+    const comment = commentsAtEnd[id]
+    return [...comments, comment && !inlineComment(line) ? `${line} ${comment}` : line]
+  })
+
+  const trailingComments = pending.join('\n').trimEnd()
+  const file = [lines.join('\n').trimEnd(), ...(trailingComments ? [trailingComments] : [])].join('\n\n')
+  return `${file}\n`
+}
@@ -1,6 +1,7 @@
 import {buildFunctionExtension} from './extension.js'
 import {testFunctionExtension} from '../../models/app/app.test-data.js'
 import {buildJSFunction} from '../function/build.js'
+import {buildRustFunction, isRustFunction} from '../function/rust.js'
 import {ExtensionInstance} from '../../models/extensions/extension-instance.js'
 import {FunctionConfigType} from '../../models/extensions/specifications/function.js'
 import {beforeEach, describe, expect, test, vi} from 'vitest'
@@ -8,6 +9,7 @@ import {exec} from '@shopify/cli-kit/node/system'
 
 vi.mock('@shopify/cli-kit/node/system')
 vi.mock('../function/build.js')
+vi.mock('../function/rust.js')
 
 describe('buildFunctionExtension', () => {
   let extension: ExtensionInstance<FunctionConfigType>
@@ -77,6 +79,32 @@ describe('buildFunctionExtension', () => {
     ).rejects.toThrow()
   })
 
+  test('builds with cargo when is a Rust function and build command is not present', async () => {
+    // Given
+    extension.configuration.build.command = undefined
+    vi.mocked(isRustFunction).mockResolvedValue(true)
+
+    // When
+    await expect(
+      buildFunctionExtension(extension, {
+        stdout,
+        stderr,
+        signal,
+        app,
+        environment: 'production',
+      }),
+    ).resolves.toBeUndefined()
+
+    // Then
+    expect(buildRustFunction).toHaveBeenCalledWith(extension, {
+      stdout,
+      stderr,
+      signal,
+      app,
+      environment: 'production',
+    })
+  })
+
   test('succeeds when is a JS function and build command is not present', async () => {
     // Given
     extension = await testFunctionExtension({config: defaultConfig, entryPath: 'src/index.js'})
@@ -2,6 +2,7 @@ import {runThemeCheck} from './theme-check.js'
 import {AppInterface} from '../../models/app/app.js'
 import {bundleExtension} from '../extensions/bundle.js'
 import {buildJSFunction} from '../function/build.js'
+import {buildRustFunction, isRustFunction} from '../function/rust.js'
 import {ExtensionInstance} from '../../models/extensions/extension-instance.js'
 import {FunctionConfigType} from '../../models/extensions/specifications/function.js'
 import {exec} from '@shopify/cli-kit/node/system'
@@ -118,6 +119,10 @@ async function runCommandOrBuildJSFunction(extension: ExtensionInstance, options
 }
 
 async function buildOtherFunction(extension: ExtensionInstance, options: BuildFunctionExtensionOptions) {
+  const fun = extension as ExtensionInstance<FunctionConfigType>
+  if (!extension.buildCommand && (await isRustFunction(fun))) {
+    return buildRustFunction(fun, options)
+  }
   if (!extension.buildCommand) {
     options.stderr.write(
       `The function extension ${extension.localIdentifier} doesn't have a build command or it's empty`,
@@ -129,6 +134,7 @@ async function buildOtherFunction(extension: ExtensionInstance, options: BuildFu
     command = "{COMMAND}"
 
     Note that the command must output a dist/index.wasm file.
+    Rust functions, with a Cargo.toml file, are built with cargo when the command isn't set.
     `)
     throw new AbortSilentError()
   }
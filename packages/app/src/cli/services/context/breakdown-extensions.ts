@@ -164,6 +164,36 @@ async function resolveRemoteConfigExtensionIdentifiersBreakdown(
   }
 }
 
+/**
+ * Lists the global fields or global sections that have different values in two configurations, or that are only
+ * present in one of them.
+ *
+ * @param baselineConfig - The configuration to compare with
+ * @param updatedConfig - The configuration that may have changed
+ * @param schema - The schema of the configurations
+ * @returns The list of fields
+ */
+export function changedConfigFieldNames(
+  baselineConfig: object,
+  updatedConfig: object,
+  schema: AppInterface['configSchema'],
+): string[] {
+  const diffConfigContent = buildDiffConfigContent(
+    updatedConfig as CurrentAppConfiguration,
+    baselineConfig,
+    schema,
+    false,
+  )
+  if (!diffConfigContent) return []
+
+  return Array.from(
+    new Set([
+      ...getFieldsFromDiffConfigContent(diffConfigContent.baselineContent),
+      ...getFieldsFromDiffConfigContent(diffConfigContent.updatedContent),
+    ]),
+  )
+}
+
 /**
  * This method extracts the list of global fields or global sections from the string that represents a toml section like
  * this:
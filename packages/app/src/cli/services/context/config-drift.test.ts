@@ -0,0 +1,181 @@
+import {configDrift, ensureNoConfigDrift, recordSyncedAppConfiguration} from './config-drift.js'
+import {getSyncedAppConfiguration, setSyncedAppConfiguration} from '../local-storage.js'
+import {fetchAppRemoteConfiguration} from '../app/select-app.js'
+import pull from '../app/config/pull.js'
+import {
+  buildVersionedAppSchema,
+  testAppWithConfig,
+  testDeveloperPlatformClient,
+} from '../../models/app/app.test-data.js'
+import {AppInterface} from '../../models/app/app.js'
+import {describe, expect, test, vi} from 'vitest'
+import {renderSelectPrompt, renderWarning} from '@shopify/cli-kit/node/ui'
+import {AbortSilentError} from '@shopify/cli-kit/node/error'
+
+vi.mock('../local-storage.js')
+vi.mock('../app/select-app.js')
+vi.mock('../app/config/pull.js')
+vi.mock('@shopify/cli-kit/node/ui')
+
+const SYNCED_CONFIGURATION = {
+  name: 'my app',
+  application_url: 'https://example.com',
+  embedded: true,
+  access_scopes: {scopes: 'read_products'},
+  auth: {redirect_urls: ['https://example.com/auth/callback']},
+}
+
+const developerPlatformClient = testDeveloperPlatformClient()
+
+async function testAppWithRemoteConfiguration(local: object, remote: object): Promise<AppInterface> {
+  const {schema, configSpecifications} = await buildVersionedAppSchema()
+  vi.mocked(getSyncedAppConfiguration).mockReturnValue(SYNCED_CONFIGURATION)
+  vi.mocked(fetchAppRemoteConfiguration).mockResolvedValue({...SYNCED_CONFIGURATION, ...remote})
+  return testAppWithConfig({
+    config: {...SYNCED_CONFIGURATION, ...local},
+    app: {configSchema: schema, specifications: configSpecifications},
+  })
+}
+
+describe('configDrift', () => {
+  test('lists the fields changed remotely, and the ones changed both remotely and locally', async () => {
+    // Given
+    const {schema} = await buildVersionedAppSchema()
+    const remote = {
+      ...SYNCED_CONFIGURATION,
+      application_url: 'https://remote.example.com',
+      auth: {redirect_urls: ['https://remote.example.com/auth/callback']},
+    }
+    const local = {
+      ...SYNCED_CONFIGURATION,
+      access_scopes: {scopes: 'read_products,write_products'},
+      auth: {redirect_urls: ['https://local.example.com/auth/callback']},
+    }
+
+    // When
+    const got = configDrift(local, remote, SYNCED_CONFIGURATION, schema)
+
+    // Then
+    expect(got).toEqual({remoteFieldNames: ['application_url'], conflictingFieldNames: ['auth']})
+  })
+
+  test("doesn't list the fields changed to the same value remotely and locally", async () => {
+    // Given
+    const {schema} = await buildVersionedAppSchema()
+    const changed = {...SYNCED_CONFIGURATION, auth: {redirect_urls: ['https://new.example.com/auth/callback']}}
+
+    // When
+    const got = configDrift(changed, changed, SYNCED_CONFIGURATION, schema)
+
+    // Then
+    expect(got).toEqual({remoteFieldNames: [], conflictingFieldNames: []})
+  })
+})
+
+describe('ensureNoConfigDrift', () => {
+  test("doesn't fetch the remote configuration when the configuration file was never synced", async () => {
+    // Given
+    const app = await testAppWithRemoteConfiguration({}, {})
+    vi.mocked(getSyncedAppConfiguration).mockReturnValue(undefined)
+
+    // When
+    await ensureNoConfigDrift({app, apiKey: 'api-key', developerPlatformClient, force: false})
+
+    // Then
+    expect(fetchAppRemoteConfiguration).not.toHaveBeenCalled()
+  })
+
+  test("doesn't prompt when there is no drift", async () => {
+    // Given
+    const app = await testAppWithRemoteConfiguration({application_url: 'https://local.example.com'}, {})
+
+    // When
+    await ensureNoConfigDrift({app, apiKey: 'api-key', developerPlatformClient, force: false})
+
+    // Then
+    expect(renderWarning).not.toHaveBeenCalled()
+    expect(renderSelectPrompt).not.toHaveBeenCalled()
+  })
+
+  test('warns about the drift and continues when the user chooses to overwrite', async () => {
+    // Given
+    const app = await testAppWithRemoteConfiguration(
+      {auth: {redirect_urls: ['https://local.example.com/auth/callback']}},
+      {auth: {redirect_urls: ['https://remote.example.com/auth/callback']}},
+    )
+    vi.mocked(renderSelectPrompt).mockResolvedValue('overwrite')
+
+    // When
+    await ensureNoConfigDrift({app, apiKey: 'api-key', developerPlatformClient, force: false})
+
+    // Then
+    expect(fetchAppRemoteConfiguration).toHaveBeenCalledWith('api-key', developerPlatformClient, app.specifications, [])
+    expect(renderWarning).toHaveBeenCalledWith({
+      headline: 'The configuration in the Partner Dashboard changed since shopify.app.toml was last synced with it.',
+      body: 'Pushing shopify.app.toml would overwrite these changes.',
+      customSections: [
+        {title: 'Changed in the Partner Dashboard and in shopify.app.toml', body: {list: {items: ['auth']}}},
+      ],
+    })
+  })
+
+  test('aborts when the user chooses to abort', async () => {
+    // Given
+    const app = await testAppWithRemoteConfiguration({}, {application_url: 'https://remote.example.com'})
+    vi.mocked(renderSelectPrompt).mockResolvedValue('abort')
+
+    // When
+    const result = ensureNoConfigDrift({app, apiKey: 'api-key', developerPlatformClient, force: false})
+
+    // Then
+    await expect(result).rejects.toThrowError(AbortSilentError)
+    expect(pull).not.toHaveBeenCalled()
+  })
+
+  test('pulls the remote configuration and aborts when the user chooses to pull', async () => {
+    // Given
+    const app = await testAppWithRemoteConfiguration({}, {application_url: 'https://remote.example.com'})
+    vi.mocked(renderSelectPrompt).mockResolvedValue('pull')
+
+    // When
+    const result = ensureNoConfigDrift({app, apiKey: 'api-key', developerPlatformClient, force: false})
+
+    // Then
+    await expect(result).rejects.toThrowError(AbortSilentError)
+    expect(pull).toHaveBeenCalledWith({app, force: true, developerPlatformClient})
+  })
+
+  test("warns about the drift without prompting when it's forced", async () => {
+    // Given
+    const app = await testAppWithRemoteConfiguration({}, {application_url: 'https://remote.example.com'})
+
+    // When
+    await ensureNoConfigDrift({app, apiKey: 'api-key', developerPlatformClient, force: true})
+
+    // Then
+    expect(renderWarning).toHaveBeenCalled()
+    expect(renderSelectPrompt).not.toHaveBeenCalled()
+  })
+})
+
+describe('recordSyncedAppConfiguration', () => {
+  test('records the versioned fields of the configuration file', async () => {
+    // Given
+    const app = await testAppWithRemoteConfiguration({}, {})
+
+    // When
+    recordSyncedAppConfiguration(app)
+
+    // Then
+    expect(setSyncedAppConfiguration).toHaveBeenCalledWith(
+      '/tmp/project',
+      'shopify.app.toml',
+      expect.not.objectContaining({client_id: 'api-key'}),
+    )
+    expect(setSyncedAppConfiguration).toHaveBeenCalledWith(
+      '/tmp/project',
+      'shopify.app.toml',
+      expect.objectContaining(SYNCED_CONFIGURATION),
+    )
+  })
+})
@@ -0,0 +1,123 @@
+import {changedConfigFieldNames} from './breakdown-extensions.js'
+import {AppInterface, filterNonVersionedAppFields, isCurrentAppSchema} from '../../models/app/app.js'
+import {fetchAppRemoteConfiguration} from '../app/select-app.js'
+import pull from '../app/config/pull.js'
+import {getSyncedAppConfiguration, setSyncedAppConfiguration} from '../local-storage.js'
+import {DeveloperPlatformClient} from '../../utilities/developer-platform-client.js'
+import {AbortSilentError} from '@shopify/cli-kit/node/error'
+import {basename} from '@shopify/cli-kit/node/path'
+import {getPathValue} from '@shopify/cli-kit/common/object'
+import {renderInfo, renderSelectPrompt, renderWarning} from '@shopify/cli-kit/node/ui'
+
+/**
+ * The fields of the remote configuration that changed since a configuration
+ * file was last synced with it, and that pushing the file would overwrite.
+ */
+export interface ConfigDrift {
+  /** Fields changed remotely, and not locally */
+  remoteFieldNames: string[]
+
+  /** Fields changed both remotely and locally, to different values */
+  conflictingFieldNames: string[]
+}
+
+interface EnsureNoConfigDriftOptions {
+  app: AppInterface
+  apiKey: string
+  developerPlatformClient: DeveloperPlatformClient
+
+  /** If true, warn about the drift and overwrite the remote changes without asking */
+  force: boolean
+}
+
+/**
+ * Compares the local and remote configurations with the remote configuration
+ * the last time the configuration file was synced with it.
+ */
+export function configDrift(
+  localConfig: object,
+  remoteConfig: object,
+  syncedConfig: object,
+  schema: AppInterface['configSchema'],
+): ConfigDrift {
+  const remoteChanges = changedConfigFieldNames(syncedConfig, remoteConfig, schema)
+  const localChanges = changedConfigFieldNames(syncedConfig, localConfig, schema)
+  const differences = changedConfigFieldNames(remoteConfig, localConfig, schema)
+  const driftedFieldNames = remoteChanges.filter((field) => differences.includes(field))
+
+  return {
+    remoteFieldNames: driftedFieldNames.filter((field) => !localChanges.includes(field)),
+    conflictingFieldNames: driftedFieldNames.filter((field) => localChanges.includes(field)),
+  }
+}
+
+/**
+ * Makes sure that pushing the configuration file of an app doesn't overwrite
+ * changes made in the Partner Dashboard since the file was last synced with
+ * it. When it would, the user can abort, pull the remote configuration into
+ * the file, or overwrite the remote changes.
+ *
+ * Nothing is checked for configuration files that were never synced.
+ */
+export async function ensureNoConfigDrift(options: EnsureNoConfigDriftOptions) {
+  const {app} = options
+  const configuration = app.configuration
+  if (!isCurrentAppSchema(configuration)) return
+
+  const configFile = basename(configuration.path)
+  const syncedConfig = getSyncedAppConfiguration(app.directory, configFile)
+  if (!syncedConfig) return
+
+  const remoteConfig = await fetchAppRemoteConfiguration(
+    options.apiKey,
+    options.developerPlatformClient,
+    app.specifications ?? [],
+    app.remoteBetaFlags,
+  )
+  const drift = configDrift(versionedAppConfiguration(configuration), remoteConfig, syncedConfig, app.configSchema)
+  if (drift.remoteFieldNames.length === 0 && drift.conflictingFieldNames.length === 0) return
+
+  renderWarning({
+    headline: `The configuration in the Partner Dashboard changed since ${configFile} was last synced with it.`,
+    body: `Pushing ${configFile} would overwrite these changes.`,
+    customSections: [
+      {title: 'Changed in the Partner Dashboard', items: drift.remoteFieldNames},
+      {title: `Changed in the Partner Dashboard and in ${configFile}`, items: drift.conflictingFieldNames},
+    ]
+      .filter(({items}) => items.length > 0)
+      .map(({title, items}) => ({title, body: {list: {items}}})),
+  })
+  if (options.force) return
+
+  const choice = await renderSelectPrompt({
+    message: 'How do you want to continue?',
+    choices: [
+      {label: 'Abort', value: 'abort'},
+      {label: `Pull the configuration in the Partner Dashboard into ${configFile}`, value: 'pull'},
+      {label: `Overwrite the configuration in the Partner Dashboard with ${configFile}`, value: 'overwrite'},
+    ],
+  })
+  if (choice === 'overwrite') return
+
+  if (choice === 'pull') {
+    await pull({app, force: true, developerPlatformClient: options.developerPlatformClient})
+    renderInfo({headline: `Review the changes to ${configFile}, then run the command again.`})
+  }
+  throw new AbortSilentError()
+}
+
+/**
+ * Records the configuration file of an app as the remote configuration, once
+ * it has been pushed, to detect the changes made in the Partner Dashboard
+ * afterwards.
+ */
+export function recordSyncedAppConfiguration(app: AppInterface) {
+  if (!isCurrentAppSchema(app.configuration)) return
+  const configFile = basename(app.configuration.path)
+  setSyncedAppConfiguration(app.directory, configFile, versionedAppConfiguration(app.configuration))
+}
+
+function versionedAppConfiguration(configuration: object) {
+  const fields = filterNonVersionedAppFields(configuration as {[key: string]: unknown})
+  return Object.fromEntries(fields.map((field) => [field, getPathValue(configuration, field)]))
+}
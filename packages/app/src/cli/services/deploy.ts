@@ -3,6 +3,7 @@ import {uploadThemeExtensions, uploadExtensionsBundle, UploadExtensionsBundleOut
 
 import {ensureDeployContext} from './context.js'
 import {bundleAndBuildExtensions} from './deploy/bundle.js'
+import {ensureNoConfigDrift, recordSyncedAppConfiguration} from './context/config-drift.js'
 import {AppInterface} from '../models/app/app.js'
 import {updateAppIdentifiers} from '../models/app/identifiers.js'
 import {DeveloperPlatformClient, selectDeveloperPlatformClient} from '../utilities/developer-platform-client.js'
@@ -54,6 +55,10 @@ export async function deploy(options: DeployOptions) {
   let {app, identifiers, partnersApp, release} = await ensureDeployContext({...options, developerPlatformClient})
   const apiKey = identifiers.app
 
+  if (app.includeConfigOnDeploy) {
+    await ensureNoConfigDrift({app, apiKey, developerPlatformClient, force: options.force})
+  }
+
   outputNewline()
   if (release) {
     outputInfo(`Releasing a new app version as part of ${partnersApp.title}`)
@@ -122,6 +127,8 @@ export async function deploy(options: DeployOptions) {
 
       await renderTasks(tasks)
 
+      if (release && app.includeConfigOnDeploy) recordSyncedAppConfiguration(app)
+
       await outputCompletionMessage({
         app,
         release,
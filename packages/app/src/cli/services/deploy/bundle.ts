@@ -1,6 +1,9 @@
 import {AppInterface} from '../../models/app/app.js'
 import {Identifiers} from '../../models/app/identifiers.js'
 import {installJavy} from '../function/build.js'
+import {validateFunctionExports} from '../function/wasm-exports.js'
+import {ExtensionInstance} from '../../models/extensions/extension-instance.js'
+import {FunctionConfigType} from '../../models/extensions/specifications/function.js'
 import {zip} from '@shopify/cli-kit/node/archiver'
 import {renderConcurrent} from '@shopify/cli-kit/node/ui'
 import {AbortSignal} from '@shopify/cli-kit/node/abort'
@@ -34,6 +37,9 @@ export async function bundleAndBuildExtensions(options: BundleOptions) {
               options.identifiers,
               bundleDirectory,
             )
+            if (extension.isFunctionExtension) {
+              await validateFunctionExports(extension as ExtensionInstance<FunctionConfigType>)
+            }
           },
         }
       }),
@@ -9,6 +9,7 @@ import {
   updateURLs,
 } from './dev/urls.js'
 import {ensureDevContext, enableDeveloperPreview, disableDeveloperPreview, developerPreviewUpdate} from './context.js'
+import {ensureNoConfigDrift} from './context/config-drift.js'
 import {fetchAppPreviewMode} from './dev/fetch.js'
 import {installAppDependencies} from './dependencies.js'
 import {DevConfig, DevProcesses, setupDevProcesses} from './dev/processes/setup-dev-processes.js'
@@ -16,6 +17,7 @@ import {frontAndBackendConfig} from './dev/processes/utils.js'
 import {outputUpdateURLsResult, renderDev} from './dev/ui.js'
 import {DeveloperPreviewController} from './dev/ui/components/Dev.js'
 import {DevProcessFunction} from './dev/processes/types.js'
+import {DevProcessStatuses, launchWithReadiness} from './dev/processes/readiness.js'
 import {setCachedAppInfo} from './local-storage.js'
 import {canEnablePreviewMode} from './extensions/common.js'
 import {selectDeveloperPlatformClient} from '../utilities/developer-platform-client.js'
@@ -63,9 +65,9 @@ export interface DevOptions {
 export async function dev(commandOptions: DevOptions) {
   const config = await prepareForDev(commandOptions)
   await actionsBeforeSettingUpDevProcesses(config)
-  const {processes, graphiqlUrl, previewUrl} = await setupDevProcesses(config)
+  const {processes, statuses, graphiqlUrl, previewUrl} = await setupDevProcesses(config)
   await actionsBeforeLaunchingDevProcesses(config)
-  await launchDevProcesses({processes, previewUrl, graphiqlUrl, config})
+  await launchDevProcesses({processes, statuses, previewUrl, graphiqlUrl, config})
 }
 
 async function prepareForDev(commandOptions: DevOptions): Promise<DevConfig> {
@@ -92,6 +94,8 @@ async function prepareForDev(commandOptions: DevOptions): Promise<DevConfig> {
   const apiKey = remoteApp.apiKey
   let localApp = app
 
+  await ensureNoConfigDrift({app: localApp, apiKey, developerPlatformClient, force: false})
+
   if (!commandOptions.skipDependenciesInstallation && !localApp.usesWorkspaces) {
     localApp = await installAppDependencies(localApp)
   }
@@ -261,11 +265,13 @@ async function setupNetworkingOptions(
 
 async function launchDevProcesses({
   processes,
+  statuses,
   previewUrl,
   graphiqlUrl,
   config,
 }: {
   processes: DevProcesses
+  statuses: DevProcessStatuses
   previewUrl: string
   graphiqlUrl: string | undefined
   config: DevConfig
@@ -276,7 +282,8 @@ async function launchDevProcesses({
       prefix: process.prefix,
       action: async (stdout, stderr, signal) => {
         const fn = process.function as DevProcessFunction<typeof process.options>
-        return fn({stdout, stderr, abortSignal: signal}, process.options)
+        const context = {stdout, stderr, abortSignal: signal}
+        return launchWithReadiness(process, statuses, context, () => fn(context, process.options))
       },
     }
     return outputProcess
@@ -299,6 +306,7 @@ async function launchDevProcesses({
 
   return renderDev({
     processes: processesForTaskRunner,
+    statuses,
     previewUrl,
     graphiqlUrl,
     graphiqlPort: config.graphiqlPort,
@@ -0,0 +1,83 @@
+import {BaseProcess, DevProcessFunction} from './types.js'
+import {DEFAULT_READINESS_TIMEOUT} from './readiness.js'
+import {DevProcessConfiguration} from '../../../models/app/app.js'
+import {getAvailableTCPPort} from '@shopify/cli-kit/node/tcp'
+import {exec} from '@shopify/cli-kit/node/system'
+import {joinPath} from '@shopify/cli-kit/node/path'
+
+export interface CustomProcessOptions {
+  command: string
+  directory: string
+  port: number
+  pathPrefix?: string
+  env: {[name: string]: string}
+}
+
+/**
+ * A process declared in the `[[dev.processes]]` section of the app
+ * configuration, like a queue worker or a database studio.
+ */
+export interface CustomProcess extends BaseProcess<CustomProcessOptions> {
+  type: 'custom'
+}
+
+interface SetupCustomProcessesOptions {
+  processes: DevProcessConfiguration[]
+  appDirectory: string
+  proxyUrl: string
+  apiKey: string
+  apiSecret: string
+}
+
+export async function setupCustomProcesses({
+  processes,
+  appDirectory,
+  proxyUrl,
+  apiKey,
+  apiSecret,
+}: SetupCustomProcessesOptions): Promise<CustomProcess[]> {
+  return Promise.all(
+    processes.map(async (process) => {
+      const port = process.port ?? (await getAvailableTCPPort())
+      return {
+        type: 'custom',
+        prefix: process.name,
+        function: launchCustomProcess,
+        dependsOn: process.depends_on,
+        readiness: process.readiness && {
+          port,
+          httpPath: process.readiness.http_path,
+          timeout: process.readiness.timeout ?? DEFAULT_READINESS_TIMEOUT,
+          restarts: process.readiness.restarts,
+        },
+        options: {
+          command: process.command,
+          directory: process.directory ? joinPath(appDirectory, process.directory) : appDirectory,
+          port,
+          pathPrefix: process.path_prefix,
+          env: {
+            SHOPIFY_API_KEY: apiKey,
+            SHOPIFY_API_SECRET: apiSecret,
+            HOST: proxyUrl,
+            APP_URL: proxyUrl,
+            PORT: `${port}`,
+            ...process.env,
+          },
+        },
+      } as CustomProcess
+    }),
+  )
+}
+
+export const launchCustomProcess: DevProcessFunction<CustomProcessOptions> = async (
+  {stdout, stderr, abortSignal},
+  {command, directory, env},
+) => {
+  // Support for multiple sequential commands: `npm run build && npm run worker`
+  const commands = command.split('&&').map((cmd) => cmd.trim())
+  for (const current of commands) {
+    const [cmd, ...args] = current.split(' ')
+    // eslint-disable-next-line no-await-in-loop
+    await exec(cmd!, args, {cwd: directory, stdout, stderr, signal: abortSignal, env})
+  }
+}
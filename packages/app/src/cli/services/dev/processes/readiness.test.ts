@@ -0,0 +1,208 @@
+import {DevProcessStatuses, launchWithReadiness, trackDevProcesses, waitForReadiness} from './readiness.js'
+import {describe, expect, test, vi} from 'vitest'
+import {fetch} from '@shopify/cli-kit/node/http'
+import {getAvailableTCPPort} from '@shopify/cli-kit/node/tcp'
+import {AbortController} from '@shopify/cli-kit/node/abort'
+import {createServer} from 'net'
+import {Writable} from 'stream'
+
+vi.mock('@shopify/cli-kit/node/http')
+
+describe('waitForReadiness', () => {
+  test('returns true when the HTTP path responds without a server error', async () => {
+    // Given
+    const response = {status: 404}
+    vi.mocked(fetch).mockResolvedValue(response as Awaited<ReturnType<typeof fetch>>)
+
+    // When
+    const got = await waitForReadiness({port: 5555, httpPath: '/health', timeout: 1})
+
+    // Then
+    expect(got).toBe(true)
+    expect(fetch).toHaveBeenCalledWith('http://localhost:5555/health')
+  })
+
+  test('returns false when the HTTP path does not respond before the timeout', async () => {
+    // Given
+    vi.mocked(fetch).mockRejectedValue(new Error('connect ECONNREFUSED'))
+
+    // When
+    const got = await waitForReadiness({port: 5555, httpPath: '/health', timeout: 1})
+
+    // Then
+    expect(got).toBe(false)
+  })
+
+  test('returns true when the port accepts connections', async () => {
+    // Given
+    const port = await getAvailableTCPPort()
+    const server = createServer().listen(port, 'localhost')
+
+    try {
+      // When
+      const got = await waitForReadiness({port, timeout: 1})
+
+      // Then
+      expect(got).toBe(true)
+    } finally {
+      server.close()
+    }
+  })
+})
+
+describe('trackDevProcesses', () => {
+  test('tracks the processes with dependencies or a readiness check', () => {
+    // When
+    const got = trackDevProcesses([
+      {prefix: 'web', readiness: {port: 3000, timeout: 1}},
+      {prefix: 'worker', dependsOn: ['web']},
+      {prefix: 'graphiql'},
+    ])
+
+    // Then
+    expect(got.all()).toEqual({web: 'waiting', worker: 'waiting'})
+  })
+
+  test('fails when a dependency does not have a readiness check', () => {
+    // When
+    const got = () => trackDevProcesses([{prefix: 'web'}, {prefix: 'worker', dependsOn: ['web']}])
+
+    // Then
+    expect(got).toThrow("The process worker depends on web, which isn't a process with a readiness check.")
+  })
+
+  test('fails when the dependencies form a cycle', () => {
+    // When
+    const got = () =>
+      trackDevProcesses([
+        {prefix: 'web', dependsOn: ['worker'], readiness: {port: 3000, timeout: 1}},
+        {prefix: 'worker', dependsOn: ['web'], readiness: {port: 3001, timeout: 1}},
+      ])
+
+    // Then
+    expect(got).toThrow('The dependencies of the process web form a cycle.')
+  })
+})
+
+describe('DevProcessStatuses', () => {
+  test('holds the requests to a target until its process is settled', async () => {
+    // Given
+    const statuses = new DevProcessStatuses()
+    statuses.track('web', 'starting', 'http://localhost:3000')
+    let forwarded = false
+    const request = statuses.waitForTarget('http://localhost:3000').then(() => (forwarded = true))
+
+    // When
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    const forwardedBeforeReady = forwarded
+    statuses.update('web', 'ready')
+    await request
+
+    // Then
+    expect(forwardedBeforeReady).toBe(false)
+    expect(forwarded).toBe(true)
+    await expect(statuses.waitForTarget('http://localhost:4000')).resolves.toBeUndefined()
+  })
+  test('stops calling a listener once it unsubscribes', () => {
+    // Given
+    const statuses = new DevProcessStatuses()
+    const listener = vi.fn()
+    const unsubscribe = statuses.onUpdate(listener)
+    statuses.track('web', 'starting')
+
+    // When
+    unsubscribe()
+    statuses.update('web', 'ready')
+
+    // Then
+    expect(listener).toHaveBeenCalledOnce()
+    expect(listener).toHaveBeenCalledWith({web: 'starting'})
+  })
+})
+
+describe('launchWithReadiness', () => {
+  const output = () => new Writable({write: (_chunk, _encoding, callback) => callback()})
+
+  test('launches a process once its dependencies are ready and reports when it is ready', async () => {
+    // Given
+    vi.mocked(fetch).mockResolvedValue({status: 200} as Awaited<ReturnType<typeof fetch>>)
+    const statuses = trackDevProcesses([
+      {prefix: 'web', readiness: {port: 3000, timeout: 1}},
+      {prefix: 'worker', dependsOn: ['web'], readiness: {port: 3001, httpPath: '/', timeout: 1}},
+    ])
+    const context = {stdout: output(), stderr: output(), abortSignal: new AbortController().signal}
+    const launched: string[] = []
+
+    // When
+    const worker = launchWithReadiness(
+      {prefix: 'worker', dependsOn: ['web'], readiness: {port: 3001, httpPath: '/', timeout: 1}},
+      statuses,
+      context,
+      async () => {
+        launched.push('worker')
+      },
+    )
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    const launchedBeforeWeb = [...launched]
+    statuses.update('web', 'ready')
+    await worker
+
+    // Then
+    expect(launchedBeforeWeb).toEqual([])
+    expect(launched).toEqual(['worker'])
+    expect(statuses.all()).toEqual({web: 'ready', worker: 'ready'})
+  })
+
+  test('reports the process as crashed when it fails', async () => {
+    // Given
+    vi.mocked(fetch).mockRejectedValue(new Error('connect ECONNREFUSED'))
+    const readiness = {port: 3000, httpPath: '/', timeout: 1}
+    const statuses = trackDevProcesses([{prefix: 'web', readiness}])
+    const context = {stdout: output(), stderr: output(), abortSignal: new AbortController().signal}
+
+    // When
+    const got = launchWithReadiness({prefix: 'web', readiness}, statuses, context, async () => {
+      throw new Error('Exited with code 1')
+    })
+
+    // Then
+    await expect(got).rejects.toThrow('Exited with code 1')
+    expect(statuses.all()).toEqual({web: 'crashed'})
+  })
+  test('reports a process without a readiness check as crashed when it fails', async () => {
+    // Given
+    const statuses = trackDevProcesses([
+      {prefix: 'web', readiness: {port: 3000, timeout: 1}},
+      {prefix: 'worker', dependsOn: ['web']},
+    ])
+    statuses.update('web', 'ready')
+    const context = {stdout: output(), stderr: output(), abortSignal: new AbortController().signal}
+
+    // When
+    const got = launchWithReadiness({prefix: 'worker', dependsOn: ['web']}, statuses, context, async () => {
+      throw new Error('Exited with code 1')
+    })
+
+    // Then
+    await expect(got).rejects.toThrow('Exited with code 1')
+    expect(statuses.all()).toEqual({web: 'ready', worker: 'crashed'})
+  })
+
+  test('launches a process again when it crashes and its check allows restarts', async () => {
+    // Given
+    vi.mocked(fetch).mockResolvedValue({status: 200} as Awaited<ReturnType<typeof fetch>>)
+    const readiness = {port: 3000, httpPath: '/', timeout: 1, restarts: 1}
+    const statuses = trackDevProcesses([{prefix: 'web', readiness}])
+    const context = {stdout: output(), stderr: output(), abortSignal: new AbortController().signal}
+    const updates: string[] = []
+    statuses.onUpdate(({web}) => updates.push(web!))
+    const launch = vi.fn().mockRejectedValueOnce(new Error('Exited with code 1')).mockResolvedValueOnce(undefined)
+
+    // When
+    await launchWithReadiness({prefix: 'web', readiness}, statuses, context, launch)
+
+    // Then
+    expect(launch).toHaveBeenCalledTimes(2)
+    expect(updates).toEqual(['starting', 'restarting', 'ready'])
+  })
+})
@@ -0,0 +1,272 @@
+import {BaseProcess} from './types.js'
+import {AbortSignal} from '@shopify/cli-kit/node/abort'
+import {AbortError} from '@shopify/cli-kit/node/error'
+import {fetch} from '@shopify/cli-kit/node/http'
+import {sleep} from '@shopify/cli-kit/node/system'
+import {createConnection} from 'net'
+import {Writable} from 'stream'
+
+/**
+ * The seconds a process has to become ready when its check doesn't set a
+ * timeout.
+ */
+export const DEFAULT_READINESS_TIMEOUT = 30
+
+/**
+ * How to tell that a process listening on a port is ready to receive
+ * requests: an HTTP path that responds without a server error, or else a
+ * TCP connection that the port accepts.
+ */
+export interface ReadinessCheck {
+  port: number
+  httpPath?: string
+
+  /**
+   * The seconds the process has to become ready.
+   */
+  timeout: number
+
+  /**
+   * The times the process is launched again when it crashes. It isn't
+   * launched again by default.
+   */
+  restarts?: number
+}
+
+/**
+ * The status of a dev process that has dependencies or a readiness check.
+ * A process is unresponsive when it isn't ready before the timeout of its
+ * check, and restarting when it's launched again after a crash.
+ */
+export type DevProcessStatus = 'waiting' | 'starting' | 'ready' | 'unresponsive' | 'crashed' | 'restarting'
+
+/**
+ * The parts of a dev process that tell when it starts and when it's ready.
+ */
+type ProcessReadiness = Pick<BaseProcess<unknown>, 'prefix' | 'dependsOn' | 'readiness'>
+
+const SETTLED_STATUSES: DevProcessStatus[] = ['ready', 'unresponsive', 'crashed']
+
+/**
+ * Tracks the status of the dev processes, so processes can wait for their
+ * dependencies and the proxy can hold the requests to a process until it's
+ * ready.
+ */
+export class DevProcessStatuses {
+  private readonly statuses = new Map<string, DevProcessStatus>()
+  private readonly settled = new Map<string, {promise: Promise<void>; resolve: () => void}>()
+  private readonly targets = new Map<string, string>()
+  private readonly listeners = new Set<(statuses: {[name: string]: DevProcessStatus}) => void>()
+
+  /**
+   * Starts tracking a process.
+   *
+   * @param target - the URL the proxy forwards the requests of the process to
+   */
+  track(name: string, status: DevProcessStatus, target?: string) {
+    let resolveSettled = () => {}
+    const promise = new Promise<void>((resolve) => (resolveSettled = resolve))
+    this.settled.set(name, {promise, resolve: resolveSettled})
+    if (target) this.targets.set(target, name)
+    this.update(name, status)
+  }
+
+  update(name: string, status: DevProcessStatus) {
+    this.statuses.set(name, status)
+    if (SETTLED_STATUSES.includes(status)) this.settled.get(name)?.resolve()
+
+    const statuses = this.all()
+    this.listeners.forEach((listener) => listener(statuses))
+  }
+
+  all(): {[name: string]: DevProcessStatus} {
+    return Object.fromEntries(this.statuses)
+  }
+
+  /**
+   * Calls the listener with the statuses of every process when one changes.
+   *
+   * @returns a function that stops calling the listener
+   */
+  onUpdate(listener: (statuses: {[name: string]: DevProcessStatus}) => void) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Waits until a process is ready, unresponsive or crashed. It doesn't wait
+   * for processes that aren't tracked.
+   */
+  async waitForProcess(name: string) {
+    await this.settled.get(name)?.promise
+  }
+
+  /**
+   * Waits for the process the proxy forwards the requests of a URL to.
+   */
+  async waitForTarget(target: string) {
+    const name = this.targets.get(target)
+    if (name) await this.waitForProcess(name)
+  }
+}
+
+/**
+ * Tracks the processes that have dependencies or a readiness check, and
+ * checks that every dependency is a process with a readiness check and that
+ * no process depends on itself.
+ */
+export function trackDevProcesses(processes: ProcessReadiness[]): DevProcessStatuses {
+  const statuses = new DevProcessStatuses()
+  const checked = Object.fromEntries(
+    processes.filter((process) => process.readiness).map((process) => [process.prefix, process]),
+  )
+
+  processes.forEach((process) => {
+    process.dependsOn?.forEach((dependency) => {
+      if (!checked[dependency]) {
+        throw new AbortError(
+          `The process ${process.prefix} depends on ${dependency}, which isn't a process with a readiness check.`,
+        )
+      }
+    })
+    if (dependsOnItself(process, checked)) {
+      throw new AbortError(`The dependencies of the process ${process.prefix} form a cycle.`)
+    }
+
+    if (process.readiness) {
+      statuses.track(process.prefix, 'waiting', `http://localhost:${process.readiness.port}`)
+    } else if (process.dependsOn?.length) {
+      statuses.track(process.prefix, 'waiting')
+    }
+  })
+
+  return statuses
+}
+
+function dependsOnItself(process: ProcessReadiness, processes: {[prefix: string]: ProcessReadiness}) {
+  const visited = new Set<string>()
+  const pending = [...(process.dependsOn ?? [])]
+
+  while (pending.length > 0) {
+    const dependency = pending.pop()!
+    if (dependency === process.prefix) return true
+    if (!visited.has(dependency)) {
+      visited.add(dependency)
+      pending.push(...(processes[dependency]?.dependsOn ?? []))
+    }
+  }
+  return false
+}
+
+/**
+ * Launches a process once its dependencies are ready, and reports when it
+ * becomes ready or crashes. A process with a readiness check is launched
+ * again as many times as its check allows when it crashes.
+ */
+export async function launchWithReadiness(
+  process: ProcessReadiness,
+  statuses: DevProcessStatuses,
+  context: {stdout: Writable; stderr: Writable; abortSignal: AbortSignal},
+  launch: () => Promise<void>,
+) {
+  const {prefix, dependsOn = [], readiness} = process
+  const {stdout, stderr, abortSignal} = context
+
+  if (dependsOn.length > 0) {
+    stdout.write(`Waiting for ${dependsOn.join(', ')} to be ready`)
+    await Promise.all(dependsOn.map((dependency) => statuses.waitForProcess(dependency)))
+    if (abortSignal.aborted) return
+  }
+
+  if (!readiness) {
+    if (dependsOn.length === 0) return launch()
+
+    statuses.update(prefix, 'starting')
+    try {
+      await launch()
+    } catch (error) {
+      statuses.update(prefix, 'crashed')
+      throw error
+    }
+    return
+  }
+
+  const restarts = readiness.restarts ?? 0
+  let attempt = 0
+  let crashed = false
+
+  const reportReadiness = async (launchAttempt: number) => {
+    const ready = await waitForReadiness(readiness, abortSignal)
+    // The readiness of a launch that crashed isn't reported, a later launch reports its own
+    if (abortSignal.aborted || crashed || launchAttempt !== attempt) return
+
+    statuses.update(prefix, ready ? 'ready' : 'unresponsive')
+    if (ready) {
+      stdout.write(`Ready on port ${readiness.port}`)
+    } else {
+      stderr.write(`Not ready on port ${readiness.port} after ${readiness.timeout} seconds`)
+    }
+  }
+
+  while (true) {
+    statuses.update(prefix, attempt === 0 ? 'starting' : 'restarting')
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      await Promise.all([launch(), reportReadiness(attempt)])
+      return
+    } catch (error) {
+      if (abortSignal.aborted || attempt >= restarts) {
+        crashed = true
+        statuses.update(prefix, 'crashed')
+        throw error
+      }
+      attempt += 1
+      stderr.write(`Crashed, restarting (${attempt} of ${restarts})`)
+    }
+  }
+}
+
+/**
+ * Checks a process every half a second until it's ready.
+ *
+ * @returns whether the process became ready before the timeout or the abort
+ */
+export async function waitForReadiness(check: ReadinessCheck, abortSignal?: AbortSignal): Promise<boolean> {
+  const deadline = Date.now() + check.timeout * 1000
+
+  while (Date.now() < deadline && !abortSignal?.aborted) {
+    // eslint-disable-next-line no-await-in-loop
+    if (await isReady(check)) return true
+    // eslint-disable-next-line no-await-in-loop
+    await sleep(0.5)
+  }
+  return false
+}
+
+async function isReady({port, httpPath}: ReadinessCheck) {
+  if (httpPath === undefined) return acceptsConnections(port)
+
+  try {
+    const response = await fetch(`http://localhost:${port}${httpPath}`)
+    return response.status < 500
+  } catch (error) {
+    if (error instanceof Error) return false
+    throw error
+  }
+}
+
+function acceptsConnections(port: number) {
+  return new Promise<boolean>((resolve) => {
+    const socket = createConnection({port, host: 'localhost'})
+    socket.once('connect', () => {
+      socket.destroy()
+      resolve(true)
+    })
+    socket.once('error', () => {
+      socket.destroy()
+      resolve(false)
+    })
+  })
+}
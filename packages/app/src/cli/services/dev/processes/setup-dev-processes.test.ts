@@ -1,10 +1,12 @@
-import {DevConfig, setupDevProcesses, startProxyServer} from './setup-dev-processes.js'
+import {DevConfig, ProxyServerProcess, setupDevProcesses, startProxyServer} from './setup-dev-processes.js'
 import {sendWebhook} from './uninstall-webhook.js'
+import {WebhookInspectorProcess, launchWebhookInspector} from './webhook-inspector.js'
 import {WebProcess, launchWebProcess} from './web.js'
 import {PreviewableExtensionProcess, launchPreviewableExtensionProcess} from './previewable-extension.js'
 import {launchGraphiQLServer} from './graphiql.js'
 import {pushUpdatesForDraftableExtensions} from './draftable-extension.js'
 import {runThemeAppExtensionsServer} from './theme-app-extension.js'
+import {CustomProcess, launchCustomProcess} from './custom-process.js'
 import {
   testAppWithConfig,
   testDeveloperPlatformClient,
@@ -234,8 +236,22 @@ describe('setup-dev-processes', () => {
     const webPort = (res.processes[0] as WebProcess).options.port
     const hmrPort = (res.processes[0] as WebProcess).options.hmrServerOptions?.port
     const previewExtensionPort = (res.processes[2] as PreviewableExtensionProcess).options.port
+    const webhookInspectorPort = (res.processes[6] as WebhookInspectorProcess).options.port
 
     expect(res.processes[6]).toMatchObject({
+      type: 'webhook-inspector',
+      prefix: 'webhooks',
+      function: launchWebhookInspector,
+      options: {
+        apiSecret: 'api-secret',
+        appDirectory: '/tmp/project',
+        backendUrl: `http://localhost:${webPort}`,
+        port: expect.any(Number),
+        inspectorPort: expect.any(Number),
+        webhooksPath: '/webhooks',
+      },
+    })
+    expect(res.processes[7]).toMatchObject({
       type: 'proxy-server',
       prefix: 'proxy',
       function: startProxyServer,
@@ -244,10 +260,106 @@ describe('setup-dev-processes', () => {
         rules: {
           '/extensions': `http://localhost:${previewExtensionPort}`,
           '/ping': `http://localhost:${hmrPort}`,
+          '/webhooks': `http://localhost:${webhookInspectorPort}`,
           default: `http://localhost:${webPort}`,
           websocket: `http://localhost:${hmrPort}`,
         },
       },
     })
+    expect((res.processes[7] as ProxyServerProcess).options.rules).not.toHaveProperty('/.shopify/webhooks')
+  })
+  test('adds the processes of the app configuration', async () => {
+    // Given
+    const localApp = testAppWithConfig({
+      config: {
+        dev: {
+          processes: [
+            {name: 'worker', command: 'npm run worker', env: {QUEUE: 'default'}, depends_on: ['studio']},
+            {
+              name: 'studio',
+              command: 'npx prisma studio',
+              directory: 'prisma',
+              port: 5555,
+              path_prefix: '/studio',
+              readiness: {http_path: '/'},
+            },
+          ],
+        },
+      },
+      app: {webs: [], allExtensions: []},
+    })
+
+    // When
+    const res = await setupDevProcesses({
+      localApp,
+      commandOptions: {
+        directory: '',
+        reset: false,
+        update: false,
+        commandConfig: new Config({root: ''}),
+        skipDependenciesInstallation: false,
+        noTunnel: false,
+      },
+      network: {
+        proxyUrl: 'https://example.com/proxy',
+        proxyPort: 444,
+        backendPort: 111,
+        frontendPort: 222,
+        currentUrls: {applicationUrl: 'https://example.com/application', redirectUrlWhitelist: []},
+      },
+      remoteApp: {
+        apiKey: 'api-key',
+        apiSecret: 'api-secret',
+        id: '1234',
+        title: 'App',
+        organizationId: '5678',
+        grantedScopes: [],
+        betas: [],
+      },
+      remoteAppUpdated: false,
+      storeFqdn: 'store.myshopify.io',
+      storeId: '123456789',
+      developerPlatformClient,
+      partnerUrlsUpdated: false,
+      graphiqlPort: 1234,
+    })
+
+    // Then
+    const customProcesses = res.processes.filter((process) => process.type === 'custom') as CustomProcess[]
+    expect(customProcesses).toMatchObject([
+      {
+        prefix: 'worker',
+        function: launchCustomProcess,
+        dependsOn: ['studio'],
+        options: {
+          command: 'npm run worker',
+          directory: '/tmp/project',
+          port: expect.any(Number),
+          env: {
+            SHOPIFY_API_KEY: 'api-key',
+            SHOPIFY_API_SECRET: 'api-secret',
+            HOST: 'https://example.com/proxy',
+            QUEUE: 'default',
+          },
+        },
+      },
+      {
+        prefix: 'studio',
+        function: launchCustomProcess,
+        readiness: {port: 5555, httpPath: '/', timeout: 30},
+        options: {
+          command: 'npx prisma studio',
+          directory: '/tmp/project/prisma',
+          port: 5555,
+          pathPrefix: '/studio',
+          env: {PORT: '5555'},
+        },
+      },
+    ])
+    expect(res.processes.at(-1)).toMatchObject({
+      type: 'proxy-server',
+      options: {rules: {'/studio': 'http://localhost:5555'}, statuses: res.statuses},
+    })
+    expect(res.statuses.all()).toEqual({worker: 'waiting', studio: 'waiting'})
   })
 })
@@ -3,10 +3,13 @@ import {PreviewThemeAppExtensionsProcess, setupPreviewThemeAppExtensionsProcess}
 import {PreviewableExtensionProcess, setupPreviewableExtensionsProcess} from './previewable-extension.js'
 import {DraftableExtensionProcess, setupDraftableExtensionsProcess} from './draftable-extension.js'
 import {SendWebhookProcess, setupSendUninstallWebhookProcess} from './uninstall-webhook.js'
+import {WebhookInspectorProcess, setupWebhookInspectorProcess} from './webhook-inspector.js'
 import {GraphiQLServerProcess, setupGraphiQLServerProcess} from './graphiql.js'
 import {WebProcess, setupWebProcesses} from './web.js'
+import {CustomProcess, setupCustomProcesses} from './custom-process.js'
+import {DevProcessStatuses, trackDevProcesses} from './readiness.js'
 import {environmentVariableNames} from '../../../constants.js'
-import {AppInterface, getAppScopes} from '../../../models/app/app.js'
+import {AppInterface, getAppScopes, isCurrentAppSchema} from '../../../models/app/app.js'
 
 import {OrganizationApp} from '../../../models/organization.js'
 import {DevOptions} from '../../dev.js'
@@ -17,18 +20,31 @@ import {DeveloperPlatformClient} from '../../../utilities/developer-platform-cli
 import {getAvailableTCPPort} from '@shopify/cli-kit/node/tcp'
 import {isTruthy} from '@shopify/cli-kit/node/context/utilities'
 
-export interface ProxyServerProcess extends BaseProcess<{port: number; rules: {[key: string]: string}}> {
+interface ProxyServerOptions {
+  port: number
+  rules: {[key: string]: string}
+
+  /**
+   * The statuses of the processes, to hold the requests to a process until
+   * it's ready.
+   */
+  statuses?: DevProcessStatuses
+}
+
+export interface ProxyServerProcess extends BaseProcess<ProxyServerOptions> {
   type: 'proxy-server'
 }
 
 type DevProcessDefinition =
   | SendWebhookProcess
+  | WebhookInspectorProcess
   | PreviewThemeAppExtensionsProcess
   | WebProcess
   | ProxyServerProcess
   | PreviewableExtensionProcess
   | DraftableExtensionProcess
   | GraphiQLServerProcess
+  | CustomProcess
 
 export type DevProcesses = DevProcessDefinition[]
 
@@ -69,6 +85,7 @@ export async function setupDevProcesses({
   graphiqlKey,
 }: DevConfig): Promise<{
   processes: DevProcesses
+  statuses: DevProcessStatuses
   previewUrl: string
   graphiqlUrl: string | undefined
 }> {
@@ -139,10 +156,25 @@ export async function setupDevProcesses({
       apiSecret,
       remoteAppUpdated,
     }),
+    setupWebhookInspectorProcess({
+      webs: localApp.webs,
+      apiSecret,
+      appDirectory: localApp.directory,
+    }),
+    ...(await setupCustomProcesses({
+      processes: isCurrentAppSchema(localApp.configuration) ? localApp.configuration.dev?.processes ?? [] : [],
+      appDirectory: localApp.directory,
+      proxyUrl: network.proxyUrl,
+      apiKey,
+      apiSecret,
+    })),
   ].filter(stripUndefineds)
 
+  // Track the processes that others wait for, or that the proxy holds the requests of
+  const statuses = trackDevProcesses(processes)
+
   // Add http server proxy & configure ports, for processes that need it
-  const processesWithProxy = await setPortsAndAddProxyProcess(processes, network.proxyPort)
+  const processesWithProxy = await setPortsAndAddProxyProcess(processes, network.proxyPort, statuses)
 
   // Decide on the appropriate preview URL for a session with these processes
   const anyPreviewableExtensions = processesWithProxy.filter((process) => process.type === 'previewable-extension')
@@ -150,6 +182,7 @@ export async function setupDevProcesses({
 
   return {
     processes: processesWithProxy,
+    statuses,
     previewUrl,
     graphiqlUrl: shouldRenderGraphiQL
       ? `http://localhost:${graphiqlPort}/graphiql${graphiqlKey ? `?key=${graphiqlKey}` : ''}`
@@ -161,7 +194,11 @@ const stripUndefineds = <T>(process: T | undefined | false): process is T => {
   return process !== undefined && process !== false
 }
 
-async function setPortsAndAddProxyProcess(processes: DevProcesses, proxyPort: number): Promise<DevProcesses> {
+async function setPortsAndAddProxyProcess(
+  processes: DevProcesses,
+  proxyPort: number,
+  statuses: DevProcessStatuses,
+): Promise<DevProcesses> {
   // Convert processes that use proxying to have a port number and register their mapping rules
   const processesAndRules = await Promise.all(
     processes.map(async (process) => {
@@ -180,6 +217,15 @@ async function setPortsAndAddProxyProcess(processes: DevProcesses, proxyPort: nu
         const targetPort = await getAvailableTCPPort()
         rules[process.options.pathPrefix] = `http://localhost:${targetPort}`
         process.options.port = targetPort
+      } else if (process.type === 'webhook-inspector') {
+        const targetPort = await getAvailableTCPPort()
+        // The inspector page isn't proxied, so it can't be reached through the tunnel
+        const inspectorPort = await getAvailableTCPPort()
+        rules[process.options.webhooksPath] = `http://localhost:${targetPort}`
+        process.options.port = targetPort
+        process.options.inspectorPort = inspectorPort
+      } else if (process.type === 'custom' && process.options.pathPrefix) {
+        rules[process.options.pathPrefix] = `http://localhost:${process.options.port}`
       }
 
       return {process, rules}
@@ -189,6 +235,11 @@ async function setPortsAndAddProxyProcess(processes: DevProcesses, proxyPort: nu
   const newProcesses = processesAndRules.map(({process}) => process)
   const allRules = processesAndRules.map(({rules}) => rules).reduce((acc, rules) => ({...acc, ...rules}), {})
 
+  // The webhook inspector forwards the deliveries to the web that the proxy sends the other requests to
+  newProcesses.forEach((process) => {
+    if (process.type === 'webhook-inspector') process.options.backendUrl = allRules.default ?? ''
+  })
+
   if (Object.keys(allRules).length > 0) {
     newProcesses.push({
       type: 'proxy-server',
@@ -197,6 +248,7 @@ async function setPortsAndAddProxyProcess(processes: DevProcesses, proxyPort: nu
       options: {
         port: proxyPort,
         rules: allRules,
+        statuses,
       },
     })
   }
@@ -204,10 +256,14 @@ async function setPortsAndAddProxyProcess(processes: DevProcesses, proxyPort: nu
   return newProcesses
 }
 
-export const startProxyServer: DevProcessFunction<{port: number; rules: {[key: string]: string}}> = async (
+export const startProxyServer: DevProcessFunction<ProxyServerOptions> = async (
   {abortSignal},
-  {port, rules},
+  {port, rules, statuses},
 ) => {
-  const {server} = await getProxyingWebServer(rules, abortSignal)
+  const {server} = await getProxyingWebServer(
+    rules,
+    abortSignal,
+    statuses && ((target) => statuses.waitForTarget(target)),
+  )
   await server.listen(port)
 }
@@ -1,3 +1,4 @@
+import {ReadinessCheck} from './readiness.js'
 import {AbortSignal} from '@shopify/cli-kit/node/abort'
 
 import {Writable} from 'node:stream'
@@ -11,4 +12,14 @@ export interface BaseProcess<T> {
   prefix: string
   function: DevProcessFunction<T>
   options: T
+
+  /**
+   * The prefixes of the processes that must be ready before this one starts.
+   */
+  dependsOn?: string[]
+
+  /**
+   * How to tell that the process is ready to receive requests.
+   */
+  readiness?: ReadinessCheck
 }
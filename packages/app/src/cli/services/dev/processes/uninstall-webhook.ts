@@ -1,5 +1,5 @@
 import {BaseProcess, DevProcessFunction} from './types.js'
-import {frontAndBackendConfig} from './utils.js'
+import {frontAndBackendConfig, webhooksPathForWebs} from './utils.js'
 import {sendUninstallWebhookToAppServer} from '../../webhook/send-app-uninstalled-webhook.js'
 import {Web} from '../../../models/app/app.js'
 
@@ -38,8 +38,7 @@ export function setupSendUninstallWebhookProcess({
   webs: Web[]
 }): SendWebhookProcess | undefined {
   const {backendConfig, frontendConfig} = frontAndBackendConfig(webs)
-  const webhooksPath =
-    webs.map(({configuration}) => configuration.webhooks_path).find((path) => path) || '/api/webhooks'
+  const webhooksPath = webhooksPathForWebs(webs)
   const sendUninstallWebhook = Boolean(webhooksPath) && remoteAppUpdated && Boolean(frontendConfig || backendConfig)
   if (!sendUninstallWebhook) {
     return
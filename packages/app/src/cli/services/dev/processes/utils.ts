@@ -6,3 +6,10 @@ export function frontAndBackendConfig(webs: Web[]) {
   const backendConfig = webs.find((web) => isWebType(web, WebType.Backend))
   return {frontendConfig, backendConfig}
 }
+
+/**
+ * The path where the webs of an app receive webhook deliveries.
+ */
+export function webhooksPathForWebs(webs: Web[]) {
+  return webs.map(({configuration}) => configuration.webhooks_path).find((path) => path) || '/api/webhooks'
+}
@@ -1,5 +1,6 @@
 import {BaseProcess} from './types.js'
 import {frontAndBackendConfig} from './utils.js'
+import {DEFAULT_READINESS_TIMEOUT} from './readiness.js'
 import {Web, WebType} from '../../../models/app/app.js'
 import {isWebType} from '../../../models/app/loader.js'
 import {AbortSignal} from '@shopify/cli-kit/node/abort'
@@ -60,10 +61,19 @@ export async function setupWebProcesses({
           }
         : undefined
 
+    const readiness = web.configuration.readiness
+
     return {
       type: 'web',
       prefix: web.configuration.name ?? ['web', ...web.configuration.roles].join('-'),
       function: launchWebProcess,
+      dependsOn: web.configuration.depends_on,
+      readiness: readiness && {
+        port: web.configuration.port || port,
+        httpPath: readiness.http_path,
+        timeout: readiness.timeout ?? DEFAULT_READINESS_TIMEOUT,
+        restarts: readiness.restarts,
+      },
       options: {
         port,
         portFromConfig: web.configuration.port,
@@ -0,0 +1,60 @@
+import {BaseProcess, DevProcessFunction} from './types.js'
+import {frontAndBackendConfig, webhooksPathForWebs} from './utils.js'
+import {WEBHOOK_INSPECTOR_PATH, setupWebhookInspectorServer} from '../webhook-inspector/server.js'
+import {Web} from '../../../models/app/app.js'
+
+export interface WebhookInspectorOptions {
+  port: number
+
+  /**
+   * The localhost-only port of the page that lists the captured deliveries.
+   */
+  inspectorPort: number
+  webhooksPath: string
+
+  /**
+   * The URL of the web process the deliveries are forwarded to.
+   */
+  backendUrl: string
+  apiSecret: string
+  appDirectory: string
+}
+
+export interface WebhookInspectorProcess extends BaseProcess<WebhookInspectorOptions> {
+  type: 'webhook-inspector'
+}
+
+export const launchWebhookInspector: DevProcessFunction<WebhookInspectorOptions> = async (
+  {stdout, abortSignal},
+  options,
+) => {
+  const httpServers = await setupWebhookInspectorServer({...options, stdout})
+  stdout.write(`Inspect the webhook deliveries at http://localhost:${options.inspectorPort}${WEBHOOK_INSPECTOR_PATH}`)
+  abortSignal.addEventListener('abort', async () => {
+    httpServers.forEach((httpServer) => httpServer.close())
+  })
+}
+
+export function setupWebhookInspectorProcess({
+  webs,
+  ...options
+}: Pick<WebhookInspectorOptions, 'apiSecret' | 'appDirectory'> & {
+  webs: Web[]
+}): WebhookInspectorProcess | undefined {
+  const {backendConfig, frontendConfig} = frontAndBackendConfig(webs)
+  if (!backendConfig && !frontendConfig) return
+
+  return {
+    type: 'webhook-inspector',
+    prefix: 'webhooks',
+    function: launchWebhookInspector,
+    options: {
+      // The ports and the backend URL are set with the rules of the proxy
+      port: -1,
+      inspectorPort: -1,
+      backendUrl: '',
+      webhooksPath: webhooksPathForWebs(webs),
+      ...options,
+    },
+  }
+}
@@ -64,6 +64,7 @@ export async function outputUpdateURLsResult(
 
 export async function renderDev({
   processes,
+  statuses,
   previewUrl,
   app,
   abortController,
@@ -75,6 +76,7 @@ export async function renderDev({
     return render(
       <Dev
         processes={processes}
+        statuses={statuses}
         abortController={abortController}
         previewUrl={previewUrl}
         app={app}
@@ -1,4 +1,5 @@
 import {Dev} from './Dev.js'
+import {DevProcessStatuses} from '../../processes/readiness.js'
 import {fetchAppPreviewMode} from '../../fetch.js'
 import {
   getLastFrameAfterUnmount,
@@ -941,6 +942,34 @@ describe('Dev', () => {
       "
     `)
 
+    // unmount so that polling is cleared after every test
+    renderInstance.unmount()
+  })
+  test('renders the status of the processes', async () => {
+    // Given
+    const statuses = new DevProcessStatuses()
+    statuses.track('web', 'starting')
+    statuses.track('worker', 'waiting')
+
+    const renderInstance = render(
+      <Dev
+        processes={[]}
+        statuses={statuses}
+        abortController={new AbortController()}
+        previewUrl="https://shopify.com"
+        graphiqlPort={1234}
+        app={{...testApp, canEnablePreviewMode: false}}
+        developerPreview={developerPreview}
+      />,
+    )
+    await waitForContent(renderInstance, 'Processes: web starting worker waiting')
+
+    // When
+    statuses.update('web', 'ready')
+
+    // Then
+    await waitForContent(renderInstance, 'Processes: web ready worker waiting')
+
     // unmount so that polling is cleared after every test
     renderInstance.unmount()
   })
@@ -1,4 +1,5 @@
 import metadata from '../../../../metadata.js'
+import {DevProcessStatus, DevProcessStatuses} from '../../processes/readiness.js'
 import {OutputProcess} from '@shopify/cli-kit/node/output'
 import {ConcurrentOutput} from '@shopify/cli-kit/node/ui/components'
 import {useAbortSignal} from '@shopify/cli-kit/node/ui/hooks'
@@ -21,6 +22,7 @@ export interface DeveloperPreviewController {
 
 export interface DevProps {
   processes: OutputProcess[]
+  statuses?: DevProcessStatuses
   abortController: AbortController
   previewUrl: string
   graphiqlUrl?: string
@@ -36,9 +38,19 @@ export interface DevProps {
   isEditionWeek?: boolean
 }
 
+const STATUS_COLORS: {[status in DevProcessStatus]: string} = {
+  waiting: 'dim',
+  starting: 'yellow',
+  ready: 'green',
+  unresponsive: 'red',
+  crashed: 'red',
+  restarting: 'yellow',
+}
+
 const Dev: FunctionComponent<DevProps> = ({
   abortController,
   processes,
+  statuses,
   previewUrl,
   graphiqlUrl = '',
   graphiqlPort,
@@ -72,6 +84,10 @@ const Dev: FunctionComponent<DevProps> = ({
     await developerPreview.disable()
   })
 
+  const [processStatuses, setProcessStatuses] = useState(statuses?.all() ?? {})
+
+  useEffect(() => statuses?.onUpdate(setProcessStatuses), [statuses])
+
   const [devPreviewEnabled, setDevPreviewEnabled] = useState<boolean>(true)
   const [error, setError] = useState<string | undefined>(undefined)
 
@@ -244,6 +260,17 @@ const Dev: FunctionComponent<DevProps> = ({
           <Box marginTop={canUseShortcuts ? 1 : 0}>
             <Text>{statusMessage}</Text>
           </Box>
+          {Object.keys(processStatuses).length > 0 ? (
+            <Text>
+              Processes:
+              {Object.entries(processStatuses).map(([name, status]) => (
+                <Text key={name}>
+                  {' '}
+                  {name} <Text color={STATUS_COLORS[status]}>{status}</Text>
+                </Text>
+              ))}
+            </Text>
+          ) : null}
           {error ? <Text color="red">{error}</Text> : null}
         </Box>
       ) : null}
@@ -0,0 +1,216 @@
+import {
+  CapturedDelivery,
+  capturedDeliveryId,
+  forwardDelivery,
+  isValidWebhookHmac,
+  loadCapturedDeliveries,
+  resendCapturedDelivery,
+  saveCapturedDelivery,
+} from '../../webhook/captured-deliveries.js'
+import express from 'express'
+import bodyParser from 'body-parser'
+import {AbortError} from '@shopify/cli-kit/node/error'
+import {outputDebug} from '@shopify/cli-kit/node/output'
+import {Server} from 'http'
+import {Writable} from 'stream'
+
+/**
+ * The path of the inspector server where the captured deliveries are listed.
+ */
+export const WEBHOOK_INSPECTOR_PATH = '/.shopify/webhooks'
+
+/**
+ * The largest webhook body that's captured. Deliveries can be much bigger
+ * than the 100 KB that body-parser accepts by default.
+ */
+const MAX_WEBHOOK_BODY_SIZE = '50mb'
+
+interface SetupWebhookInspectorServerOptions {
+  stdout: Writable
+
+  /**
+   * The port the proxy sends the requests to the webhooks path to.
+   */
+  port: number
+
+  /**
+   * The port the inspector page is served on. It only listens on localhost,
+   * so the deliveries can't be read or resent through the tunnel.
+   */
+  inspectorPort: number
+  webhooksPath: string
+  backendUrl: string
+  apiSecret: string
+  appDirectory: string
+}
+
+/**
+ * Starts a server that receives the webhook deliveries sent to the webhooks
+ * path of the app, and captures them with the response of the backend they're
+ * forwarded to. The requests that aren't deliveries are forwarded unchanged.
+ *
+ * The captured deliveries are listed at {@link WEBHOOK_INSPECTOR_PATH} by a
+ * second server that only listens on localhost.
+ */
+export async function setupWebhookInspectorServer({
+  stdout,
+  port,
+  inspectorPort,
+  webhooksPath,
+  backendUrl,
+  apiSecret,
+  appDirectory,
+}: SetupWebhookInspectorServerOptions): Promise<Server[]> {
+  outputDebug(`Setting up the webhook inspector HTTP servers on ports ${port} and ${inspectorPort}...`, stdout)
+  const app = express()
+  const inspector = express()
+
+  // Lazy-importing it because it's CJS and we don't want it
+  // to block the loading of the ESM module graph.
+  const {default: httpProxy} = await import('http-proxy')
+  const proxy = httpProxy.createProxy()
+
+  // eslint-disable-next-line @typescript-eslint/no-misused-promises
+  inspector.get(WEBHOOK_INSPECTOR_PATH, async (_req, res) => {
+    try {
+      res.send(inspectorPage(await loadCapturedDeliveries(appDirectory)))
+      // eslint-disable-next-line no-catch-all/no-catch-all
+    } catch (error) {
+      res.status(500).send(errorMessage(error))
+    }
+  })
+
+  // eslint-disable-next-line @typescript-eslint/no-misused-promises
+  inspector.post(`${WEBHOOK_INSPECTOR_PATH}/:id/resend`, async (req, res) => {
+    try {
+      const delivery = await resendCapturedDelivery(appDirectory, req.params.id, backendUrl)
+      stdout.write(deliverySummary(delivery))
+      res.redirect(WEBHOOK_INSPECTOR_PATH)
+      // eslint-disable-next-line no-catch-all/no-catch-all
+    } catch (error) {
+      res.status(error instanceof AbortError ? 404 : 500).send(errorMessage(error))
+    }
+  })
+
+  // The HMAC is computed on the raw body, so it's read as text whatever its type
+  // eslint-disable-next-line @typescript-eslint/no-misused-promises
+  app.post(`${webhooksPath}*`, bodyParser.text({type: '*/*', limit: MAX_WEBHOOK_BODY_SIZE}), async (req, res) => {
+    const body = typeof req.body === 'string' ? req.body : ''
+    const headers = Object.fromEntries(
+      Object.entries(req.headers).map(([name, value]) => [name, [value ?? ''].flat().join(', ')]),
+    )
+    const hmac = req.header('x-shopify-hmac-sha256')
+
+    const delivery = await forwardDelivery(
+      {
+        id: capturedDeliveryId(),
+        receivedAt: new Date().toISOString(),
+        topic: req.header('x-shopify-topic'),
+        path: req.originalUrl,
+        headers,
+        body,
+        hmacValid: isValidWebhookHmac(apiSecret, body, hmac),
+      },
+      backendUrl,
+    )
+
+    // The response of the backend is sent first, so the delivery doesn't wait for it to be captured
+    if (delivery.response) {
+      res.status(delivery.response.status).send(delivery.response.body)
+    } else {
+      res.status(502).send(delivery.error)
+    }
+    stdout.write(deliverySummary(delivery))
+
+    try {
+      await saveCapturedDelivery(appDirectory, delivery)
+      // eslint-disable-next-line no-catch-all/no-catch-all
+    } catch (error) {
+      stdout.write(`The delivery ${delivery.id} couldn't be captured: ${errorMessage(error)}`)
+    }
+  })
+
+  // Only the POST requests are deliveries, the rest reach the backend as they are
+  app.all(`${webhooksPath}*`, (req, res) => {
+    proxy.web(req, res, {target: backendUrl}, (error) => {
+      res.status(502).send(errorMessage(error))
+    })
+  })
+
+  return [
+    app.listen(port, () => stdout.write(`Webhook inspector started on port ${port}`)),
+    inspector.listen(inspectorPort, 'localhost'),
+  ]
+}
+
+/**
+ * Summarizes a delivery in a line of the output of `app dev`.
+ */
+export function deliverySummary(delivery: CapturedDelivery) {
+  const result = delivery.response ? `${delivery.response.status}` : `failed (${delivery.error})`
+  const hmac = delivery.hmacValid ? 'valid HMAC' : 'invalid HMAC'
+  return `${delivery.id} ${delivery.topic ?? 'unknown topic'} → ${delivery.path}: ${result}, ${hmac}`
+}
+
+function inspectorPage(deliveries: CapturedDelivery[]) {
+  const rows = deliveries.map(
+    (delivery) => `
+      <tr>
+        <td>${escapeHtml(delivery.id)}</td>
+        <td>${escapeHtml(delivery.receivedAt)}</td>
+        <td>${escapeHtml(delivery.topic ?? '')}</td>
+        <td>${escapeHtml(delivery.path)}</td>
+        <td>${delivery.hmacValid ? 'Valid' : 'Invalid'}</td>
+        <td>${escapeHtml(delivery.response ? `${delivery.response.status}` : delivery.error ?? '')}</td>
+        <td>
+          <details>
+            <summary>Request</summary>
+            <pre>${escapeHtml(JSON.stringify(delivery.headers, null, 2))}</pre>
+            <pre>${escapeHtml(delivery.body)}</pre>
+            <pre>${escapeHtml(delivery.response?.body ?? '')}</pre>
+          </details>
+        </td>
+        <td>
+          <form method="post" action="${WEBHOOK_INSPECTOR_PATH}/${encodeURIComponent(delivery.id)}/resend">
+            <button type="submit">Resend</button>
+          </form>
+        </td>
+      </tr>`,
+  )
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>Webhook deliveries</title>
+    <style>
+      body { font-family: sans-serif; margin: 2rem; }
+      table { border-collapse: collapse; width: 100%; }
+      th, td { border-bottom: 1px solid #ddd; padding: 0.5rem; text-align: left; vertical-align: top; }
+      pre { white-space: pre-wrap; max-width: 40rem; }
+    </style>
+  </head>
+  <body>
+    <h1>Webhook deliveries</h1>
+    <table>
+      <tr>
+        <th>Id</th><th>Received at</th><th>Topic</th><th>Path</th><th>HMAC</th><th>Response</th><th></th><th></th>
+      </tr>
+      ${rows.join('')}
+    </table>
+  </body>
+</html>`
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
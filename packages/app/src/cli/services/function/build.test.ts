@@ -1,7 +1,15 @@
-import {buildGraphqlTypes, bundleExtension, runFunctionRunner, runJavy, ExportJavyBuilder, jsExports} from './build.js'
+import {
+  buildGraphqlTypes,
+  bundleExtension,
+  captureFunctionRunner,
+  runFunctionRunner,
+  runJavy,
+  ExportJavyBuilder,
+  jsExports,
+} from './build.js'
 import {testApp, testFunctionExtension} from '../../models/app/app.test-data.js'
 import {beforeEach, describe, expect, test, vi} from 'vitest'
-import {exec} from '@shopify/cli-kit/node/system'
+import {captureOutput, exec} from '@shopify/cli-kit/node/system'
 import {joinPath} from '@shopify/cli-kit/node/path'
 import {inTemporaryDirectory, mkdir, writeFile} from '@shopify/cli-kit/node/fs'
 import {build as esBuild} from 'esbuild'
@@ -256,6 +264,35 @@ describe('runFunctionRunner', () => {
   })
 })
 
+describe('captureFunctionRunner', () => {
+  test('passes the input to function runner and returns the parsed result', async () => {
+    // Given
+    const ourFunction = await testFunctionExtension()
+    const result = {name: 'my-function', size: 1, memory_usage: 2, instructions: 3, logs: '', input: {}, output: {}}
+    vi.mocked(captureOutput).mockResolvedValue(JSON.stringify(result))
+
+    // When
+    const got = await captureFunctionRunner(ourFunction, {input: '{"cart":{}}', export: 'run'})
+
+    // Then
+    expect(got).toEqual(result)
+    expect(captureOutput).toHaveBeenCalledWith(
+      'npm',
+      [
+        'exec',
+        '--',
+        'function-runner',
+        '-f',
+        joinPath(ourFunction.directory, 'dist/index.wasm'),
+        '--json',
+        '--export',
+        'run',
+      ],
+      {cwd: ourFunction.directory, input: '{"cart":{}}'},
+    )
+  })
+})
+
 describe('ExportJavyBuilder', () => {
   const exports = ['foo-bar', 'foo-baz']
   const builder = new ExportJavyBuilder(exports)
@@ -4,7 +4,7 @@ import {AppInterface} from '../../models/app/app.js'
 import {EsbuildEnvVarRegex} from '../../constants.js'
 import {hyphenate, camelize} from '@shopify/cli-kit/common/string'
 import {outputDebug} from '@shopify/cli-kit/node/output'
-import {exec} from '@shopify/cli-kit/node/system'
+import {captureOutput, exec} from '@shopify/cli-kit/node/system'
 import {joinPath} from '@shopify/cli-kit/node/path'
 import {build as esBuild, BuildResult, BuildOptions} from 'esbuild'
 import {findPathUp, inTemporaryDirectory, writeFile} from '@shopify/cli-kit/node/fs'
@@ -204,6 +204,51 @@ export async function runFunctionRunner(fun: ExtensionInstance<FunctionConfigTyp
   )
 }
 
+/**
+ * The result of a function execution, as reported by `function-runner --json`.
+ */
+export interface FunctionRunResult {
+  name: string
+  size: number
+  memory_usage: number
+  instructions: number
+  logs: string
+  input: unknown
+
+  /**
+   * The output of the function, or the invalid output and its error when the
+   * function doesn't return JSON.
+   */
+  output: unknown
+}
+
+interface CapturedFunctionRunnerOptions {
+  /**
+   * The input JSON to pass to the function.
+   */
+  input: string
+  export: string
+}
+
+/**
+ * Runs the function like {@link runFunctionRunner}, and returns the result
+ * instead of printing it.
+ */
+export async function captureFunctionRunner(
+  fun: ExtensionInstance<FunctionConfigType>,
+  options: CapturedFunctionRunnerOptions,
+): Promise<FunctionRunResult> {
+  const output = await captureOutput(
+    'npm',
+    ['exec', '--', 'function-runner', '-f', fun.outputPath, '--json', '--export', options.export],
+    {
+      cwd: fun.directory,
+      input: options.input,
+    },
+  )
+  return JSON.parse(output)
+}
+
 export interface JavyBuilder {
   bundle(
     fun: ExtensionInstance<FunctionConfigType>,
@@ -0,0 +1,149 @@
+import {loadFunctionFixtures} from './fixtures.js'
+import {testFunctionExtension} from '../../models/app/app.test-data.js'
+import {describe, expect, test} from 'vitest'
+import {inTemporaryDirectory, mkdir, writeFile} from '@shopify/cli-kit/node/fs'
+import {dirname, joinPath} from '@shopify/cli-kit/node/path'
+
+async function writeFixture(tmpDir: string, name: string, content: unknown) {
+  const path = joinPath(tmpDir, 'tests/fixtures', `${name}.json`)
+  await mkdir(dirname(path))
+  await writeFile(path, typeof content === 'string' ? content : JSON.stringify(content))
+  return path
+}
+
+async function functionWithTargets(tmpDir: string, targeting?: {target: string; export?: string}[]) {
+  const ourFunction = await testFunctionExtension({dir: tmpDir})
+  ourFunction.configuration.targeting = targeting
+  return ourFunction
+}
+
+describe('loadFunctionFixtures', () => {
+  test('returns no fixtures when the fixtures directory does not exist', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await functionWithTargets(tmpDir)
+
+      // When
+      const got = await loadFunctionFixtures(ourFunction)
+
+      // Then
+      expect(got).toEqual([])
+    })
+  })
+
+  test('loads the nested fixtures sorted by name, with the default export', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await functionWithTargets(tmpDir)
+      const secondPath = await writeFixture(tmpDir, 'discounts/second', {input: {second: 1}, output: {second: 2}})
+      const firstPath = await writeFixture(tmpDir, 'discounts/first', {input: {first: 1}, output: {first: 2}})
+
+      // When
+      const got = await loadFunctionFixtures(ourFunction)
+
+      // Then
+      expect(got).toEqual([
+        {name: 'discounts/first', path: firstPath, export: '_start', input: {first: 1}, output: {first: 2}},
+        {name: 'discounts/second', path: secondPath, export: '_start', input: {second: 1}, output: {second: 2}},
+      ])
+    })
+  })
+
+  test('only loads the fixtures that match the filter', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await functionWithTargets(tmpDir)
+      await writeFixture(tmpDir, 'empty-cart', {input: {}, output: {}})
+      await writeFixture(tmpDir, 'full-cart', {input: {}, output: {}})
+
+      // When
+      const got = await loadFunctionFixtures(ourFunction, 'empty')
+
+      // Then
+      expect(got.map(({name}) => name)).toEqual(['empty-cart'])
+    })
+  })
+
+  test('resolves the export from the fixture, its target or the only target', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await functionWithTargets(tmpDir, [{target: 'purchase.cart.run', export: 'run'}])
+      await writeFixture(tmpDir, 'explicit', {export: 'custom', input: {}, output: {}})
+      await writeFixture(tmpDir, 'implicit', {input: {}, output: {}})
+      await writeFixture(tmpDir, 'targeted', {target: 'purchase.cart.run', input: {}, output: {}})
+
+      // When
+      const got = await loadFunctionFixtures(ourFunction)
+
+      // Then
+      expect(got.map((fixture) => [fixture.name, fixture.export])).toEqual([
+        ['explicit', 'custom'],
+        ['implicit', 'run'],
+        ['targeted', 'run'],
+      ])
+    })
+  })
+
+  test('fails when the function has several targets and the fixture sets neither an export nor a target', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await functionWithTargets(tmpDir, [
+        {target: 'purchase.cart.run', export: 'run'},
+        {target: 'purchase.cart.fetch', export: 'fetch'},
+      ])
+      await writeFixture(tmpDir, 'implicit', {input: {}, output: {}})
+
+      // When
+      const got = loadFunctionFixtures(ourFunction)
+
+      // Then
+      await expect(got).rejects.toThrow(
+        'The fixture implicit must set an export or a target, as the function has several targets.',
+      )
+    })
+  })
+
+  test('fails when the fixture uses a target the function does not target', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await functionWithTargets(tmpDir, [{target: 'purchase.cart.run', export: 'run'}])
+      await writeFixture(tmpDir, 'unknown', {target: 'purchase.unknown', input: {}, output: {}})
+
+      // When
+      const got = loadFunctionFixtures(ourFunction)
+
+      // Then
+      await expect(got).rejects.toThrow(
+        "The fixture unknown uses the target purchase.unknown, which the function doesn't target.",
+      )
+    })
+  })
+
+  test('fails when a fixture is not valid JSON', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await functionWithTargets(tmpDir)
+      await writeFixture(tmpDir, 'invalid', '{')
+
+      // When
+      const got = loadFunctionFixtures(ourFunction)
+
+      // Then
+      await expect(got).rejects.toThrow("The fixture invalid isn't valid JSON")
+    })
+  })
+
+  test('fails when a fixture misses its output', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await functionWithTargets(tmpDir)
+      await writeFixture(tmpDir, 'incomplete', {input: {}})
+
+      // When
+      const got = loadFunctionFixtures(ourFunction)
+
+      // Then
+      await expect(got).rejects.toThrow('The fixture incomplete must have an input and an output.')
+    })
+  })
+})
@@ -0,0 +1,119 @@
+import {ExtensionInstance} from '../../models/extensions/extension-instance.js'
+import {FunctionConfigType} from '../../models/extensions/specifications/function.js'
+import {fileExists, glob, readFile} from '@shopify/cli-kit/node/fs'
+import {joinPath, relativePath} from '@shopify/cli-kit/node/path'
+import {AbortError} from '@shopify/cli-kit/node/error'
+
+/**
+ * The directory of a function where its fixtures live.
+ */
+export const FIXTURES_DIRECTORY = 'tests/fixtures'
+
+/**
+ * The export function-runner invokes when neither the fixture nor the
+ * targeting configuration names one.
+ */
+const DEFAULT_EXPORT = '_start'
+
+/**
+ * A recorded run of a function: the input it receives and the output it
+ * must return.
+ */
+export interface FunctionFixture {
+  /**
+   * The name of the fixture, which is its path relative to the fixtures
+   * directory without the extension.
+   */
+  name: string
+  path: string
+
+  /**
+   * The wasm export to invoke.
+   */
+  export: string
+  input: unknown
+  output: unknown
+}
+
+/**
+ * Loads the fixtures of a function. Every JSON file under the fixtures
+ * directory is a fixture with the following keys:
+ *
+ * - `input`: the input of the function.
+ * - `output`: the output the function must return.
+ * - `export` (optional): the wasm export to invoke.
+ * - `target` (optional): the target whose export is invoked, when `export` isn't set.
+ *
+ * @param fun - the function whose fixtures are loaded
+ * @param filter - when set, only the fixtures whose name includes it are loaded
+ * @returns the fixtures, sorted by name
+ */
+export async function loadFunctionFixtures(
+  fun: ExtensionInstance<FunctionConfigType>,
+  filter?: string,
+): Promise<FunctionFixture[]> {
+  const fixturesDirectory = joinPath(fun.directory, FIXTURES_DIRECTORY)
+  if (!(await fileExists(fixturesDirectory))) return []
+
+  const paths = await glob(joinPath(fixturesDirectory, '**/*.json'), {absolute: true})
+  const fixtures = await Promise.all(
+    paths
+      .map((path) => ({path, name: relativePath(fixturesDirectory, path).replace(/\.json$/, '')}))
+      .filter(({name}) => !filter || name.includes(filter))
+      .map(({path, name}) => loadFunctionFixture(fun, path, name)),
+  )
+
+  return fixtures.sort((fixtureA, fixtureB) => fixtureA.name.localeCompare(fixtureB.name))
+}
+
+async function loadFunctionFixture(
+  fun: ExtensionInstance<FunctionConfigType>,
+  path: string,
+  name: string,
+): Promise<FunctionFixture> {
+  let content: {[key: string]: unknown}
+  try {
+    content = JSON.parse(await readFile(path))
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new AbortError(`The fixture ${name} isn't valid JSON: ${error.message}`)
+    }
+    throw error
+  }
+
+  if (typeof content !== 'object' || content === null || !('input' in content) || !('output' in content)) {
+    throw new AbortError(`The fixture ${name} must have an input and an output.`)
+  }
+
+  return {
+    name,
+    path,
+    export: fixtureExport(fun, content, name),
+    input: content.input,
+    output: content.output,
+  }
+}
+
+/**
+ * Resolves the wasm export of a fixture, from its `export` key, from the
+ * export of its `target`, or from the only target of the function.
+ */
+function fixtureExport(fun: ExtensionInstance<FunctionConfigType>, content: {[key: string]: unknown}, name: string) {
+  if (typeof content.export === 'string') return content.export
+
+  const targets = fun.configuration.targeting ?? []
+
+  if (typeof content.target === 'string') {
+    const target = targets.find(({target}) => target === content.target)
+    if (!target) {
+      throw new AbortError(`The fixture ${name} uses the target ${content.target}, which the function doesn't target.`)
+    }
+    return target.export ?? DEFAULT_EXPORT
+  }
+
+  if (targets.length > 1) {
+    throw new AbortError(`The fixture ${name} must set an export or a target, as the function has several targets.`)
+  }
+
+  return targets[0]?.export ?? DEFAULT_EXPORT
+}
@@ -0,0 +1,296 @@
+import {
+  loadFunctionInputQuery,
+  validateFunctionInput,
+  validateFunctionInputFile,
+  warnAboutInvalidInput,
+} from './input-validation.js'
+import {testFunctionExtension} from '../../models/app/app.test-data.js'
+import {describe, expect, test, vi} from 'vitest'
+import {inTemporaryDirectory, mkdir, writeFile} from '@shopify/cli-kit/node/fs'
+import {dirname, joinPath} from '@shopify/cli-kit/node/path'
+import {renderError, renderSuccess, renderWarning} from '@shopify/cli-kit/node/ui'
+import {AbortSilentError} from '@shopify/cli-kit/node/error'
+// eslint-disable-next-line @shopify/typescript/prefer-build-client-schema
+import {buildSchema} from 'graphql'
+
+vi.mock('@shopify/cli-kit/node/ui')
+
+const schemaDefinition = `
+schema { query: Input }
+type Input { cart: Cart! }
+type Cart { lines: [CartLine!]! buyerIdentity: BuyerIdentity }
+type CartLine { id: ID! quantity: Int! cost: CartLineCost! merchandise: Merchandise! }
+type CartLineCost { amountPerQuantity: MoneyV2! }
+type MoneyV2 { amount: Decimal! currencyCode: CurrencyCode! }
+type BuyerIdentity { email: String }
+type ProductVariant { id: ID! sku: String }
+type CustomProduct { title: String! }
+union Merchandise = ProductVariant | CustomProduct
+enum CurrencyCode { CAD USD }
+scalar Decimal
+`
+
+const inputQuery = {
+  file: 'src/run.graphql',
+  query: `query RunInput {
+    cart {
+      lines {
+        id
+        quantity
+        cost { amountPerQuantity { amount currencyCode } }
+        merchandise {
+          __typename
+          ... on ProductVariant { id sku }
+        }
+      }
+      buyerIdentity { email }
+    }
+  }`,
+}
+
+function cartLine(overrides: {[key: string]: unknown} = {}) {
+  return {
+    id: 'gid://shopify/CartLine/1',
+    quantity: 2,
+    cost: {amountPerQuantity: {amount: '10.0', currencyCode: 'CAD'}},
+    merchandise: {__typename: 'ProductVariant', id: 'gid://shopify/ProductVariant/1', sku: null},
+    ...overrides,
+  }
+}
+
+async function writeFunctionFile(directory: string, file: string, content: string) {
+  const path = joinPath(directory, file)
+  await mkdir(dirname(path))
+  await writeFile(path, content)
+  return path
+}
+
+async function functionWithInputQuery(tmpDir: string) {
+  const ourFunction = await testFunctionExtension({dir: tmpDir})
+  ourFunction.configuration.targeting = [{target: 'purchase.cart.run', export: 'run', input_query: inputQuery.file}]
+  await writeFunctionFile(tmpDir, inputQuery.file, inputQuery.query)
+  return ourFunction
+}
+
+describe('validateFunctionInput', () => {
+  const schema = buildSchema(schemaDefinition)
+
+  test('returns no issues when the input matches the input query', () => {
+    // Given
+    const input = {
+      cart: {
+        lines: [cartLine(), cartLine({merchandise: {__typename: 'CustomProduct'}})],
+        buyerIdentity: null,
+      },
+    }
+
+    // When
+    const got = validateFunctionInput(schema, inputQuery, input)
+
+    // Then
+    expect(got).toEqual([])
+  })
+
+  test('returns the missing fields, the fields the query does not select and the wrong types', () => {
+    // Given
+    const {cost: _cost, ...lineWithoutCost} = cartLine({quantity: '2', title: 'Shirt'})
+    const input = {
+      cart: {
+        lines: [
+          lineWithoutCost,
+          cartLine({
+            cost: {amountPerQuantity: {amount: 10, currencyCode: 'EUR'}},
+            merchandise: {__typename: 'ProductVariant', id: 'gid://shopify/ProductVariant/1'},
+          }),
+        ],
+        buyerIdentity: [],
+      },
+    }
+
+    // When
+    const got = validateFunctionInput(schema, inputQuery, input)
+
+    // Then
+    expect(got).toEqual([
+      {path: '$.cart.lines[0].quantity', message: 'Expected Int!, received "2".'},
+      {path: '$.cart.lines[0].cost', message: "It's missing, but the input query selects it."},
+      {path: '$.cart.lines[0].title', message: "The input query doesn't select it."},
+      {path: '$.cart.lines[1].cost.amountPerQuantity.amount', message: 'Expected Decimal!, received 10.'},
+      {
+        path: '$.cart.lines[1].cost.amountPerQuantity.currencyCode',
+        message: 'Expected a value of CurrencyCode, received "EUR".',
+      },
+      {path: '$.cart.lines[1].merchandise.sku', message: "It's missing, but the input query selects it."},
+      {path: '$.cart.buyerIdentity', message: 'Expected BuyerIdentity, received a list.'},
+    ])
+  })
+
+  test('returns the non-null fields that are null', () => {
+    // When
+    const got = validateFunctionInput(schema, inputQuery, {cart: {lines: null, buyerIdentity: null}})
+
+    // Then
+    expect(got).toEqual([{path: '$.cart.lines', message: 'Expected [CartLine!]!, received null.'}])
+  })
+
+  test('fails when the input query does not match the schema', () => {
+    // When
+    const got = () => validateFunctionInput(schema, {file: 'input.graphql', query: '{ shop { id } }'}, {})
+
+    // Then
+    expect(got).toThrow('The input query input.graphql doesn\'t match the schema: Cannot query field "shop"')
+  })
+})
+
+describe('loadFunctionInputQuery', () => {
+  test('loads the input query of the target with the export', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await functionWithInputQuery(tmpDir)
+
+      // When
+      const got = await loadFunctionInputQuery(ourFunction, 'run')
+
+      // Then
+      expect(got).toEqual(inputQuery)
+    })
+  })
+
+  test('fails when no target has the export', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await functionWithInputQuery(tmpDir)
+
+      // When
+      const got = loadFunctionInputQuery(ourFunction, 'fetch')
+
+      // Then
+      await expect(got).rejects.toThrow("The function doesn't have a target with the export fetch.")
+    })
+  })
+
+  test('loads the input.graphql file when the function does not use targets', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await testFunctionExtension({dir: tmpDir})
+      await writeFunctionFile(tmpDir, 'input.graphql', inputQuery.query)
+
+      // When
+      const got = await loadFunctionInputQuery(ourFunction, '_start')
+
+      // Then
+      expect(got).toEqual({file: 'input.graphql', query: inputQuery.query})
+    })
+  })
+})
+
+describe('validateFunctionInputFile', () => {
+  test('fails when the function does not have a schema', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await functionWithInputQuery(tmpDir)
+      const input = await writeFunctionFile(tmpDir, 'input.json', '{}')
+
+      // When
+      const got = validateFunctionInputFile(ourFunction, {input, export: 'run'})
+
+      // Then
+      await expect(got).rejects.toThrow("The function doesn't have a schema.graphql file.")
+    })
+  })
+
+  test('renders the issues and fails when the input is invalid', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await functionWithInputQuery(tmpDir)
+      await writeFunctionFile(tmpDir, 'schema.graphql', schemaDefinition)
+      const input = await writeFunctionFile(tmpDir, 'input.json', JSON.stringify({cart: {lines: []}}))
+
+      // When
+      const got = validateFunctionInputFile(ourFunction, {input, export: 'run'})
+
+      // Then
+      await expect(got).rejects.toThrow(AbortSilentError)
+      expect(renderError).toHaveBeenCalledWith({
+        headline: "The input doesn't match the input query src/run.graphql.",
+        body: {list: {items: ["$.cart.buyerIdentity: It's missing, but the input query selects it."]}},
+      })
+    })
+  })
+
+  test('renders a success when the input is valid', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await functionWithInputQuery(tmpDir)
+      await writeFunctionFile(tmpDir, 'schema.graphql', schemaDefinition)
+      const input = await writeFunctionFile(
+        tmpDir,
+        'input.json',
+        JSON.stringify({cart: {lines: [cartLine()], buyerIdentity: {email: null}}}),
+      )
+
+      // When
+      await validateFunctionInputFile(ourFunction, {input, export: 'run'})
+
+      // Then
+      expect(renderSuccess).toHaveBeenCalledWith({headline: 'The input matches the input query src/run.graphql.'})
+    })
+  })
+})
+
+describe('warnAboutInvalidInput', () => {
+  test('warns about the issues of the input', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await functionWithInputQuery(tmpDir)
+      await writeFunctionFile(tmpDir, 'schema.graphql', schemaDefinition)
+      const input = await writeFunctionFile(tmpDir, 'input.json', JSON.stringify({cart: {lines: []}}))
+
+      // When
+      await warnAboutInvalidInput(ourFunction, {input, export: 'run'})
+
+      // Then
+      expect(renderWarning).toHaveBeenCalledWith({
+        headline: "The input doesn't match the input query src/run.graphql.",
+        body: [
+          'The function could never receive this input in production.',
+          {list: {items: ["$.cart.buyerIdentity: It's missing, but the input query selects it."]}},
+        ],
+      })
+    })
+  })
+
+  test('skips the validation when the function does not have a schema', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await functionWithInputQuery(tmpDir)
+      const input = await writeFunctionFile(tmpDir, 'input.json', JSON.stringify({cart: {lines: []}}))
+
+      // When
+      await warnAboutInvalidInput(ourFunction, {input, export: 'run'})
+
+      // Then
+      expect(renderWarning).not.toHaveBeenCalled()
+    })
+  })
+
+  test.each([
+    ['the schema is invalid', 'type Input {', JSON.stringify({cart: {lines: []}})],
+    ["the input query doesn't match the schema", 'schema { query: Input } type Input { id: ID }', '{}'],
+    ["the input isn't valid JSON", schemaDefinition, 'not json'],
+  ])('skips the validation without failing when %s', async (_, schema, inputContent) => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await functionWithInputQuery(tmpDir)
+      await writeFunctionFile(tmpDir, 'schema.graphql', schema)
+      const input = await writeFunctionFile(tmpDir, 'input.json', inputContent)
+
+      // When
+      const got = warnAboutInvalidInput(ourFunction, {input, export: 'run'})
+
+      // Then
+      await expect(got).resolves.toBeUndefined()
+      expect(renderWarning).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,457 @@
+import {ExtensionInstance} from '../../models/extensions/extension-instance.js'
+import {FunctionConfigType} from '../../models/extensions/specifications/function.js'
+import {fileExists, readFile} from '@shopify/cli-kit/node/fs'
+import {joinPath} from '@shopify/cli-kit/node/path'
+import {AbortError, AbortSilentError} from '@shopify/cli-kit/node/error'
+import {outputDebug} from '@shopify/cli-kit/node/output'
+import {renderError, renderSuccess, renderWarning} from '@shopify/cli-kit/node/ui'
+// The schema file of a function is written in the schema definition language
+// eslint-disable-next-line @shopify/typescript/prefer-build-client-schema
+import {
+  DocumentNode,
+  FragmentDefinitionNode,
+  GraphQLCompositeType,
+  GraphQLNonNull,
+  GraphQLOutputType,
+  GraphQLSchema,
+  GraphQLString,
+  Kind,
+  OperationDefinitionNode,
+  SelectionSetNode,
+  buildSchema,
+  isAbstractType,
+  isCompositeType,
+  isEnumType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  isScalarType,
+  parse,
+  validate,
+} from 'graphql'
+
+/**
+ * The file where `app function schema` writes the schema of the function API.
+ */
+const SCHEMA_FILE = 'schema.graphql'
+
+/**
+ * The input query of the functions that don't use targets.
+ */
+const LEGACY_INPUT_QUERY_FILE = 'input.graphql'
+
+/**
+ * Custom scalars of the function APIs, which are serialized as strings.
+ */
+const STRING_SCALARS = [
+  'ID',
+  'String',
+  'Date',
+  'DateTime',
+  'DateTimeWithoutTimezone',
+  'Decimal',
+  'Handle',
+  'HTML',
+  'TimeWithoutTimezone',
+  'URL',
+]
+
+/**
+ * A reason why a function could never receive an input in production.
+ */
+export interface InputValidationIssue {
+  /**
+   * The location of the value in the input (e.g. `$.cart.lines[0].quantity`).
+   */
+  path: string
+  message: string
+}
+
+interface FunctionInputQuery {
+  /**
+   * The path of the input query file, relative to the function directory.
+   */
+  file: string
+  query: string
+}
+
+interface SelectedField {
+  type: GraphQLOutputType
+  selectionSets: SelectionSetNode[]
+
+  /**
+   * Whether the field can be absent from the input, when it's selected
+   * conditionally or by a fragment that may not apply.
+   */
+  optional: boolean
+}
+
+interface ValidateInputOptions {
+  /**
+   * The path of the input JSON file.
+   */
+  input: string
+  export: string
+}
+
+/**
+ * Validates an input JSON file against the input query of a function, and
+ * renders the issues found.
+ *
+ * Fails when the input is invalid, or when the schema or the input query
+ * aren't available.
+ */
+export async function validateFunctionInputFile(
+  fun: ExtensionInstance<FunctionConfigType>,
+  options: ValidateInputOptions,
+) {
+  const schema = await loadFunctionSchema(fun)
+  if (!schema) {
+    throw new AbortError(
+      `The function doesn't have a ${SCHEMA_FILE} file.`,
+      'Run `shopify app function schema` to fetch the schema.',
+    )
+  }
+
+  const inputQuery = await loadFunctionInputQuery(fun, options.export)
+  if (!inputQuery) {
+    throw new AbortError(`The function doesn't have an input query for the export ${options.export}.`)
+  }
+
+  const issues = validateFunctionInput(schema, inputQuery, await readInput(options.input))
+
+  if (issues.length > 0) {
+    renderError({
+      headline: `The input doesn't match the input query ${inputQuery.file}.`,
+      body: {list: {items: issues.map(formatInputValidationIssue)}},
+    })
+    throw new AbortSilentError()
+  }
+
+  renderSuccess({headline: `The input matches the input query ${inputQuery.file}.`})
+}
+
+/**
+ * Validates an input JSON file before the function runs, and warns about
+ * the issues found. The validation is skipped when the schema or the input
+ * query aren't available, or when it fails, so the function still runs.
+ */
+export async function warnAboutInvalidInput(fun: ExtensionInstance<FunctionConfigType>, options: ValidateInputOptions) {
+  try {
+    await warnAboutInputIssues(fun, options)
+    // eslint-disable-next-line no-catch-all/no-catch-all
+  } catch (error) {
+    // function-runner reports the exports that don't exist and the inputs it can't read
+    const message = error instanceof Error ? error.message : String(error)
+    outputDebug(`Skipping the input validation, as it failed: ${message}`)
+  }
+}
+
+async function warnAboutInputIssues(fun: ExtensionInstance<FunctionConfigType>, options: ValidateInputOptions) {
+  const schema = await loadFunctionSchema(fun)
+  const inputQuery = await loadFunctionInputQuery(fun, options.export)
+
+  if (!schema || !inputQuery) {
+    outputDebug(`Skipping the input validation, as the schema or the input query of the function isn't available.`)
+    return
+  }
+
+  const issues = validateFunctionInput(schema, inputQuery, await readInput(options.input))
+
+  if (issues.length > 0) {
+    renderWarning({
+      headline: `The input doesn't match the input query ${inputQuery.file}.`,
+      body: [
+        'The function could never receive this input in production.',
+        {list: {items: issues.map(formatInputValidationIssue)}},
+      ],
+    })
+  }
+}
+
+/**
+ * Loads the schema of the function API that `app function schema` writes.
+ *
+ * @returns the schema, or `undefined` when it hasn't been fetched yet
+ */
+export async function loadFunctionSchema(fun: ExtensionInstance<FunctionConfigType>) {
+  const schemaPath = joinPath(fun.directory, SCHEMA_FILE)
+  if (!(await fileExists(schemaPath))) return undefined
+
+  return buildSchema(await readFile(schemaPath))
+}
+
+/**
+ * Loads the input query of the target whose export is invoked, or the
+ * `input.graphql` file of the functions that don't use targets.
+ *
+ * @param fun - the function
+ * @param exportName - the wasm export that is invoked
+ * @returns the input query, or `undefined` when the function doesn't have one
+ */
+export async function loadFunctionInputQuery(
+  fun: ExtensionInstance<FunctionConfigType>,
+  exportName: string,
+): Promise<FunctionInputQuery | undefined> {
+  const targets = fun.configuration.targeting ?? []
+  const target =
+    targets.find((target) => target.export === exportName) ??
+    (targets.length === 1 && !targets[0]!.export ? targets[0] : undefined)
+
+  if (targets.length > 0 && !target) {
+    throw new AbortError(`The function doesn't have a target with the export ${exportName}.`)
+  }
+
+  const file = target ? target.input_query : LEGACY_INPUT_QUERY_FILE
+  if (!file) return undefined
+
+  const path = joinPath(fun.directory, file)
+  if (!(await fileExists(path))) return undefined
+
+  return {file, query: await readFile(path)}
+}
+
+/**
+ * Checks that an input has the shape that the input query produces: every
+ * selected field is present, no field is absent from the query, and every
+ * value has the type the schema defines.
+ *
+ * @param schema - the schema of the function API
+ * @param inputQuery - the input query of the function
+ * @param input - the input to validate
+ * @returns the issues found, which are empty when the input is valid
+ */
+export function validateFunctionInput(
+  schema: GraphQLSchema,
+  inputQuery: FunctionInputQuery,
+  input: unknown,
+): InputValidationIssue[] {
+  const document = parseInputQuery(schema, inputQuery)
+  const operation = document.definitions.find(
+    (definition): definition is OperationDefinitionNode => definition.kind === Kind.OPERATION_DEFINITION,
+  )
+  const queryType = schema.getQueryType()
+
+  if (!operation || !queryType) return []
+
+  const validator = new InputValidator(schema, document)
+  validator.validateValue(input, new GraphQLNonNull(queryType), [operation.selectionSet], '$')
+
+  return validator.issues
+}
+
+function parseInputQuery(schema: GraphQLSchema, inputQuery: FunctionInputQuery): DocumentNode {
+  let document: DocumentNode
+  try {
+    document = parse(inputQuery.query)
+  } catch (error) {
+    if (!(error instanceof Error)) throw error
+    throw new AbortError(`The input query ${inputQuery.file} isn't valid GraphQL: ${error.message}`)
+  }
+
+  const errors = validate(schema, document)
+  if (errors.length > 0) {
+    throw new AbortError(
+      `The input query ${inputQuery.file} doesn't match the schema: ${errors.map(({message}) => message).join(' ')}`,
+      'Run `shopify app function schema` to fetch the latest schema.',
+    )
+  }
+
+  return document
+}
+
+class InputValidator {
+  issues: InputValidationIssue[] = []
+  private readonly schema: GraphQLSchema
+  private readonly fragments: Map<string, FragmentDefinitionNode>
+
+  constructor(schema: GraphQLSchema, document: DocumentNode) {
+    this.schema = schema
+    this.fragments = new Map(
+      document.definitions
+        .filter((definition): definition is FragmentDefinitionNode => definition.kind === Kind.FRAGMENT_DEFINITION)
+        .map((fragment) => [fragment.name.value, fragment]),
+    )
+  }
+
+  /**
+   * @param declaredType - the type of the field, which is reported with its
+   * non-null marker once the type is unwrapped
+   */
+  validateValue(
+    value: unknown,
+    type: GraphQLOutputType,
+    selectionSets: SelectionSetNode[],
+    path: string,
+    declaredType: GraphQLOutputType = type,
+  ) {
+    if (isNonNullType(type)) {
+      if (value === null) {
+        this.issues.push({path, message: `Expected ${type}, received null.`})
+        return
+      }
+      this.validateValue(value, type.ofType, selectionSets, path, type)
+      return
+    }
+
+    if (value === null) return
+
+    if (isListType(type)) {
+      if (!Array.isArray(value)) {
+        this.issues.push({path, message: `Expected ${declaredType}, received ${describeValue(value)}.`})
+        return
+      }
+      value.forEach((item, index) => this.validateValue(item, type.ofType, selectionSets, `${path}[${index}]`))
+      return
+    }
+
+    if (isScalarType(type)) {
+      if (!isValidScalar(type.name, value)) {
+        this.issues.push({path, message: `Expected ${declaredType}, received ${describeValue(value)}.`})
+      }
+      return
+    }
+
+    if (isEnumType(type)) {
+      if (typeof value !== 'string' || !type.getValue(value)) {
+        this.issues.push({path, message: `Expected a value of ${type}, received ${describeValue(value)}.`})
+      }
+      return
+    }
+
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      this.issues.push({path, message: `Expected ${declaredType}, received ${describeValue(value)}.`})
+      return
+    }
+
+    this.validateObject(value as {[key: string]: unknown}, type, selectionSets, path)
+  }
+
+  private validateObject(
+    value: {[key: string]: unknown},
+    type: GraphQLCompositeType,
+    selectionSets: SelectionSetNode[],
+    path: string,
+  ) {
+    const typename = isObjectType(type) ? type.name : value.__typename
+    const fields = new Map<string, SelectedField>()
+
+    for (const selectionSet of selectionSets) {
+      this.collectFields(type, typeof typename === 'string' ? typename : undefined, selectionSet, false, fields)
+    }
+
+    for (const [key, field] of fields) {
+      if (key in value) {
+        this.validateValue(value[key], field.type, field.selectionSets, `${path}.${key}`)
+      } else if (!field.optional) {
+        this.issues.push({path: `${path}.${key}`, message: "It's missing, but the input query selects it."})
+      }
+    }
+
+    for (const key of Object.keys(value)) {
+      if (!fields.has(key)) {
+        this.issues.push({path: `${path}.${key}`, message: "The input query doesn't select it."})
+      }
+    }
+  }
+
+  /**
+   * Collects the fields that a selection set selects on a value, by response
+   * key, merging the fields selected several times.
+   */
+  private collectFields(
+    type: GraphQLCompositeType,
+    typename: string | undefined,
+    selectionSet: SelectionSetNode,
+    optional: boolean,
+    fields: Map<string, SelectedField>,
+  ) {
+    for (const selection of selectionSet.selections) {
+      const conditional = optional || Boolean(selection.directives?.length)
+
+      if (selection.kind === Kind.FIELD) {
+        const key = selection.alias?.value ?? selection.name.value
+        const fieldType = selectedFieldType(type, selection.name.value)
+
+        if (!fieldType) continue
+
+        const field = fields.get(key) ?? {type: fieldType, selectionSets: [], optional: conditional}
+        field.optional = field.optional && conditional
+        if (selection.selectionSet) field.selectionSets.push(selection.selectionSet)
+        fields.set(key, field)
+        continue
+      }
+
+      const fragment = selection.kind === Kind.INLINE_FRAGMENT ? selection : this.fragments.get(selection.name.value)
+      if (!fragment) continue
+
+      const conditionType = fragment.typeCondition ? this.schema.getType(fragment.typeCondition.name.value) : type
+      if (!conditionType || !isCompositeType(conditionType)) continue
+
+      const applies = this.fragmentApplies(conditionType, type, typename)
+      if (applies === 'no') continue
+
+      this.collectFields(conditionType, typename, fragment.selectionSet, conditional || applies === 'maybe', fields)
+    }
+  }
+
+  /**
+   * Whether a fragment applies to a value. When the type of the value isn't
+   * known (an interface or union without `__typename`), the fragment may apply.
+   */
+  private fragmentApplies(
+    conditionType: GraphQLCompositeType,
+    type: GraphQLCompositeType,
+    typename: string | undefined,
+  ): 'yes' | 'no' | 'maybe' {
+    if (conditionType === type || conditionType.name === typename) return 'yes'
+
+    const runtimeType = typename ? this.schema.getType(typename) : undefined
+    if (!runtimeType || !isObjectType(runtimeType)) return 'maybe'
+
+    return isAbstractType(conditionType) && this.schema.isSubType(conditionType, runtimeType) ? 'yes' : 'no'
+  }
+}
+
+function selectedFieldType(type: GraphQLCompositeType, name: string): GraphQLOutputType | undefined {
+  if (name === '__typename') return new GraphQLNonNull(GraphQLString)
+
+  // Unions only have the __typename field
+  return 'getFields' in type ? type.getFields()[name]?.type : undefined
+}
+
+function isValidScalar(name: string, value: unknown) {
+  if (name === 'Int') return Number.isInteger(value)
+  if (name === 'Float') return typeof value === 'number'
+  if (name === 'Boolean') return typeof value === 'boolean'
+  if (STRING_SCALARS.includes(name)) return typeof value === 'string'
+
+  // Other custom scalars, like JSON, accept any value
+  return true
+}
+
+function describeValue(value: unknown) {
+  if (Array.isArray(value)) return 'a list'
+  if (typeof value === 'object') return 'an object'
+
+  return JSON.stringify(value)
+}
+
+function formatInputValidationIssue({path, message}: InputValidationIssue) {
+  return `${path}: ${message}`
+}
+
+async function readInput(path: string) {
+  if (!(await fileExists(path))) {
+    throw new AbortError(`The input file ${path} doesn't exist.`)
+  }
+
+  try {
+    return JSON.parse(await readFile(path))
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new AbortError(`The input file ${path} isn't valid JSON: ${error.message}`)
+    }
+    throw error
+  }
+}
@@ -0,0 +1,57 @@
+import {diffJson, formatJsonDifference} from './json-diff.js'
+import {describe, expect, test} from 'vitest'
+
+describe('diffJson', () => {
+  test('returns no differences for equal documents', () => {
+    // Given
+    const document = {operations: [{rename: {title: 'New title'}}], count: 1}
+
+    // When
+    const got = diffJson(document, structuredClone(document))
+
+    // Then
+    expect(got).toEqual([])
+  })
+
+  test('locates the changed, missing and unexpected values', () => {
+    // Given
+    const expected = {operations: [{rename: {title: 'New title'}}, {hide: true}], 'cart-id': 1}
+    const actual = {operations: [{rename: {title: 'Old title'}}], 'cart-id': 1, extra: null}
+
+    // When
+    const got = diffJson(expected, actual)
+
+    // Then
+    expect(got).toEqual([
+      {path: '$.operations[0].rename.title', kind: 'changed', expected: 'New title', actual: 'Old title'},
+      {path: '$.operations[1]', kind: 'missing', expected: {hide: true}},
+      {path: '$.extra', kind: 'unexpected', actual: null},
+    ])
+  })
+
+  test('reports a changed value when the types differ', () => {
+    // When
+    const got = diffJson({'discount-id': [1]}, {'discount-id': {0: 1}})
+
+    // Then
+    expect(got).toEqual([{path: '$["discount-id"]', kind: 'changed', expected: [1], actual: {0: 1}}])
+  })
+})
+
+describe('formatJsonDifference', () => {
+  test('formats each kind of difference', () => {
+    // When
+    const got = [
+      formatJsonDifference({path: '$.a', kind: 'changed', expected: 1, actual: '1'}),
+      formatJsonDifference({path: '$.b', kind: 'missing', expected: {hidden: true}}),
+      formatJsonDifference({path: '$.d', kind: 'unexpected', actual: []}),
+    ]
+
+    // Then
+    expect(got).toEqual([
+      '$.a: expected 1, received "1"',
+      '$.b: missing, expected {"hidden":true}',
+      '$.d: unexpected []',
+    ])
+  })
+})
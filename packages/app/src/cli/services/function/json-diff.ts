@@ -0,0 +1,74 @@
+/**
+ * A difference between two JSON documents, located by its path (e.g.
+ * `$.operations[0].rename.title`).
+ */
+export interface JsonDifference {
+  path: string
+  kind: 'changed' | 'missing' | 'unexpected'
+  expected?: unknown
+  actual?: unknown
+}
+
+/**
+ * Compares two JSON documents and lists their differences. Objects are
+ * compared key by key and arrays item by item, so each difference points to
+ * the deepest value that differs.
+ *
+ * @param expected - the document to compare with
+ * @param actual - the document to compare
+ * @returns the differences, which are empty when the documents are equal
+ */
+export function diffJson(expected: unknown, actual: unknown, path = '$'): JsonDifference[] {
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const length = Math.max(expected.length, actual.length)
+    return Array.from({length}, (_, index) =>
+      diffEntry(index in expected, expected[index], index in actual, actual[index], `${path}[${index}]`),
+    ).flat()
+  }
+
+  if (isObject(expected) && isObject(actual)) {
+    const keys = [...new Set([...Object.keys(expected), ...Object.keys(actual)])]
+    return keys.flatMap((key) =>
+      diffEntry(key in expected, expected[key], key in actual, actual[key], `${path}${formatKey(key)}`),
+    )
+  }
+
+  if (JSON.stringify(expected) === JSON.stringify(actual)) return []
+
+  return [{path, kind: 'changed', expected, actual}]
+}
+
+/**
+ * Formats a difference for the terminal, one line per difference.
+ */
+export function formatJsonDifference({path, kind, expected, actual}: JsonDifference) {
+  switch (kind) {
+    case 'missing':
+      return `${path}: missing, expected ${JSON.stringify(expected)}`
+    case 'unexpected':
+      return `${path}: unexpected ${JSON.stringify(actual)}`
+    case 'changed':
+      return `${path}: expected ${JSON.stringify(expected)}, received ${JSON.stringify(actual)}`
+  }
+}
+
+function diffEntry(
+  inExpected: boolean,
+  expected: unknown,
+  inActual: boolean,
+  actual: unknown,
+  path: string,
+): JsonDifference[] {
+  if (!inActual) return [{path, kind: 'missing', expected}]
+  if (!inExpected) return [{path, kind: 'unexpected', actual}]
+
+  return diffJson(expected, actual, path)
+}
+
+function isObject(value: unknown): value is {[key: string]: unknown} {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function formatKey(key: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`
+}
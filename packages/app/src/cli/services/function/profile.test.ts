@@ -0,0 +1,224 @@
+import {
+  FUNCTION_LIMITS,
+  compareProfile,
+  loadFunctionBaselines,
+  profileFunction,
+  profileRun,
+  warnAboutProfileRegressions,
+} from './profile.js'
+import {captureFunctionRunner} from './build.js'
+import {testApp, testFunctionExtension} from '../../models/app/app.test-data.js'
+import {afterEach, describe, expect, test, vi} from 'vitest'
+import {inTemporaryDirectory, mkdir, writeFile} from '@shopify/cli-kit/node/fs'
+import {dirname, joinPath} from '@shopify/cli-kit/node/path'
+import {renderTable, renderWarning} from '@shopify/cli-kit/node/ui'
+import {mockAndCaptureOutput} from '@shopify/cli-kit/node/testing/output'
+
+vi.mock('./build.js')
+vi.mock('@shopify/cli-kit/node/ui')
+
+afterEach(() => {
+  mockAndCaptureOutput().clear()
+})
+
+async function writeJson(path: string, content: unknown) {
+  await mkdir(dirname(path))
+  await writeFile(path, JSON.stringify(content))
+}
+
+function runResult(instructions: number, output: unknown = {operations: []}) {
+  return {name: 'my-function', size: 1, memory_usage: 64, instructions, logs: '', input: {}, output}
+}
+
+describe('profileRun', () => {
+  test('returns the instructions, the memory usage and the output size', () => {
+    // When
+    const got = profileRun(runResult(1000))
+
+    // Then
+    expect(got).toEqual({instructions: 1000, memoryUsage: 64, outputSize: '{"operations":[]}'.length})
+  })
+})
+
+describe('compareProfile', () => {
+  test('flags the metrics over the limits and the metrics that regressed', () => {
+    // Given
+    const profile = {instructions: FUNCTION_LIMITS.instructions + 1, memoryUsage: 105, outputSize: 100}
+    const baseline = {instructions: FUNCTION_LIMITS.instructions, memoryUsage: 100, outputSize: 200}
+
+    // When
+    const got = compareProfile(profile, baseline, 4)
+
+    // Then
+    expect(got).toEqual([
+      expect.objectContaining({metric: 'instructions', overLimit: true, regressed: false}),
+      expect.objectContaining({metric: 'memoryUsage', baseline: 100, change: 5, overLimit: false, regressed: true}),
+      expect.objectContaining({metric: 'outputSize', baseline: 200, change: -50, overLimit: false, regressed: false}),
+    ])
+  })
+
+  test('does not flag regressions without a baseline', () => {
+    // When
+    const got = compareProfile({instructions: 1, memoryUsage: 1, outputSize: 1}, undefined, 10)
+
+    // Then
+    expect(got.some(({regressed}) => regressed)).toBe(false)
+    expect(got.every(({change}) => change === undefined)).toBe(true)
+  })
+})
+
+describe('profileFunction', () => {
+  test('stores the baseline of an input that does not have one', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const app = testApp({directory: tmpDir})
+      const ourFunction = await testFunctionExtension({dir: joinPath(tmpDir, 'extensions/my-function')})
+      const input = joinPath(ourFunction.directory, 'input.json')
+      await writeJson(input, {cart: {}})
+      vi.mocked(captureFunctionRunner).mockResolvedValue(runResult(1000))
+
+      // When
+      await profileFunction(app, ourFunction, {
+        input,
+        export: 'run',
+        json: false,
+        threshold: 10,
+        updateBaseline: false,
+      })
+
+      // Then
+      expect(captureFunctionRunner).toHaveBeenCalledWith(ourFunction, {input: '{"cart":{}}', export: 'run'})
+      await expect(loadFunctionBaselines(app, ourFunction)).resolves.toEqual({
+        'input.json': {instructions: 1000, memoryUsage: 64, outputSize: 17, export: 'run'},
+      })
+      expect(renderTable).toHaveBeenCalled()
+      expect(renderWarning).not.toHaveBeenCalled()
+    })
+  })
+
+  test('warns about the regressions and keeps the baseline', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const app = testApp({directory: tmpDir})
+      const ourFunction = await testFunctionExtension({dir: joinPath(tmpDir, 'extensions/my-function')})
+      const input = joinPath(ourFunction.directory, 'input.json')
+      const baseline = {instructions: 1000, memoryUsage: 64, outputSize: 17, export: 'run'}
+      await writeJson(input, {cart: {}})
+      await writeJson(joinPath(tmpDir, '.shopify/function-baselines.json'), {
+        [ourFunction.localIdentifier]: {'input.json': baseline},
+      })
+      vi.mocked(captureFunctionRunner).mockResolvedValue(runResult(1500))
+
+      // When
+      await profileFunction(app, ourFunction, {input, export: 'run', json: false, threshold: 10, updateBaseline: false})
+
+      // Then
+      expect(renderWarning).toHaveBeenCalledWith({
+        headline: 'The function uses more resources to run input.json.',
+        body: {list: {items: ['Instructions went up by +50.0% since the baseline, more than the 10% allowed.']}},
+        nextSteps: [
+          'Update the baseline with `shopify app function run --profile --update-baseline --input input.json`',
+        ],
+      })
+      await expect(loadFunctionBaselines(app, ourFunction)).resolves.toEqual({'input.json': baseline})
+    })
+  })
+
+  test('outputs the run and its profile as JSON', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const app = testApp({directory: tmpDir})
+      const ourFunction = await testFunctionExtension({dir: tmpDir})
+      const input = joinPath(tmpDir, 'input.json')
+      const outputMock = mockAndCaptureOutput()
+      await writeJson(input, {})
+      vi.mocked(captureFunctionRunner).mockResolvedValue(runResult(1000))
+
+      // When
+      await profileFunction(app, ourFunction, {input, export: 'run', json: true, threshold: 10, updateBaseline: true})
+
+      // Then
+      const output = JSON.parse(outputMock.info())
+      expect(output.instructions).toEqual(1000)
+      expect(output.profile.map(({metric}: {metric: string}) => metric)).toEqual([
+        'instructions',
+        'memoryUsage',
+        'outputSize',
+      ])
+      expect(renderTable).not.toHaveBeenCalled()
+    })
+  })
+})
+
+describe('warnAboutProfileRegressions', () => {
+  test('reruns the inputs and fixtures with a baseline', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const app = testApp({directory: tmpDir})
+      const ourFunction = await testFunctionExtension({dir: joinPath(tmpDir, 'extensions/my-function')})
+      const baseline = {instructions: 1000, memoryUsage: 64, outputSize: 17, export: 'run'}
+      await writeJson(joinPath(ourFunction.directory, 'tests/fixtures/cart.json'), {input: {cart: 1}, output: {}})
+      await writeJson(joinPath(tmpDir, '.shopify/function-baselines.json'), {
+        [ourFunction.localIdentifier]: {'tests/fixtures/cart.json': baseline, 'deleted.json': baseline},
+      })
+      vi.mocked(captureFunctionRunner).mockResolvedValue(runResult(1000))
+
+      // When
+      await warnAboutProfileRegressions(app, ourFunction)
+
+      // Then
+      expect(captureFunctionRunner).toHaveBeenCalledOnce()
+      expect(captureFunctionRunner).toHaveBeenCalledWith(ourFunction, {input: '{"cart":1}', export: 'run'})
+      expect(renderWarning).not.toHaveBeenCalled()
+    })
+  })
+
+  test("warns instead of failing when an input can't be run", async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const app = testApp({directory: tmpDir})
+      const ourFunction = await testFunctionExtension({dir: joinPath(tmpDir, 'extensions/my-function')})
+      const baseline = {instructions: 1000, memoryUsage: 64, outputSize: 17, export: 'run'}
+      await writeJson(joinPath(ourFunction.directory, 'input.json'), {})
+      await mkdir(joinPath(ourFunction.directory, 'tests/fixtures'))
+      await writeFile(joinPath(ourFunction.directory, 'tests/fixtures/malformed.json'), 'not json')
+      await writeJson(joinPath(tmpDir, '.shopify/function-baselines.json'), {
+        [ourFunction.localIdentifier]: {'input.json': baseline, 'tests/fixtures/malformed.json': baseline},
+      })
+      vi.mocked(captureFunctionRunner).mockRejectedValue(new Error('function-runner not found'))
+
+      // When
+      await warnAboutProfileRegressions(app, ourFunction)
+
+      // Then
+      expect(renderWarning).toHaveBeenCalledWith({
+        headline: "input.json couldn't be compared with its baseline.",
+        body: 'function-runner not found',
+      })
+      expect(renderWarning).toHaveBeenCalledWith({
+        headline: "tests/fixtures/malformed.json couldn't be compared with its baseline.",
+        body: expect.stringContaining('JSON'),
+      })
+    })
+  })
+
+  test("warns instead of failing when the baselines file isn't valid JSON", async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const app = testApp({directory: tmpDir})
+      const ourFunction = await testFunctionExtension({dir: joinPath(tmpDir, 'extensions/my-function')})
+      await mkdir(joinPath(tmpDir, '.shopify'))
+      await writeFile(joinPath(tmpDir, '.shopify/function-baselines.json'), 'not json')
+
+      // When
+      await warnAboutProfileRegressions(app, ourFunction)
+
+      // Then
+      expect(captureFunctionRunner).not.toHaveBeenCalled()
+      expect(renderWarning).toHaveBeenCalledWith({
+        headline: "The baselines of the function couldn't be loaded.",
+        body: expect.stringContaining('.shopify/function-baselines.json'),
+      })
+    })
+  })
+})
@@ -0,0 +1,356 @@
+import {FunctionRunResult, captureFunctionRunner} from './build.js'
+import {FIXTURES_DIRECTORY} from './fixtures.js'
+import {AppInterface} from '../../models/app/app.js'
+import {ExtensionInstance} from '../../models/extensions/extension-instance.js'
+import {FunctionConfigType} from '../../models/extensions/specifications/function.js'
+import {fileExists, mkdir, readFile, writeFile} from '@shopify/cli-kit/node/fs'
+import {dirname, joinPath, relativePath} from '@shopify/cli-kit/node/path'
+import {AbortError} from '@shopify/cli-kit/node/error'
+import {outputInfo} from '@shopify/cli-kit/node/output'
+import {renderTable, renderWarning} from '@shopify/cli-kit/node/ui'
+
+/**
+ * The file of the app directory where the baselines of the functions are
+ * stored.
+ */
+export const BASELINES_FILE = '.shopify/function-baselines.json'
+
+/**
+ * The increase of a metric, in percent, above which it's reported as a
+ * regression.
+ */
+export const DEFAULT_REGRESSION_THRESHOLD = 10
+
+/**
+ * The resources a function uses to run an input.
+ */
+export interface FunctionProfile {
+  instructions: number
+
+  /**
+   * The linear memory usage, in kilobytes.
+   */
+  memoryUsage: number
+
+  /**
+   * The size of the JSON output, in bytes.
+   */
+  outputSize: number
+}
+
+/**
+ * The limits that the platform enforces when functions run.
+ */
+export const FUNCTION_LIMITS: FunctionProfile = {
+  instructions: 11_000_000,
+  memoryUsage: 10 * 1024,
+  outputSize: 20 * 1024,
+}
+
+type FunctionMetric = keyof FunctionProfile
+
+const METRICS: {[metric in FunctionMetric]: {name: string; unit: string}} = {
+  instructions: {name: 'Instructions', unit: ''},
+  memoryUsage: {name: 'Memory usage', unit: ' KB'},
+  outputSize: {name: 'Output size', unit: ' B'},
+}
+
+/**
+ * The profile of an input that later runs are compared with.
+ */
+export interface FunctionBaseline extends FunctionProfile {
+  export: string
+}
+
+/**
+ * The baselines of every function of an app, by function handle and by
+ * input file, relative to the function directory.
+ */
+interface FunctionBaselines {
+  [handle: string]: {[input: string]: FunctionBaseline}
+}
+
+/**
+ * How a metric of a run compares with the limit and the baseline.
+ */
+export interface MetricComparison {
+  metric: FunctionMetric
+  value: number
+  limit: number
+  baseline?: number
+
+  /**
+   * The change since the baseline, in percent.
+   */
+  change?: number
+  overLimit: boolean
+  regressed: boolean
+}
+
+interface ProfileFunctionOptions {
+  /**
+   * The path of the input JSON file.
+   */
+  input: string
+  export: string
+  json: boolean
+  threshold: number
+  updateBaseline: boolean
+}
+
+/**
+ * Extracts the profile of a function run.
+ */
+export function profileRun(run: FunctionRunResult): FunctionProfile {
+  return {
+    instructions: run.instructions,
+    memoryUsage: run.memory_usage,
+    outputSize: Buffer.byteLength(JSON.stringify(run.output ?? null)),
+  }
+}
+
+/**
+ * Compares a profile with the limits of the platform and with a baseline.
+ *
+ * @param profile - the profile of a run
+ * @param baseline - the baseline of the input, if there's one
+ * @param threshold - the increase, in percent, above which a metric regressed
+ */
+export function compareProfile(
+  profile: FunctionProfile,
+  baseline: FunctionProfile | undefined,
+  threshold: number,
+): MetricComparison[] {
+  return (Object.keys(METRICS) as FunctionMetric[]).map((metric) => {
+    const value = profile[metric]
+    const limit = FUNCTION_LIMITS[metric]
+    const baselineValue = baseline?.[metric]
+    const change = baselineValue ? ((value - baselineValue) / baselineValue) * 100 : undefined
+
+    return {
+      metric,
+      value,
+      limit,
+      baseline: baselineValue,
+      change,
+      overLimit: value > limit,
+      regressed: change !== undefined && change > threshold,
+    }
+  })
+}
+
+/**
+ * Loads the baselines of a function.
+ *
+ * @returns the baselines, by input file relative to the function directory
+ */
+export async function loadFunctionBaselines(
+  app: AppInterface,
+  fun: ExtensionInstance<FunctionConfigType>,
+): Promise<{[input: string]: FunctionBaseline}> {
+  return (await readBaselines(app))[fun.localIdentifier] ?? {}
+}
+
+/**
+ * Stores baselines of a function, replacing the previous baselines of the
+ * same inputs.
+ *
+ * @param baselines - the baselines, by input file relative to the function directory
+ */
+export async function saveFunctionBaselines(
+  app: AppInterface,
+  fun: ExtensionInstance<FunctionConfigType>,
+  baselines: {[input: string]: FunctionBaseline},
+) {
+  const allBaselines = await readBaselines(app)
+  allBaselines[fun.localIdentifier] = {...allBaselines[fun.localIdentifier], ...baselines}
+
+  const baselinesPath = joinPath(app.directory, BASELINES_FILE)
+  await mkdir(dirname(baselinesPath))
+  await writeFile(baselinesPath, `${JSON.stringify(allBaselines, null, 2)}\n`)
+}
+
+/**
+ * Runs an input against a function, and reports the resources it uses
+ * compared with the limits of the platform and with the baseline of the
+ * input.
+ *
+ * The run becomes the baseline of the input when there's none yet, or when
+ * the baseline is updated explicitly.
+ */
+export async function profileFunction(
+  app: AppInterface,
+  fun: ExtensionInstance<FunctionConfigType>,
+  options: ProfileFunctionOptions,
+) {
+  if (!(await fileExists(options.input))) {
+    throw new AbortError(`The input file ${options.input} doesn't exist.`)
+  }
+
+  const run = await captureFunctionRunner(fun, {input: await readFile(options.input), export: options.export})
+  const input = relativePath(fun.directory, options.input)
+  const profile = profileRun(run)
+  const baseline = (await loadFunctionBaselines(app, fun))[input]
+  const comparisons = compareProfile(profile, baseline, options.threshold)
+
+  if (!baseline || options.updateBaseline) {
+    await saveFunctionBaselines(app, fun, {[input]: {...profile, export: options.export}})
+  }
+
+  if (options.json) {
+    outputInfo(JSON.stringify({...run, profile: comparisons}, null, 2))
+    return
+  }
+
+  outputInfo(JSON.stringify(run.output, null, 2))
+  renderProfile(comparisons)
+  warnAboutProfile(input, comparisons, options.threshold)
+}
+
+/**
+ * Runs the inputs that have a baseline against a function, and warns when
+ * a metric regressed or exceeds the limits of the platform.
+ *
+ * The inputs that can't be compared are reported as warnings too, so they
+ * don't fail the command that built the function.
+ */
+export async function warnAboutProfileRegressions(
+  app: AppInterface,
+  fun: ExtensionInstance<FunctionConfigType>,
+  threshold = DEFAULT_REGRESSION_THRESHOLD,
+) {
+  let baselines: [string, FunctionBaseline][]
+  try {
+    baselines = Object.entries(await loadFunctionBaselines(app, fun))
+    // eslint-disable-next-line no-catch-all/no-catch-all
+  } catch (error) {
+    renderWarning({headline: "The baselines of the function couldn't be loaded.", body: errorMessage(error)})
+    return
+  }
+
+  // Inputs run one by one, so they don't compete for the CPU
+  for (const [input, baseline] of baselines) {
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      const comparisons = await compareWithBaseline(fun, input, baseline, threshold)
+      if (comparisons) warnAboutProfile(input, comparisons, threshold)
+      // eslint-disable-next-line no-catch-all/no-catch-all
+    } catch (error) {
+      renderWarning({headline: `${input} couldn't be compared with its baseline.`, body: errorMessage(error)})
+    }
+  }
+}
+
+async function compareWithBaseline(
+  fun: ExtensionInstance<FunctionConfigType>,
+  input: string,
+  baseline: FunctionBaseline,
+  threshold: number,
+) {
+  const inputPath = joinPath(fun.directory, input)
+  if (!(await fileExists(inputPath))) return undefined
+
+  // Fixtures wrap the input with the expected output
+  const content = await readFile(inputPath)
+  const inputContent = isFixture(input) ? JSON.stringify(JSON.parse(content).input) : content
+
+  const run = await captureFunctionRunner(fun, {input: inputContent, export: baseline.export})
+  return compareProfile(profileRun(run), baseline, threshold)
+}
+
+/**
+ * Warns when a metric of a run regressed since the baseline or exceeds the
+ * limits of the platform.
+ */
+export function warnAboutProfile(input: string, comparisons: MetricComparison[], threshold: number) {
+  const items = comparisons.flatMap((comparison) => {
+    const {name} = METRICS[comparison.metric]
+    const messages = []
+
+    if (comparison.overLimit) {
+      messages.push(
+        `${name} is ${formatMetric(comparison.metric, comparison.value)}, over the limit of ${formatMetric(
+          comparison.metric,
+          comparison.limit,
+        )}.`,
+      )
+    }
+    if (comparison.regressed) {
+      messages.push(
+        `${name} went up by ${formatChange(
+          comparison.change!,
+        )} since the baseline, more than the ${threshold}% allowed.`,
+      )
+    }
+
+    return messages
+  })
+
+  if (items.length === 0) return
+
+  renderWarning({
+    headline: `The function uses more resources to run ${input}.`,
+    body: {list: {items}},
+    nextSteps: [
+      isFixture(input)
+        ? 'Update the baselines with `shopify app function test --update-baseline`'
+        : `Update the baseline with \`shopify app function run --profile --update-baseline --input ${input}\``,
+    ],
+  })
+}
+
+function renderProfile(comparisons: MetricComparison[]) {
+  renderTable({
+    rows: comparisons.map((comparison) => ({
+      metric: METRICS[comparison.metric].name,
+      value: formatMetric(comparison.metric, comparison.value),
+      limit: `${formatMetric(comparison.metric, comparison.limit)} (${formatUsage(
+        comparison.value,
+        comparison.limit,
+      )})`,
+      baseline: comparison.baseline === undefined ? '' : formatMetric(comparison.metric, comparison.baseline),
+      change: comparison.change === undefined ? '' : formatChange(comparison.change),
+    })),
+    columns: {
+      metric: {header: 'Metric'},
+      value: {header: 'Value'},
+      limit: {header: 'Limit', color: 'dim'},
+      baseline: {header: 'Baseline', color: 'dim'},
+      change: {header: 'Change'},
+    },
+  })
+}
+
+function isFixture(input: string) {
+  return input.startsWith(`${FIXTURES_DIRECTORY}/`)
+}
+
+async function readBaselines(app: AppInterface): Promise<FunctionBaselines> {
+  const baselinesPath = joinPath(app.directory, BASELINES_FILE)
+  if (!(await fileExists(baselinesPath))) return {}
+
+  try {
+    return JSON.parse(await readFile(baselinesPath))
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new AbortError(`The ${BASELINES_FILE} file isn't valid JSON: ${error.message}`)
+    }
+    throw error
+  }
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function formatMetric(metric: FunctionMetric, value: number) {
+  return `${value.toLocaleString('en-US')}${METRICS[metric].unit}`
+}
+
+function formatUsage(value: number, limit: number) {
+  return `${Math.round((value / limit) * 100)}% used`
+}
+
+function formatChange(change: number) {
+  return `${change > 0 ? '+' : ''}${change.toFixed(1)}%`
+}
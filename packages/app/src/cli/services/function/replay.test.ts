@@ -0,0 +1,192 @@
+import {replayFunction} from './replay.js'
+import {runFunctionRunner} from './build.js'
+import {testApp, testDeveloperPlatformClient, testFunctionExtension} from '../../models/app/app.test-data.js'
+import {ExtensionInstance} from '../../models/extensions/extension-instance.js'
+import {FunctionConfigType} from '../../models/extensions/specifications/function.js'
+import {FunctionRun} from '../../api/graphql/functions/function_runs.js'
+import {beforeEach, describe, expect, test, vi} from 'vitest'
+import {inTemporaryDirectory, readFile} from '@shopify/cli-kit/node/fs'
+import {joinPath} from '@shopify/cli-kit/node/path'
+import {renderAutocompletePrompt} from '@shopify/cli-kit/node/ui'
+import {isTerminalInteractive} from '@shopify/cli-kit/node/context/local'
+
+vi.mock('./build.js')
+vi.mock('@shopify/cli-kit/node/ui')
+vi.mock('@shopify/cli-kit/node/context/local')
+
+const RUN: FunctionRun = {
+  id: '1',
+  createdAt: '2024-01-01T00:00:00Z',
+  status: 'success',
+  shopDomain: 'my-shop.myshopify.com',
+  export: 'run',
+  input: '{"cart":{"lines":[]}}',
+  output: '{"operations":[]}',
+  logs: '',
+}
+
+function deployedApp(tmpDir: string, ourFunction: ExtensionInstance<FunctionConfigType>) {
+  return testApp({
+    directory: tmpDir,
+    allExtensions: [ourFunction],
+    dotenv: {
+      path: joinPath(tmpDir, '.env'),
+      variables: {SHOPIFY_API_KEY: 'api-key', [ourFunction.idEnvironmentVariableName]: 'function-id'},
+    },
+  })
+}
+
+beforeEach(() => {
+  vi.mocked(isTerminalInteractive).mockReturnValue(true)
+})
+
+describe('replayFunction', () => {
+  test('saves the picked run as a fixture and runs its input', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await testFunctionExtension({dir: tmpDir})
+      const functionRuns = vi.fn().mockResolvedValue({app: {functionRuns: {nodes: [{...RUN, id: '2'}, RUN]}}})
+      const developerPlatformClient = testDeveloperPlatformClient({functionRuns})
+      vi.mocked(renderAutocompletePrompt).mockResolvedValue('1')
+      let replayedInput: string | undefined
+      vi.mocked(runFunctionRunner).mockImplementation(async (_fun, {input}) => {
+        replayedInput = await readFile(input!)
+      })
+
+      // When
+      await replayFunction({
+        app: deployedApp(tmpDir, ourFunction),
+        extension: ourFunction,
+        json: false,
+        limit: 10,
+        developerPlatformClient,
+      })
+
+      // Then
+      expect(functionRuns).toHaveBeenCalledWith({apiKey: 'api-key', functionId: 'function-id', first: 10})
+      expect(renderAutocompletePrompt).toHaveBeenCalledWith({
+        message: 'Which run do you want to replay?',
+        choices: [
+          {label: '2024-01-01T00:00:00Z · my-shop.myshopify.com · run', value: '2'},
+          {label: '2024-01-01T00:00:00Z · my-shop.myshopify.com · run', value: '1'},
+        ],
+      })
+      const fixture = await readFile(joinPath(tmpDir, 'tests/fixtures/replays/my-shop.myshopify.com-1.json'))
+      expect(JSON.parse(fixture)).toEqual({export: 'run', input: {cart: {lines: []}}, output: {operations: []}})
+      expect(runFunctionRunner).toHaveBeenCalledWith(ourFunction, expect.objectContaining({export: 'run', json: false}))
+      expect(replayedInput).toEqual(RUN.input)
+    })
+  })
+
+  test('replays the run with the id that is passed', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await testFunctionExtension({dir: tmpDir})
+      const functionRuns = vi.fn().mockResolvedValue({app: {functionRuns: {nodes: [{...RUN, id: '2'}, RUN]}}})
+
+      // When
+      await replayFunction({
+        app: deployedApp(tmpDir, ourFunction),
+        extension: ourFunction,
+        json: false,
+        limit: 10,
+        runId: '1',
+        developerPlatformClient: testDeveloperPlatformClient({functionRuns}),
+      })
+
+      // Then
+      expect(renderAutocompletePrompt).not.toHaveBeenCalled()
+      await expect(
+        readFile(joinPath(tmpDir, 'tests/fixtures/replays/my-shop.myshopify.com-1.json')),
+      ).resolves.toBeDefined()
+    })
+  })
+
+  test('replays the most recent run when the terminal is not interactive', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await testFunctionExtension({dir: tmpDir})
+      const functionRuns = vi.fn().mockResolvedValue({app: {functionRuns: {nodes: [{...RUN, id: '2'}, RUN]}}})
+      vi.mocked(isTerminalInteractive).mockReturnValue(false)
+
+      // When
+      await replayFunction({
+        app: deployedApp(tmpDir, ourFunction),
+        extension: ourFunction,
+        json: false,
+        limit: 10,
+        developerPlatformClient: testDeveloperPlatformClient({functionRuns}),
+      })
+
+      // Then
+      expect(renderAutocompletePrompt).not.toHaveBeenCalled()
+      await expect(
+        readFile(joinPath(tmpDir, 'tests/fixtures/replays/my-shop.myshopify.com-2.json')),
+      ).resolves.toBeDefined()
+    })
+  })
+
+  test('fails when no recent run has the id that is passed', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await testFunctionExtension({dir: tmpDir})
+      const functionRuns = vi.fn().mockResolvedValue({app: {functionRuns: {nodes: [RUN]}}})
+
+      // When
+      const got = replayFunction({
+        app: deployedApp(tmpDir, ourFunction),
+        extension: ourFunction,
+        json: false,
+        limit: 10,
+        runId: 'missing',
+        developerPlatformClient: testDeveloperPlatformClient({functionRuns}),
+      })
+
+      // Then
+      await expect(got).rejects.toThrow("The run missing isn't one of the 10 most recent runs of the function.")
+      expect(runFunctionRunner).not.toHaveBeenCalled()
+    })
+  })
+
+  test('fails when the function has not been deployed', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await testFunctionExtension({dir: tmpDir})
+      const app = testApp({directory: tmpDir, allExtensions: [ourFunction]})
+
+      // When
+      const got = replayFunction({
+        app,
+        extension: ourFunction,
+        apiKey: 'api-key',
+        json: false,
+        limit: 10,
+        developerPlatformClient: testDeveloperPlatformClient(),
+      })
+
+      // Then
+      await expect(got).rejects.toThrow(`The function ${ourFunction.localIdentifier} hasn't been deployed yet.`)
+    })
+  })
+
+  test('fails when the function does not have recent runs', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await testFunctionExtension({dir: tmpDir})
+
+      // When
+      const got = replayFunction({
+        app: deployedApp(tmpDir, ourFunction),
+        extension: ourFunction,
+        json: false,
+        limit: 10,
+        developerPlatformClient: testDeveloperPlatformClient(),
+      })
+
+      // Then
+      await expect(got).rejects.toThrow(`The function ${ourFunction.localIdentifier} doesn't have any recent runs.`)
+      expect(renderAutocompletePrompt).not.toHaveBeenCalled()
+      expect(runFunctionRunner).not.toHaveBeenCalled()
+    })
+  })
+})
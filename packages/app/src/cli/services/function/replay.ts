@@ -0,0 +1,141 @@
+import {runFunctionRunner} from './build.js'
+import {FIXTURES_DIRECTORY} from './fixtures.js'
+import {fetchOrCreateOrganizationApp} from '../context.js'
+import {AppInterface} from '../../models/app/app.js'
+import {getAppIdentifiers} from '../../models/app/identifiers.js'
+import {ExtensionInstance} from '../../models/extensions/extension-instance.js'
+import {FunctionConfigType} from '../../models/extensions/specifications/function.js'
+import {FunctionRun} from '../../api/graphql/functions/function_runs.js'
+import {DeveloperPlatformClient, selectDeveloperPlatformClient} from '../../utilities/developer-platform-client.js'
+import {isTerminalInteractive} from '@shopify/cli-kit/node/context/local'
+import {AbortError} from '@shopify/cli-kit/node/error'
+import {inTemporaryDirectory, mkdir, writeFile} from '@shopify/cli-kit/node/fs'
+import {outputContent} from '@shopify/cli-kit/node/output'
+import {dirname, joinPath} from '@shopify/cli-kit/node/path'
+import {renderAutocompletePrompt, renderInfo} from '@shopify/cli-kit/node/ui'
+
+/**
+ * The directory of the fixtures directory where replayed runs are saved.
+ */
+const REPLAYS_DIRECTORY = 'replays'
+
+interface ReplayFunctionOptions {
+  app: AppInterface
+  extension: ExtensionInstance<FunctionConfigType>
+  apiKey?: string
+  json: boolean
+
+  /**
+   * The number of recent runs to pick from.
+   */
+  limit: number
+
+  /**
+   * The id of the run to replay. When it isn't passed, the developer picks
+   * one, or the most recent one is replayed if the terminal isn't interactive.
+   */
+  runId?: string
+  developerPlatformClient?: DeveloperPlatformClient
+}
+
+/**
+ * Picks a recent run of a deployed function, saves it as a fixture, and runs
+ * its input against the local build of the function.
+ */
+export async function replayFunction(options: ReplayFunctionOptions) {
+  const {app, extension} = options
+  const developerPlatformClient = options.developerPlatformClient ?? selectDeveloperPlatformClient()
+  const identifiers = getAppIdentifiers({app})
+  let apiKey = options.apiKey || identifiers.app
+
+  if (!apiKey) {
+    if (!isTerminalInteractive()) {
+      throw new AbortError(
+        outputContent`No Client ID was provided.`,
+        outputContent`Provide a Client ID with the --client-id flag.`,
+      )
+    }
+
+    apiKey = (await fetchOrCreateOrganizationApp(app, developerPlatformClient)).apiKey
+  }
+
+  const functionId = identifiers.extensions?.[extension.localIdentifier]
+  if (!functionId) {
+    throw new AbortError(
+      `The function ${extension.localIdentifier} hasn't been deployed yet.`,
+      'Deploy it with `shopify app deploy` to replay its runs.',
+    )
+  }
+
+  const response = await developerPlatformClient.functionRuns({apiKey, functionId, first: options.limit})
+  const runs = response.app.functionRuns.nodes
+  if (runs.length === 0) {
+    throw new AbortError(`The function ${extension.localIdentifier} doesn't have any recent runs.`)
+  }
+
+  const run = await selectRun(runs, options)
+
+  const fixture = await saveRunFixture(extension, run)
+  renderInfo({
+    headline: `The run was saved as the fixture ${fixture}.`,
+    body: 'The fixture expects the output the deployed function returned.',
+    nextSteps: ['Run the fixtures with `shopify app function test`'],
+  })
+
+  // function-runner reads the raw input, not the fixture that wraps it
+  await inTemporaryDirectory(async (tmpDir) => {
+    const input = joinPath(tmpDir, 'input.json')
+    await writeFile(input, run.input)
+    await runFunctionRunner(extension, {input, export: run.export, json: options.json})
+  })
+}
+
+async function selectRun(runs: FunctionRun[], options: ReplayFunctionOptions) {
+  if (options.runId) {
+    const run = runs.find(({id}) => id === options.runId)
+    if (!run) {
+      throw new AbortError(
+        `The run ${options.runId} isn't one of the ${options.limit} most recent runs of the function.`,
+        'Look for it among more runs with --limit.',
+      )
+    }
+    return run
+  }
+
+  // Runs are listed from the most recent one
+  if (!isTerminalInteractive()) return runs[0]!
+
+  const runId = await renderAutocompletePrompt({
+    message: 'Which run do you want to replay?',
+    choices: runs.map((run) => ({label: runLabel(run), value: run.id})),
+  })
+  return runs.find(({id}) => id === runId)!
+}
+
+/**
+ * Saves a run as a fixture of the function.
+ *
+ * @returns the path of the fixture, relative to the function directory
+ */
+async function saveRunFixture(fun: ExtensionInstance<FunctionConfigType>, run: FunctionRun) {
+  const fixture = joinPath(FIXTURES_DIRECTORY, REPLAYS_DIRECTORY, `${fixtureName(run)}.json`)
+  const fixturePath = joinPath(fun.directory, fixture)
+  const content = {
+    export: run.export,
+    input: JSON.parse(run.input),
+    output: run.output === null ? null : JSON.parse(run.output),
+  }
+
+  await mkdir(dirname(fixturePath))
+  await writeFile(fixturePath, `${JSON.stringify(content, null, 2)}\n`)
+  return fixture
+}
+
+function fixtureName(run: FunctionRun) {
+  return `${run.shopDomain}-${run.id}`.replace(/[^\w.-]+/g, '-')
+}
+
+function runLabel(run: FunctionRun) {
+  const status = run.status === 'success' ? '' : ` (${run.status})`
+  return `${run.createdAt} · ${run.shopDomain} · ${run.export}${status}`
+}
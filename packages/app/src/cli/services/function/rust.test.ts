@@ -0,0 +1,98 @@
+import {buildRustFunction, builtWasmModule} from './rust.js'
+import {testFunctionExtension} from '../../models/app/app.test-data.js'
+import {describe, expect, test, vi} from 'vitest'
+import {fileExists, inTemporaryDirectory, mkdir, readFile, writeFile} from '@shopify/cli-kit/node/fs'
+import {joinPath} from '@shopify/cli-kit/node/path'
+import {captureOutput, exec} from '@shopify/cli-kit/node/system'
+import {Writable} from 'stream'
+
+vi.mock('@shopify/cli-kit/node/system')
+
+function cargoMessages(wasmPath: string) {
+  return [
+    JSON.stringify({reason: 'compiler-artifact', filenames: ['/target/release/libshopify_function.rlib']}),
+    JSON.stringify({reason: 'compiler-artifact', filenames: [wasmPath]}),
+    JSON.stringify({reason: 'build-finished', success: true}),
+  ].join('\n')
+}
+
+function outputStreams() {
+  return {stdout: {write: vi.fn()} as unknown as Writable, stderr: {write: vi.fn()} as unknown as Writable}
+}
+
+describe('builtWasmModule', () => {
+  test('returns the wasm module among the artifacts', () => {
+    // When
+    const got = builtWasmModule(cargoMessages('/target/wasm32-wasip1/release/my-function.wasm'))
+
+    // Then
+    expect(got).toEqual('/target/wasm32-wasip1/release/my-function.wasm')
+  })
+
+  test('returns undefined when cargo did not produce a wasm module', () => {
+    // When
+    const got = builtWasmModule(JSON.stringify({reason: 'build-finished', success: true}))
+
+    // Then
+    expect(got).toBeUndefined()
+  })
+})
+
+describe('buildRustFunction', () => {
+  test('builds with cargo for the installed target and copies the wasm module to the output path', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await testFunctionExtension({dir: tmpDir})
+      const wasmPath = joinPath(tmpDir, 'target/wasm32-wasi/release/my-function.wasm')
+      await mkdir(joinPath(tmpDir, 'target/wasm32-wasi/release'))
+      await writeFile(wasmPath, 'wasm')
+      vi.mocked(captureOutput).mockResolvedValue('aarch64-apple-darwin\nwasm32-wasi\n')
+      vi.mocked(exec).mockImplementation(async (_command, _args, options) => {
+        ;(options!.stdout as Writable).write(cargoMessages(wasmPath))
+      })
+
+      // When
+      await buildRustFunction(ourFunction, outputStreams())
+
+      // Then
+      expect(exec).toHaveBeenCalledWith(
+        'cargo',
+        ['build', '--release', '--target', 'wasm32-wasi', '--message-format=json-render-diagnostics'],
+        expect.objectContaining({cwd: tmpDir}),
+      )
+      await expect(readFile(ourFunction.outputPath)).resolves.toEqual('wasm')
+    })
+  })
+
+  test('fails when no wasm target is installed', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await testFunctionExtension({dir: tmpDir})
+      vi.mocked(captureOutput).mockResolvedValue('aarch64-apple-darwin\n')
+
+      // When
+      const got = buildRustFunction(ourFunction, outputStreams())
+
+      // Then
+      await expect(got).rejects.toThrow("The Rust target wasm32-wasip1 isn't installed.")
+      expect(exec).not.toHaveBeenCalled()
+    })
+  })
+
+  test('fails when cargo does not produce a wasm module', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await testFunctionExtension({dir: tmpDir})
+      vi.mocked(captureOutput).mockResolvedValue('wasm32-wasip1\n')
+
+      // When
+      const got = buildRustFunction(ourFunction, outputStreams())
+
+      // Then
+      await expect(got).rejects.toThrow(
+        `Cargo didn't produce a wasm module for the function ${ourFunction.localIdentifier}.`,
+      )
+      await expect(fileExists(ourFunction.outputPath)).resolves.toBe(false)
+    })
+  })
+})
@@ -0,0 +1,115 @@
+import {ExtensionInstance} from '../../models/extensions/extension-instance.js'
+import {FunctionConfigType} from '../../models/extensions/specifications/function.js'
+import {copyFile, fileExists, mkdir} from '@shopify/cli-kit/node/fs'
+import {dirname, joinPath} from '@shopify/cli-kit/node/path'
+import {captureOutput, exec} from '@shopify/cli-kit/node/system'
+import {AbortError} from '@shopify/cli-kit/node/error'
+import {AbortSignal} from '@shopify/cli-kit/node/abort'
+import {Writable} from 'stream'
+
+/**
+ * The target triples that build wasm modules the platform runs, from the
+ * newest name to the name older toolchains use.
+ */
+export const RUST_TARGETS = ['wasm32-wasip1', 'wasm32-wasi']
+
+interface RustFunctionBuildOptions {
+  stdout: Writable
+  stderr: Writable
+  signal?: AbortSignal
+}
+
+/**
+ * A message that cargo outputs with `--message-format=json`.
+ */
+interface CargoMessage {
+  reason: string
+  filenames?: string[]
+}
+
+/**
+ * Whether a function is a Rust crate, which it is when its directory has a
+ * Cargo.toml file.
+ */
+export async function isRustFunction(fun: ExtensionInstance<FunctionConfigType>) {
+  return fileExists(joinPath(fun.directory, 'Cargo.toml'))
+}
+
+/**
+ * Builds a Rust function with cargo, for the first wasm target that's
+ * installed, and copies the wasm module cargo produces to the output path of
+ * the function.
+ */
+export async function buildRustFunction(fun: ExtensionInstance<FunctionConfigType>, options: RustFunctionBuildOptions) {
+  const target = await installedRustTarget()
+  options.stdout.write(`Building function ${fun.localIdentifier} for ${target}...\n`)
+
+  let messages = ''
+  const cargoOutput = new Writable({
+    write(chunk, _encoding, callback) {
+      messages += chunk
+      callback()
+    },
+  })
+
+  // The platform enforces the instruction limits on development previews
+  // too, so functions always build with the optimized release profile
+  await exec('cargo', ['build', '--release', '--target', target, '--message-format=json-render-diagnostics'], {
+    cwd: fun.directory,
+    stdout: cargoOutput,
+    stderr: options.stderr,
+    signal: options.signal,
+  })
+  if (options.signal?.aborted) return
+
+  const wasmPath = builtWasmModule(messages)
+  if (!wasmPath) {
+    throw new AbortError(
+      `Cargo didn't produce a wasm module for the function ${fun.localIdentifier}.`,
+      'Check that the crate of the function is a binary crate.',
+    )
+  }
+
+  await mkdir(dirname(fun.outputPath))
+  await copyFile(wasmPath, fun.outputPath)
+  options.stdout.write(`Done!\n`)
+}
+
+async function installedRustTarget() {
+  let installedTargets: string[]
+  try {
+    installedTargets = (await captureOutput('rustup', ['target', 'list', '--installed'])).split('\n')
+  } catch (error) {
+    throw new AbortError(
+      'Rust functions are built with rustup, which is not installed.',
+      'Install it from https://rustup.rs',
+    )
+  }
+
+  const target = RUST_TARGETS.find((triple) => installedTargets.includes(triple))
+  if (!target) {
+    throw new AbortError(
+      `The Rust target ${RUST_TARGETS[0]} isn't installed.`,
+      `Install it with \`rustup target add ${RUST_TARGETS[0]}\``,
+    )
+  }
+  return target
+}
+
+/**
+ * Finds the wasm module among the artifacts of a cargo build.
+ *
+ * @param messages - the JSON messages cargo outputs, one per line
+ * @returns the path of the last wasm module cargo produced, if any
+ */
+export function builtWasmModule(messages: string): string | undefined {
+  const wasmPaths = messages
+    .split('\n')
+    .filter((line) => line.startsWith('{'))
+    .map((line) => JSON.parse(line) as CargoMessage)
+    .filter(({reason}) => reason === 'compiler-artifact')
+    .flatMap(({filenames}) => filenames ?? [])
+    .filter((filename) => filename.endsWith('.wasm'))
+
+  return wasmPaths[wasmPaths.length - 1]
+}
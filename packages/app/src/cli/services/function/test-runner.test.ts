@@ -0,0 +1,210 @@
+import {FunctionTestResult, junitReport, testFunction} from './test-runner.js'
+import {captureFunctionRunner} from './build.js'
+import {testApp, testFunctionExtension} from '../../models/app/app.test-data.js'
+import {describe, expect, test, vi} from 'vitest'
+import {inTemporaryDirectory, mkdir, readFile, writeFile} from '@shopify/cli-kit/node/fs'
+import {dirname, joinPath} from '@shopify/cli-kit/node/path'
+import {renderError, renderSuccess, renderWarning} from '@shopify/cli-kit/node/ui'
+import {AbortSilentError} from '@shopify/cli-kit/node/error'
+
+vi.mock('./build.js')
+vi.mock('@shopify/cli-kit/node/ui')
+
+async function writeJson(path: string, content: unknown) {
+  await mkdir(dirname(path))
+  await writeFile(path, JSON.stringify(content))
+}
+
+async function builtFunction(tmpDir: string) {
+  const ourFunction = await testFunctionExtension({dir: tmpDir})
+  await writeJson(ourFunction.outputPath, {})
+  return ourFunction
+}
+
+const baselineOptions = {threshold: 10, updateBaseline: false}
+
+function runResult(output: unknown, instructions = 1000) {
+  return {name: 'my-function', size: 1, memory_usage: 64, instructions, logs: '', input: {}, output}
+}
+
+describe('testFunction', () => {
+  test('fails when the function is not built', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await testFunctionExtension({dir: tmpDir})
+
+      // When
+      const got = testFunction(testApp({directory: tmpDir}), ourFunction, {reporter: 'default', ...baselineOptions})
+
+      // Then
+      await expect(got).rejects.toThrow(`The function ${ourFunction.localIdentifier} isn't built.`)
+    })
+  })
+
+  test('fails when the function has no fixtures', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await builtFunction(tmpDir)
+
+      // When
+      const got = testFunction(testApp({directory: tmpDir}), ourFunction, {reporter: 'default', ...baselineOptions})
+
+      // Then
+      await expect(got).rejects.toThrow('No fixtures were found in tests/fixtures.')
+    })
+  })
+
+  test('runs every fixture and renders a success when they all pass', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await builtFunction(tmpDir)
+      await writeJson(joinPath(tmpDir, 'tests/fixtures/cart.json'), {input: {cart: 1}, output: {operations: []}})
+      vi.mocked(captureFunctionRunner).mockResolvedValue(runResult({operations: []}))
+
+      // When
+      await testFunction(testApp({directory: tmpDir}), ourFunction, {reporter: 'default', ...baselineOptions})
+
+      // Then
+      expect(captureFunctionRunner).toHaveBeenCalledWith(ourFunction, {input: '{"cart":1}', export: '_start'})
+      expect(renderSuccess).toHaveBeenCalledWith({headline: '1 fixture(s) passed.'})
+    })
+  })
+
+  test('renders the differences and fails when a fixture does not pass', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await builtFunction(tmpDir)
+      await writeJson(joinPath(tmpDir, 'tests/fixtures/cart.json'), {input: {}, output: {operations: [1]}})
+      await writeJson(joinPath(tmpDir, 'tests/fixtures/crash.json'), {input: {}, output: {}})
+      vi.mocked(captureFunctionRunner)
+        .mockResolvedValueOnce(runResult({operations: [2]}))
+        .mockRejectedValueOnce(new Error('The function trapped'))
+
+      // When
+      const got = testFunction(testApp({directory: tmpDir}), ourFunction, {reporter: 'default', ...baselineOptions})
+
+      // Then
+      await expect(got).rejects.toThrow(AbortSilentError)
+      expect(renderError).toHaveBeenCalledWith({
+        headline: "The fixture cart doesn't return the expected output.",
+        body: {list: {items: ['$.operations[0]: expected 1, received 2']}},
+      })
+      expect(renderError).toHaveBeenCalledWith({
+        headline: "The fixture crash couldn't run.",
+        body: 'The function trapped',
+      })
+      expect(renderSuccess).not.toHaveBeenCalled()
+    })
+  })
+
+  test('writes the json report to the output file', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await builtFunction(tmpDir)
+      const outputFile = joinPath(tmpDir, 'report.json')
+      await writeJson(joinPath(tmpDir, 'tests/fixtures/cart.json'), {input: {}, output: {}})
+      vi.mocked(captureFunctionRunner).mockResolvedValue(runResult({}))
+
+      // When
+      await testFunction(testApp({directory: tmpDir}), ourFunction, {reporter: 'json', outputFile, ...baselineOptions})
+
+      // Then
+      const report = JSON.parse(await readFile(outputFile))
+      expect(report).toEqual({
+        function: ourFunction.localIdentifier,
+        results: [
+          {
+            fixture: 'cart',
+            export: '_start',
+            status: 'passed',
+            duration: expect.any(Number),
+            differences: [],
+            profile: {instructions: 1000, memoryUsage: 64, outputSize: 2},
+          },
+        ],
+      })
+    })
+  })
+})
+
+describe('testFunction baselines', () => {
+  test('stores the baselines of the passed fixtures', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await builtFunction(tmpDir)
+      await writeJson(joinPath(tmpDir, 'tests/fixtures/cart.json'), {input: {}, output: {}})
+      vi.mocked(captureFunctionRunner).mockResolvedValue(runResult({}))
+
+      // When
+      await testFunction(testApp({directory: tmpDir}), ourFunction, {reporter: 'default', ...baselineOptions})
+
+      // Then
+      const baselines = JSON.parse(await readFile(joinPath(tmpDir, '.shopify/function-baselines.json')))
+      expect(baselines).toEqual({
+        [ourFunction.localIdentifier]: {
+          'tests/fixtures/cart.json': {instructions: 1000, memoryUsage: 64, outputSize: 2, export: '_start'},
+        },
+      })
+      expect(renderWarning).not.toHaveBeenCalled()
+    })
+  })
+
+  test('warns when a fixture uses more instructions than its baseline allows', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await builtFunction(tmpDir)
+      await writeJson(joinPath(tmpDir, 'tests/fixtures/cart.json'), {input: {}, output: {}})
+      await writeJson(joinPath(tmpDir, '.shopify/function-baselines.json'), {
+        [ourFunction.localIdentifier]: {
+          'tests/fixtures/cart.json': {instructions: 1000, memoryUsage: 64, outputSize: 2, export: '_start'},
+        },
+      })
+      vi.mocked(captureFunctionRunner).mockResolvedValue(runResult({}, 1200))
+
+      // When
+      await testFunction(testApp({directory: tmpDir}), ourFunction, {reporter: 'default', ...baselineOptions})
+
+      // Then
+      expect(renderWarning).toHaveBeenCalledWith({
+        headline: 'The function uses more resources to run tests/fixtures/cart.json.',
+        body: {list: {items: ['Instructions went up by +20.0% since the baseline, more than the 10% allowed.']}},
+        nextSteps: ['Update the baselines with `shopify app function test --update-baseline`'],
+      })
+    })
+  })
+})
+
+describe('junitReport', () => {
+  test('reports the passed, failed and errored fixtures', () => {
+    // Given
+    const results: FunctionTestResult[] = [
+      {fixture: 'passed', export: 'run', status: 'passed', duration: 5, differences: []},
+      {
+        fixture: 'failed',
+        export: 'run',
+        status: 'failed',
+        duration: 10,
+        differences: [{path: '$.a', kind: 'changed', expected: '<b>', actual: 'c'}],
+      },
+      {fixture: 'errored', export: 'run', status: 'errored', duration: 0, differences: [], error: 'Trapped'},
+    ]
+
+    // When
+    const got = junitReport('my-function', results)
+
+    // Then
+    const suiteAttributes = 'name="my-function" tests="3" failures="1" errors="1" time="0.015"'
+    expect(got).toEqual(`<?xml version="1.0" encoding="UTF-8"?>
+<testsuites ${suiteAttributes}>
+  <testsuite ${suiteAttributes}>
+    <testcase name="passed" classname="my-function" time="0.005"/>
+    <testcase name="failed" classname="my-function" time="0.010">
+      <failure message="The function doesn't return the expected output.">$.a: expected &quot;&lt;b&gt;&quot;, received &quot;c&quot;</failure>
+    </testcase>
+    <testcase name="errored" classname="my-function" time="0.000">
+      <error message="Trapped"/>
+    </testcase>
+  </testsuite>
+</testsuites>`)
+  })
+})
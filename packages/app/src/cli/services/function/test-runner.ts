@@ -0,0 +1,286 @@
+import {captureFunctionRunner} from './build.js'
+import {FIXTURES_DIRECTORY, FunctionFixture, loadFunctionFixtures} from './fixtures.js'
+import {JsonDifference, diffJson, formatJsonDifference} from './json-diff.js'
+import {
+  FunctionBaseline,
+  FunctionProfile,
+  compareProfile,
+  loadFunctionBaselines,
+  profileRun,
+  saveFunctionBaselines,
+  warnAboutProfile,
+} from './profile.js'
+import {AppInterface} from '../../models/app/app.js'
+import {ExtensionInstance} from '../../models/extensions/extension-instance.js'
+import {FunctionConfigType} from '../../models/extensions/specifications/function.js'
+import {fileExists, writeFile} from '@shopify/cli-kit/node/fs'
+import {relativePath} from '@shopify/cli-kit/node/path'
+import {AbortError, AbortSilentError} from '@shopify/cli-kit/node/error'
+import {outputInfo} from '@shopify/cli-kit/node/output'
+import {renderError, renderSuccess, renderTable} from '@shopify/cli-kit/node/ui'
+
+export type FunctionTestReporter = 'default' | 'json' | 'junit'
+
+interface FunctionTestOptions {
+  /**
+   * When set, only the fixtures whose name includes it run.
+   */
+  filter?: string
+  reporter: FunctionTestReporter
+
+  /**
+   * The file where the json or junit report is written. When it's not set,
+   * the report is written to the standard output.
+   */
+  outputFile?: string
+
+  /**
+   * The increase of a metric since the baseline, in percent, above which
+   * it's reported as a regression.
+   */
+  threshold: number
+
+  /**
+   * Whether the runs replace the baselines of the fixtures.
+   */
+  updateBaseline: boolean
+}
+
+/**
+ * The result of running a fixture against the function.
+ */
+export interface FunctionTestResult {
+  fixture: string
+  export: string
+  status: 'passed' | 'failed' | 'errored'
+
+  /**
+   * The duration of the run, in milliseconds.
+   */
+  duration: number
+  differences: JsonDifference[]
+
+  /**
+   * The reason why the function couldn't run, when the status is `errored`.
+   */
+  error?: string
+  profile?: FunctionProfile
+}
+
+/**
+ * Runs the fixtures of a function against its built wasm, and reports
+ * whether the function returns the expected output for each of them. The
+ * resources each fixture uses are compared with its baseline.
+ *
+ * Fails when any fixture doesn't pass.
+ */
+export async function testFunction(
+  app: AppInterface,
+  fun: ExtensionInstance<FunctionConfigType>,
+  options: FunctionTestOptions,
+) {
+  if (!(await fileExists(fun.outputPath))) {
+    throw new AbortError(
+      `The function ${fun.localIdentifier} isn't built.`,
+      'Run `shopify app function build` before testing it.',
+    )
+  }
+
+  const fixtures = await loadFunctionFixtures(fun, options.filter)
+
+  if (fixtures.length === 0) {
+    throw new AbortError(
+      `No fixtures were found in ${FIXTURES_DIRECTORY}.`,
+      'Add JSON files with an input and the expected output of the function to the directory.',
+    )
+  }
+
+  const results: FunctionTestResult[] = []
+  // Fixtures run one by one, so their durations don't interfere
+  for (const fixture of fixtures) {
+    // eslint-disable-next-line no-await-in-loop
+    results.push(await runFixture(fun, fixture))
+  }
+
+  await reportResults(fun, results, options)
+  await compareWithBaselines(app, fun, fixtures, results, options)
+
+  if (results.some(({status}) => status !== 'passed')) {
+    throw new AbortSilentError()
+  }
+}
+
+async function runFixture(
+  fun: ExtensionInstance<FunctionConfigType>,
+  fixture: FunctionFixture,
+): Promise<FunctionTestResult> {
+  const result: FunctionTestResult = {
+    fixture: fixture.name,
+    export: fixture.export,
+    status: 'passed',
+    duration: 0,
+    differences: [],
+  }
+  const start = Date.now()
+
+  try {
+    const run = await captureFunctionRunner(fun, {input: JSON.stringify(fixture.input), export: fixture.export})
+    result.profile = profileRun(run)
+    result.differences = diffJson(fixture.output, run.output)
+    if (result.differences.length > 0) result.status = 'failed'
+  } catch (error) {
+    if (!(error instanceof Error)) throw error
+    result.status = 'errored'
+    result.error = error.message
+  }
+
+  result.duration = Date.now() - start
+  return result
+}
+
+/**
+ * Warns about the passed fixtures whose resources regressed since their
+ * baseline, and stores the baselines of the fixtures that don't have one yet.
+ */
+async function compareWithBaselines(
+  app: AppInterface,
+  fun: ExtensionInstance<FunctionConfigType>,
+  fixtures: FunctionFixture[],
+  results: FunctionTestResult[],
+  options: FunctionTestOptions,
+) {
+  const baselines = await loadFunctionBaselines(app, fun)
+  const newBaselines: {[input: string]: FunctionBaseline} = {}
+  // The warnings would break the report written to the standard output
+  const canWarn = options.reporter === 'default' || Boolean(options.outputFile)
+
+  fixtures.forEach((fixture, index) => {
+    const {profile, status} = results[index]!
+    if (!profile || status !== 'passed') return
+
+    const input = relativePath(fun.directory, fixture.path)
+    const baseline = options.updateBaseline ? undefined : baselines[input]
+
+    if (canWarn) warnAboutProfile(input, compareProfile(profile, baseline, options.threshold), options.threshold)
+    if (!baseline) newBaselines[input] = {...profile, export: fixture.export}
+  })
+
+  if (Object.keys(newBaselines).length > 0) {
+    await saveFunctionBaselines(app, fun, newBaselines)
+  }
+}
+
+async function reportResults(
+  fun: ExtensionInstance<FunctionConfigType>,
+  results: FunctionTestResult[],
+  options: FunctionTestOptions,
+) {
+  if (options.reporter === 'default') {
+    renderResults(results)
+    return
+  }
+
+  const report =
+    options.reporter === 'json'
+      ? JSON.stringify({function: fun.localIdentifier, results}, null, 2)
+      : junitReport(fun.localIdentifier, results)
+
+  if (options.outputFile) {
+    await writeFile(options.outputFile, report)
+    renderResults(results)
+  } else {
+    outputInfo(report)
+  }
+}
+
+function renderResults(results: FunctionTestResult[]) {
+  renderTable({
+    rows: results.map(({fixture, export: exportName, status, duration}) => ({
+      fixture,
+      export: exportName,
+      status,
+      duration: `${duration} ms`,
+    })),
+    columns: {
+      fixture: {header: 'Fixture'},
+      export: {header: 'Export', color: 'dim'},
+      status: {header: 'Status'},
+      duration: {header: 'Duration', color: 'dim'},
+    },
+  })
+
+  const failedResults = results.filter(({status}) => status !== 'passed')
+
+  for (const result of failedResults) {
+    renderError({
+      headline:
+        result.status === 'errored'
+          ? `The fixture ${result.fixture} couldn't run.`
+          : `The fixture ${result.fixture} doesn't return the expected output.`,
+      body: result.error ?? {list: {items: result.differences.map(formatJsonDifference)}},
+    })
+  }
+
+  if (failedResults.length === 0) {
+    renderSuccess({headline: `${results.length} fixture(s) passed.`})
+  }
+}
+
+/**
+ * Builds a JUnit XML report, which CI services can display.
+ */
+export function junitReport(functionName: string, results: FunctionTestResult[]) {
+  const failures = results.filter(({status}) => status === 'failed').length
+  const errors = results.filter(({status}) => status === 'errored').length
+  const time = formatSeconds(results.reduce((total, {duration}) => total + duration, 0))
+  const suiteAttributes = `name="${escapeXml(functionName)}" tests="${
+    results.length
+  }" failures="${failures}" errors="${errors}" time="${time}"`
+
+  const testCases = results.map((result) => {
+    const attributes = `name="${escapeXml(result.fixture)}" classname="${escapeXml(
+      functionName,
+    )}" time="${formatSeconds(result.duration)}"`
+
+    switch (result.status) {
+      case 'passed':
+        return `    <testcase ${attributes}/>`
+      case 'failed':
+        return [
+          `    <testcase ${attributes}>`,
+          `      <failure message="The function doesn't return the expected output.">${escapeXml(
+            result.differences.map(formatJsonDifference).join('\n'),
+          )}</failure>`,
+          '    </testcase>',
+        ].join('\n')
+      case 'errored':
+        return [
+          `    <testcase ${attributes}>`,
+          `      <error message="${escapeXml(result.error ?? '')}"/>`,
+          '    </testcase>',
+        ].join('\n')
+    }
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites ${suiteAttributes}>`,
+    `  <testsuite ${suiteAttributes}>`,
+    ...testCases,
+    '  </testsuite>',
+    '</testsuites>',
+  ].join('\n')
+}
+
+function formatSeconds(milliseconds: number) {
+  return (milliseconds / 1000).toFixed(3)
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
@@ -0,0 +1,107 @@
+import {validateFunctionExports, wasmFunctionExports} from './wasm-exports.js'
+import {testFunctionExtension} from '../../models/app/app.test-data.js'
+import {describe, expect, test} from 'vitest'
+import {inTemporaryDirectory, mkdir, writeFile} from '@shopify/cli-kit/node/fs'
+import {dirname, joinPath} from '@shopify/cli-kit/node/path'
+
+/**
+ * Builds a wasm module with an empty function for every export.
+ */
+function wasmModule(exports: string[]) {
+  const exportEntries = exports.flatMap((name, index) => [name.length, ...Buffer.from(name), 0x00, index])
+  const section = (id: number, content: number[]) => [id, content.length, ...content]
+
+  return Buffer.from([
+    ...[0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00],
+    ...section(0x01, [0x01, 0x60, 0x00, 0x00]),
+    ...section(0x03, [exports.length, ...exports.map(() => 0x00)]),
+    ...section(0x07, [exports.length, ...exportEntries]),
+    ...section(0x0a, [exports.length, ...exports.flatMap(() => [0x02, 0x00, 0x0b])]),
+  ])
+}
+
+async function writeWasm(path: string, exports: string[]) {
+  await mkdir(dirname(path))
+  await writeFile(path, wasmModule(exports))
+}
+
+describe('wasmFunctionExports', () => {
+  test('returns the exported functions of the module', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const path = joinPath(tmpDir, 'index.wasm')
+      await writeWasm(path, ['run', 'fetch'])
+
+      // When
+      const got = await wasmFunctionExports(path)
+
+      // Then
+      expect(got).toEqual(['run', 'fetch'])
+    })
+  })
+
+  test('fails when the file is not a wasm module', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const path = joinPath(tmpDir, 'index.wasm')
+      await writeFile(path, 'not wasm')
+
+      // When
+      const got = wasmFunctionExports(path)
+
+      // Then
+      await expect(got).rejects.toThrow(`The file ${path} isn't a valid wasm module.`)
+    })
+  })
+})
+
+describe('validateFunctionExports', () => {
+  test('succeeds when the module exports the export of every target', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await testFunctionExtension({dir: tmpDir})
+      ourFunction.configuration.targeting = [
+        {target: 'purchase.cart.run', export: 'run'},
+        {target: 'purchase.cart.fetch', export: 'fetch'},
+      ]
+      await writeWasm(ourFunction.outputPath, ['run', 'fetch'])
+
+      // When
+      const got = validateFunctionExports(ourFunction)
+
+      // Then
+      await expect(got).resolves.toBeUndefined()
+    })
+  })
+
+  test('fails when the module does not export the export of a target', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await testFunctionExtension({dir: tmpDir})
+      ourFunction.configuration.targeting = [{target: 'purchase.cart.run', export: 'run_cart'}]
+      await writeWasm(ourFunction.outputPath, ['run'])
+
+      // When
+      const got = validateFunctionExports(ourFunction)
+
+      // Then
+      await expect(got).rejects.toThrow(
+        `The wasm module of the function ${ourFunction.localIdentifier} doesn't export run_cart.`,
+      )
+    })
+  })
+
+  test('expects the _start export when the targets do not name an export', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const ourFunction = await testFunctionExtension({dir: tmpDir})
+      await writeWasm(ourFunction.outputPath, ['run'])
+
+      // When
+      const got = validateFunctionExports(ourFunction)
+
+      // Then
+      await expect(got).rejects.toThrow(`doesn't export _start.`)
+    })
+  })
+})
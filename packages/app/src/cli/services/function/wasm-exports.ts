@@ -0,0 +1,135 @@
+import {ExtensionInstance} from '../../models/extensions/extension-instance.js'
+import {FunctionConfigType} from '../../models/extensions/specifications/function.js'
+import {fileExists, readFileSync} from '@shopify/cli-kit/node/fs'
+import {AbortError} from '@shopify/cli-kit/node/error'
+import {relativePath} from '@shopify/cli-kit/node/path'
+
+/**
+ * The export the platform invokes when the targets of a function don't name
+ * one.
+ */
+const DEFAULT_EXPORT = '_start'
+
+/**
+ * The id of the section of a wasm module that lists its exports.
+ */
+const EXPORT_SECTION_ID = 7
+
+/**
+ * The kind of the exports that are functions.
+ */
+const FUNCTION_EXPORT_KIND = 0
+
+const WASM_MAGIC = Buffer.from([0x00, 0x61, 0x73, 0x6d])
+
+/**
+ * Returns the names of the functions a wasm module exports, by reading the
+ * export section of the module.
+ */
+export async function wasmFunctionExports(path: string): Promise<string[]> {
+  const module = readFileSync(path)
+  if (!module.subarray(0, 4).equals(WASM_MAGIC)) {
+    throw new AbortError(`The file ${path} isn't a valid wasm module.`)
+  }
+
+  const reader = new WasmReader(module, 8)
+  while (!reader.done()) {
+    const sectionId = reader.byte()
+    const sectionSize = reader.unsigned()
+    if (sectionId !== EXPORT_SECTION_ID) {
+      reader.skip(sectionSize)
+      continue
+    }
+
+    const exports: string[] = []
+    const count = reader.unsigned()
+    for (let index = 0; index < count; index++) {
+      const name = reader.name()
+      const kind = reader.byte()
+      reader.unsigned()
+      if (kind === FUNCTION_EXPORT_KIND) exports.push(name)
+    }
+    return exports
+  }
+
+  return []
+}
+
+/**
+ * Reads the values of a wasm module, in its binary format.
+ */
+class WasmReader {
+  private readonly module: Buffer
+  private offset: number
+
+  constructor(module: Buffer, offset: number) {
+    this.module = module
+    this.offset = offset
+  }
+
+  done() {
+    return this.offset >= this.module.length
+  }
+
+  byte() {
+    const value = this.module[this.offset]
+    if (value === undefined) throw new AbortError('The wasm module ends unexpectedly.')
+    this.offset += 1
+    return value
+  }
+
+  /**
+   * Reads an unsigned LEB128 integer.
+   */
+  unsigned() {
+    let value = 0
+    let shift = 0
+    let byte: number
+    do {
+      byte = this.byte()
+      value += (byte & 0x7f) * 2 ** shift
+      shift += 7
+    } while (byte & 0x80)
+    return value
+  }
+
+  name() {
+    const length = this.unsigned()
+    const name = this.module.toString('utf8', this.offset, this.offset + length)
+    this.skip(length)
+    return name
+  }
+
+  skip(length: number) {
+    this.offset += length
+  }
+}
+
+/**
+ * Checks that the built wasm module of a function exports every export its
+ * targets invoke, so a misnamed export fails before the function is
+ * deployed.
+ */
+export async function validateFunctionExports(fun: ExtensionInstance<FunctionConfigType>) {
+  const outputPath = relativePath(fun.directory, fun.outputPath)
+  if (!(await fileExists(fun.outputPath))) {
+    throw new AbortError(
+      `The function ${fun.localIdentifier} doesn't have a ${outputPath} file.`,
+      'Check that its build outputs the wasm module to build.path.',
+    )
+  }
+
+  const targetExports = (fun.configuration.targeting ?? []).map((target) => target.export ?? DEFAULT_EXPORT)
+  const expectedExports = [...new Set(targetExports.length === 0 ? [DEFAULT_EXPORT] : targetExports)]
+  const exports = await wasmFunctionExports(fun.outputPath)
+  const missingExports = expectedExports.filter((name) => !exports.includes(name))
+
+  if (missingExports.length > 0) {
+    throw new AbortError(
+      `The wasm module of the function ${fun.localIdentifier} doesn't export ${missingExports.join(', ')}.`,
+      `The module exports ${
+        exports.join(', ') || 'no functions'
+      }. Check the export names of the targets in the configuration of the function.`,
+    )
+  }
+}
@@ -3,7 +3,9 @@ import {
   clearCachedAppInfo,
   clearCurrentConfigFile,
   getCachedAppInfo,
+  getSyncedAppConfiguration,
   setCachedAppInfo,
+  setSyncedAppConfiguration,
 } from './local-storage.js'
 import {describe, expect, test} from 'vitest'
 import {LocalStorage} from '@shopify/cli-kit/node/local-storage'
@@ -125,3 +127,25 @@ describe('clearCurrentConfigFile', async () => {
     })
   })
 })
+
+describe('setSyncedAppConfiguration', async () => {
+  test('stores the synced configuration of each configuration file, keeping the cached info', async () => {
+    await inTemporaryDirectory(async (cwd) => {
+      // Given
+      const storage = new LocalStorage<AppLocalStorageSchema>({cwd})
+      storage.set(APP1.directory, APP1)
+
+      // When
+      setSyncedAppConfiguration(APP1.directory, 'shopify.app.toml', {name: 'app'}, storage)
+      setSyncedAppConfiguration(APP1.directory, 'shopify.app.staging.toml', {name: 'staging app'}, storage)
+
+      // Then
+      expect(getSyncedAppConfiguration(APP1.directory, 'shopify.app.toml', storage)).toEqual({name: 'app'})
+      expect(getSyncedAppConfiguration(APP1.directory, 'shopify.app.staging.toml', storage)).toEqual({
+        name: 'staging app',
+      })
+      expect(getSyncedAppConfiguration(APP2.directory, 'shopify.app.toml', storage)).toBeUndefined()
+      expect(getCachedAppInfo(APP1.directory, storage)?.appId).toEqual(APP1.appId)
+    })
+  })
+})
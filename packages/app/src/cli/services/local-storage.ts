@@ -11,6 +11,12 @@ export interface CachedAppInfo {
   storeFqdn?: string
   updateURLs?: boolean
   previousAppId?: string
+
+  /**
+   * The versioned fields of the remote configuration the last time each
+   * configuration file was synced with it, by configuration file name.
+   */
+  syncedConfigurations?: {[configFile: string]: object}
 }
 
 // We store each app info using the directory as the key
@@ -78,6 +84,32 @@ export function clearCurrentConfigFile(
   })
 }
 
+export function getSyncedAppConfiguration(
+  directory: string,
+  configFile: string,
+  config: LocalStorage<AppLocalStorageSchema> = appLocalStorage(),
+): object | undefined {
+  return config.get(normalizePath(directory))?.syncedConfigurations?.[configFile]
+}
+
+export function setSyncedAppConfiguration(
+  directory: string,
+  configFile: string,
+  configuration: object,
+  config: LocalStorage<AppLocalStorageSchema> = appLocalStorage(),
+): void {
+  const normalized = normalizePath(directory)
+  outputDebug(
+    outputContent`Storing the synced configuration of ${configFile} for directory ${outputToken.path(normalized)}`,
+  )
+  const savedApp = config.get(normalized)
+  config.set(normalized, {
+    ...savedApp,
+    directory: normalized,
+    syncedConfigurations: {...savedApp?.syncedConfigurations, [configFile]: configuration},
+  })
+}
+
 interface CommandLocalStorage {
   [key: string]: {[key: string]: unknown}
 }
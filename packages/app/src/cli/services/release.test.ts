@@ -1,5 +1,5 @@
 import {ensureReleaseContext} from './context.js'
-import {release} from './release.js'
+import {release, releaseVersion} from './release.js'
 import {
   configExtensionsIdentifiersBreakdown,
   extensionsIdentifiersReleaseBreakdown,
@@ -11,7 +11,7 @@ import {AppRelease} from '../api/graphql/app_release.js'
 import {deployOrReleaseConfirmationPrompt} from '../prompts/deploy-release.js'
 import {DeveloperPlatformClient} from '../utilities/developer-platform-client.js'
 import {beforeEach, describe, expect, vi, test} from 'vitest'
-import {renderError, renderSuccess, renderTasks, Task} from '@shopify/cli-kit/node/ui'
+import {renderError, renderSuccess, renderTasks, renderWarning, Task} from '@shopify/cli-kit/node/ui'
 import {partnersRequest} from '@shopify/cli-kit/node/api/partners'
 import {AbortSilentError} from '@shopify/cli-kit/node/error'
 
@@ -148,6 +148,54 @@ describe('release', () => {
   })
 })
 
+describe('releaseVersion', () => {
+  test('warns about the removed extensions and records the message when rolling back', async () => {
+    // Given
+    const app = testApp()
+    vi.mocked(deployOrReleaseConfirmationPrompt).mockResolvedValue(true)
+    vi.mocked(extensionsIdentifiersReleaseBreakdown).mockResolvedValue({
+      ...buildExtensionsBreakdown(),
+      extensionIdentifiersBreakdown: {
+        onlyRemote: [{title: 'discount-function', experience: 'extension'}],
+        toCreate: [],
+        toUpdate: [],
+      },
+    })
+    vi.mocked(configExtensionsIdentifiersBreakdown).mockResolvedValue(buildConfigExtensionsBreakdown())
+    vi.mocked(renderTasks).mockImplementation(async (tasks: Task[]) => {
+      for (const task of tasks) {
+        // eslint-disable-next-line no-await-in-loop
+        await task.task({}, task)
+      }
+
+      return {appRelease: {appRelease: {userErrors: []}}}
+    })
+
+    // When
+    await releaseVersion({
+      app,
+      partnersApp: APP,
+      developerPlatformClient,
+      force: false,
+      version: '1.0.0',
+      message: 'Roll back to 1.0.0',
+      rollback: true,
+    })
+
+    // Then
+    expect(renderWarning).toHaveBeenCalledWith({
+      headline: 'Rolling back to 1.0.0 will remove these extensions from your app.',
+      body: {list: {items: ['discount-function']}},
+    })
+    expect(partnersRequest).toHaveBeenCalledWith(AppRelease, 'token', {
+      apiKey: APP.apiKey,
+      appVersionId: 1,
+      message: 'Roll back to 1.0.0',
+    })
+    expect(renderSuccess).toHaveBeenCalledWith(expect.objectContaining({headline: 'App rolled back to this version.'}))
+  })
+})
+
 async function testRelease(
   app: AppInterface,
   version: string,
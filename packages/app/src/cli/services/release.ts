@@ -4,10 +4,12 @@ import {
   extensionsIdentifiersReleaseBreakdown,
 } from './context/breakdown-extensions.js'
 import {AppInterface} from '../models/app/app.js'
+import {OrganizationApp} from '../models/organization.js'
 import {AppRelease, AppReleaseSchema, AppReleaseVariables} from '../api/graphql/app_release.js'
 import {deployOrReleaseConfirmationPrompt} from '../prompts/deploy-release.js'
+import {DeveloperPlatformClient} from '../utilities/developer-platform-client.js'
 import {partnersRequest} from '@shopify/cli-kit/node/api/partners'
-import {renderError, renderSuccess, renderTasks, TokenItem} from '@shopify/cli-kit/node/ui'
+import {renderError, renderSuccess, renderTasks, renderWarning, TokenItem} from '@shopify/cli-kit/node/ui'
 import {AbortSilentError} from '@shopify/cli-kit/node/error'
 
 interface ReleaseOptions {
@@ -25,10 +27,32 @@ interface ReleaseOptions {
 
   /** App version tag */
   version: string
+
+  /** Message recorded on the release */
+  message?: string
 }
 
 export async function release(options: ReleaseOptions) {
   const {developerPlatformClient, app, partnersApp} = await ensureReleaseContext(options)
+  await releaseVersion({...options, app, partnersApp, developerPlatformClient})
+}
+
+interface ReleaseVersionOptions extends Omit<ReleaseOptions, 'apiKey' | 'reset'> {
+  /** The app in Partners admin */
+  partnersApp: OrganizationApp
+
+  developerPlatformClient: DeveloperPlatformClient
+
+  /** If true, the version is released to roll back the current one */
+  rollback?: boolean
+}
+
+/**
+ * Releases a version of an app whose context has already been ensured, after
+ * the user confirms the extensions it adds, updates and removes.
+ */
+export async function releaseVersion(options: ReleaseVersionOptions) {
+  const {developerPlatformClient, app, partnersApp} = options
   const partnerSession = await developerPlatformClient.session()
   const token = partnerSession.token
 
@@ -44,6 +68,12 @@ export async function release(options: ReleaseOptions) {
     versionAppModules: versionDetails.appModuleVersions,
     release: true,
   })
+  if (options.rollback && extensionIdentifiersBreakdown.onlyRemote.length > 0) {
+    renderWarning({
+      headline: `Rolling back to ${versionDetails.versionTag} will remove these extensions from your app.`,
+      body: {list: {items: extensionIdentifiersBreakdown.onlyRemote.map((extension) => extension.title)}},
+    })
+  }
   const confirmed = await deployOrReleaseConfirmationPrompt({
     configExtensionIdentifiersBreakdown,
     extensionIdentifiersBreakdown,
@@ -59,11 +89,12 @@ export async function release(options: ReleaseOptions) {
   const variables: AppReleaseVariables = {
     apiKey: partnersApp.apiKey,
     appVersionId: versionDetails.id,
+    ...(options.message ? {message: options.message} : {}),
   }
 
   const tasks = [
     {
-      title: 'Releasing version',
+      title: options.rollback ? 'Rolling back' : 'Releasing version',
       task: async (context: Context) => {
         context.appRelease = await partnersRequest(AppRelease, token, variables)
       },
@@ -81,7 +112,7 @@ export async function release(options: ReleaseOptions) {
 
   if (release.userErrors?.length > 0) {
     renderError({
-      headline: "Version couldn't be released.",
+      headline: options.rollback ? "App couldn't be rolled back." : "Version couldn't be released.",
       body: [
         ...linkAndMessage,
         `${linkAndMessage.length > 0 ? '\n\n' : ''}${release.userErrors.map((error) => error.message).join(', ')}`,
@@ -89,7 +120,7 @@ export async function release(options: ReleaseOptions) {
     })
   } else {
     renderSuccess({
-      headline: 'Version released to users.',
+      headline: options.rollback ? 'App rolled back to this version.' : 'Version released to users.',
       body: linkAndMessage,
     })
   }
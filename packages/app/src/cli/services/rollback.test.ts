@@ -0,0 +1,168 @@
+import {rollback} from './rollback.js'
+import {ensureReleaseContext} from './context.js'
+import {releaseVersion} from './release.js'
+import {testApp, testDeveloperPlatformClient} from '../models/app/app.test-data.js'
+import {AppVersionsQuery, AppVersionsQuerySchema} from '../api/graphql/get_versions_list.js'
+import {describe, expect, test, vi, beforeEach} from 'vitest'
+import {partnersRequest} from '@shopify/cli-kit/node/api/partners'
+
+vi.mock('./context.js')
+vi.mock('./release.js')
+vi.mock('@shopify/cli-kit/node/api/partners')
+
+const APP = {
+  id: 'app-id',
+  title: 'app-title',
+  apiKey: 'api-key',
+  organizationId: 'org-id',
+  grantedScopes: [],
+  applicationUrl: 'https://example.com',
+  redirectUrlWhitelist: [],
+  apiSecretKeys: [],
+  betas: [],
+}
+
+const developerPlatformClient = testDeveloperPlatformClient()
+const app = testApp()
+
+function versionsResult(
+  versions: {versionTag: string; status: string}[],
+  pageInfo: {hasNextPage?: boolean; endCursor?: string} = {},
+): AppVersionsQuerySchema {
+  return {
+    app: {
+      id: 'app-id',
+      organizationId: 'org-id',
+      title: 'app-title',
+      appVersions: {
+        nodes: versions.map((version) => ({
+          ...version,
+          id: version.versionTag,
+          createdAt: '2024-01-01',
+          distributionPercentage: 0,
+          appModuleVersions: [],
+        })),
+        pageInfo: {totalResults: versions.length, ...pageInfo},
+      },
+    },
+  }
+}
+
+beforeEach(() => {
+  vi.mocked(ensureReleaseContext).mockResolvedValue({app, developerPlatformClient, partnersApp: APP})
+})
+
+describe('rollback', () => {
+  test('releases the version that was active before the current one', async () => {
+    // Given
+    vi.mocked(partnersRequest).mockResolvedValue(
+      versionsResult([
+        {versionTag: 'v4', status: 'inactive'},
+        {versionTag: 'v3', status: 'active'},
+        {versionTag: 'v2', status: 'inactive'},
+        {versionTag: 'v1', status: 'released'},
+      ]),
+    )
+
+    // When
+    await rollback({app, reset: false, force: true})
+
+    // Then
+    expect(partnersRequest).toHaveBeenCalledWith(AppVersionsQuery, 'token', {apiKey: 'api-key', first: 25})
+    expect(releaseVersion).toHaveBeenCalledWith({
+      app,
+      partnersApp: APP,
+      developerPlatformClient,
+      force: true,
+      version: 'v1',
+      message: 'Roll back to v1',
+      rollback: true,
+    })
+  })
+
+  test('releases the version that was rolled back from when the app was rolled back already', async () => {
+    // Given
+    vi.mocked(partnersRequest).mockResolvedValue(
+      versionsResult([
+        {versionTag: 'v5', status: 'inactive'},
+        {versionTag: 'v4', status: 'released'},
+        {versionTag: 'v3', status: 'active'},
+        {versionTag: 'v2', status: 'released'},
+      ]),
+    )
+
+    // When
+    await rollback({app, reset: false, force: true})
+
+    // Then
+    expect(releaseVersion).toHaveBeenCalledWith(expect.objectContaining({version: 'v4', message: 'Roll back to v4'}))
+  })
+
+  test('fetches the versions released before the active one from the next pages', async () => {
+    // Given
+    vi.mocked(partnersRequest)
+      .mockResolvedValueOnce(
+        versionsResult([{versionTag: 'v3', status: 'active'}], {hasNextPage: true, endCursor: 'cursor'}),
+      )
+      .mockResolvedValueOnce(versionsResult([{versionTag: 'v2', status: 'released'}]))
+
+    // When
+    await rollback({app, reset: false, force: true})
+
+    // Then
+    expect(partnersRequest).toHaveBeenCalledWith(AppVersionsQuery, 'token', {
+      apiKey: 'api-key',
+      first: 25,
+      after: 'cursor',
+    })
+    expect(releaseVersion).toHaveBeenCalledWith(expect.objectContaining({version: 'v2'}))
+  })
+
+  test('stops fetching the versions once the active one and the one before it are fetched', async () => {
+    // Given
+    vi.mocked(partnersRequest).mockResolvedValueOnce(
+      versionsResult(
+        [
+          {versionTag: 'v3', status: 'active'},
+          {versionTag: 'v2', status: 'released'},
+        ],
+        {hasNextPage: true, endCursor: 'cursor'},
+      ),
+    )
+
+    // When
+    await rollback({app, reset: false, force: true})
+
+    // Then
+    expect(partnersRequest).toHaveBeenCalledOnce()
+    expect(releaseVersion).toHaveBeenCalledWith(expect.objectContaining({version: 'v2'}))
+  })
+
+  test('releases the version and message that are passed', async () => {
+    // When
+    await rollback({app, reset: false, force: false, to: 'v2', message: 'Revert the checkout change'})
+
+    // Then
+    expect(partnersRequest).not.toHaveBeenCalled()
+    expect(releaseVersion).toHaveBeenCalledWith(
+      expect.objectContaining({version: 'v2', message: 'Revert the checkout change', rollback: true}),
+    )
+  })
+
+  test('throws an error when no version was released before the active one', async () => {
+    // Given
+    vi.mocked(partnersRequest).mockResolvedValue(
+      versionsResult([
+        {versionTag: 'v2', status: 'active'},
+        {versionTag: 'v1', status: 'inactive'},
+      ]),
+    )
+
+    // When
+    const result = rollback({app, reset: false, force: true})
+
+    // Then
+    await expect(result).rejects.toThrowError('There is no previously released version to roll back to.')
+    expect(releaseVersion).not.toHaveBeenCalled()
+  })
+})
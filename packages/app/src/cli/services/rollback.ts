@@ -0,0 +1,75 @@
+import {ensureReleaseContext} from './context.js'
+import {releaseVersion} from './release.js'
+import {fetchAppVersionNodes} from './versions-list.js'
+import {AppInterface} from '../models/app/app.js'
+import {AbortError} from '@shopify/cli-kit/node/error'
+
+interface RollbackOptions {
+  /** The app to roll back */
+  app: AppInterface
+
+  /** API key of the app in Partners admin */
+  apiKey?: string
+
+  /** If true, ignore any cached appId or extensionId */
+  reset: boolean
+
+  /** If true, proceed with the rollback without asking for confirmation */
+  force: boolean
+
+  /**
+   * The tag of the version to roll back to. Defaults to the version that was
+   * active before the current one, as inferred by {@link previousVersionTag}
+   */
+  to?: string
+
+  /** Message recorded on the release */
+  message?: string
+}
+
+export async function rollback(options: RollbackOptions) {
+  const {developerPlatformClient, app, partnersApp} = await ensureReleaseContext(options)
+  const partnerSession = await developerPlatformClient.session()
+
+  const version = options.to ?? (await previousVersionTag(partnerSession.token, partnersApp.apiKey))
+
+  await releaseVersion({
+    app,
+    partnersApp,
+    developerPlatformClient,
+    force: options.force,
+    version,
+    message: options.message ?? `Roll back to ${version}`,
+    rollback: true,
+  })
+}
+
+/**
+ * Finds the version that was active before the current one. The Partners API
+ * doesn't expose the history of the releases, so it's inferred from the order
+ * in which the versions were created: a released version created after the
+ * active one was live after it, until it was rolled back.
+ *
+ * @returns the tag of the most recent version released after the active one,
+ * or else of the most recent version released before it
+ */
+export async function previousVersionTag(token: string, apiKey: string): Promise<string> {
+  // Versions are listed from the most recent one, so the paging stops once the
+  // active version and another one around it are fetched
+  const {nodes: versions} = await fetchAppVersionNodes(
+    token,
+    apiKey,
+    {status: ['active', 'released']},
+    (nodes) => nodes.length > 1 && nodes.some((version) => version.status === 'active'),
+  )
+  const activeIndex = versions.findIndex((version) => version.status === 'active')
+  const previous = activeIndex > 0 ? versions[0] : versions[activeIndex + 1]
+
+  if (activeIndex === -1 || !previous) {
+    throw new AbortError(
+      'There is no previously released version to roll back to.',
+      'Pass the version to release with --to. Run `shopify app versions list` to see the versions of your app.',
+    )
+  }
+  return previous.versionTag
+}
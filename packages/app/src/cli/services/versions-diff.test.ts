@@ -0,0 +1,230 @@
+import {AppVersionSnapshot, diffVersionSnapshots, versionsDiff} from './versions-diff.js'
+import {ensureVersionsListContext} from './context.js'
+import {
+  testAppWithConfig,
+  testDeveloperPlatformClient,
+  testFunctionExtension,
+  testPartnersUserSession,
+} from '../models/app/app.test-data.js'
+import {getAppVersionedSchema} from '../models/app/app.js'
+import {loadLocalExtensionsSpecifications} from '../models/extensions/load-specifications.js'
+import {afterEach, beforeEach, describe, expect, test, vi} from 'vitest'
+import {partnersRequest} from '@shopify/cli-kit/node/api/partners'
+import {mockAndCaptureOutput} from '@shopify/cli-kit/node/testing/output'
+import {renderInfo} from '@shopify/cli-kit/node/ui'
+
+vi.mock('@shopify/cli-kit/node/api/partners')
+vi.mock('@shopify/cli-kit/node/ui')
+vi.mock('./context.js')
+
+afterEach(() => {
+  mockAndCaptureOutput().clear()
+})
+
+function versionModule(uuid: string, title: string, config: object = {}, experience = 'extension') {
+  return {
+    registrationId: uuid,
+    registrationUuid: uuid,
+    registrationTitle: title,
+    type: 'ui_extension',
+    config: JSON.stringify(config),
+    specification: {
+      identifier: experience === 'extension' ? 'ui_extension' : 'branding',
+      name: title,
+      experience,
+      options: {managementExperience: 'cli'},
+    },
+  }
+}
+
+function appVersionResponse(versionTag: string, appModuleVersions: ReturnType<typeof versionModule>[]) {
+  return {
+    app: {
+      appVersion: {id: 1, uuid: versionTag, versionTag, location: '', message: '', appModuleVersions},
+    },
+  }
+}
+
+describe('diffVersionSnapshots', () => {
+  test('returns the extensions and the configuration fields added, removed and updated', async () => {
+    // Given
+    const configSchema = getAppVersionedSchema(await loadLocalExtensionsSpecifications())
+    const from: AppVersionSnapshot = {
+      modules: [
+        {uuid: 'uuid-1', title: 'kept', type: 'ui_extension', config: {title: 1}},
+        {uuid: 'uuid-2', title: 'updated', type: 'ui_extension', config: {title: 1}},
+        {uuid: 'uuid-3', title: 'removed', type: 'ui_extension', config: {}},
+      ],
+      configuration: {name: 'my app', embedded: true, access_scopes: {scopes: 'read_products'}},
+    }
+    const to: AppVersionSnapshot = {
+      modules: [
+        {uuid: 'uuid-1', title: 'kept', type: 'ui_extension', config: {title: 1}},
+        {uuid: 'uuid-2', title: 'updated', type: 'ui_extension', config: {title: 2}},
+        {title: 'added', type: 'ui_extension', config: {}},
+      ],
+      configuration: {name: 'my app', application_url: 'https://myapp.com', access_scopes: {scopes: 'write_products'}},
+    }
+
+    // When
+    const got = diffVersionSnapshots({name: 'v1', snapshot: from}, {name: 'v2', snapshot: to}, configSchema)
+
+    // Then
+    expect(got).toEqual({
+      from: 'v1',
+      to: 'v2',
+      extensions: {
+        added: [{uuid: undefined, title: 'added', type: 'ui_extension'}],
+        removed: [{uuid: 'uuid-3', title: 'removed', type: 'ui_extension'}],
+        updated: [{uuid: 'uuid-2', title: 'updated', type: 'ui_extension'}],
+      },
+      configuration: {
+        added: ['application_url'],
+        removed: ['embedded'],
+        updated: ['access_scopes'],
+        content: {
+          baselineContent: expect.stringContaining('scopes = "read_products"'),
+          updatedContent: expect.stringContaining('scopes = "write_products"'),
+        },
+      },
+    })
+  })
+
+  test('matches the extensions without a UUID by their type and title', async () => {
+    // Given
+    const from: AppVersionSnapshot = {modules: [{uuid: 'uuid-1', title: 'local', type: 'ui_extension', config: {}}]}
+    const to: AppVersionSnapshot = {modules: [{title: 'local', type: 'ui_extension', config: {}}]}
+
+    // When
+    const got = diffVersionSnapshots(
+      {name: 'v1', snapshot: from},
+      {name: 'local', snapshot: to},
+      getAppVersionedSchema([]),
+    )
+
+    // Then
+    expect(got.extensions).toEqual({added: [], removed: [], updated: []})
+    expect(got.configuration).toEqual({added: [], removed: [], updated: []})
+  })
+})
+
+describe('versionsDiff', () => {
+  beforeEach(() => {
+    vi.mocked(ensureVersionsListContext).mockResolvedValue({
+      partnersSession: testPartnersUserSession,
+      partnersApp: {
+        id: 'app-id',
+        apiKey: 'api-key',
+        title: 'app-title',
+        organizationId: 'org-id',
+        apiSecretKeys: [],
+        grantedScopes: [],
+        betas: [],
+      },
+    })
+  })
+
+  test('outputs the differences between two deployed versions as JSON', async () => {
+    // Given
+    const specifications = await loadLocalExtensionsSpecifications()
+    const app = testAppWithConfig({
+      config: {},
+      app: {specifications, configSchema: getAppVersionedSchema(specifications)},
+    })
+    const outputMock = mockAndCaptureOutput()
+    vi.mocked(partnersRequest)
+      .mockResolvedValueOnce(
+        appVersionResponse('v1', [
+          versionModule('uuid-1', 'checkout', {title: 1}),
+          versionModule('uuid-b', 'branding', {name: 'my app'}, 'configuration'),
+        ]),
+      )
+      .mockResolvedValueOnce(
+        appVersionResponse('v2', [
+          versionModule('uuid-1', 'checkout', {title: 2}),
+          versionModule('uuid-b', 'branding', {name: 'my new app'}, 'configuration'),
+        ]),
+      )
+
+    // When
+    await versionsDiff({
+      app,
+      from: 'v1',
+      to: 'v2',
+      json: true,
+      developerPlatformClient: testDeveloperPlatformClient(),
+    })
+
+    // Then
+    expect(partnersRequest).toHaveBeenCalledWith(expect.any(String), 'token', {apiKey: 'api-key', versionTag: 'v1'})
+    const output = JSON.parse(outputMock.info())
+    expect(output.extensions.updated).toEqual([{uuid: 'uuid-1', title: 'checkout', type: 'ui_extension'}])
+    expect(output.configuration.updated).toEqual(['name'])
+    expect(renderInfo).not.toHaveBeenCalled()
+  })
+
+  test('renders the differences between a deployed version and the local app', async () => {
+    // Given
+    const specifications = await loadLocalExtensionsSpecifications()
+    const app = testAppWithConfig({
+      config: {},
+      app: {specifications, configSchema: getAppVersionedSchema(specifications)},
+    })
+    vi.mocked(partnersRequest).mockResolvedValueOnce(
+      appVersionResponse('v1', [
+        versionModule('uuid-1', 'checkout'),
+        versionModule('uuid-b', 'branding', {name: 'my app'}, 'configuration'),
+      ]),
+    )
+
+    // When
+    await versionsDiff({
+      app,
+      from: 'v1',
+      to: 'local',
+      json: false,
+      developerPlatformClient: testDeveloperPlatformClient(),
+    })
+
+    // Then
+    expect(renderInfo).toHaveBeenCalledWith({
+      headline: 'Differences between v1 and local.',
+      customSections: [
+        {title: 'Extensions removed', body: {list: {items: ['checkout']}}},
+        {
+          title: 'Configuration added',
+          body: {list: {items: ['access_scopes', 'webhooks', 'application_url', 'embedded']}},
+        },
+      ],
+    })
+  })
+  test("doesn't upload the local functions nor compare their module ID", async () => {
+    // Given
+    const specifications = await loadLocalExtensionsSpecifications()
+    const ourFunction = await testFunctionExtension()
+    const app = testAppWithConfig({
+      config: {},
+      app: {specifications, configSchema: getAppVersionedSchema(specifications), allExtensions: [ourFunction]},
+    })
+    const developerPlatformClient = testDeveloperPlatformClient({generateSignedUploadUrl: vi.fn()})
+    const remoteConfig = {...(await ourFunction.commonDeployConfig('api-key')), module_id: 'module-id'}
+    vi.mocked(partnersRequest).mockResolvedValueOnce(
+      appVersionResponse('v1', [
+        {
+          ...versionModule('uuid-1', ourFunction.localIdentifier, remoteConfig),
+          type: 'function',
+          specification: {...versionModule('uuid-1', '').specification, identifier: 'function'},
+        },
+      ]),
+    )
+    const outputMock = mockAndCaptureOutput()
+
+    // When
+    await versionsDiff({app, from: 'v1', to: 'local', json: true, developerPlatformClient})
+
+    // Then
+    const output = JSON.parse(outputMock.info())
+    expect(output.extensions).toEqual({added: [], removed: [], updated: []})
+    expect(developerPlatformClient.generateSignedUploadUrl).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,263 @@
+import {ensureVersionsListContext} from './context.js'
+import {remoteAppConfigurationExtensionContent} from './app/select-app.js'
+import {rewriteConfiguration} from './app/write-app-configuration-file.js'
+import {AppVersionByTagQuery, AppVersionByTagSchema} from '../api/graphql/app_version_by_tag.js'
+import {
+  AppInterface,
+  CurrentAppConfiguration,
+  filterNonVersionedAppFields,
+  isCurrentAppSchema,
+} from '../models/app/app.js'
+import {getAppIdentifiers} from '../models/app/identifiers.js'
+import {DiffContent, buildDiffConfigContent} from '../prompts/config.js'
+import {DeveloperPlatformClient, selectDeveloperPlatformClient} from '../utilities/developer-platform-client.js'
+import {partnersRequest} from '@shopify/cli-kit/node/api/partners'
+import {deepCompare, getPathValue} from '@shopify/cli-kit/common/object'
+import {AbortError} from '@shopify/cli-kit/node/error'
+import {outputContent, outputInfo, outputToken} from '@shopify/cli-kit/node/output'
+import {renderInfo} from '@shopify/cli-kit/node/ui'
+import {zod} from '@shopify/cli-kit/node/schema'
+import {diffLines} from 'diff'
+
+/**
+ * The name that refers to the app in the local directory instead of a
+ * deployed version.
+ */
+export const LOCAL_VERSION = 'local'
+
+export interface VersionModuleSummary {
+  uuid?: string
+  title: string
+  type: string
+}
+
+interface VersionModule extends VersionModuleSummary {
+  config: {[key: string]: unknown}
+}
+
+/**
+ * The extensions and the app configuration of a version.
+ */
+export interface AppVersionSnapshot {
+  modules: VersionModule[]
+
+  /**
+   * The versioned fields of the app configuration, when the version has one.
+   */
+  configuration?: object
+}
+
+export interface AppVersionsDiff {
+  from: string
+  to: string
+  extensions: {
+    added: VersionModuleSummary[]
+    removed: VersionModuleSummary[]
+    updated: VersionModuleSummary[]
+  }
+  configuration: {
+    added: string[]
+    removed: string[]
+    updated: string[]
+
+    /**
+     * The TOML of the fields that changed, with the values of each version.
+     */
+    content?: DiffContent
+  }
+}
+
+interface VersionsDiffOptions {
+  app: AppInterface
+  apiKey?: string
+  from: string
+  to: string
+  json: boolean
+  developerPlatformClient?: DeveloperPlatformClient
+}
+
+/**
+ * Shows the extensions and the configuration fields that were added, removed
+ * or updated between two versions of an app.
+ */
+export async function versionsDiff(options: VersionsDiffOptions) {
+  const developerPlatformClient = options.developerPlatformClient ?? selectDeveloperPlatformClient()
+  const {partnersSession, partnersApp} = await ensureVersionsListContext({
+    app: options.app,
+    apiKey: options.apiKey,
+    reset: false,
+    developerPlatformClient,
+  })
+
+  const snapshot = (version: string) =>
+    version === LOCAL_VERSION
+      ? localVersionSnapshot(options.app, partnersApp.apiKey)
+      : remoteVersionSnapshot(options.app, partnersApp.apiKey, version, partnersSession.token)
+  const [from, to] = await Promise.all([snapshot(options.from), snapshot(options.to)])
+  const diff = diffVersionSnapshots(
+    {name: options.from, snapshot: from},
+    {name: options.to, snapshot: to},
+    options.app.configSchema,
+  )
+
+  if (options.json) {
+    outputInfo(JSON.stringify(diff, null, 2))
+    return
+  }
+  renderVersionsDiff(diff)
+}
+
+/**
+ * Compares two versions of an app. Extensions are matched by their UUID, or
+ * by their type and title when a local extension hasn't been deployed.
+ */
+export function diffVersionSnapshots(
+  from: {name: string; snapshot: AppVersionSnapshot},
+  to: {name: string; snapshot: AppVersionSnapshot},
+  configSchema: zod.ZodTypeAny,
+): AppVersionsDiff {
+  const fromModules = from.snapshot.modules
+  const toModules = to.snapshot.modules
+  const summary = ({uuid, title, type}: VersionModule): VersionModuleSummary => ({uuid, title, type})
+  const findIn = (modules: VersionModule[], module: VersionModule) =>
+    modules.find((candidate) =>
+      candidate.uuid && module.uuid
+        ? candidate.uuid === module.uuid
+        : candidate.type === module.type && candidate.title === module.title,
+    )
+
+  return {
+    from: from.name,
+    to: to.name,
+    extensions: {
+      added: toModules.filter((module) => !findIn(fromModules, module)).map(summary),
+      removed: fromModules.filter((module) => !findIn(toModules, module)).map(summary),
+      updated: toModules
+        .filter((module) => {
+          const fromModule = findIn(fromModules, module)
+          return fromModule && !deepCompare(fromModule.config, module.config)
+        })
+        .map(summary),
+    },
+    configuration: diffConfigurations(from.snapshot.configuration, to.snapshot.configuration, configSchema),
+  }
+}
+
+function diffConfigurations(
+  from: object | undefined,
+  to: object | undefined,
+  configSchema: zod.ZodTypeAny,
+): AppVersionsDiff['configuration'] {
+  if (!from || !to) return {added: [], removed: [], updated: []}
+
+  const fromFields = rewriteConfiguration(configSchema, from) as {[key: string]: unknown}
+  const toFields = rewriteConfiguration(configSchema, to) as {[key: string]: unknown}
+  const isSet = (fields: {[key: string]: unknown}, field: string) => fields[field] !== undefined
+  const fields = Array.from(new Set([...Object.keys(fromFields), ...Object.keys(toFields)]))
+
+  return {
+    added: fields.filter((field) => !isSet(fromFields, field) && isSet(toFields, field)),
+    removed: fields.filter((field) => isSet(fromFields, field) && !isSet(toFields, field)),
+    updated: fields.filter(
+      (field) =>
+        isSet(fromFields, field) &&
+        isSet(toFields, field) &&
+        !deepCompare({value: fromFields[field]}, {value: toFields[field]}),
+    ),
+    content: buildDiffConfigContent(to as CurrentAppConfiguration, from, configSchema, false),
+  }
+}
+
+async function remoteVersionSnapshot(
+  app: AppInterface,
+  apiKey: string,
+  version: string,
+  token: string,
+): Promise<AppVersionSnapshot> {
+  const {
+    app: {appVersion},
+  }: AppVersionByTagSchema = await partnersRequest(AppVersionByTagQuery, token, {apiKey, versionTag: version})
+  if (!appVersion) {
+    throw new AbortError(`The app doesn't have a version named ${version}.`)
+  }
+
+  const configModules = appVersion.appModuleVersions.filter(
+    (module) => module.specification?.experience === 'configuration',
+  )
+  const modules = appVersion.appModuleVersions
+    .filter((module) => module.specification?.experience !== 'configuration')
+    .map((module) => ({
+      uuid: module.registrationUuid,
+      title: module.registrationTitle,
+      type: module.specification?.identifier ?? module.type,
+      config: moduleConfig(module.config ? JSON.parse(module.config) : {}),
+    }))
+  const configuration = remoteAppConfigurationExtensionContent(
+    configModules,
+    app.specifications ?? [],
+    app.remoteBetaFlags,
+  )
+
+  return {modules, configuration}
+}
+
+async function localVersionSnapshot(app: AppInterface, apiKey: string): Promise<AppVersionSnapshot> {
+  const uuids = getAppIdentifiers({app}).extensions ?? {}
+  const modules = await Promise.all(
+    app.allExtensions
+      .filter((extension) => !extension.isAppConfigExtension)
+      .map(async (extension) => ({
+        uuid: uuids[extension.localIdentifier],
+        title: extension.localIdentifier,
+        type: extension.specification.identifier,
+        // The common config doesn't upload the wasm of the functions, so they don't need to be built
+        config: moduleConfig((await extension.commonDeployConfig(apiKey)) ?? {}),
+      })),
+  )
+
+  const versionedFields = filterNonVersionedAppFields(app.configuration)
+  if (!isCurrentAppSchema(app.configuration)) return {modules}
+
+  const configuration = app.configuration
+  return {
+    modules,
+    configuration: Object.fromEntries(versionedFields.map((field) => [field, getPathValue(configuration, field)])),
+  }
+}
+
+/**
+ * The config of a module as it's compared. The wasm of a function is uploaded
+ * with every deploy, so its module ID changes even when the function doesn't,
+ * and the fields left undefined locally aren't sent to the API.
+ */
+function moduleConfig(config: {[key: string]: unknown}): {[key: string]: unknown} {
+  const {module_id: _moduleId, ...rest} = config
+  return JSON.parse(JSON.stringify(rest))
+}
+
+function renderVersionsDiff(diff: AppVersionsDiff) {
+  const titles = (modules: VersionModuleSummary[]) => modules.map((module) => module.title)
+  const sections = [
+    {title: 'Extensions added', items: titles(diff.extensions.added)},
+    {title: 'Extensions removed', items: titles(diff.extensions.removed)},
+    {title: 'Extensions updated', items: titles(diff.extensions.updated)},
+    {title: 'Configuration added', items: diff.configuration.added},
+    {title: 'Configuration removed', items: diff.configuration.removed},
+    {title: 'Configuration updated', items: diff.configuration.updated},
+  ].filter((section) => section.items.length > 0)
+
+  if (sections.length === 0) {
+    renderInfo({headline: `There are no differences between ${diff.from} and ${diff.to}.`})
+    return
+  }
+
+  renderInfo({
+    headline: `Differences between ${diff.from} and ${diff.to}.`,
+    customSections: sections.map(({title, items}) => ({title, body: {list: {items}}})),
+  })
+
+  const content = diff.configuration.content
+  if (content) {
+    outputInfo(outputContent`${outputToken.linesDiff(diffLines(content.baselineContent, content.updatedContent))}`)
+  }
+}
@@ -1,4 +1,4 @@
-import versionList from './versions-list.js'
+import versionList, {parseDateFilter} from './versions-list.js'
 import {ensureVersionsListContext, renderCurrentlyUsedConfigInfo} from './context.js'
 import {fetchOrgFromId} from './dev/fetch.js'
 import {testPartnersUserSession, testApp} from '../models/app/app.test-data.js'
@@ -132,28 +132,34 @@ describe('versions-list', () => {
         appVersions: {
           nodes: [
             {
+              id: 'version-1',
               message: 'message',
               versionTag: 'versionTag',
               status: 'active',
               createdAt: '2021-01-01',
               createdBy: {displayName: 'createdBy'},
               distributionPercentage: 100,
+              appModuleVersions: [],
             },
             {
+              id: 'version-2',
               message: 'message 2',
               versionTag: 'versionTag 2',
               status: 'released',
               createdAt: '2021-01-01',
               createdBy: {displayName: 'createdBy 2'},
               distributionPercentage: 0,
+              appModuleVersions: [],
             },
             {
+              id: 'version-3',
               message: 'long message with more than 15 characters',
               versionTag: 'versionTag 3',
               status: 'released',
               createdAt: '2021-01-01',
               createdBy: {displayName: 'createdBy 3'},
               distributionPercentage: 0,
+              appModuleVersions: [],
             },
           ],
           pageInfo: {totalResults: 31},
@@ -192,20 +198,25 @@ View all 31 app versions in the Partner Dashboard ( https://partners.shopify.com
         appVersions: {
           nodes: [
             {
+              id: 'version-1',
               message: 'message',
               versionTag: 'versionTag',
               status: 'active',
               createdAt: '2021-01-01',
               createdBy: {displayName: 'createdBy'},
               distributionPercentage: 100,
+              commitReference: 'https://github.com/org/app/commit/abc123',
+              appModuleVersions: [{registrationTitle: 'checkout-ui', type: 'checkout_ui_extension'}],
             },
             {
+              id: 'version-2',
               message: 'long message with more than 15 characters',
               versionTag: 'versionTag 3',
               status: 'released',
               createdAt: '2021-01-01',
               createdBy: {displayName: 'createdBy 3'},
               distributionPercentage: 0,
+              appModuleVersions: [],
             },
           ],
           pageInfo: {totalResults: 31},
@@ -226,22 +237,128 @@ View all 31 app versions in the Partner Dashboard ( https://partners.shopify.com
     expect(mockOutput.info()).toMatchInlineSnapshot(`
       "[
         {
+          \\"id\\": \\"version-1\\",
           \\"message\\": \\"message\\",
           \\"versionTag\\": \\"versionTag\\",
           \\"status\\": \\"active\\",
           \\"createdAt\\": \\"2021-01-01 00:00:00\\",
           \\"createdBy\\": \\"createdBy\\",
-          \\"distributionPercentage\\": 100
+          \\"distributionPercentage\\": 100,
+          \\"commitReference\\": \\"https://github.com/org/app/commit/abc123\\",
+          \\"extensions\\": [
+            {
+              \\"title\\": \\"checkout-ui\\",
+              \\"type\\": \\"checkout_ui_extension\\"
+            }
+          ]
         },
         {
+          \\"id\\": \\"version-2\\",
           \\"message\\": \\"long message with more than 15 characters\\",
           \\"versionTag\\": \\"versionTag 3\\",
           \\"status\\": \\"released\\",
           \\"createdAt\\": \\"2021-01-01 00:00:00\\",
           \\"createdBy\\": \\"createdBy 3\\",
-          \\"distributionPercentage\\": 0
+          \\"distributionPercentage\\": 0,
+          \\"extensions\\": []
         }
       ]"
     `)
   })
+
+  test('fetches the pages of versions until the limit is reached', async () => {
+    // Given
+    const app = await testApp({})
+    const mockOutput = mockAndCaptureOutput()
+    vi.mocked(partnersRequest)
+      .mockResolvedValueOnce(versionsPage(['v5', 'v4'], {hasNextPage: true, endCursor: 'cursor-1'}))
+      .mockResolvedValueOnce(versionsPage(['v3', 'v2'], {hasNextPage: true, endCursor: 'cursor-2'}))
+
+    // When
+    await versionList({app, reset: false, json: true, filters: {limit: 3}})
+
+    // Then
+    expect(partnersRequest).toHaveBeenCalledTimes(2)
+    expect(partnersRequest).toHaveBeenNthCalledWith(2, expect.anything(), 'token', {
+      apiKey: 'app-api-key',
+      first: 25,
+      after: 'cursor-1',
+    })
+    const versionTags = JSON.parse(mockOutput.info()).map((version: {versionTag: string}) => version.versionTag)
+    expect(versionTags).toEqual(['v5', 'v4', 'v3'])
+  })
+
+  test('lists the versions that match the filters', async () => {
+    // Given
+    const app = await testApp({})
+    const mockOutput = mockAndCaptureOutput()
+    vi.mocked(partnersRequest)
+      .mockResolvedValueOnce(
+        versionsPage(['v4', 'v3'], {hasNextPage: true, endCursor: 'cursor-1'}, [
+          {status: 'inactive', createdAt: '2024-03-10', createdBy: {displayName: 'Ada Lovelace'}},
+          {status: 'released', createdAt: '2024-02-10', createdBy: {displayName: 'Grace Hopper'}},
+        ]),
+      )
+      .mockResolvedValueOnce(
+        versionsPage(['v2', 'v1'], {hasNextPage: false}, [
+          {status: 'released', createdAt: '2024-01-10', createdBy: {displayName: 'Ada Lovelace'}},
+          {status: 'released', createdAt: '2023-12-10', createdBy: {displayName: 'Ada Lovelace'}},
+        ]),
+      )
+
+    // When
+    await versionList({
+      app,
+      reset: false,
+      json: true,
+      filters: {
+        status: ['released'],
+        createdBy: 'ada',
+        since: new Date('2024-01-01'),
+        until: new Date('2024-04-01'),
+      },
+    })
+
+    // Then
+    const versionTags = JSON.parse(mockOutput.info()).map((version: {versionTag: string}) => version.versionTag)
+    expect(versionTags).toEqual(['v2'])
+  })
 })
+
+describe('parseDateFilter', () => {
+  test('parses the date of a flag', () => {
+    expect(parseDateFilter('since', '2024-01-31')).toEqual(new Date('2024-01-31'))
+    expect(parseDateFilter('since', undefined)).toBeUndefined()
+  })
+
+  test('throws an error when the date is invalid', () => {
+    expect(() => parseDateFilter('until', 'last week')).toThrowError(
+      'The --until flag expects a date like 2024-01-31, but got last week.',
+    )
+  })
+})
+
+function versionsPage(
+  versionTags: string[],
+  pageInfo: {hasNextPage: boolean; endCursor?: string},
+  nodes: {status: string; createdAt: string; createdBy: {displayName: string}}[] = [],
+) {
+  return {
+    app: {
+      id: 'appId',
+      organizationId: 'orgId',
+      appVersions: {
+        nodes: versionTags.map((versionTag, index) => ({
+          id: versionTag,
+          versionTag,
+          status: 'released',
+          createdAt: '2021-01-01',
+          distributionPercentage: 0,
+          appModuleVersions: [],
+          ...nodes[index],
+        })),
+        pageInfo: {totalResults: 4, ...pageInfo},
+      },
+    },
+  }
+}
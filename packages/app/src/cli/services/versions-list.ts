@@ -1,6 +1,6 @@
 import {ensureVersionsListContext, renderCurrentlyUsedConfigInfo} from './context.js'
 import {fetchOrgFromId} from './dev/fetch.js'
-import {AppVersionsQuery, AppVersionsQuerySchema} from '../api/graphql/get_versions_list.js'
+import {AppVersionsQuery, AppVersionsQuerySchema, AppVersionsQueryVariables} from '../api/graphql/get_versions_list.js'
 import {AppInterface, isCurrentAppSchema} from '../models/app/app.js'
 import {partnersRequest} from '@shopify/cli-kit/node/api/partners'
 import colors from '@shopify/cli-kit/node/colors'
@@ -12,29 +12,116 @@ import {renderTable} from '@shopify/cli-kit/node/ui'
 
 // eslint-disable-next-line @typescript-eslint/consistent-type-definitions
 type AppVersionLine = {
+  id: string
   createdAt: string
   createdBy?: string
   message?: string
   versionTag: string
   status: string
+  commitReference?: string
+  extensions: {title: string; type: string}[]
 }
 
+export type AppVersionNode = AppVersionsQuerySchema['app']['appVersions']['nodes'][number]
+
 const TABLE_FORMATTING_CHARS = 12
 
+/**
+ * The number of versions fetched in each request to the Partners API.
+ */
+const PAGE_SIZE = 25
+
+export interface AppVersionsFilters {
+  /** The maximum number of versions to list. All the versions are listed when undefined */
+  limit?: number
+
+  /** Only list the versions with one of these statuses */
+  status?: string[]
+
+  /** Only list the versions created by someone whose name includes this text */
+  createdBy?: string
+
+  /** Only list the versions created on or after this date */
+  since?: Date
+
+  /** Only list the versions created before this date */
+  until?: Date
+}
+
+/**
+ * Parses the date of a versions filter flag.
+ *
+ * @returns the date, or undefined when the flag isn't passed
+ */
+export function parseDateFilter(flag: string, value?: string): Date | undefined {
+  if (value === undefined) return undefined
+
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    throw new AbortError(`The --${flag} flag expects a date like 2024-01-31, but got ${value}.`)
+  }
+  return date
+}
+
+function matchesFilters(appVersion: AppVersionNode, filters: AppVersionsFilters) {
+  const createdAt = new Date(appVersion.createdAt)
+  const createdBy = appVersion.createdBy?.displayName ?? ''
+  return (
+    (!filters.status?.length || filters.status.includes(appVersion.status)) &&
+    (!filters.createdBy || createdBy.toLowerCase().includes(filters.createdBy.toLowerCase())) &&
+    (!filters.since || createdAt >= filters.since) &&
+    (!filters.until || createdAt < filters.until)
+  )
+}
+
+/**
+ * Fetches the versions of an app that match the filters, from the most recent
+ * one, page by page until the limit of the filters is reached.
+ *
+ * @param isEnough - stops the paging early once it returns true for the
+ * versions fetched so far
+ */
+export async function fetchAppVersionNodes(
+  token: string,
+  apiKey: string,
+  filters: AppVersionsFilters = {},
+  isEnough: (nodes: AppVersionNode[]) => boolean = () => false,
+): Promise<{nodes: AppVersionNode[]; app: AppVersionsQuerySchema['app']}> {
+  const query = AppVersionsQuery
+  const nodes: AppVersionNode[] = []
+  let after: string | undefined
+  let res: AppVersionsQuerySchema
+
+  do {
+    const variables: AppVersionsQueryVariables = {apiKey, first: PAGE_SIZE, after}
+    // eslint-disable-next-line no-await-in-loop
+    res = await partnersRequest(query, token, variables)
+    if (!res.app) throw new AbortError(`Invalid API Key: ${apiKey}`)
+
+    nodes.push(...res.app.appVersions.nodes.filter((appVersion) => matchesFilters(appVersion, filters)))
+    after = res.app.appVersions.pageInfo.endCursor
+  } while (
+    res.app.appVersions.pageInfo.hasNextPage &&
+    (filters.limit === undefined || nodes.length < filters.limit) &&
+    !isEnough(nodes)
+  )
+
+  return {nodes: nodes.slice(0, filters.limit), app: res.app}
+}
+
 async function fetchAppVersions(
   token: string,
   apiKey: string,
   json: boolean,
+  filters: AppVersionsFilters,
 ): Promise<{
   appVersions: AppVersionLine[]
   totalResults: number
   app: AppVersionsQuerySchema['app']
 }> {
-  const query = AppVersionsQuery
-  const res: AppVersionsQuerySchema = await partnersRequest(query, token, {apiKey})
-  if (!res.app) throw new AbortError(`Invalid API Key: ${apiKey}`)
+  const {nodes, app} = await fetchAppVersionNodes(token, apiKey, filters)
 
-  const appVersions = res.app.appVersions.nodes.map((appVersion) => {
+  const appVersions = nodes.map(({appModuleVersions, ...appVersion}) => {
     const message = appVersion.message ?? ''
     return {
       ...appVersion,
@@ -42,6 +129,7 @@ async function fetchAppVersions(
       createdBy: appVersion.createdBy?.displayName ?? '',
       createdAt: formatDate(new Date(appVersion.createdAt)),
       message,
+      extensions: appModuleVersions.map((module) => ({title: module.registrationTitle, type: module.type})),
     }
   })
 
@@ -76,8 +164,8 @@ async function fetchAppVersions(
 
   return {
     appVersions,
-    totalResults: res.app.appVersions.pageInfo.totalResults,
-    app: res.app,
+    totalResults: app.appVersions.pageInfo.totalResults,
+    app,
   }
 }
 
@@ -86,13 +174,19 @@ interface VersionListOptions {
   apiKey?: string
   reset: false
   json: boolean
+  filters?: AppVersionsFilters
 }
 
 export default async function versionList(options: VersionListOptions) {
   const {partnersSession, partnersApp} = await ensureVersionsListContext(options)
   const {id: appId, organizationId, title, apiKey} = partnersApp
 
-  const {appVersions, totalResults} = await fetchAppVersions(partnersSession.token, apiKey, options.json)
+  const {appVersions, totalResults} = await fetchAppVersions(
+    partnersSession.token,
+    apiKey,
+    options.json,
+    options.filters ?? {},
+  )
 
   const {businessName: org} = await fetchOrgFromId(organizationId, partnersSession)
 
@@ -112,7 +206,13 @@ export default async function versionList(options: VersionListOptions) {
   }
 
   renderTable({
-    rows: appVersions,
+    rows: appVersions.map(({versionTag, status, message, createdAt, createdBy}) => ({
+      versionTag,
+      status,
+      message,
+      createdAt,
+      createdBy,
+    })),
     columns: {
       versionTag: {header: 'VERSION'},
       status: {header: 'STATUS'},
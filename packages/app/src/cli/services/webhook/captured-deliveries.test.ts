@@ -0,0 +1,138 @@
+import {
+  CapturedDelivery,
+  isValidWebhookHmac,
+  loadCapturedDeliveries,
+  resendCapturedDelivery,
+  saveCapturedDelivery,
+} from './captured-deliveries.js'
+import {describe, expect, test, vi} from 'vitest'
+import {hmacSha256} from '@shopify/cli-kit/node/crypto'
+import {inTemporaryDirectory, writeFile} from '@shopify/cli-kit/node/fs'
+import {joinPath} from '@shopify/cli-kit/node/path'
+import {fetch} from '@shopify/cli-kit/node/http'
+
+vi.mock('@shopify/cli-kit/node/http')
+
+function capturedDelivery(overrides: Partial<CapturedDelivery> = {}): CapturedDelivery {
+  return {
+    id: 'abcd1234',
+    receivedAt: '2024-01-01T00:00:00.000Z',
+    topic: 'orders/create',
+    path: '/api/webhooks',
+    headers: {'content-type': 'application/json', host: 'localhost', 'x-shopify-topic': 'orders/create'},
+    body: '{"id":1}',
+    hmacValid: true,
+    response: {status: 200, body: 'OK'},
+    ...overrides,
+  }
+}
+
+describe('isValidWebhookHmac', () => {
+  test('returns true when the header matches the signed body', () => {
+    // When
+    const got = isValidWebhookHmac('secret', '{}', hmacSha256('secret', '{}'))
+
+    // Then
+    expect(got).toBe(true)
+  })
+
+  test('returns false when the header is missing or signed with another secret', () => {
+    // Then
+    expect(isValidWebhookHmac('secret', '{}', undefined)).toBe(false)
+    expect(isValidWebhookHmac('secret', '{}', hmacSha256('other', '{}'))).toBe(false)
+  })
+})
+
+describe('loadCapturedDeliveries', () => {
+  test('returns no deliveries when none were captured', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // When
+      const got = await loadCapturedDeliveries(tmpDir)
+
+      // Then
+      expect(got).toEqual([])
+    })
+  })
+
+  test('returns the saved deliveries from the most recent one', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const older = capturedDelivery({id: 'older'})
+      const newer = capturedDelivery({id: 'newer', receivedAt: '2024-01-02T00:00:00.000Z'})
+      await saveCapturedDelivery(tmpDir, older)
+      await saveCapturedDelivery(tmpDir, newer)
+
+      // When
+      const got = await loadCapturedDeliveries(tmpDir)
+
+      // Then
+      expect(got).toEqual([newer, older])
+    })
+  })
+
+  test('skips the files that are not valid JSON', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const delivery = capturedDelivery()
+      await saveCapturedDelivery(tmpDir, delivery)
+      await writeFile(joinPath(tmpDir, '.shopify/webhooks/corrupt.json'), '{"id":')
+
+      // When
+      const got = await loadCapturedDeliveries(tmpDir)
+
+      // Then
+      expect(got).toEqual([delivery])
+    })
+  })
+})
+
+describe('resendCapturedDelivery', () => {
+  test('forwards the delivery again to the backend without the connection headers and captures it', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      await saveCapturedDelivery(tmpDir, capturedDelivery())
+      const response = {status: 500, text: async () => 'Error'}
+      vi.mocked(fetch).mockResolvedValue(response as unknown as Awaited<ReturnType<typeof fetch>>)
+
+      // When
+      const got = await resendCapturedDelivery(tmpDir, 'abcd1234', 'http://localhost:4000/')
+
+      // Then
+      expect(fetch).toHaveBeenCalledWith('http://localhost:4000/api/webhooks', {
+        method: 'POST',
+        headers: {'content-type': 'application/json', 'x-shopify-topic': 'orders/create'},
+        body: '{"id":1}',
+      })
+      expect(got).toEqual(
+        expect.objectContaining({resentFrom: 'abcd1234', response: {status: 500, body: 'Error'}, body: '{"id":1}'}),
+      )
+      expect(got.id).not.toEqual('abcd1234')
+      await expect(loadCapturedDeliveries(tmpDir)).resolves.toHaveLength(2)
+    })
+  })
+
+  test('captures the error when the backend does not respond', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      await saveCapturedDelivery(tmpDir, capturedDelivery())
+      vi.mocked(fetch).mockRejectedValue(new Error('connect ECONNREFUSED'))
+
+      // When
+      const got = await resendCapturedDelivery(tmpDir, 'abcd1234', 'http://localhost:3000')
+
+      // Then
+      expect(got.response).toBeUndefined()
+      expect(got.error).toEqual('connect ECONNREFUSED')
+    })
+  })
+
+  test('fails when no delivery has the id', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // When
+      const got = resendCapturedDelivery(tmpDir, 'missing', 'http://localhost:3000')
+
+      // Then
+      await expect(got).rejects.toThrow('No webhook delivery with the id missing was captured.')
+    })
+  })
+})
@@ -0,0 +1,156 @@
+import {hmacSha256, randomHex} from '@shopify/cli-kit/node/crypto'
+import {AbortError} from '@shopify/cli-kit/node/error'
+import {fileExists, glob, mkdir, readFile, writeFile} from '@shopify/cli-kit/node/fs'
+import {fetch} from '@shopify/cli-kit/node/http'
+import {joinPath} from '@shopify/cli-kit/node/path'
+import {outputDebug} from '@shopify/cli-kit/node/output'
+
+/**
+ * The directory of the app where the webhook deliveries that `app dev`
+ * receives are captured, one JSON file per delivery.
+ */
+export const CAPTURED_DELIVERIES_DIRECTORY = '.shopify/webhooks'
+
+/**
+ * The headers that aren't forwarded with a delivery, because they describe
+ * the connection rather than the delivery.
+ */
+const CONNECTION_HEADERS = ['host', 'connection', 'content-length', 'transfer-encoding']
+
+/**
+ * A webhook delivery that `app dev` received, and the response of the
+ * backend it was forwarded to.
+ */
+export interface CapturedDelivery {
+  id: string
+  receivedAt: string
+  topic?: string
+
+  /**
+   * The path the delivery was sent to. The backend it's forwarded to is
+   * resolved when it's sent, as its port changes between `app dev` sessions.
+   */
+  path: string
+  headers: {[name: string]: string}
+  body: string
+
+  /**
+   * Whether the X-Shopify-Hmac-Sha256 header matches the body signed with the
+   * client secret of the app.
+   */
+  hmacValid: boolean
+  response?: {status: number; body: string}
+
+  /**
+   * Why the delivery couldn't be forwarded, when the backend didn't respond.
+   */
+  error?: string
+
+  /**
+   * The id of the delivery this one sends again.
+   */
+  resentFrom?: string
+}
+
+/**
+ * Generates a short id for a captured delivery, to refer to it in commands.
+ */
+export function capturedDeliveryId() {
+  return randomHex(4)
+}
+
+/**
+ * Whether an X-Shopify-Hmac-Sha256 header matches a body signed with a
+ * secret.
+ */
+export function isValidWebhookHmac(secret: string, body: string, hmac: string | undefined) {
+  return hmac !== undefined && hmacSha256(secret, body) === hmac
+}
+
+/**
+ * Forwards a delivery to a backend.
+ *
+ * @param backendUrl - the URL of the backend, to which the path of the delivery is appended
+ * @returns the delivery with the response of the backend, or the error when
+ * it didn't respond
+ */
+export async function forwardDelivery(delivery: CapturedDelivery, backendUrl: string): Promise<CapturedDelivery> {
+  const headers = Object.fromEntries(
+    Object.entries(delivery.headers).filter(([name]) => !CONNECTION_HEADERS.includes(name.toLowerCase())),
+  )
+
+  try {
+    const response = await fetch(`${backendUrl.replace(/\/$/, '')}${delivery.path}`, {
+      method: 'POST',
+      headers,
+      body: delivery.body,
+    })
+    return {...delivery, response: {status: response.status, body: await response.text()}}
+  } catch (error) {
+    if (error instanceof Error) return {...delivery, error: error.message}
+    throw error
+  }
+}
+
+export async function saveCapturedDelivery(appDirectory: string, delivery: CapturedDelivery) {
+  const directory = joinPath(appDirectory, CAPTURED_DELIVERIES_DIRECTORY)
+  await mkdir(directory)
+  await writeFile(joinPath(directory, `${delivery.id}.json`), JSON.stringify(delivery, null, 2))
+}
+
+/**
+ * Loads the deliveries captured in an app. The files that aren't valid JSON
+ * are skipped.
+ *
+ * @returns the deliveries, from the most recent one
+ */
+export async function loadCapturedDeliveries(appDirectory: string): Promise<CapturedDelivery[]> {
+  const directory = joinPath(appDirectory, CAPTURED_DELIVERIES_DIRECTORY)
+  if (!(await fileExists(directory))) return []
+
+  const paths = await glob(joinPath(directory, '*.json'), {absolute: true})
+  const deliveries = await Promise.all(paths.map(readCapturedDelivery))
+  return deliveries
+    .filter((delivery): delivery is CapturedDelivery => delivery !== undefined)
+    .sort((deliveryA, deliveryB) => deliveryB.receivedAt.localeCompare(deliveryA.receivedAt))
+}
+
+/**
+ * Sends a captured delivery again to a backend, and captures the new delivery.
+ *
+ * @param backendUrl - the URL of the backend, to which the path of the delivery is appended
+ */
+export async function resendCapturedDelivery(
+  appDirectory: string,
+  id: string,
+  backendUrl: string,
+): Promise<CapturedDelivery> {
+  const delivery = (await loadCapturedDeliveries(appDirectory)).find((captured) => captured.id === id)
+  if (!delivery) {
+    throw new AbortError(`No webhook delivery with the id ${id} was captured.`)
+  }
+
+  const {response: _response, error: _error, ...request} = delivery
+  const resent = await forwardDelivery(
+    {
+      ...request,
+      id: capturedDeliveryId(),
+      receivedAt: new Date().toISOString(),
+      resentFrom: delivery.id,
+    },
+    backendUrl,
+  )
+  await saveCapturedDelivery(appDirectory, resent)
+  return resent
+}
+
+async function readCapturedDelivery(path: string): Promise<CapturedDelivery | undefined> {
+  const content = await readFile(path)
+  try {
+    return JSON.parse(content)
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error
+    outputDebug(`Skipping the captured delivery ${path}, as it isn't valid JSON: ${error.message}`)
+    return undefined
+  }
+}
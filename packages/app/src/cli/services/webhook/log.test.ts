@@ -0,0 +1,143 @@
+import {webhookLogService} from './log.js'
+import {CapturedDelivery, resendCapturedDelivery, saveCapturedDelivery} from './captured-deliveries.js'
+import {testApp} from '../../models/app/app.test-data.js'
+import {afterEach, describe, expect, test, vi} from 'vitest'
+import {inTemporaryDirectory} from '@shopify/cli-kit/node/fs'
+import {renderInfo, renderSuccess, renderTable, renderWarning} from '@shopify/cli-kit/node/ui'
+import {mockAndCaptureOutput} from '@shopify/cli-kit/node/testing/output'
+
+vi.mock('@shopify/cli-kit/node/ui')
+vi.mock('./captured-deliveries.js', async () => {
+  const actual: {[name: string]: unknown} = await vi.importActual('./captured-deliveries.js')
+  return {...actual, resendCapturedDelivery: vi.fn()}
+})
+
+afterEach(() => {
+  mockAndCaptureOutput().clear()
+})
+
+function capturedDelivery(overrides: Partial<CapturedDelivery> = {}): CapturedDelivery {
+  return {
+    id: 'abcd1234',
+    receivedAt: '2024-01-01T00:00:00.000Z',
+    topic: 'orders/create',
+    path: '/api/webhooks',
+    headers: {},
+    body: '{}',
+    hmacValid: true,
+    response: {status: 200, body: 'OK'},
+    ...overrides,
+  }
+}
+
+describe('webhookLogService', () => {
+  test('renders the most recent deliveries', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const app = testApp({directory: tmpDir})
+      await saveCapturedDelivery(tmpDir, capturedDelivery())
+      await saveCapturedDelivery(
+        tmpDir,
+        capturedDelivery({
+          id: 'efgh5678',
+          receivedAt: '2024-01-02T00:00:00.000Z',
+          hmacValid: false,
+          response: undefined,
+          error: 'timeout',
+        }),
+      )
+
+      // When
+      await webhookLogService({app, json: false, limit: 1})
+
+      // Then
+      expect(renderTable).toHaveBeenCalledWith(
+        expect.objectContaining({
+          rows: [
+            {
+              id: 'efgh5678',
+              receivedAt: '2024-01-02T00:00:00.000Z',
+              topic: 'orders/create',
+              path: '/api/webhooks',
+              hmac: 'Invalid',
+              response: 'Failed: timeout',
+            },
+          ],
+        }),
+      )
+    })
+  })
+
+  test('outputs the deliveries as JSON', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const app = testApp({directory: tmpDir})
+      const outputMock = mockAndCaptureOutput()
+      await saveCapturedDelivery(tmpDir, capturedDelivery())
+
+      // When
+      await webhookLogService({app, json: true, limit: 20})
+
+      // Then
+      expect(JSON.parse(outputMock.info())).toEqual([capturedDelivery()])
+      expect(renderTable).not.toHaveBeenCalled()
+    })
+  })
+
+  test('explains how deliveries are captured when there are none', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // When
+      await webhookLogService({app: testApp({directory: tmpDir}), json: false, limit: 20})
+
+      // Then
+      expect(renderInfo).toHaveBeenCalledWith(
+        expect.objectContaining({headline: 'No webhook deliveries have been captured yet.'}),
+      )
+    })
+  })
+
+  test('sends a delivery again and renders the response of the backend', async () => {
+    // Given
+    const app = testApp({directory: '/app'})
+    vi.mocked(resendCapturedDelivery).mockResolvedValue(capturedDelivery({id: 'efgh5678', resentFrom: 'abcd1234'}))
+
+    // When
+    await webhookLogService({app, resend: 'abcd1234', address: 'http://localhost:3000', json: false, limit: 20})
+
+    // Then
+    expect(resendCapturedDelivery).toHaveBeenCalledWith('/app', 'abcd1234', 'http://localhost:3000')
+    expect(renderSuccess).toHaveBeenCalledWith({
+      headline: 'The delivery abcd1234 was sent again as efgh5678.',
+      body: 'The backend responded with 200.',
+    })
+  })
+
+  test('warns when the backend does not accept the delivery sent again', async () => {
+    // Given
+    const app = testApp({directory: '/app'})
+    vi.mocked(resendCapturedDelivery).mockResolvedValue(
+      capturedDelivery({id: 'efgh5678', resentFrom: 'abcd1234', response: undefined, error: 'connect ECONNREFUSED'}),
+    )
+
+    // When
+    await webhookLogService({app, resend: 'abcd1234', address: 'http://localhost:3000', json: false, limit: 20})
+
+    // Then
+    expect(renderWarning).toHaveBeenCalledWith({
+      headline: 'The delivery abcd1234 was sent again as efgh5678.',
+      body: "The backend didn't respond: connect ECONNREFUSED",
+    })
+  })
+
+  test('fails to send a delivery again without the address of the backend', async () => {
+    // Given
+    const app = testApp({directory: '/app'})
+
+    // When
+    const got = webhookLogService({app, resend: 'abcd1234', json: false, limit: 20})
+
+    // Then
+    await expect(got).rejects.toThrow('Pass the URL of the backend to send the delivery to with --address')
+    expect(resendCapturedDelivery).not.toHaveBeenCalled()
+  })
+})
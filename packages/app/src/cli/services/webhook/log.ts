@@ -0,0 +1,89 @@
+import {CapturedDelivery, loadCapturedDeliveries, resendCapturedDelivery} from './captured-deliveries.js'
+import {AppInterface} from '../../models/app/app.js'
+import {AbortError} from '@shopify/cli-kit/node/error'
+import {outputInfo} from '@shopify/cli-kit/node/output'
+import {renderInfo, renderSuccess, renderTable, renderWarning} from '@shopify/cli-kit/node/ui'
+
+interface WebhookLogOptions {
+  app: AppInterface
+
+  /**
+   * The id of a captured delivery to send again.
+   */
+  resend?: string
+
+  /**
+   * The URL of the backend to send the delivery to again.
+   */
+  address?: string
+  json: boolean
+  limit: number
+}
+
+/**
+ * Lists the webhook deliveries that `app dev` captured, or sends one of them
+ * again to the backend.
+ */
+export async function webhookLogService(options: WebhookLogOptions) {
+  if (options.resend) {
+    if (!options.address) {
+      throw new AbortError(
+        'Pass the URL of the backend to send the delivery to with --address, such as http://localhost:3000.',
+        'While `shopify app dev` runs, deliveries can also be sent again from the webhook inspector.',
+      )
+    }
+    const delivery = await resendCapturedDelivery(options.app.directory, options.resend, options.address)
+    renderResentDelivery(delivery)
+    return
+  }
+
+  const deliveries = (await loadCapturedDeliveries(options.app.directory)).slice(0, options.limit)
+  if (options.json) {
+    outputInfo(JSON.stringify(deliveries, null, 2))
+    return
+  }
+
+  if (deliveries.length === 0) {
+    renderInfo({
+      headline: 'No webhook deliveries have been captured yet.',
+      body: 'Deliveries to the webhooks path of the app are captured while `shopify app dev` runs.',
+    })
+    return
+  }
+
+  renderTable({
+    rows: deliveries.map((delivery) => ({
+      id: delivery.id,
+      receivedAt: delivery.receivedAt,
+      topic: delivery.topic ?? '',
+      path: delivery.path,
+      hmac: delivery.hmacValid ? 'Valid' : 'Invalid',
+      response: delivery.response ? `${delivery.response.status}` : `Failed: ${delivery.error}`,
+    })),
+    columns: {
+      id: {header: 'Id'},
+      receivedAt: {header: 'Received at', color: 'dim'},
+      topic: {header: 'Topic'},
+      path: {header: 'Path', color: 'dim'},
+      hmac: {header: 'HMAC'},
+      response: {header: 'Response'},
+    },
+  })
+}
+
+function renderResentDelivery(delivery: CapturedDelivery) {
+  const headline = `The delivery ${delivery.resentFrom} was sent again as ${delivery.id}.`
+  const status = delivery.response?.status
+
+  if (status !== undefined && status >= 200 && status < 300) {
+    renderSuccess({headline, body: `The backend responded with ${status}.`})
+  } else {
+    renderWarning({
+      headline,
+      body:
+        status === undefined
+          ? `The backend didn't respond: ${delivery.error}`
+          : `The backend responded with ${status}.`,
+    })
+  }
+}
@@ -0,0 +1,179 @@
+import {loadWebhookPayload, offlineWebhookTriggerService, signedWebhookHeaders} from './offline-webhook.js'
+import {triggerLocalWebhook} from './trigger-local-webhook.js'
+import {afterEach, describe, expect, test, vi} from 'vitest'
+import {inTemporaryDirectory, mkdir, writeFile} from '@shopify/cli-kit/node/fs'
+import {dirname, joinPath} from '@shopify/cli-kit/node/path'
+import {mockAndCaptureOutput} from '@shopify/cli-kit/node/testing/output'
+import {hmacSha256} from '@shopify/cli-kit/node/crypto'
+import {FetchError} from '@shopify/cli-kit/node/http'
+
+vi.mock('./trigger-local-webhook.js')
+
+afterEach(() => {
+  mockAndCaptureOutput().clear()
+})
+
+const payload = '{"id":1,"line_items":[]}'
+
+async function writePayload(path: string, content = payload) {
+  await mkdir(dirname(path))
+  await writeFile(path, content)
+}
+
+function offlineFlags(directory: string) {
+  return {
+    topic: 'orders/create',
+    apiVersion: '2024-01',
+    address: 'http://localhost:3000/api/webhooks',
+    clientSecret: 'secret',
+    shopDomain: 'my-shop.myshopify.com',
+    replay: 1,
+    directory,
+  }
+}
+
+describe('signedWebhookHeaders', () => {
+  test('signs the body with the client secret', () => {
+    // When
+    const got = signedWebhookHeaders({
+      topic: 'orders/create',
+      apiVersion: '2024-01',
+      shopDomain: 'my-shop.myshopify.com',
+      clientSecret: 'secret',
+      webhookId: 'webhook-id',
+      body: payload,
+    })
+
+    // Then
+    expect(got).toEqual({
+      'X-Shopify-Topic': 'orders/create',
+      'X-Shopify-Hmac-Sha256': hmacSha256('secret', payload),
+      'X-Shopify-Shop-Domain': 'my-shop.myshopify.com',
+      'X-Shopify-API-Version': '2024-01',
+      'X-Shopify-Webhook-Id': 'webhook-id',
+      'X-Shopify-Triggered-At': expect.any(String),
+    })
+  })
+})
+
+describe('loadWebhookPayload', () => {
+  test('loads the fixture of the topic', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      await writePayload(joinPath(tmpDir, 'webhooks/fixtures/orders/create.json'))
+
+      // When
+      const got = await loadWebhookPayload('orders/create', {directory: tmpDir})
+
+      // Then
+      expect(got).toEqual(payload)
+    })
+  })
+
+  test('fails when the topic does not have a fixture', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // When
+      const got = loadWebhookPayload('orders/create', {directory: tmpDir})
+
+      // Then
+      await expect(got).rejects.toThrow('No payload was found for the topic orders/create.')
+    })
+  })
+
+  test('fails when the payload is not valid JSON', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const path = joinPath(tmpDir, 'payload.json')
+      await writePayload(path, '{')
+
+      // When
+      const got = loadWebhookPayload('orders/create', {directory: tmpDir, payload: path})
+
+      // Then
+      await expect(got).rejects.toThrow("The payload payload.json isn't valid JSON")
+    })
+  })
+})
+
+describe('offlineWebhookTriggerService', () => {
+  test('sends the same signed delivery as many times as requested', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const path = joinPath(tmpDir, 'payload.json')
+      await writePayload(path)
+      vi.mocked(triggerLocalWebhook).mockResolvedValue(true)
+      const outputMock = mockAndCaptureOutput()
+
+      // When
+      await offlineWebhookTriggerService({...offlineFlags(tmpDir), payload: path, replay: 2})
+
+      // Then
+      expect(triggerLocalWebhook).toHaveBeenCalledTimes(2)
+      const [firstCall, secondCall] = vi.mocked(triggerLocalWebhook).mock.calls
+      expect(firstCall).toEqual(secondCall)
+      expect(firstCall![0]).toEqual('http://localhost:3000/api/webhooks')
+      expect(firstCall![1]).toEqual(payload)
+      expect(JSON.parse(firstCall![2])).toMatchObject({
+        'X-Shopify-Topic': 'orders/create',
+        'X-Shopify-Hmac-Sha256': hmacSha256('secret', payload),
+      })
+      expect(outputMock.info()).toMatch('Delivery 2 of 2 succeeded')
+      expect(outputMock.success()).toMatch('Offline delivery successful')
+    })
+  })
+
+  test('fails when a delivery fails', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      await writePayload(joinPath(tmpDir, 'webhooks/fixtures/orders/create.json'))
+      vi.mocked(triggerLocalWebhook).mockResolvedValue(false)
+
+      // When
+      const got = offlineWebhookTriggerService(offlineFlags(tmpDir))
+
+      // Then
+      await expect(got).rejects.toThrow('Offline delivery failed')
+    })
+  })
+
+  test('counts the deliveries the address does not respond to as failed', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      await writePayload(joinPath(tmpDir, 'webhooks/fixtures/orders/create.json'))
+      vi.mocked(triggerLocalWebhook)
+        .mockRejectedValueOnce(new FetchError('connect ECONNREFUSED 127.0.0.1:3000', 'system'))
+        .mockResolvedValueOnce(true)
+      const outputMock = mockAndCaptureOutput()
+
+      // When
+      const got = offlineWebhookTriggerService({...offlineFlags(tmpDir), replay: 2})
+
+      // Then
+      await expect(got).rejects.toThrow('Offline delivery failed')
+      expect(triggerLocalWebhook).toHaveBeenCalledTimes(2)
+      expect(outputMock.info()).toMatch('Delivery 1 of 2 failed: connect ECONNREFUSED 127.0.0.1:3000')
+      expect(outputMock.info()).toMatch('Delivery 2 of 2 succeeded')
+    })
+  })
+
+  test('fails when the address is not an HTTP address', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // When
+      const got = offlineWebhookTriggerService({...offlineFlags(tmpDir), address: 'pubsub://project:topic'})
+
+      // Then
+      await expect(got).rejects.toThrow('Offline deliveries can only be sent to HTTP addresses')
+      expect(triggerLocalWebhook).not.toHaveBeenCalled()
+    })
+  })
+
+  test('fails when the client secret is missing', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // When
+      const got = offlineWebhookTriggerService({...offlineFlags(tmpDir), clientSecret: undefined})
+
+      // Then
+      await expect(got).rejects.toThrow('Offline deliveries need a topic')
+    })
+  })
+})
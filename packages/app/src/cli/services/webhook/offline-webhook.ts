@@ -0,0 +1,170 @@
+import {DELIVERY_METHOD, deliveryMethodForAddress} from './trigger-flags.js'
+import {triggerLocalWebhook} from './trigger-local-webhook.js'
+import {hmacSha256, randomUUID} from '@shopify/cli-kit/node/crypto'
+import {AbortError} from '@shopify/cli-kit/node/error'
+import {fileExists, readFile} from '@shopify/cli-kit/node/fs'
+import {FetchError} from '@shopify/cli-kit/node/http'
+import {outputInfo, outputSuccess} from '@shopify/cli-kit/node/output'
+import {joinPath, relativePath} from '@shopify/cli-kit/node/path'
+
+/**
+ * The directory, relative to the working directory, with a sample payload
+ * per topic, for example `webhooks/fixtures/orders/create.json`.
+ */
+export const WEBHOOK_FIXTURES_DIRECTORY = 'webhooks/fixtures'
+
+/**
+ * The shop that offline webhooks come from when none is passed.
+ */
+export const DEFAULT_OFFLINE_SHOP_DOMAIN = 'shop.myshopify.com'
+
+export interface OfflineWebhookTriggerFlags {
+  topic?: string
+  apiVersion?: string
+  address?: string
+  clientSecret?: string
+  shopDomain: string
+
+  /**
+   * The JSON file with the payload to send, instead of the fixture of the
+   * topic.
+   */
+  payload?: string
+
+  /**
+   * The number of times the same delivery is sent.
+   */
+  replay: number
+
+  /**
+   * The directory that the fixtures directory is relative to.
+   */
+  directory: string
+}
+
+interface SignWebhookOptions {
+  topic: string
+  apiVersion: string
+  shopDomain: string
+  clientSecret: string
+  webhookId: string
+  body: string
+}
+
+/**
+ * Builds the headers Shopify sends with a webhook delivery, including the
+ * X-Shopify-Hmac-Sha256 header that apps validate the origin of the delivery
+ * with.
+ */
+export function signedWebhookHeaders(options: SignWebhookOptions): {[name: string]: string} {
+  return {
+    'X-Shopify-Topic': options.topic,
+    'X-Shopify-Hmac-Sha256': hmacSha256(options.clientSecret, options.body),
+    'X-Shopify-Shop-Domain': options.shopDomain,
+    'X-Shopify-API-Version': options.apiVersion,
+    'X-Shopify-Webhook-Id': options.webhookId,
+    'X-Shopify-Triggered-At': new Date().toISOString(),
+  }
+}
+
+/**
+ * Loads the payload of a webhook, from the file that's passed or from the
+ * fixture of the topic.
+ *
+ * @returns the payload, serialized as JSON
+ */
+export async function loadWebhookPayload(
+  topic: string,
+  {directory, payload}: {directory: string; payload?: string},
+): Promise<string> {
+  const fixturePath = joinPath(directory, WEBHOOK_FIXTURES_DIRECTORY, `${topic}.json`)
+  const payloadPath = payload ?? fixturePath
+
+  if (!(await fileExists(payloadPath))) {
+    throw new AbortError(
+      payload ? `The payload file ${payload} doesn't exist.` : `No payload was found for the topic ${topic}.`,
+      `Add a payload at ${relativePath(directory, fixturePath)} or pass a JSON file with --payload.`,
+    )
+  }
+
+  const content = await readFile(payloadPath)
+  try {
+    JSON.parse(content)
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new AbortError(`The payload ${relativePath(directory, payloadPath)} isn't valid JSON: ${error.message}`)
+    }
+    throw error
+  }
+  return content
+}
+
+/**
+ * Builds a signed webhook delivery locally and sends it to an HTTP address,
+ * as many times as requested with the same webhook id, without requesting
+ * Shopify.
+ *
+ * @param flags - Passed flags
+ */
+export async function offlineWebhookTriggerService(flags: OfflineWebhookTriggerFlags) {
+  const {topic, apiVersion, address, clientSecret} = flags
+  if (!topic || !apiVersion || !address || !clientSecret) {
+    throw new AbortError(
+      'Offline deliveries need a topic, an API version, an address and a client secret.',
+      'Pass them with --topic, --api-version, --address and --client-secret.',
+    )
+  }
+
+  const deliveryMethod = deliveryMethodForAddress(address)
+  if (deliveryMethod !== DELIVERY_METHOD.LOCALHOST && deliveryMethod !== DELIVERY_METHOD.HTTP) {
+    throw new AbortError(`Offline deliveries can only be sent to HTTP addresses, not ${address}.`)
+  }
+
+  const body = await loadWebhookPayload(topic, flags)
+  const headers = signedWebhookHeaders({
+    topic,
+    apiVersion,
+    shopDomain: flags.shopDomain,
+    clientSecret,
+    webhookId: randomUUID(),
+    body,
+  })
+
+  let failures = 0
+  // Deliveries are sent one after the other, like Shopify retries them
+  for (let delivery = 1; delivery <= flags.replay; delivery++) {
+    // eslint-disable-next-line no-await-in-loop
+    const error = await localDeliveryError(address, body, JSON.stringify(headers))
+    if (error) failures++
+    if (flags.replay > 1) {
+      outputInfo(`Delivery ${delivery} of ${flags.replay} ${error ? `failed: ${error}` : 'succeeded'}`)
+    } else if (error) {
+      outputInfo(`Delivery failed: ${error}`)
+    }
+  }
+
+  // Failures end the command with an error, so handlers can be tested in CI
+  if (failures > 0) {
+    throw new AbortError(
+      'Offline delivery failed',
+      `${failures} of ${flags.replay} deliveries didn't receive a successful response from ${address}.`,
+    )
+  }
+  outputSuccess('Offline delivery successful')
+}
+
+/**
+ * Sends a delivery to a local address.
+ *
+ * @returns why the delivery failed, or undefined when it succeeded
+ */
+async function localDeliveryError(address: string, body: string, headers: string): Promise<string | undefined> {
+  try {
+    const delivered = await triggerLocalWebhook(address, body, headers)
+    return delivered ? undefined : 'the address responded with an unsuccessful status'
+  } catch (error) {
+    // The address didn't respond, which counts as a failed delivery
+    if (error instanceof FetchError) return error.message
+    throw error
+  }
+}
@@ -0,0 +1,223 @@
+import {
+  configWebhookSubscriptions,
+  filterWebhookPayload,
+  subscriptionAddress,
+  webhookTriggerFromConfigService,
+} from './trigger-from-config.js'
+import {triggerLocalWebhook} from './trigger-local-webhook.js'
+import {getWebhookSample} from './request-sample.js'
+import {fetchPartnersSession} from '../context/partner-account-info.js'
+import {testAppWithConfig, testPartnersUserSession} from '../../models/app/app.test-data.js'
+import {describe, expect, test, vi} from 'vitest'
+import {inTemporaryDirectory, mkdir, writeFile} from '@shopify/cli-kit/node/fs'
+import {dirname, joinPath} from '@shopify/cli-kit/node/path'
+import {renderTable} from '@shopify/cli-kit/node/ui'
+import {AbortSilentError} from '@shopify/cli-kit/node/error'
+import {hmacSha256} from '@shopify/cli-kit/node/crypto'
+
+vi.mock('./trigger-local-webhook.js')
+vi.mock('./request-sample.js')
+vi.mock('../context/partner-account-info.js')
+vi.mock('@shopify/cli-kit/node/ui')
+
+const webhooks = {
+  api_version: '2024-01',
+  subscriptions: [
+    {topics: ['orders/create', 'orders/paid'], uri: '/webhooks/orders', include_fields: ['id']},
+    {topics: ['metaobjects/create'], uri: 'https://example.com/metaobjects', sub_topic: 'type:lookbook'},
+    {topics: ['app/uninstalled'], uri: 'pubsub://project:topic', compliance_topics: ['shop/redact' as const]},
+  ],
+  privacy_compliance: {customer_deletion_url: 'https://myapp.com/webhooks/redact'},
+}
+
+function appWithWebhooks(directory: string) {
+  return testAppWithConfig({app: {directory}, config: {webhooks}})
+}
+
+async function writePayload(directory: string, topic: string, payload: object) {
+  const path = joinPath(directory, 'webhooks/fixtures', `${topic}.json`)
+  await mkdir(dirname(path))
+  await writeFile(path, JSON.stringify(payload))
+}
+
+describe('configWebhookSubscriptions', () => {
+  test('returns a subscription per topic, compliance topic and privacy compliance URL', () => {
+    // When
+    const got = configWebhookSubscriptions(webhooks)
+
+    // Then
+    expect(got).toEqual([
+      {topic: 'orders/create', uri: '/webhooks/orders', include_fields: ['id']},
+      {topic: 'orders/paid', uri: '/webhooks/orders', include_fields: ['id']},
+      {topic: 'metaobjects/create', uri: 'https://example.com/metaobjects', sub_topic: 'type:lookbook'},
+      {topic: 'app/uninstalled', uri: 'pubsub://project:topic'},
+      {topic: 'shop/redact', uri: 'pubsub://project:topic'},
+      {topic: 'customers/redact', uri: 'https://myapp.com/webhooks/redact'},
+    ])
+  })
+})
+
+describe('subscriptionAddress', () => {
+  test('resolves relative URIs against the app URL', () => {
+    expect(subscriptionAddress('/webhooks', {applicationUrl: 'https://myapp.com/'})).toEqual(
+      'https://myapp.com/webhooks',
+    )
+  })
+
+  test('delivers relative URIs and URIs of the app URL to the local backend', () => {
+    const options = {applicationUrl: 'https://myapp.com', localPort: 3000}
+
+    expect(subscriptionAddress('/webhooks', options)).toEqual('http://localhost:3000/webhooks')
+    expect(subscriptionAddress('https://myapp.com/webhooks?a=1', options)).toEqual('http://localhost:3000/webhooks?a=1')
+    expect(subscriptionAddress('https://example.com/webhooks', options)).toEqual('https://example.com/webhooks')
+    expect(subscriptionAddress('pubsub://project:topic', options)).toEqual('pubsub://project:topic')
+  })
+})
+
+describe('filterWebhookPayload', () => {
+  test('keeps the included fields and the metafields of the namespaces', () => {
+    // Given
+    const body = JSON.stringify({
+      id: 1,
+      name: '#1001',
+      metafields: [
+        {namespace: 'custom', key: 'gift'},
+        {namespace: 'other', key: 'note'},
+      ],
+    })
+
+    // When
+    const got = filterWebhookPayload(body, {
+      topic: 'orders/create',
+      uri: '/webhooks',
+      include_fields: ['id', 'metafields'],
+      metafield_namespaces: ['custom'],
+    })
+
+    // Then
+    expect(JSON.parse(got)).toEqual({id: 1, metafields: [{namespace: 'custom', key: 'gift'}]})
+  })
+})
+
+describe('webhookTriggerFromConfigService', () => {
+  test('delivers signed offline samples and renders the result of every subscription', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      await writePayload(tmpDir, 'orders/create', {id: 1, name: '#1001'})
+      await writePayload(tmpDir, 'orders/paid', {id: 1})
+      await writePayload(tmpDir, 'metaobjects/create', {id: 2})
+      await writePayload(tmpDir, 'customers/redact', {shop_id: 3})
+      vi.mocked(triggerLocalWebhook).mockResolvedValue(true)
+
+      // When
+      const got = webhookTriggerFromConfigService({
+        app: appWithWebhooks(tmpDir),
+        clientSecret: 'secret',
+        offline: true,
+        shopDomain: 'my-shop.myshopify.com',
+        localPort: 3000,
+      })
+
+      // Then
+      await expect(got).rejects.toThrow(AbortSilentError)
+      expect(triggerLocalWebhook).toHaveBeenCalledWith(
+        'http://localhost:3000/webhooks/orders',
+        '{"id":1}',
+        expect.stringContaining(`"X-Shopify-Hmac-Sha256":"${hmacSha256('secret', '{"id":1}')}"`),
+      )
+      expect(triggerLocalWebhook).toHaveBeenCalledWith(
+        'https://example.com/metaobjects',
+        '{"id":2}',
+        expect.stringContaining('"X-Shopify-Sub-Topic":"type:lookbook"'),
+      )
+      expect(renderTable).toHaveBeenCalledWith(
+        expect.objectContaining({
+          rows: [
+            {topic: 'orders/create', address: 'http://localhost:3000/webhooks/orders', result: 'Delivered'},
+            {topic: 'orders/paid', address: 'http://localhost:3000/webhooks/orders', result: 'Delivered'},
+            {
+              topic: 'metaobjects/create (type:lookbook)',
+              address: 'https://example.com/metaobjects',
+              result: 'Delivered',
+            },
+            {
+              topic: 'app/uninstalled',
+              address: 'pubsub://project:topic',
+              result: 'Failed: Offline deliveries can only be sent to HTTP addresses.',
+            },
+            {
+              topic: 'shop/redact',
+              address: 'pubsub://project:topic',
+              result: 'Failed: Offline deliveries can only be sent to HTTP addresses.',
+            },
+            {topic: 'customers/redact', address: 'http://localhost:3000/webhooks/redact', result: 'Delivered'},
+          ],
+        }),
+      )
+    })
+  })
+
+  test('requests the samples to Partners and delivers the local ones', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const app = testAppWithConfig({
+        app: {directory: tmpDir},
+        config: {webhooks: {api_version: '2024-01', subscriptions: [{topics: ['orders/create'], uri: '/webhooks'}]}},
+      })
+      vi.mocked(fetchPartnersSession).mockResolvedValue(testPartnersUserSession)
+      vi.mocked(getWebhookSample).mockResolvedValue({
+        samplePayload: '{"id":1}',
+        headers: '{"X-Shopify-Topic":"orders/create"}',
+        success: true,
+        userErrors: [],
+      })
+      vi.mocked(triggerLocalWebhook).mockResolvedValue(true)
+
+      // When
+      await webhookTriggerFromConfigService({
+        app,
+        apiVersion: '2024-04',
+        clientSecret: 'secret',
+        offline: false,
+        shopDomain: 'my-shop.myshopify.com',
+        localPort: 3000,
+      })
+
+      // Then
+      expect(getWebhookSample).toHaveBeenCalledWith(
+        'token',
+        'orders/create',
+        '2024-04',
+        'localhost',
+        'http://localhost:3000/webhooks',
+        'secret',
+        undefined,
+      )
+      expect(triggerLocalWebhook).toHaveBeenCalledWith(
+        'http://localhost:3000/webhooks',
+        '{"id":1}',
+        expect.stringContaining('"X-Shopify-Shop-Domain":"my-shop.myshopify.com"'),
+      )
+      expect(renderTable).toHaveBeenCalledWith(
+        expect.objectContaining({
+          rows: [{topic: 'orders/create', address: 'http://localhost:3000/webhooks', result: 'Delivered'}],
+        }),
+      )
+    })
+  })
+
+  test('fails when the app configuration does not subscribe to any topics', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // When
+      const got = webhookTriggerFromConfigService({
+        app: testAppWithConfig({app: {directory: tmpDir}, config: {}}),
+        offline: true,
+        clientSecret: 'secret',
+        shopDomain: 'my-shop.myshopify.com',
+      })
+
+      // Then
+      await expect(got).rejects.toThrow("The app configuration doesn't subscribe to any webhook topics.")
+    })
+  })
+})
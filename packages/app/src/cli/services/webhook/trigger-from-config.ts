@@ -0,0 +1,257 @@
+import {DELIVERY_METHOD, deliveryMethodForAddress} from './trigger-flags.js'
+import {getWebhookSample} from './request-sample.js'
+import {triggerLocalWebhook} from './trigger-local-webhook.js'
+import {loadWebhookPayload, signedWebhookHeaders} from './offline-webhook.js'
+import {collectCredentials} from './trigger-options.js'
+import {fetchPartnersSession} from '../context/partner-account-info.js'
+import {AppInterface, isCurrentAppSchema} from '../../models/app/app.js'
+import {WebhooksConfig} from '../../models/extensions/specifications/types/app_config_webhook.js'
+import {AbortError, AbortSilentError} from '@shopify/cli-kit/node/error'
+import {hmacSha256, randomUUID} from '@shopify/cli-kit/node/crypto'
+import {FetchError} from '@shopify/cli-kit/node/http'
+import {renderTable} from '@shopify/cli-kit/node/ui'
+
+/**
+ * A topic that an app subscribes to in its configuration, with the URI it's
+ * delivered to.
+ */
+export interface ConfigWebhookSubscription {
+  topic: string
+  uri: string
+  sub_topic?: string
+  include_fields?: string[]
+  metafield_namespaces?: string[]
+}
+
+interface DeliveryResult {
+  subscription: ConfigWebhookSubscription
+  address: string
+  error?: string
+}
+
+export interface WebhookTriggerFromConfigOptions {
+  app: AppInterface
+
+  /**
+   * Overrides the API version of the webhooks configuration.
+   */
+  apiVersion?: string
+  clientSecret?: string
+  offline: boolean
+  shopDomain: string
+
+  /**
+   * The port of the local backend that relative URIs, and URIs of the app
+   * URL, are delivered to, when the app is running with `app dev`.
+   */
+  localPort?: number
+}
+
+/**
+ * Expands the webhooks configuration of an app into a subscription per
+ * topic, including the compliance topics.
+ */
+export function configWebhookSubscriptions(webhooks: WebhooksConfig): ConfigWebhookSubscription[] {
+  const subscriptions = (webhooks.subscriptions ?? []).flatMap(
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    ({topics, compliance_topics = [], ...subscription}) => [
+      ...topics.map((topic) => ({...subscription, topic})),
+      ...compliance_topics.map((topic) => ({topic, uri: subscription.uri})),
+    ],
+  )
+
+  const privacyCompliance = webhooks.privacy_compliance ?? {}
+  const complianceUris: [string, string | undefined][] = [
+    ['customers/redact', privacyCompliance.customer_deletion_url],
+    ['customers/data_request', privacyCompliance.customer_data_request_url],
+    ['shop/redact', privacyCompliance.shop_deletion_url],
+  ]
+  complianceUris.forEach(([topic, uri]) => {
+    if (uri) subscriptions.push({topic, uri})
+  })
+
+  return subscriptions
+}
+
+/**
+ * Resolves the address a subscription URI is delivered to. Relative URIs are
+ * relative to the app URL, and they're delivered to the local backend, like
+ * the URIs of the app URL, when the app is running with `app dev`.
+ */
+export function subscriptionAddress(
+  uri: string,
+  {applicationUrl, localPort}: {applicationUrl: string; localPort?: number},
+) {
+  const isRelative = uri.startsWith('/')
+  if (!localPort) return isRelative ? `${applicationUrl.replace(/\/$/, '')}${uri}` : uri
+
+  if (isRelative) return `http://localhost:${localPort}${uri}`
+  if (!/^https?:/.test(uri)) return uri
+
+  const url = new URL(uri)
+  if (url.host !== new URL(applicationUrl).host) return uri
+  return `http://localhost:${localPort}${url.pathname}${url.search}`
+}
+
+/**
+ * Removes the fields of a payload that a subscription doesn't include, like
+ * Shopify does with `include_fields` and `metafield_namespaces`.
+ *
+ * @param body - the payload, serialized as JSON
+ * @returns the filtered payload, serialized as JSON
+ */
+export function filterWebhookPayload(body: string, subscription: ConfigWebhookSubscription) {
+  if (!subscription.include_fields && !subscription.metafield_namespaces) return body
+
+  let payload = JSON.parse(body)
+  const includeFields = subscription.include_fields
+  if (includeFields) {
+    payload = Object.fromEntries(Object.entries(payload).filter(([field]) => includeFields.includes(field)))
+  }
+  const namespaces = subscription.metafield_namespaces
+  if (namespaces && Array.isArray(payload.metafields)) {
+    payload.metafields = payload.metafields.filter(({namespace}: {namespace: string}) => namespaces.includes(namespace))
+  }
+  return JSON.stringify(payload)
+}
+
+/**
+ * Sends a sample of every topic the app configuration subscribes to, to the
+ * URI of the subscription, and renders the result of every delivery.
+ */
+export async function webhookTriggerFromConfigService(options: WebhookTriggerFromConfigOptions) {
+  const configuration = options.app.configuration
+  const webhooks = isCurrentAppSchema(configuration) ? configuration.webhooks : undefined
+  const subscriptions = webhooks ? configWebhookSubscriptions(webhooks) : []
+  if (!isCurrentAppSchema(configuration) || !webhooks || subscriptions.length === 0) {
+    throw new AbortError(
+      "The app configuration doesn't subscribe to any webhook topics.",
+      'Add subscriptions to the [webhooks] section of the app configuration.',
+    )
+  }
+
+  const apiVersion = options.apiVersion ?? webhooks.api_version
+  const deliver = options.offline
+    ? offlineDelivery(options, apiVersion)
+    : await partnersDelivery(options, apiVersion, configuration.client_id)
+
+  const results: DeliveryResult[] = []
+  // Deliveries are sent one after the other, so the backend receives them in order
+  for (const subscription of subscriptions) {
+    const address = subscriptionAddress(subscription.uri, {
+      applicationUrl: configuration.application_url,
+      localPort: options.localPort,
+    })
+    // eslint-disable-next-line no-await-in-loop
+    results.push({subscription, address, error: await deliveryError(() => deliver(subscription, address))})
+  }
+
+  renderTable({
+    rows: results.map(({subscription, address, error}) => ({
+      topic: subscription.sub_topic ? `${subscription.topic} (${subscription.sub_topic})` : subscription.topic,
+      address,
+      result: error ? `Failed: ${error}` : 'Delivered',
+    })),
+    columns: {
+      topic: {header: 'Topic'},
+      address: {header: 'Address', color: 'dim'},
+      result: {header: 'Result'},
+    },
+  })
+
+  if (results.some(({error}) => error)) throw new AbortSilentError()
+}
+
+type Delivery = (subscription: ConfigWebhookSubscription, address: string) => Promise<void>
+
+async function deliveryError(deliver: () => Promise<void>): Promise<string | undefined> {
+  try {
+    await deliver()
+    return undefined
+  } catch (error) {
+    if (error instanceof AbortError || error instanceof FetchError) return error.message
+    throw error
+  }
+}
+
+function offlineDelivery(options: WebhookTriggerFromConfigOptions, apiVersion: string): Delivery {
+  const clientSecret = options.clientSecret
+  if (!clientSecret) {
+    throw new AbortError('Offline deliveries need a client secret.', 'Pass it with --client-secret.')
+  }
+
+  return async (subscription, address) => {
+    if (!isHttpAddress(address)) {
+      throw new AbortError('Offline deliveries can only be sent to HTTP addresses.')
+    }
+
+    const body = filterWebhookPayload(
+      await loadWebhookPayload(subscription.topic, {directory: options.app.directory}),
+      subscription,
+    )
+    const headers = {
+      ...signedWebhookHeaders({
+        topic: subscription.topic,
+        apiVersion,
+        shopDomain: options.shopDomain,
+        clientSecret,
+        webhookId: randomUUID(),
+        body,
+      }),
+      ...subTopicHeader(subscription),
+    }
+    await deliverLocally(address, body, headers)
+  }
+}
+
+async function partnersDelivery(
+  options: WebhookTriggerFromConfigOptions,
+  apiVersion: string,
+  apiKey: string,
+): Promise<Delivery> {
+  const partnersSession = await fetchPartnersSession()
+  const {clientSecret} = await collectCredentials(partnersSession, options.clientSecret)
+
+  return async (subscription, address) => {
+    const deliveryMethod = deliveryMethodForAddress(address)
+    if (!deliveryMethod) throw new AbortError('No delivery method is available for the address.')
+
+    const sample = await getWebhookSample(
+      partnersSession.token,
+      subscription.topic,
+      apiVersion,
+      deliveryMethod,
+      address,
+      clientSecret as string,
+      deliveryMethod === DELIVERY_METHOD.EVENTBRIDGE ? apiKey : undefined,
+    )
+    if (!sample.success) {
+      throw new AbortError(sample.userErrors.map(({message}) => message).join(', '))
+    }
+    if (deliveryMethod !== DELIVERY_METHOD.LOCALHOST) return
+
+    // The payload changes when fields are filtered out, so it's signed again
+    const body = filterWebhookPayload(sample.samplePayload, subscription)
+    const headers = {
+      ...JSON.parse(sample.headers),
+      'X-Shopify-Shop-Domain': options.shopDomain,
+      'X-Shopify-Hmac-Sha256': hmacSha256(clientSecret as string, body),
+      ...subTopicHeader(subscription),
+    }
+    await deliverLocally(address, body, headers)
+  }
+}
+
+async function deliverLocally(address: string, body: string, headers: {[name: string]: string}) {
+  const delivered = await triggerLocalWebhook(address, body, JSON.stringify(headers))
+  if (!delivered) throw new AbortError("The address didn't respond successfully.")
+}
+
+function subTopicHeader(subscription: ConfigWebhookSubscription): {[name: string]: string} {
+  return subscription.sub_topic ? {'X-Shopify-Sub-Topic': subscription.sub_topic} : {}
+}
+
+function isHttpAddress(address: string) {
+  const deliveryMethod = deliveryMethodForAddress(address)
+  return deliveryMethod === DELIVERY_METHOD.LOCALHOST || deliveryMethod === DELIVERY_METHOD.HTTP
+}
@@ -85,15 +85,27 @@ ${outputToken.json(JSON.stringify(rules))}
   ]
 }
 
-export async function getProxyingWebServer(rules: {[key: string]: string}, abortSignal: AbortController['signal']) {
+/**
+ * Creates an HTTP server that forwards the requests to the target of the first matching rule.
+ *
+ * @param rules - The targets, by path prefix, with a default target and a target for websockets.
+ * @param abortSignal - The signal that closes the server.
+ * @param waitForTarget - Resolves when a target is ready to receive requests, which are held until then.
+ * @returns The server, which isn't listening yet.
+ */
+export async function getProxyingWebServer(
+  rules: {[key: string]: string},
+  abortSignal: AbortController['signal'],
+  waitForTarget: (target: string) => Promise<void> = async () => {},
+) {
   // Lazy-importing it because it's CJS and we don't want it
   // to block the loading of the ESM module graph.
   const {default: httpProxy} = await import('http-proxy')
   const proxy = httpProxy.createProxy()
-  const server = http.createServer(getProxyServerRequestListener(rules, proxy))
+  const server = http.createServer(getProxyServerRequestListener(rules, proxy, waitForTarget))
 
   // Capture websocket requests and forward them to the proxy
-  server.on('upgrade', getProxyServerWebsocketUpgradeListener(rules, proxy))
+  server.on('upgrade', getProxyServerWebsocketUpgradeListener(rules, proxy, waitForTarget))
 
   abortSignal.addEventListener('abort', () => {
     outputDebug('Closing reverse HTTP proxy')
@@ -105,13 +117,19 @@ export async function getProxyingWebServer(rules: {[key: string]: string}, abort
 function getProxyServerWebsocketUpgradeListener(
   rules: {[key: string]: string},
   proxy: Server,
+  waitForTarget: (target: string) => Promise<void>,
 ): (req: http.IncomingMessage, socket: import('stream').Duplex, head: Buffer) => void {
   return function (req, socket, head) {
     const target = match(rules, req, true)
     if (target) {
-      return proxy.ws(req, socket, head, {target}, (err) => {
-        outputWarn(`Error forwarding websocket request: ${err}`)
-      })
+      waitForTarget(target)
+        .then(() =>
+          proxy.ws(req, socket, head, {target}, (err) => {
+            outputWarn(`Error forwarding websocket request: ${err}`)
+          }),
+        )
+        .catch((err) => outputWarn(`Error forwarding websocket request: ${err}`))
+      return
     }
     socket.destroy()
   }
@@ -120,13 +138,19 @@ function getProxyServerWebsocketUpgradeListener(
 function getProxyServerRequestListener(
   rules: {[key: string]: string},
   proxy: Server,
+  waitForTarget: (target: string) => Promise<void>,
 ): http.RequestListener<typeof http.IncomingMessage, typeof http.ServerResponse> | undefined {
   return function (req, res) {
     const target = match(rules, req)
     if (target) {
-      return proxy.web(req, res, {target}, (err) => {
-        outputWarn(`Error forwarding web request: ${err}`)
-      })
+      waitForTarget(target)
+        .then(() =>
+          proxy.web(req, res, {target}, (err) => {
+            outputWarn(`Error forwarding web request: ${err}`)
+          }),
+        )
+        .catch((err) => outputWarn(`Error forwarding web request: ${err}`))
+      return
     }
 
     outputDebug(`
@@ -10,6 +10,7 @@ import {
   GenerateSignedUploadUrlSchema,
   GenerateSignedUploadUrlVariables,
 } from '../api/graphql/generate_signed_upload_url.js'
+import {FunctionRunsQuerySchema, FunctionRunsQueryVariables} from '../api/graphql/functions/function_runs.js'
 import {FunctionUploadUrlGenerateResponse} from '@shopify/cli-kit/node/api/partners'
 
 export type Paginateable<T> = T & {
@@ -45,4 +46,5 @@ export interface DeveloperPlatformClient {
   generateSignedUploadUrl: (input: GenerateSignedUploadUrlVariables) => Promise<GenerateSignedUploadUrlSchema>
   updateExtension: (input: ExtensionUpdateDraftInput) => Promise<ExtensionUpdateSchema>
   deploy: (input: AppDeployVariables) => Promise<AppDeploySchema>
+  functionRuns: (input: FunctionRunsQueryVariables) => Promise<FunctionRunsQuerySchema>
 }
@@ -1,5 +1,6 @@
 import {PartnersClient} from './partners-client.js'
 import {CreateAppQuery} from '../../api/graphql/create_app.js'
+import {FunctionRunsQuery} from '../../api/graphql/functions/function_runs.js'
 import {AppInterface, WebType} from '../../models/app/app.js'
 import {Organization} from '../../models/organization.js'
 import {
@@ -105,3 +106,20 @@ describe('createApp', () => {
     await expect(got).rejects.toThrow(`some-error`)
   })
 })
+
+describe('functionRuns', () => {
+  test('requests the recent runs of the function', async () => {
+    // Given
+    const partnersClient = new PartnersClient(testPartnersUserSession)
+    const response = {app: {functionRuns: {nodes: []}}}
+    vi.mocked(partnersRequest).mockResolvedValueOnce(response)
+    const variables = {apiKey: 'api-key', functionId: 'function-id', first: 10}
+
+    // When
+    const got = await partnersClient.functionRuns(variables)
+
+    // Then
+    expect(got).toEqual(response)
+    expect(partnersRequest).toHaveBeenCalledWith(FunctionRunsQuery, 'token', variables)
+  })
+})
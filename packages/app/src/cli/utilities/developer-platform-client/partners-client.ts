@@ -32,6 +32,11 @@ import {
   GenerateSignedUploadUrlSchema,
   GenerateSignedUploadUrlVariables,
 } from '../../api/graphql/generate_signed_upload_url.js'
+import {
+  FunctionRunsQuery,
+  FunctionRunsQuerySchema,
+  FunctionRunsQueryVariables,
+} from '../../api/graphql/functions/function_runs.js'
 import {isUnitTest} from '@shopify/cli-kit/node/context/local'
 import {AbortError} from '@shopify/cli-kit/node/error'
 import {
@@ -204,4 +209,8 @@ export class PartnersClient implements DeveloperPlatformClient {
   async generateSignedUploadUrl(input: GenerateSignedUploadUrlVariables): Promise<GenerateSignedUploadUrlSchema> {
     return this.makeRequest(GenerateSignedUploadUrl, input)
   }
+
+  async functionRuns(input: FunctionRunsQueryVariables): Promise<FunctionRunsQuerySchema> {
+    return this.makeRequest(FunctionRunsQuery, input)
+  }
 }
@@ -1,4 +1,4 @@
-import {difference, uniqBy} from './array.js'
+import {chunk, difference, uniqBy} from './array.js'
 import {describe, test, expect} from 'vitest'
 
 describe('uniqBy', () => {
@@ -49,3 +49,13 @@ describe('difference', () => {
     expect(got).toEqual([1])
   })
 })
+
+describe('chunk', () => {
+  test('splits the array in groups of the given size', () => {
+    // When
+    const got = chunk([1, 2, 3, 4, 5], 2)
+
+    // Then
+    expect(got).toEqual([[1, 2], [3, 4], [5]])
+  })
+})
@@ -59,3 +59,16 @@ export function difference<T>(array: List<T> | null | undefined, ...values: List
   const lodashDifference = require('lodash/difference')
   return lodashDifference(array, ...values)
 }
+
+/**
+ * Creates an array of elements split into groups the length of `size`. If `array` can't be split evenly, the final
+ * chunk will be the remaining elements.
+ *
+ * @param array - The array to process.
+ * @param size - The length of each chunk.
+ * @returns Returns the new array of chunks.
+ */
+export function chunk<T>(array: List<T> | null | undefined, size: number): T[][] {
+  const lodashChunk = require('lodash/chunk')
+  return lodashChunk(array, size)
+}
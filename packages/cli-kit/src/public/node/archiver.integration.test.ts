@@ -49,6 +49,29 @@ describe('zip', () => {
       expect([`extensions/first/main.js`]).toEqual(archiveEntries)
     })
   })
+
+  test('only zips files accepted by the filter', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const zipPath = joinPath(tmpDir, 'output.zip')
+      const outputDirectoryName = 'output'
+      const outputDirectoryPath = joinPath(tmpDir, outputDirectoryName)
+      const structure = ['extensions/first/main.js', 'test.json']
+
+      await createFiles(structure, outputDirectoryPath)
+
+      // When
+      await zip({
+        inputDirectory: outputDirectoryPath,
+        outputZipPath: zipPath,
+        filter: (fileRelativePath) => fileRelativePath !== 'test.json',
+      })
+
+      // Then
+      const archiveEntries = await readArchiveFiles(zipPath)
+      expect([`extensions/first/main.js`]).toEqual(archiveEntries)
+    })
+  })
 })
 
 async function createFiles(structure: string[], directory: string) {
@@ -19,6 +19,12 @@ interface ZipOptions {
    * Pattern to match when adding files to zip, uses glob expressions.
    */
   matchFilePattern?: string
+
+  /**
+   * Function that decides whether a file is added to the zip, given its path
+   * relative to the input directory. Every matched file is added by default.
+   */
+  filter?: (fileRelativePath: string) => boolean
 }
 
 /**
@@ -29,7 +35,7 @@ interface ZipOptions {
  * @param options - ZipOptions.
  */
 export async function zip(options: ZipOptions): Promise<void> {
-  const {inputDirectory, outputZipPath, matchFilePattern = '**/*'} = options
+  const {inputDirectory, outputZipPath, matchFilePattern = '**/*', filter = () => true} = options
   outputDebug(outputContent`Zipping ${outputToken.path(inputDirectory)} into ${outputToken.path(outputZipPath)}`)
   const pathsToZip = await glob(matchFilePattern, {
     cwd: inputDirectory,
@@ -48,6 +54,7 @@ export async function zip(options: ZipOptions): Promise<void> {
 
     for (const filePath of pathsToZip) {
       const fileRelativePath = relativePath(inputDirectory, filePath)
+      if (!filter(fileRelativePath)) continue
       archive.file(filePath, {name: fileRelativePath})
     }
 
@@ -1,4 +1,4 @@
-import {fileHash, hashString} from './crypto.js'
+import {fileHash, hashString, hmacSha256} from './crypto.js'
 import {describe, expect, test} from 'vitest'
 
 describe('hashString', () => {
@@ -18,3 +18,10 @@ describe('fileHash', () => {
     expect(hash1).toMatch(/[a-f0-9]{32}/)
   })
 })
+
+describe('hmacSha256', () => {
+  test('signs a string with a secret', () => {
+    const signature = hmacSha256('key', 'The quick brown fox jumps over the lazy dog')
+    expect(signature).toEqual('97yD9DBThCSxMpjmqm+xQ+9NWaFJRhdZl0edvC0aPNg=')
+  })
+})
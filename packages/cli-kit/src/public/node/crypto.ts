@@ -30,6 +30,17 @@ export function sha256(str: string): Buffer {
   return crypto.createHash('sha256').update(str).digest()
 }
 
+/**
+ * Generate the HMAC-SHA256 signature of a string.
+ *
+ * @param secret - The secret to sign the string with.
+ * @param str - The string to sign.
+ * @returns The signature, encoded in Base64.
+ */
+export function hmacSha256(secret: string, str: string): string {
+  return crypto.createHmac('sha256', secret).update(str).digest('base64')
+}
+
 /**
  * Generate the SHA1 hash of a string.
  *
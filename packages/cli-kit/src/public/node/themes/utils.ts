@@ -1,6 +1,7 @@
 import {Theme} from '@shopify/cli-kit/node/themes/types'
 
 export const DEVELOPMENT_THEME_ROLE = 'development'
+export const UNPUBLISHED_THEME_ROLE = 'unpublished'
 
 export function isDevelopmentTheme(theme: Theme) {
   return theme.role === DEVELOPMENT_THEME_ROLE
@@ -7,6 +7,7 @@ import {
   outputActiveChecks,
   outputActiveConfig,
   performAutoFixes,
+  rejectIgnoredOffenses,
   renderOffensesText,
   sortOffenses,
   isExtendedWriteStream,
@@ -129,7 +130,8 @@ export default class Check extends ThemeCommand {
       return
     }
 
-    const {offenses, theme} = await themeCheckRun(path, config)
+    const {offenses: allOffenses, theme} = await themeCheckRun(path, config)
+    const offenses = await rejectIgnoredOffenses(path, allOffenses)
 
     const offensesByFile = sortOffenses(offenses)
 
@@ -0,0 +1,85 @@
+import {themeFlags} from '../../flags.js'
+import ThemeCommand from '../../utilities/theme-command.js'
+import {deploy, loadDeployTargets} from '../../services/deploy.js'
+import {configurationFileName} from '../../constants.js'
+import {Flags} from '@oclif/core'
+import {globalFlags} from '@shopify/cli-kit/node/cli'
+
+export default class Deploy extends ThemeCommand {
+  static description = `Pushes your local theme files to several stores, using the environments of the ${configurationFileName} file.`
+
+  static flags = {
+    ...globalFlags,
+    path: themeFlags.path,
+    targets: Flags.string({
+      description: `Comma-separated names of the environments to deploy to, defined in the ${configurationFileName} file. Each environment sets a store, a password, and either a theme or live = true.`,
+      env: 'SHOPIFY_FLAG_TARGETS',
+      required: true,
+    }),
+    parallel: Flags.boolean({
+      description: 'Deploy to every target at the same time, instead of one after another.',
+      env: 'SHOPIFY_FLAG_PARALLEL',
+    }),
+    nodelete: Flags.boolean({
+      char: 'n',
+      description: 'Runs the deploy command without deleting remote files.',
+      env: 'SHOPIFY_FLAG_NODELETE',
+    }),
+    only: Flags.string({
+      char: 'o',
+      description: 'Upload only the specified files (Multiple flags allowed).',
+      multiple: true,
+      env: 'SHOPIFY_FLAG_ONLY',
+    }),
+    ignore: Flags.string({
+      char: 'x',
+      description: 'Skip uploading the specified files (Multiple flags allowed).',
+      multiple: true,
+      env: 'SHOPIFY_FLAG_IGNORE',
+    }),
+    json: Flags.boolean({
+      char: 'j',
+      description: 'Output JSON instead of a UI.',
+      env: 'SHOPIFY_FLAG_JSON',
+    }),
+    'allow-live': Flags.boolean({
+      char: 'a',
+      description: 'Allow deploying to live themes.',
+      env: 'SHOPIFY_FLAG_ALLOW_LIVE',
+    }),
+    publish: Flags.boolean({
+      char: 'p',
+      description: 'Publish the theme of each target after uploading.',
+      env: 'SHOPIFY_FLAG_PUBLISH',
+    }),
+    force: Flags.boolean({
+      hidden: true,
+      char: 'f',
+      description: 'Proceed without confirmation, if current directory does not seem to be theme directory.',
+      env: 'SHOPIFY_FLAG_FORCE',
+    }),
+  }
+
+  async run(): Promise<void> {
+    const {flags} = await this.parse(Deploy)
+    const {path, parallel, nodelete, only, ignore, json, publish, force} = flags
+
+    const names = flags.targets
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean)
+    const targets = await loadDeployTargets([...new Set(names)], path)
+
+    await deploy(targets, {
+      path,
+      parallel,
+      nodelete,
+      only,
+      ignore,
+      json,
+      publish,
+      force,
+      allowLive: flags['allow-live'],
+    })
+  }
+}
@@ -0,0 +1,69 @@
+import {themeFlags} from '../../flags.js'
+import {ensureThemeStore} from '../../utilities/theme-store.js'
+import ThemeCommand from '../../utilities/theme-command.js'
+import {DevelopmentThemeManager} from '../../utilities/development-theme-manager.js'
+import {findOrSelectTheme} from '../../utilities/theme-selector.js'
+import {diff} from '../../services/diff.js'
+import {Flags} from '@oclif/core'
+import {globalFlags} from '@shopify/cli-kit/node/cli'
+import {ensureAuthenticatedThemes} from '@shopify/cli-kit/node/session'
+
+export default class Diff extends ThemeCommand {
+  static description = 'Compares your local theme files with the files of a remote theme.'
+
+  static flags = {
+    ...globalFlags,
+    ...themeFlags,
+    theme: Flags.string({
+      char: 't',
+      description: 'Theme ID or name of the remote theme.',
+      env: 'SHOPIFY_FLAG_THEME_ID',
+    }),
+    development: Flags.boolean({
+      char: 'd',
+      description: 'Compare with your remote development theme.',
+      env: 'SHOPIFY_FLAG_DEVELOPMENT',
+    }),
+    live: Flags.boolean({
+      char: 'l',
+      description: 'Compare with your remote live theme.',
+      env: 'SHOPIFY_FLAG_LIVE',
+    }),
+    only: Flags.string({
+      char: 'o',
+      multiple: true,
+      description: 'Compare only the specified files (Multiple flags allowed).',
+      env: 'SHOPIFY_FLAG_ONLY',
+    }),
+    ignore: Flags.string({
+      char: 'x',
+      multiple: true,
+      description: 'Skip comparing the specified files (Multiple flags allowed).',
+      env: 'SHOPIFY_FLAG_IGNORE',
+    }),
+    json: Flags.boolean({
+      char: 'j',
+      description: 'Output JSON instead of a UI.',
+      env: 'SHOPIFY_FLAG_JSON',
+    }),
+  }
+
+  async run(): Promise<void> {
+    const {flags} = await this.parse(Diff)
+    const store = ensureThemeStore(flags)
+    const adminSession = await ensureAuthenticatedThemes(store, flags.password)
+
+    const {path, live, development, only, ignore, json} = flags
+    const developmentTheme = development ? await new DevelopmentThemeManager(adminSession).find() : undefined
+
+    const theme = await findOrSelectTheme(adminSession, {
+      header: 'Select a theme to compare with',
+      filter: {
+        live,
+        theme: developmentTheme ? `${developmentTheme.id}` : flags.theme,
+      },
+    })
+
+    await diff(theme, adminSession, {path, only, ignore, json})
+  }
+}
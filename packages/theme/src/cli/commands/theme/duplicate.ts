@@ -0,0 +1,94 @@
+import {themeFlags} from '../../flags.js'
+import {ensureThemeStore} from '../../utilities/theme-store.js'
+import ThemeCommand from '../../utilities/theme-command.js'
+import {findOrSelectTheme} from '../../utilities/theme-selector.js'
+import {duplicate} from '../../services/duplicate.js'
+import {Flags} from '@oclif/core'
+import {globalFlags} from '@shopify/cli-kit/node/cli'
+import {AdminSession, ensureAuthenticatedThemes} from '@shopify/cli-kit/node/session'
+import {normalizeStoreFqdn} from '@shopify/cli-kit/node/context/fqdn'
+import {createTheme} from '@shopify/cli-kit/node/themes/api'
+import {Theme} from '@shopify/cli-kit/node/themes/types'
+import {UNPUBLISHED_THEME_ROLE} from '@shopify/cli-kit/node/themes/utils'
+import {AbortError} from '@shopify/cli-kit/node/error'
+
+const NEW_THEME = 'new'
+
+export default class Duplicate extends ThemeCommand {
+  static description = 'Copies the files of a remote theme into another theme, on the same store or on another store.'
+
+  static flags = {
+    ...globalFlags,
+    password: themeFlags.password,
+    store: themeFlags.store,
+    environment: themeFlags.environment,
+    from: Flags.string({
+      description: 'Theme ID or name of the theme to copy.',
+      env: 'SHOPIFY_FLAG_FROM',
+    }),
+    to: Flags.string({
+      description: `Theme ID or name of the theme to copy to, or "${NEW_THEME}" to create a new unpublished theme.`,
+      env: 'SHOPIFY_FLAG_TO',
+      required: true,
+    }),
+    'to-store': Flags.string({
+      description: 'Store URL of the theme to copy to. Defaults to the store of the copied theme.',
+      env: 'SHOPIFY_FLAG_TO_STORE',
+      parse: async (input) => normalizeStoreFqdn(input),
+    }),
+    'to-password': Flags.string({
+      description: 'Password generated from the Theme Access app of the store to copy to.',
+      env: 'SHOPIFY_FLAG_TO_PASSWORD',
+      dependsOn: ['to-store'],
+    }),
+    name: Flags.string({
+      description: `Name of the new theme, when copying to "${NEW_THEME}".`,
+      env: 'SHOPIFY_FLAG_NAME',
+    }),
+    nodelete: Flags.boolean({
+      description: 'Runs the duplicate command without deleting the files that only exist in the theme to copy to.',
+      env: 'SHOPIFY_FLAG_NODELETE',
+    }),
+    'allow-live': Flags.boolean({
+      char: 'a',
+      description: 'Allow copying to a live theme.',
+      env: 'SHOPIFY_FLAG_ALLOW_LIVE',
+    }),
+  }
+
+  async run(): Promise<void> {
+    const {flags} = await this.parse(Duplicate)
+    const store = ensureThemeStore(flags)
+    const sourceSession = await ensureAuthenticatedThemes(store, flags.password)
+    const targetSession = flags['to-store']
+      ? await ensureAuthenticatedThemes(flags['to-store'], flags['to-password'])
+      : sourceSession
+
+    const sourceTheme = await findOrSelectTheme(sourceSession, {
+      header: 'Select a theme to copy',
+      filter: {theme: flags.from},
+    })
+    const targetTheme = await findOrCreateTargetTheme(targetSession, sourceTheme, flags)
+
+    await duplicate(
+      {theme: sourceTheme, session: sourceSession},
+      {theme: targetTheme, session: targetSession},
+      {nodelete: flags.nodelete, allowLive: flags['allow-live']},
+    )
+  }
+}
+
+async function findOrCreateTargetTheme(session: AdminSession, sourceTheme: Theme, flags: {to: string; name?: string}) {
+  if (flags.to !== NEW_THEME) {
+    return findOrSelectTheme(session, {filter: {theme: flags.to}})
+  }
+
+  const name = flags.name ?? `Copy of ${sourceTheme.name}`
+  const theme = await createTheme({name, role: UNPUBLISHED_THEME_ROLE}, session)
+
+  if (!theme) {
+    throw new AbortError(`Could not create the theme "${name}".`)
+  }
+
+  return theme
+}
@@ -0,0 +1,18 @@
+import {themeFlags} from '../../flags.js'
+import ThemeCommand from '../../utilities/theme-command.js'
+import {history} from '../../services/history.js'
+import {globalFlags} from '@shopify/cli-kit/node/cli'
+
+export default class History extends ThemeCommand {
+  static description = 'Lists the local snapshots saved before `theme pull` and `theme push` changed theme files.'
+
+  static flags = {
+    ...globalFlags,
+    path: themeFlags.path,
+  }
+
+  async run(): Promise<void> {
+    const {flags} = await this.parse(History)
+    await history(flags.path)
+  }
+}
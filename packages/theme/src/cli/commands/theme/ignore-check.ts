@@ -0,0 +1,41 @@
+import {themeFlags} from '../../flags.js'
+import ThemeCommand from '../../utilities/theme-command.js'
+import {ignoreCheck} from '../../services/ignore-check.js'
+import {Args, Flags} from '@oclif/core'
+import {globalFlags} from '@shopify/cli-kit/node/cli'
+
+export default class IgnoreCheck extends ThemeCommand {
+  static description = 'Explains whether the theme commands ignore a file, and which rule matches it.'
+
+  static args = {
+    file: Args.string({
+      name: 'file',
+      description: 'Path of the file, relative to the theme directory',
+      required: true,
+    }),
+  }
+
+  static flags = {
+    ...globalFlags,
+    path: themeFlags.path,
+    only: Flags.string({
+      char: 'o',
+      multiple: true,
+      description: 'Check the file against the specified --only patterns (Multiple flags allowed).',
+      env: 'SHOPIFY_FLAG_ONLY',
+    }),
+    ignore: Flags.string({
+      char: 'x',
+      multiple: true,
+      description: 'Check the file against the specified --ignore patterns (Multiple flags allowed).',
+      env: 'SHOPIFY_FLAG_IGNORE',
+    }),
+  }
+
+  async run(): Promise<void> {
+    const {args, flags} = await this.parse(IgnoreCheck)
+    const {path, only, ignore} = flags
+
+    await ignoreCheck(args.file, {path, only, ignore})
+  }
+}
@@ -1,18 +1,24 @@
 import {themeFlags} from '../../flags.js'
 import ThemeCommand from '../../utilities/theme-command.js'
 import {packageTheme} from '../../services/package.js'
+import {Flags} from '@oclif/core'
 import {globalFlags} from '@shopify/cli-kit/node/cli'
 
 export default class Package extends ThemeCommand {
-  static description = 'Package your theme into a .zip file, ready to upload to the Online Store.'
+  static description =
+    'Validate your theme and package it into a .zip file, ready to upload to the Online Store or submit to the Theme Store.'
 
   static flags = {
     ...globalFlags,
     path: themeFlags.path,
+    check: Flags.boolean({
+      description: 'Run theme-check before packaging, and fail on its errors.',
+      env: 'SHOPIFY_FLAG_CHECK',
+    }),
   }
 
   async run(): Promise<void> {
     const {flags} = await this.parse(Package)
-    await packageTheme(flags.path)
+    await packageTheme(flags.path, {check: flags.check})
   }
 }
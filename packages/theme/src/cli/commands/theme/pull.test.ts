@@ -42,6 +42,21 @@ describe('Pull', () => {
         path: '/my-theme',
       })
     })
+
+    test('should call the CLI 3 command with the dry-run plan options', async () => {
+      const theme = buildTheme({id: 1, name: 'Theme', role: 'development'})!
+
+      vi.mocked(findOrSelectTheme).mockResolvedValue(theme)
+
+      await runPullCommand(['--dry-run', '--json'], path, adminSession, theme)
+
+      expect(execCLI2).not.toHaveBeenCalled()
+      expect(pull).toHaveBeenCalledWith(theme, adminSession, {
+        path: '/my-theme',
+        dryRun: true,
+        json: true,
+      })
+    })
   })
 
   describe('run with CLI 2 implementation', () => {
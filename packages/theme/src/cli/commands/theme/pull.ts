@@ -49,6 +49,22 @@ export default class Pull extends ThemeCommand {
       description: 'Skip downloading the specified files (Multiple flags allowed).',
       env: 'SHOPIFY_FLAG_IGNORE',
     }),
+    'dry-run': Flags.boolean({
+      description: 'List the files that would be downloaded or deleted, without changing the local directory.',
+      env: 'SHOPIFY_FLAG_DRY_RUN',
+    }),
+    json: Flags.boolean({
+      char: 'j',
+      description: 'Output JSON instead of a UI (with --dry-run).',
+      env: 'SHOPIFY_FLAG_JSON',
+      dependsOn: ['dry-run'],
+    }),
+    merge: Flags.boolean({
+      description:
+        'Merge the remote changes of JSON templates, section groups and settings data into your local files, instead of overwriting them.',
+      env: 'SHOPIFY_FLAG_MERGE',
+      exclusive: ['dry-run'],
+    }),
     force: Flags.boolean({
       hidden: true,
       char: 'f',
@@ -81,8 +97,8 @@ export default class Pull extends ThemeCommand {
       ? developmentThemeManager.find()
       : developmentThemeManager.fetch())
 
-    if (flags.beta) {
-      const {path, nodelete, live, development, only, ignore, force} = flags
+    if (flags.beta || flags['dry-run'] || flags.merge) {
+      const {path, nodelete, live, development, only, ignore, force, json, merge} = flags
 
       const theme = await findOrSelectTheme(adminSession, {
         header: 'Select a theme to open',
@@ -92,7 +108,7 @@ export default class Pull extends ThemeCommand {
         },
       })
 
-      await pull(theme, adminSession, {path, nodelete, only, ignore, force})
+      await pull(theme, adminSession, {path, nodelete, only, ignore, force, json, merge, dryRun: flags['dry-run']})
 
       return
     }
@@ -1,30 +1,32 @@
 import Push from './push.js'
 import {DevelopmentThemeManager} from '../../utilities/development-theme-manager.js'
 import {ensureThemeStore} from '../../utilities/theme-store.js'
+import {findOrSelectTheme} from '../../utilities/theme-selector.js'
+import {push} from '../../services/push.js'
 import {describe, vi, expect, test} from 'vitest'
 import {Config} from '@oclif/core'
-import {execCLI2} from '@shopify/cli-kit/node/ruby'
 import {ensureAuthenticatedThemes} from '@shopify/cli-kit/node/session'
-import {Theme} from '@shopify/cli-kit/node/themes/types'
+import {createTheme} from '@shopify/cli-kit/node/themes/api'
 import {buildTheme} from '@shopify/cli-kit/node/themes/factories'
+import {renderTextPrompt} from '@shopify/cli-kit/node/ui'
 
+vi.mock('../../services/push.js')
 vi.mock('../../utilities/development-theme-manager.js')
+vi.mock('../../utilities/theme-selector.js')
 vi.mock('../../utilities/theme-store.js')
-vi.mock('@shopify/cli-kit/node/ruby')
 vi.mock('@shopify/cli-kit/node/session')
+vi.mock('@shopify/cli-kit/node/themes/api')
+vi.mock('@shopify/cli-kit/node/ui')
 
 describe('Push', () => {
   describe('run', () => {
     const adminSession = {token: '', storeFqdn: ''}
     const path = '/my-theme'
+    const pushOptions = {path}
 
-    async function run(argv: string[], theme?: Theme) {
+    async function run(argv: string[]) {
       vi.mocked(ensureThemeStore).mockReturnValue('example.myshopify.com')
       vi.mocked(ensureAuthenticatedThemes).mockResolvedValue(adminSession)
-      if (theme) {
-        vi.spyOn(DevelopmentThemeManager.prototype, 'findOrCreate').mockResolvedValue(theme)
-      }
-      vi.spyOn(DevelopmentThemeManager.prototype, 'fetch').mockResolvedValue(theme)
 
       const config = {} as Config
       const push = new Push([`--path=${path}`, ...argv], config)
@@ -32,45 +34,67 @@ describe('Push', () => {
       await push.run()
     }
 
-    function expectCLI2ToHaveBeenCalledWith(command: string) {
-      expect(execCLI2).toHaveBeenCalledWith(command.split(' '), {
-        store: 'example.myshopify.com',
-        adminToken: adminSession.token,
-      })
-    }
+    test('pushes to the selected theme', async () => {
+      // Given
+      const theme = buildTheme({id: 1, name: 'Theme', role: 'unpublished'})!
+      vi.mocked(findOrSelectTheme).mockResolvedValue(theme)
 
-    test('should pass development theme from local storage to CLI 2', async () => {
-      const theme = buildTheme({id: 1, name: 'Theme', role: 'development'})!
-      await run([], theme)
+      // When
+      await run(['--theme=1', '--nodelete', '--only=sections/*', '--allow-live'])
 
-      expect(DevelopmentThemeManager.prototype.findOrCreate).not.toHaveBeenCalled()
-      expect(DevelopmentThemeManager.prototype.fetch).toHaveBeenCalledOnce()
-      expectCLI2ToHaveBeenCalledWith(`theme push ${path} --development-theme-id ${theme.id}`)
+      // Then
+      expect(findOrSelectTheme).toHaveBeenCalledWith(adminSession, {
+        header: 'Select a theme to push to:',
+        filter: {theme: '1'},
+      })
+      expect(push).toHaveBeenCalledWith(theme, adminSession, {
+        ...pushOptions,
+        nodelete: true,
+        only: ['sections/*'],
+        allowLive: true,
+      })
     })
 
-    test('should pass theme and development theme from local storage to CLI 2', async () => {
-      const themeId = 2
-      const theme = buildTheme({id: 3, name: 'Theme', role: 'development'})!
-      await run([`--theme=${themeId}`], theme)
+    test('pushes to the development theme', async () => {
+      // Given
+      const theme = buildTheme({id: 2, name: 'Theme', role: 'development'})!
+      vi.spyOn(DevelopmentThemeManager.prototype, 'findOrCreate').mockResolvedValue(theme)
+
+      // When
+      await run(['--development'])
 
-      expectCLI2ToHaveBeenCalledWith(`theme push ${path} --theme ${themeId} --development-theme-id ${theme.id}`)
+      // Then
+      expect(DevelopmentThemeManager.prototype.findOrCreate).toHaveBeenCalledOnce()
+      expect(findOrSelectTheme).not.toHaveBeenCalled()
+      expect(push).toHaveBeenCalledWith(theme, adminSession, pushOptions)
     })
 
-    test('should not pass development theme to CLI 2 if local storage is empty', async () => {
-      await run([])
+    test('creates an unpublished theme with the given name', async () => {
+      // Given
+      const theme = buildTheme({id: 3, name: 'New theme', role: 'unpublished'})!
+      vi.mocked(createTheme).mockResolvedValue(theme)
+
+      // When
+      await run(['--unpublished', '--theme=New theme'])
 
-      expect(DevelopmentThemeManager.prototype.findOrCreate).not.toHaveBeenCalled()
-      expect(DevelopmentThemeManager.prototype.fetch).toHaveBeenCalledOnce()
-      expectCLI2ToHaveBeenCalledWith(`theme push ${path}`)
+      // Then
+      expect(renderTextPrompt).not.toHaveBeenCalled()
+      expect(createTheme).toHaveBeenCalledWith({name: 'New theme', role: 'unpublished'}, adminSession)
+      expect(push).toHaveBeenCalledWith(theme, adminSession, pushOptions)
     })
 
-    test('should pass theme and development theme to CLI 2', async () => {
-      const theme = buildTheme({id: 4, name: 'Theme', role: 'development'})!
-      await run(['--development'], theme)
+    test('asks for the name of the unpublished theme when it is not given', async () => {
+      // Given
+      const theme = buildTheme({id: 4, name: 'Prompted theme', role: 'unpublished'})!
+      vi.mocked(renderTextPrompt).mockResolvedValue('Prompted theme')
+      vi.mocked(createTheme).mockResolvedValue(theme)
 
-      expect(DevelopmentThemeManager.prototype.findOrCreate).toHaveBeenCalledOnce()
-      expect(DevelopmentThemeManager.prototype.fetch).not.toHaveBeenCalled()
-      expectCLI2ToHaveBeenCalledWith(`theme push ${path} --theme ${theme.id} --development-theme-id ${theme.id}`)
+      // When
+      await run(['--unpublished'])
+
+      // Then
+      expect(createTheme).toHaveBeenCalledWith({name: 'Prompted theme', role: 'unpublished'}, adminSession)
+      expect(push).toHaveBeenCalledWith(theme, adminSession, pushOptions)
     })
   })
 })
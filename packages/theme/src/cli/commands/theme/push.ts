@@ -2,10 +2,15 @@ import {themeFlags} from '../../flags.js'
 import {ensureThemeStore} from '../../utilities/theme-store.js'
 import ThemeCommand from '../../utilities/theme-command.js'
 import {DevelopmentThemeManager} from '../../utilities/development-theme-manager.js'
+import {findOrSelectTheme} from '../../utilities/theme-selector.js'
+import {push} from '../../services/push.js'
 import {Flags} from '@oclif/core'
 import {globalFlags} from '@shopify/cli-kit/node/cli'
-import {execCLI2} from '@shopify/cli-kit/node/ruby'
-import {ensureAuthenticatedThemes} from '@shopify/cli-kit/node/session'
+import {AdminSession, ensureAuthenticatedThemes} from '@shopify/cli-kit/node/session'
+import {createTheme} from '@shopify/cli-kit/node/themes/api'
+import {UNPUBLISHED_THEME_ROLE} from '@shopify/cli-kit/node/themes/utils'
+import {AbortError} from '@shopify/cli-kit/node/error'
+import {renderTextPrompt} from '@shopify/cli-kit/node/ui'
 
 export default class Push extends ThemeCommand {
   static description =
@@ -21,12 +26,12 @@ export default class Push extends ThemeCommand {
     }),
     development: Flags.boolean({
       char: 'd',
-      description: 'Push theme files from your remote development theme.',
+      description: 'Push theme files to your remote development theme.',
       env: 'SHOPIFY_FLAG_DEVELOPMENT',
     }),
     live: Flags.boolean({
       char: 'l',
-      description: 'Push theme files from your remote live theme.',
+      description: 'Push theme files to your remote live theme.',
       env: 'SHOPIFY_FLAG_LIVE',
     }),
     unpublished: Flags.boolean({
@@ -36,18 +41,18 @@ export default class Push extends ThemeCommand {
     }),
     nodelete: Flags.boolean({
       char: 'n',
-      description: 'Runs the push command without deleting local files.',
+      description: 'Runs the push command without deleting remote files.',
       env: 'SHOPIFY_FLAG_NODELETE',
     }),
     only: Flags.string({
       char: 'o',
-      description: 'Download only the specified files (Multiple flags allowed).',
+      description: 'Upload only the specified files (Multiple flags allowed).',
       multiple: true,
       env: 'SHOPIFY_FLAG_ONLY',
     }),
     ignore: Flags.string({
       char: 'x',
-      description: 'Skip downloading the specified files (Multiple flags allowed).',
+      description: 'Skip uploading the specified files (Multiple flags allowed).',
       multiple: true,
       env: 'SHOPIFY_FLAG_IGNORE',
     }),
@@ -66,11 +71,10 @@ export default class Push extends ThemeCommand {
       description: 'Publish as the live theme after uploading.',
       env: 'SHOPIFY_FLAG_PUBLISH',
     }),
-    stable: Flags.boolean({
-      hidden: true,
-      description:
-        'Performs the upload by relying in the legacy upload approach (slower, but it might be more stable in some scenarios)',
-      env: 'SHOPIFY_FLAG_STABLE',
+    'dry-run': Flags.boolean({
+      description: 'List the files that would be uploaded or deleted, without changing the remote theme.',
+      env: 'SHOPIFY_FLAG_DRY_RUN',
+      exclusive: ['unpublished', 'publish'],
     }),
     force: Flags.boolean({
       hidden: true,
@@ -80,40 +84,51 @@ export default class Push extends ThemeCommand {
     }),
   }
 
-  static cli2Flags = [
-    'theme',
-    'development',
-    'live',
-    'unpublished',
-    'nodelete',
-    'only',
-    'ignore',
-    'json',
-    'allow-live',
-    'publish',
-    'stable',
-    'force',
-    'development-theme-id',
-  ]
-
   async run(): Promise<void> {
     const {flags} = await this.parse(Push)
     const store = ensureThemeStore(flags)
     const adminSession = await ensureAuthenticatedThemes(store, flags.password)
 
-    const developmentThemeManager = new DevelopmentThemeManager(adminSession)
-    const theme = await (flags.development ? developmentThemeManager.findOrCreate() : developmentThemeManager.fetch())
-    if (theme) {
-      if (flags.development) {
-        flags.theme = `${theme.id}`
-        flags.development = false
-      }
-      flags['development-theme-id'] = theme.id
-    }
+    const {path, nodelete, only, ignore, force, json, publish} = flags
+    const theme = await findOrCreateTheme(adminSession, flags)
 
-    const flagsToPass = this.passThroughFlags(flags, {allowedFlags: Push.cli2Flags})
-    const command = ['theme', 'push', flags.path, ...flagsToPass]
+    await push(theme, adminSession, {
+      path,
+      nodelete,
+      only,
+      ignore,
+      force,
+      json,
+      publish,
+      allowLive: flags['allow-live'],
+      dryRun: flags['dry-run'],
+    })
+  }
+}
 
-    await execCLI2(command, {store, adminToken: adminSession.token})
+async function findOrCreateTheme(
+  adminSession: AdminSession,
+  flags: {theme?: string; development: boolean; live: boolean; unpublished: boolean; 'dry-run': boolean},
+) {
+  if (flags.development) {
+    const developmentThemeManager = new DevelopmentThemeManager(adminSession)
+    return flags['dry-run'] ? developmentThemeManager.find() : developmentThemeManager.findOrCreate()
   }
+
+  if (flags.unpublished) {
+    const name = flags.theme ?? (await renderTextPrompt({message: 'Name of the new theme'}))
+    const theme = await createTheme({name, role: UNPUBLISHED_THEME_ROLE}, adminSession)
+    if (!theme) {
+      throw new AbortError(`Could not create the theme "${name}".`)
+    }
+    return theme
+  }
+
+  return findOrSelectTheme(adminSession, {
+    header: 'Select a theme to push to:',
+    filter: {
+      live: flags.live,
+      theme: flags.theme,
+    },
+  })
 }
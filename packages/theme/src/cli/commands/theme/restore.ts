@@ -0,0 +1,36 @@
+import {themeFlags} from '../../flags.js'
+import ThemeCommand from '../../utilities/theme-command.js'
+import {restore} from '../../services/restore.js'
+import {Args, Flags} from '@oclif/core'
+import {globalFlags} from '@shopify/cli-kit/node/cli'
+
+export default class Restore extends ThemeCommand {
+  static description =
+    'Restores the theme files saved in a snapshot, locally for `theme pull` snapshots or remotely for `theme push` snapshots.'
+
+  static args = {
+    snapshot: Args.string({
+      name: 'snapshot',
+      description: 'The ID of the snapshot, as listed by `shopify theme history`.',
+      required: true,
+    }),
+  }
+
+  static flags = {
+    ...globalFlags,
+    path: themeFlags.path,
+    password: themeFlags.password,
+    force: Flags.boolean({
+      char: 'f',
+      description: 'Skip confirmation.',
+      env: 'SHOPIFY_FLAG_FORCE',
+    }),
+  }
+
+  async run(): Promise<void> {
+    const {args, flags} = await this.parse(Restore)
+    const {path, force, password} = flags
+
+    await restore(args.snapshot, {path, force, password})
+  }
+}
@@ -4,10 +4,11 @@ import {
   formatSummary,
   handleExit,
   initConfig,
+  rejectIgnoredOffenses,
   renderOffensesText,
   sortOffenses,
 } from './check.js'
-import {fileExists, readFileSync, writeFile} from '@shopify/cli-kit/node/fs'
+import {fileExists, readFile, readFileSync, writeFile} from '@shopify/cli-kit/node/fs'
 import {outputInfo, outputSuccess} from '@shopify/cli-kit/node/output'
 import {renderInfo} from '@shopify/cli-kit/node/ui'
 import {Severity, SourceCodeType, loadConfig, type Offense, type Theme} from '@shopify/theme-check-node'
@@ -16,6 +17,7 @@ import {Mock, SpyInstance, afterAll, beforeEach, describe, expect, test, vi} fro
 vi.mock('@shopify/cli-kit/node/fs', async () => ({
   fileExists: vi.fn(),
   writeFile: vi.fn(),
+  readFile: vi.fn(),
   readFileSync: vi.fn(),
 }))
 
@@ -113,6 +115,30 @@ describe('formatOffenses', () => {
   })
 })
 
+describe('rejectIgnoredOffenses', () => {
+  test('should remove the offenses of the files ignored by the .shopifyignore file', async () => {
+    const offense = {
+      type: SourceCodeType.LiquidHtml,
+      check: 'LiquidHTMLSyntaxError',
+      message: 'Attempting to close HtmlElement',
+      severity: Severity.ERROR,
+      start: {index: 0, line: 1, character: 0},
+      end: {index: 10, line: 1, character: 10},
+    }
+    const offenses: Offense[] = [
+      {...offense, absolutePath: '/path/to/root/sections/header.liquid'},
+      {...offense, absolutePath: '/path/to/root/sections/legacy/footer.liquid'},
+    ]
+    vi.mocked(fileExists).mockResolvedValue(true)
+    vi.mocked(readFile as (path: string) => Promise<string>).mockResolvedValue('legacy/\n')
+
+    const result = await rejectIgnoredOffenses('/path/to/root', offenses)
+
+    expect(readFile).toHaveBeenCalledWith('/path/to/root/.shopifyignore', {encoding: 'utf8'})
+    expect(result).toEqual([offenses[0]])
+  })
+})
+
 describe('sortOffenses', () => {
   test('should sort offenses by file path', () => {
     const offenses: Offense[] = [
@@ -1,6 +1,7 @@
+import {explainIgnore, loadIgnoreRules} from '../utilities/asset-ignore.js'
 import {fileExists, readFileSync, writeFile} from '@shopify/cli-kit/node/fs'
 import {outputInfo, outputSuccess} from '@shopify/cli-kit/node/output'
-import {joinPath} from '@shopify/cli-kit/node/path'
+import {joinPath, relativePath} from '@shopify/cli-kit/node/path'
 import {renderInfo} from '@shopify/cli-kit/node/ui'
 import {
   Severity,
@@ -130,6 +131,18 @@ export function formatOffenses(offenses: Offense[]) {
 
 const offenseSeverityAscending = (offenseA: Offense, offenseB: Offense) => offenseA.severity - offenseB.severity
 
+/**
+ * Removes the offenses of the files ignored by the `.shopifyignore` file, so
+ * `theme check` reports the same files that the other theme commands handle.
+ */
+export async function rejectIgnoredOffenses(themeRoot: string, offenses: Offense[]) {
+  const ignoreRules = await loadIgnoreRules(themeRoot)
+
+  return offenses.filter((offense) => {
+    return !explainIgnore(relativePath(themeRoot, offense.absolutePath), ignoreRules).ignored
+  })
+}
+
 /**
  * Sorts theme check offenses. First all offenses are grouped by file path,
  * then within each collection of offenses, they are sorted by severity.
@@ -0,0 +1,232 @@
+import {deploy, DeployTarget, loadDeployTargets} from './deploy.js'
+import {uploadThemeQuietly} from '../utilities/theme-uploader.js'
+import {hasRequiredThemeDirectories, mountThemeFileSystem} from '../utilities/theme-fs.js'
+import {findOrSelectTheme} from '../utilities/theme-selector.js'
+import {loadEnvironment} from '@shopify/cli-kit/node/environments'
+import {ensureAuthenticatedThemes} from '@shopify/cli-kit/node/session'
+import {fetchChecksums, publishTheme} from '@shopify/cli-kit/node/themes/api'
+import {buildTheme} from '@shopify/cli-kit/node/themes/factories'
+import {ThemeFileSystem} from '@shopify/cli-kit/node/themes/types'
+import {renderSuccess, renderTable, renderTasks} from '@shopify/cli-kit/node/ui'
+import {AbortError, AbortSilentError} from '@shopify/cli-kit/node/error'
+import {mockAndCaptureOutput} from '@shopify/cli-kit/node/testing/output'
+import {test, describe, expect, vi, beforeEach, afterEach} from 'vitest'
+
+vi.mock('../utilities/theme-uploader.js', async (realImport) => {
+  const realModule = await realImport<typeof import('../utilities/theme-uploader.js')>()
+  return {...realModule, uploadThemeQuietly: vi.fn()}
+})
+vi.mock('../utilities/theme-fs.js')
+vi.mock('../utilities/theme-selector.js')
+vi.mock('@shopify/cli-kit/node/environments')
+vi.mock('@shopify/cli-kit/node/session')
+vi.mock('@shopify/cli-kit/node/themes/api')
+vi.mock('@shopify/cli-kit/node/ui')
+
+describe('loadDeployTargets', () => {
+  test('loads the targets from the environments', async () => {
+    // Given
+    vi.mocked(loadEnvironment).mockImplementation(async (name) => {
+      return name === 'eu' ? {store: 'eu-shop', password: 'shptka_eu', theme: 'Dawn'} : {store: 'us-shop', live: true}
+    })
+
+    // When
+    const targets = await loadDeployTargets(['eu', 'us'], '/my-theme')
+
+    // Then
+    expect(loadEnvironment).toHaveBeenCalledWith('eu', 'shopify.theme.toml', {from: '/my-theme'})
+    expect(targets).toEqual([
+      {name: 'eu', store: 'eu-shop.myshopify.com', password: 'shptka_eu', theme: 'Dawn', live: false},
+      {name: 'us', store: 'us-shop.myshopify.com', password: undefined, theme: undefined, live: true},
+    ])
+  })
+
+  test('loads the theme IDs that TOML parses as numbers', async () => {
+    // Given
+    vi.mocked(loadEnvironment).mockResolvedValue({store: 'eu-shop', theme: 123})
+
+    // When
+    const targets = await loadDeployTargets(['eu'], '/my-theme')
+
+    // Then
+    expect(targets).toEqual([
+      {name: 'eu', store: 'eu-shop.myshopify.com', password: undefined, theme: '123', live: false},
+    ])
+  })
+
+  test('throws an error when an environment does not exist', async () => {
+    // Given
+    vi.mocked(loadEnvironment).mockResolvedValue(undefined)
+
+    // When/Then
+    await expect(loadDeployTargets(['staging'], '/my-theme')).rejects.toThrow(
+      new AbortError("The staging environment isn't defined in shopify.theme.toml."),
+    )
+  })
+
+  test('throws an error when an environment does not set a theme', async () => {
+    // Given
+    vi.mocked(loadEnvironment).mockResolvedValue({store: 'eu-shop'})
+
+    // When/Then
+    await expect(loadDeployTargets(['eu'], '/my-theme')).rejects.toThrow(
+      new AbortError('The eu environment must set a theme, or set live to true.'),
+    )
+  })
+})
+
+describe('deploy', () => {
+  const themeFileSystem = {root: '/my-theme', files: new Map()} as ThemeFileSystem
+  const options = {
+    path: '/my-theme',
+    parallel: false,
+    nodelete: false,
+    force: false,
+    json: false,
+    publish: false,
+    allowLive: false,
+  }
+  const targets: DeployTarget[] = [
+    {name: 'eu', store: 'eu-shop.myshopify.com', theme: 'Dawn'},
+    {name: 'us', store: 'us-shop.myshopify.com', theme: 'Dawn'},
+  ]
+
+  beforeEach(() => {
+    vi.mocked(renderTasks).mockImplementation(async (tasks) => {
+      for (const task of tasks) {
+        // eslint-disable-next-line no-await-in-loop
+        await task.task(undefined, task)
+      }
+    })
+    vi.mocked(hasRequiredThemeDirectories).mockResolvedValue(true)
+    vi.mocked(mountThemeFileSystem).mockResolvedValue(themeFileSystem)
+    vi.mocked(ensureAuthenticatedThemes).mockImplementation(async (storeFqdn) => ({token: '', storeFqdn}))
+    vi.mocked(findOrSelectTheme).mockImplementation(async (session) => {
+      const id = session.storeFqdn.startsWith('eu') ? 1 : 2
+      return buildTheme({id, name: 'Dawn', role: 'unpublished'})!
+    })
+    vi.mocked(fetchChecksums).mockResolvedValue([])
+    vi.mocked(uploadThemeQuietly).mockResolvedValue([
+      {key: 'sections/header.liquid', success: true, errors: [], asset: {key: 'sections/header.liquid', checksum: ''}},
+    ])
+  })
+
+  afterEach(() => {
+    mockAndCaptureOutput().clear()
+  })
+
+  test('deploys the theme to every target', async () => {
+    // When
+    await deploy(targets, {...options, publish: true})
+
+    // Then
+    expect(uploadThemeQuietly).toHaveBeenCalledTimes(2)
+    expect(publishTheme).toHaveBeenCalledWith(1, {token: '', storeFqdn: 'eu-shop.myshopify.com'})
+    expect(publishTheme).toHaveBeenCalledWith(2, {token: '', storeFqdn: 'us-shop.myshopify.com'})
+    expect(renderTable).toHaveBeenCalledWith(
+      expect.objectContaining({
+        rows: [
+          expect.objectContaining({
+            target: 'eu',
+            theme: 'Dawn (#1)',
+            status: 'deployed',
+            files: '1 uploaded, 0 deleted',
+          }),
+          expect.objectContaining({
+            target: 'us',
+            theme: 'Dawn (#2)',
+            status: 'deployed',
+            files: '1 uploaded, 0 deleted',
+          }),
+        ],
+      }),
+    )
+    expect(renderSuccess).toHaveBeenCalledWith({body: 'The theme was deployed and published to 2 target(s).'})
+  })
+
+  test('deploys to the other targets when a target fails', async () => {
+    // Given
+    vi.mocked(findOrSelectTheme).mockImplementation(async (session) => {
+      if (session.storeFqdn.startsWith('eu')) {
+        throw new AbortError(`The eu-shop.myshopify.com store doesn't have a theme with the "Dawn" ID or name`)
+      }
+      return buildTheme({id: 2, name: 'Dawn', role: 'unpublished'})!
+    })
+
+    // When
+    await expect(deploy(targets, {...options, parallel: true})).rejects.toThrow(AbortSilentError)
+
+    // Then
+    expect(uploadThemeQuietly).toHaveBeenCalledOnce()
+    expect(renderTable).toHaveBeenCalledWith(
+      expect.objectContaining({
+        rows: [
+          expect.objectContaining({
+            target: 'eu',
+            status: 'failed',
+            errors: `The eu-shop.myshopify.com store doesn't have a theme with the "Dawn" ID or name`,
+          }),
+          expect.objectContaining({target: 'us', status: 'deployed'}),
+        ],
+      }),
+    )
+    expect(renderSuccess).not.toHaveBeenCalled()
+  })
+
+  test('does not deploy to live themes unless allowLive is set', async () => {
+    // Given
+    vi.mocked(findOrSelectTheme).mockResolvedValue(buildTheme({id: 1, name: 'Dawn', role: 'live'})!)
+
+    // When
+    await expect(deploy([targets[0]!], options)).rejects.toThrow(AbortSilentError)
+
+    // Then
+    expect(uploadThemeQuietly).not.toHaveBeenCalled()
+  })
+
+  test('does not publish the theme when some files could not be uploaded', async () => {
+    // Given
+    vi.mocked(uploadThemeQuietly).mockResolvedValue([
+      {key: 'sections/broken.liquid', success: false, errors: ['Liquid syntax error'], asset: {} as never},
+    ])
+
+    // When
+    await expect(deploy([targets[0]!], {...options, publish: true})).rejects.toThrow(AbortSilentError)
+
+    // Then
+    expect(publishTheme).not.toHaveBeenCalled()
+    expect(renderTable).toHaveBeenCalledWith(
+      expect.objectContaining({
+        rows: [
+          expect.objectContaining({
+            status: 'deployed with errors',
+            errors: 'sections/broken.liquid: Liquid syntax error',
+          }),
+        ],
+      }),
+    )
+  })
+
+  test('outputs the summary of every target as JSON', async () => {
+    // Given
+    const output = mockAndCaptureOutput()
+
+    // When
+    await deploy([targets[0]!], {...options, json: true})
+
+    // Then
+    expect(JSON.parse(output.info())).toEqual({
+      targets: [
+        {
+          target: 'eu',
+          store: 'eu-shop.myshopify.com',
+          theme: {id: 1, name: 'Dawn'},
+          status: 'deployed',
+          uploaded: 1,
+          deleted: 0,
+          errors: [],
+        },
+      ],
+    })
+  })
+})
@@ -0,0 +1,260 @@
+import {configurationFileName} from '../constants.js'
+import {buildPushPlan, uploadThemeQuietly} from '../utilities/theme-uploader.js'
+import {hasRequiredThemeDirectories, mountThemeFileSystem} from '../utilities/theme-fs.js'
+import {findOrSelectTheme} from '../utilities/theme-selector.js'
+import {rejectLiquidChecksums} from '../utilities/asset-checksum.js'
+import {currentDirectoryConfirmed} from '../utilities/theme-ui.js'
+import {AdminSession, ensureAuthenticatedThemes} from '@shopify/cli-kit/node/session'
+import {loadEnvironment} from '@shopify/cli-kit/node/environments'
+import {normalizeStoreFqdn} from '@shopify/cli-kit/node/context/fqdn'
+import {fetchChecksums, publishTheme} from '@shopify/cli-kit/node/themes/api'
+import {Theme, ThemeFileSystem} from '@shopify/cli-kit/node/themes/types'
+import {renderSuccess, renderTable, renderTasks, Task} from '@shopify/cli-kit/node/ui'
+import {outputInfo} from '@shopify/cli-kit/node/output'
+import {AbortError, AbortSilentError} from '@shopify/cli-kit/node/error'
+
+/**
+ * A theme to deploy to, defined by an environment of the `shopify.theme.toml`
+ * file.
+ */
+export interface DeployTarget {
+  /**
+   * The name of the environment.
+   */
+  name: string
+  store: string
+  password?: string
+
+  /**
+   * The ID or name of the theme.
+   */
+  theme?: string
+
+  /**
+   * Whether to deploy to the live theme of the store.
+   */
+  live?: boolean
+}
+
+interface DeployOptions {
+  path: string
+  parallel: boolean
+  nodelete: boolean
+  force: boolean
+  json: boolean
+  publish: boolean
+  allowLive: boolean
+  only?: string[]
+  ignore?: string[]
+}
+
+type DeployStatus = 'deployed' | 'deployed with errors' | 'failed'
+
+/**
+ * The result of deploying to a target.
+ */
+export interface DeploySummary {
+  target: string
+  store: string
+  theme?: {id: number; name: string}
+  status: DeployStatus
+  uploaded: number
+  deleted: number
+  errors: string[]
+}
+
+interface ResolvedTarget {
+  target: DeployTarget
+  session: AdminSession
+  theme: Theme
+}
+
+/**
+ * Loads the targets from the environments of the `shopify.theme.toml` file.
+ *
+ * @param names - the names of the environments
+ * @param path - the theme directory, where the lookup of the file starts
+ */
+export async function loadDeployTargets(names: string[], path: string): Promise<DeployTarget[]> {
+  return Promise.all(
+    names.map(async (name) => {
+      const environment = await loadEnvironment(name, configurationFileName, {from: path})
+
+      if (!environment) {
+        throw new AbortError(`The ${name} environment isn't defined in ${configurationFileName}.`)
+      }
+
+      const {store, password, live} = environment
+      // TOML parses theme IDs without quotes as numbers
+      const theme = typeof environment.theme === 'number' ? String(environment.theme) : environment.theme
+
+      if (typeof store !== 'string') {
+        throw new AbortError(`The ${name} environment must set a store.`)
+      }
+
+      if (typeof theme !== 'string' && live !== true) {
+        throw new AbortError(`The ${name} environment must set a theme, or set live to true.`)
+      }
+
+      return {
+        name,
+        store: await normalizeStoreFqdn(store),
+        password: typeof password === 'string' ? password : undefined,
+        theme: typeof theme === 'string' ? theme : undefined,
+        live: live === true,
+      }
+    }),
+  )
+}
+
+/**
+ * Pushes the local theme files to the theme of each target, in sequence or
+ * in parallel, and renders a summary of every target.
+ *
+ * A target that fails doesn't stop the deploy to the other targets.
+ */
+export async function deploy(targets: DeployTarget[], options: DeployOptions) {
+  if (!(await hasRequiredThemeDirectories(options.path)) && !(await currentDirectoryConfirmed(options.force))) {
+    return
+  }
+
+  const themeFileSystem = await mountThemeFileSystem(options.path)
+  const summaries = new Map<string, DeploySummary>()
+  const resolvedTargets: ResolvedTarget[] = []
+
+  // Targets are resolved one by one, as authentication may prompt users
+  for (const target of targets) {
+    // eslint-disable-next-line no-await-in-loop
+    const resolved = await resolveTarget(target, summaries)
+    if (resolved) resolvedTargets.push(resolved)
+  }
+
+  const deployTask = (resolved: ResolvedTarget) => deployTarget(resolved, themeFileSystem, options, summaries)
+  const tasks: Task[] = options.parallel
+    ? [
+        {
+          title: `Deploying to ${resolvedTargets.map(({target}) => target.name).join(', ')}`,
+          task: async () => {
+            await Promise.all(resolvedTargets.map(deployTask))
+          },
+        },
+      ]
+    : resolvedTargets.map((resolved) => ({
+        title: `Deploying to ${resolved.target.name} (${resolved.session.storeFqdn})`,
+        task: () => deployTask(resolved),
+      }))
+
+  if (resolvedTargets.length > 0) {
+    /**
+     * When the output is JSON, the progress goes to stderr, so stdout only
+     * contains the JSON document.
+     */
+    const renderOptions = options.json ? {stdout: process.stderr} : undefined
+    await renderTasks(tasks, {renderOptions})
+  }
+
+  const results = targets.map(({name}) => summaries.get(name)!)
+
+  renderDeploySummaries(results, options)
+
+  if (results.some(({status}) => status !== 'deployed')) {
+    throw new AbortSilentError()
+  }
+}
+
+async function resolveTarget(target: DeployTarget, summaries: Map<string, DeploySummary>) {
+  const summary = buildSummary(target)
+  summaries.set(target.name, summary)
+
+  try {
+    const session = await ensureAuthenticatedThemes(target.store, target.password)
+    const theme = await findOrSelectTheme(session, {filter: {theme: target.theme, live: target.live}})
+
+    summary.theme = {id: theme.id, name: theme.name}
+
+    return {target, session, theme}
+  } catch (error) {
+    if (!(error instanceof Error)) throw error
+    summary.status = 'failed'
+    summary.errors.push(error.message)
+  }
+}
+
+async function deployTarget(
+  {target, session, theme}: ResolvedTarget,
+  themeFileSystem: ThemeFileSystem,
+  options: DeployOptions,
+  summaries: Map<string, DeploySummary>,
+) {
+  const summary = summaries.get(target.name)!
+
+  if (theme.role === 'live' && !options.allowLive) {
+    summary.status = 'failed'
+    summary.errors.push('The theme is live. Pass --allow-live to deploy to it.')
+    return
+  }
+
+  try {
+    const remoteChecksums = rejectLiquidChecksums(await fetchChecksums(theme.id, session))
+    const plan = await buildPushPlan(remoteChecksums, themeFileSystem, options)
+    const results = await uploadThemeQuietly(theme, session, remoteChecksums, themeFileSystem, options)
+    const failedResults = results.filter(({success}) => !success)
+
+    summary.uploaded = results.length - failedResults.length
+    summary.deleted = plan.delete.length
+    summary.errors.push(...failedResults.map(({key, errors}) => `${key}: ${(errors ?? []).join(', ')}`))
+
+    if (failedResults.length > 0) {
+      summary.status = 'deployed with errors'
+      return
+    }
+
+    if (options.publish) {
+      await publishTheme(theme.id, session)
+    }
+
+    summary.status = 'deployed'
+  } catch (error) {
+    if (!(error instanceof Error)) throw error
+    summary.status = 'failed'
+    summary.errors.push(error.message)
+  }
+}
+
+function buildSummary({name, store}: DeployTarget): DeploySummary {
+  return {target: name, store, status: 'failed', uploaded: 0, deleted: 0, errors: []}
+}
+
+function renderDeploySummaries(summaries: DeploySummary[], options: DeployOptions) {
+  if (options.json) {
+    outputInfo(JSON.stringify({targets: summaries}, null, 2))
+    return
+  }
+
+  renderTable({
+    rows: summaries.map((summary) => ({
+      target: summary.target,
+      store: summary.store,
+      theme: summary.theme ? `${summary.theme.name} (#${summary.theme.id})` : '',
+      status: summary.status,
+      files: `${summary.uploaded} uploaded, ${summary.deleted} deleted`,
+      errors: summary.errors.join('; '),
+    })),
+    columns: {
+      target: {header: 'Target'},
+      store: {header: 'Store', color: 'dim'},
+      theme: {header: 'Theme'},
+      status: {header: 'Status'},
+      files: {header: 'Files', color: 'dim'},
+      errors: {header: 'Errors', color: 'red'},
+    },
+  })
+
+  if (summaries.every(({status}) => status === 'deployed')) {
+    renderSuccess({
+      body: `The theme was ${options.publish ? 'deployed and published' : 'deployed'} to ${
+        summaries.length
+      } target(s).`,
+    })
+  }
+}
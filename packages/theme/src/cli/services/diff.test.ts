@@ -0,0 +1,100 @@
+import {diff} from './diff.js'
+import {diffTheme} from '../utilities/theme-diff.js'
+import {mountThemeFileSystem} from '../utilities/theme-fs.js'
+import {fetchChecksums} from '@shopify/cli-kit/node/themes/api'
+import {buildTheme} from '@shopify/cli-kit/node/themes/factories'
+import {ThemeFileSystem} from '@shopify/cli-kit/node/themes/types'
+import {renderInfo, renderTable} from '@shopify/cli-kit/node/ui'
+import {mockAndCaptureOutput} from '@shopify/cli-kit/node/testing/output'
+import {test, describe, expect, vi, beforeEach, afterEach} from 'vitest'
+
+vi.mock('../utilities/theme-diff.js')
+vi.mock('../utilities/theme-fs.js')
+vi.mock('@shopify/cli-kit/node/themes/api')
+vi.mock('@shopify/cli-kit/node/ui')
+
+describe('diff', () => {
+  const adminSession = {token: '', storeFqdn: 'my-shop.myshopify.com'}
+  const theme = buildTheme({id: 1, name: 'Theme', role: 'unpublished'})!
+  const themeFileSystem = {root: '/my-theme', files: new Map()} as ThemeFileSystem
+  const options = {path: '/my-theme'}
+
+  beforeEach(() => {
+    vi.mocked(mountThemeFileSystem).mockResolvedValue(themeFileSystem)
+    vi.mocked(fetchChecksums).mockResolvedValue([
+      {key: 'assets/basic.css', checksum: '1'},
+      {key: 'assets/basic.css.liquid', checksum: '1'},
+    ])
+  })
+
+  afterEach(() => {
+    mockAndCaptureOutput().clear()
+  })
+
+  test('compares the theme without the generated assets checksums', async () => {
+    // Given
+    vi.mocked(diffTheme).mockResolvedValue([])
+
+    // When
+    await diff(theme, adminSession, options)
+
+    // Then
+    expect(diffTheme).toHaveBeenCalledWith(
+      theme,
+      adminSession,
+      [{key: 'assets/basic.css.liquid', checksum: '1'}],
+      themeFileSystem,
+      options,
+    )
+    expect(renderInfo).toHaveBeenCalledWith({
+      body: ['The local directory matches the theme', "'Theme'", {subdued: '(#1)'}],
+    })
+    expect(renderTable).not.toHaveBeenCalled()
+  })
+
+  test('renders the changes and the patches of the modified text files', async () => {
+    // Given
+    const outputMock = mockAndCaptureOutput()
+    vi.mocked(diffTheme).mockResolvedValue([
+      {
+        key: 'assets/logo.png',
+        status: 'modified',
+        local: {checksum: 'aaaaaaaaa', size: 3},
+        remote: {checksum: 'bbbbbbbbb', size: 6},
+      },
+      {key: 'sections/header.liquid', status: 'modified', patch: '-Hello\n+Hello world'},
+      {key: 'sections/new.liquid', status: 'added'},
+    ])
+
+    // When
+    await diff(theme, adminSession, options)
+
+    // Then
+    expect(renderTable).toHaveBeenCalledWith(
+      expect.objectContaining({
+        rows: [
+          {status: 'modified', key: 'assets/logo.png', details: '3 bytes (aaaaaaa) → 6 bytes (bbbbbbb)'},
+          {status: 'modified', key: 'sections/header.liquid', details: 'text changes'},
+          {status: 'added', key: 'sections/new.liquid', details: 'only in the remote theme'},
+        ],
+      }),
+    )
+    expect(outputMock.info()).toContain('Hello world')
+  })
+
+  test('outputs the changes as JSON', async () => {
+    // Given
+    const outputMock = mockAndCaptureOutput()
+    vi.mocked(diffTheme).mockResolvedValue([{key: 'sections/new.liquid', status: 'added', remote: {checksum: '1'}}])
+
+    // When
+    await diff(theme, adminSession, {...options, json: true})
+
+    // Then
+    expect(JSON.parse(outputMock.info())).toEqual({
+      theme: {id: 1, name: 'Theme'},
+      files: [{key: 'sections/new.liquid', status: 'added', remote: {checksum: '1'}}],
+    })
+    expect(renderTable).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,82 @@
+import {diffTheme, ThemeFileChange, ThemeFileVersion} from '../utilities/theme-diff.js'
+import {mountThemeFileSystem} from '../utilities/theme-fs.js'
+import {themeComponent} from '../utilities/theme-ui.js'
+import {rejectLiquidChecksums} from '../utilities/asset-checksum.js'
+import {AdminSession} from '@shopify/cli-kit/node/session'
+import {fetchChecksums} from '@shopify/cli-kit/node/themes/api'
+import {Theme} from '@shopify/cli-kit/node/themes/types'
+import {renderInfo, renderTable} from '@shopify/cli-kit/node/ui'
+import {outputInfo} from '@shopify/cli-kit/node/output'
+import colors from '@shopify/cli-kit/node/colors'
+
+interface DiffOptions {
+  path: string
+  only?: string[]
+  ignore?: string[]
+  json?: boolean
+}
+
+export async function diff(theme: Theme, session: AdminSession, options: DiffOptions) {
+  const remoteChecksums = await fetchChecksums(theme.id, session)
+  const themeFileSystem = await mountThemeFileSystem(options.path)
+  const themeChecksums = rejectLiquidChecksums(remoteChecksums)
+
+  const changes = await diffTheme(theme, session, themeChecksums, themeFileSystem, options)
+
+  if (options.json) {
+    outputInfo(JSON.stringify({theme: {id: theme.id, name: theme.name}, files: changes}, null, 2))
+    return
+  }
+
+  if (changes.length === 0) {
+    renderInfo({body: ['The local directory matches the theme', ...themeComponent(theme)]})
+    return
+  }
+
+  renderInfo({
+    headline: `${changes.length} file(s) differ between the local directory and the remote theme.`,
+    body: ['Changes go from the local directory to the theme', ...themeComponent(theme)],
+  })
+
+  renderTable({
+    rows: changes.map((change) => ({status: change.status, key: change.key, details: changeDetails(change)})),
+    columns: {
+      status: {header: 'Status', color: 'dim'},
+      key: {header: 'File'},
+      details: {header: 'Details', color: 'dim'},
+    },
+  })
+
+  changes
+    .filter(({patch}) => patch)
+    .forEach(({patch}) => {
+      outputInfo(colorizePatch(patch!))
+    })
+}
+
+function changeDetails({status, local, remote, patch}: ThemeFileChange) {
+  if (status === 'added') return 'only in the remote theme'
+  if (status === 'removed') return 'only in the local directory'
+  if (patch) return 'text changes'
+
+  return `${formatVersion(local)} → ${formatVersion(remote)}`
+}
+
+function formatVersion(version?: ThemeFileVersion) {
+  if (!version) return '-'
+
+  return `${version.size ?? 0} bytes (${version.checksum.slice(0, 7)})`
+}
+
+function colorizePatch(patch: string) {
+  return patch
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('===')) return colors.bold(line)
+      if (line.startsWith('@@')) return colors.cyan(line)
+      if (line.startsWith('+')) return colors.green(line)
+      if (line.startsWith('-')) return colors.magenta(line)
+      return line
+    })
+    .join('\n')
+}
@@ -0,0 +1,63 @@
+import {duplicate} from './duplicate.js'
+import {copyTheme} from '../utilities/theme-copier.js'
+import {buildTheme} from '@shopify/cli-kit/node/themes/factories'
+import {renderConfirmationPrompt, renderError, renderSuccess} from '@shopify/cli-kit/node/ui'
+import {AbortError, AbortSilentError} from '@shopify/cli-kit/node/error'
+import {test, describe, expect, vi, beforeEach} from 'vitest'
+
+vi.mock('../utilities/theme-copier.js')
+vi.mock('@shopify/cli-kit/node/ui')
+
+describe('duplicate', () => {
+  const session = {token: '', storeFqdn: 'my-shop.myshopify.com'}
+  const source = {theme: buildTheme({id: 1, name: 'Staging', role: 'unpublished'})!, session}
+  const target = {theme: buildTheme({id: 2, name: 'Production', role: 'unpublished'})!, session}
+
+  beforeEach(() => {
+    vi.mocked(copyTheme).mockResolvedValue([])
+  })
+
+  test('copies the source theme to the target theme', async () => {
+    // When
+    await duplicate(source, target, {nodelete: true})
+
+    // Then
+    expect(copyTheme).toHaveBeenCalledWith(source, target, {nodelete: true})
+    expect(renderSuccess).toHaveBeenCalledOnce()
+  })
+
+  test('throws an error when the source and target themes are the same', async () => {
+    // When/Then
+    await expect(duplicate(source, source, {})).rejects.toThrow(AbortError)
+    expect(copyTheme).not.toHaveBeenCalled()
+  })
+
+  test('does not copy to the live theme when users do not confirm', async () => {
+    // Given
+    const liveTarget = {...target, theme: buildTheme({id: 2, name: 'Live', role: 'live'})!}
+    vi.mocked(renderConfirmationPrompt).mockResolvedValue(false)
+
+    // When
+    await duplicate(source, liveTarget, {})
+
+    // Then
+    expect(copyTheme).not.toHaveBeenCalled()
+  })
+
+  test('reports the files that could not be copied', async () => {
+    // Given
+    vi.mocked(copyTheme).mockResolvedValue([
+      {key: 'sections/broken.liquid', success: false, errors: ['Liquid syntax error'], asset: {} as never},
+    ])
+
+    // When
+    await expect(duplicate(source, target, {})).rejects.toThrow(AbortSilentError)
+
+    // Then
+    expect(renderError).toHaveBeenCalledWith({
+      headline: 'Some theme files could not be copied.',
+      body: {list: {items: ['sections/broken.liquid: Liquid syntax error']}},
+    })
+    expect(renderSuccess).not.toHaveBeenCalled()
+  })
+})
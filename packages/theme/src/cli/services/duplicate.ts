@@ -0,0 +1,57 @@
+import {copyTheme, StoreTheme} from '../utilities/theme-copier.js'
+import {themeComponent} from '../utilities/theme-ui.js'
+import {themeEditorUrl, themePreviewUrl} from '@shopify/cli-kit/node/themes/urls'
+import {renderConfirmationPrompt, renderError, renderSuccess} from '@shopify/cli-kit/node/ui'
+import {AbortError, AbortSilentError} from '@shopify/cli-kit/node/error'
+
+interface DuplicateOptions {
+  nodelete?: boolean
+  allowLive?: boolean
+}
+
+export async function duplicate(source: StoreTheme, target: StoreTheme, options: DuplicateOptions) {
+  if (source.theme.id === target.theme.id && source.session.storeFqdn === target.session.storeFqdn) {
+    throw new AbortError('The source and target themes must be different.')
+  }
+
+  if (target.theme.role === 'live' && !options.allowLive && !(await liveThemeConfirmed(target))) {
+    return
+  }
+
+  const results = await copyTheme(source, target, options)
+  const failedResults = results.filter((result) => !result.success)
+
+  if (failedResults.length > 0) {
+    renderError({
+      headline: 'Some theme files could not be copied.',
+      body: {
+        list: {
+          items: failedResults.map(({key, errors}) => `${key}: ${(errors ?? []).join(', ')}`),
+        },
+      },
+    })
+    throw new AbortSilentError()
+  }
+
+  renderSuccess({
+    body: [
+      'The theme',
+      ...themeComponent(source.theme),
+      'has been copied to',
+      ...themeComponent(target.theme),
+      `on ${target.session.storeFqdn}.`,
+    ],
+    nextSteps: [
+      [{link: {label: 'View your theme', url: themePreviewUrl(target.theme, target.session)}}],
+      [{link: {label: 'Customize your theme at the theme editor', url: themeEditorUrl(target.theme, target.session)}}],
+    ],
+  })
+}
+
+async function liveThemeConfirmed({theme, session}: StoreTheme) {
+  return renderConfirmationPrompt({
+    message: ['Copy theme files to the live theme', ...themeComponent(theme), `on ${session.storeFqdn}?`],
+    confirmationMessage: 'Yes, copy to the live theme',
+    cancellationMessage: 'No, cancel',
+  })
+}
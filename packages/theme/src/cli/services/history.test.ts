@@ -0,0 +1,54 @@
+import {history} from './history.js'
+import {listSnapshots} from '../utilities/theme-history.js'
+import {renderInfo, renderTable} from '@shopify/cli-kit/node/ui'
+import {test, describe, expect, vi} from 'vitest'
+
+vi.mock('../utilities/theme-history.js')
+vi.mock('@shopify/cli-kit/node/ui')
+
+describe('history', () => {
+  test('renders the snapshots of the theme directory', async () => {
+    // Given
+    vi.mocked(listSnapshots).mockResolvedValue([
+      {
+        id: '20240101T000000000Z',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        command: 'pull',
+        store: 'my-shop.myshopify.com',
+        theme: {id: 1, name: 'Theme'},
+        files: [{key: 'sections/header.liquid', checksum: 'a'}],
+        created: ['sections/new.liquid'],
+      },
+    ])
+
+    // When
+    await history('/my-theme')
+
+    // Then
+    expect(renderTable).toHaveBeenCalledWith(
+      expect.objectContaining({
+        rows: [
+          {
+            id: '20240101T000000000Z',
+            date: new Date('2024-01-01T00:00:00.000Z').toLocaleString(),
+            command: 'pull',
+            theme: 'Theme (#1) on my-shop.myshopify.com',
+            files: 2,
+          },
+        ],
+      }),
+    )
+  })
+
+  test('renders a message when there are no snapshots', async () => {
+    // Given
+    vi.mocked(listSnapshots).mockResolvedValue([])
+
+    // When
+    await history('/my-theme')
+
+    // Then
+    expect(renderInfo).toHaveBeenCalledWith({body: 'There are no theme snapshots in this directory yet.'})
+    expect(renderTable).not.toHaveBeenCalled()
+  })
+})
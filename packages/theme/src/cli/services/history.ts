@@ -0,0 +1,32 @@
+import {listSnapshots} from '../utilities/theme-history.js'
+import {renderInfo, renderTable} from '@shopify/cli-kit/node/ui'
+
+export async function history(path: string) {
+  const snapshots = await listSnapshots(path)
+
+  if (snapshots.length === 0) {
+    renderInfo({body: 'There are no theme snapshots in this directory yet.'})
+    return
+  }
+
+  const rows = snapshots.map(({id, createdAt, command, store, theme, files, created}) => {
+    return {
+      id,
+      date: new Date(createdAt).toLocaleString(),
+      command,
+      theme: `${theme.name} (#${theme.id}) on ${store}`,
+      files: files.length + created.length,
+    }
+  })
+
+  renderTable({
+    rows,
+    columns: {
+      id: {header: 'Snapshot'},
+      date: {header: 'Date', color: 'dim'},
+      command: {header: 'Command'},
+      theme: {header: 'Theme'},
+      files: {header: 'Files', color: 'dim'},
+    },
+  })
+}
@@ -0,0 +1,67 @@
+import {ignoreCheck} from './ignore-check.js'
+import {renderInfo} from '@shopify/cli-kit/node/ui'
+import {inTemporaryDirectory, writeFile} from '@shopify/cli-kit/node/fs'
+import {joinPath} from '@shopify/cli-kit/node/path'
+import {test, describe, expect, vi} from 'vitest'
+
+vi.mock('@shopify/cli-kit/node/ui')
+
+describe('ignoreCheck', () => {
+  test('explains which rule of the .shopifyignore file ignores a file', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      await writeFile(joinPath(tmpDir, '.shopifyignore'), '# Drafts\nsections/drafts/\n')
+
+      // When
+      await ignoreCheck('sections/drafts/hero.liquid', {path: tmpDir})
+
+      // Then
+      expect(renderInfo).toHaveBeenCalledWith({
+        headline: 'sections/drafts/hero.liquid is ignored.',
+        body: ['It matches the pattern', {command: 'sections/drafts/'}, 'from', {userInput: '.shopifyignore:2'}],
+      })
+    })
+  })
+
+  test('explains which negated rule includes a file again', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const options = {path: tmpDir, ignore: ['templates/*.json', '!templates/index.json']}
+
+      // When
+      await ignoreCheck(joinPath(tmpDir, 'templates/index.json'), options)
+
+      // Then
+      expect(renderInfo).toHaveBeenCalledWith({
+        headline: 'templates/index.json is not ignored.',
+        body: ['It matches the negated pattern', {command: '!templates/index.json'}, 'from', {userInput: '--ignore'}],
+      })
+    })
+  })
+
+  test('explains that a file is ignored when it does not match any --only pattern', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // When
+      await ignoreCheck('assets/base.css', {path: tmpDir, only: ['sections/*']})
+
+      // Then
+      expect(renderInfo).toHaveBeenCalledWith({
+        headline: 'assets/base.css is ignored.',
+        body: 'It does not match any --only pattern.',
+      })
+    })
+  })
+
+  test('explains that no rule matches a file', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // When
+      await ignoreCheck('assets/base.css', {path: tmpDir})
+
+      // Then
+      expect(renderInfo).toHaveBeenCalledWith({
+        headline: 'assets/base.css is not ignored.',
+        body: 'No rule matches it.',
+      })
+    })
+  })
+})
@@ -0,0 +1,45 @@
+import {explainIgnore, loadIgnoreRules} from '../utilities/asset-ignore.js'
+import {isAbsolutePath, relativePath, resolvePath} from '@shopify/cli-kit/node/path'
+import {renderInfo} from '@shopify/cli-kit/node/ui'
+
+interface IgnoreCheckOptions {
+  path: string
+  only?: string[]
+  ignore?: string[]
+}
+
+/**
+ * Explains whether the theme commands ignore a file and which rule of the
+ * `.shopifyignore` file or the `--only` and `--ignore` flags decides it.
+ */
+export async function ignoreCheck(file: string, options: IgnoreCheckOptions) {
+  const key = themeKey(options.path, file)
+  const rules = await loadIgnoreRules(options.path, options)
+  const {ignored, rule} = explainIgnore(key, rules)
+
+  const headline = ignored ? `${key} is ignored.` : `${key} is not ignored.`
+
+  if (rule) {
+    renderInfo({
+      headline,
+      body: [
+        `It matches the ${rule.negated ? 'negated ' : ''}pattern`,
+        {command: rule.pattern},
+        'from',
+        {userInput: rule.source},
+      ],
+    })
+    return
+  }
+
+  renderInfo({
+    headline,
+    body: ignored ? 'It does not match any --only pattern.' : 'No rule matches it.',
+  })
+}
+
+function themeKey(root: string, file: string) {
+  const absolutePath = isAbsolutePath(file) ? file : resolvePath(root, file)
+
+  return relativePath(resolvePath(root), absolutePath)
+}
@@ -1,12 +1,23 @@
 import {packageTheme} from './package.js'
 import {describe, expect, vi, test} from 'vitest'
 import {joinPath, dirname} from '@shopify/cli-kit/node/path'
-import {renderSuccess} from '@shopify/cli-kit/node/ui'
-import {mkdir, writeFile, inTemporaryDirectory, touchFile, fileExists} from '@shopify/cli-kit/node/fs'
+import {renderError, renderSuccess, renderWarning} from '@shopify/cli-kit/node/ui'
+import {mkdir, writeFile, inTemporaryDirectory, touchFile, fileExists, readFile} from '@shopify/cli-kit/node/fs'
+import {AbortSilentError} from '@shopify/cli-kit/node/error'
+import {Severity, SourceCodeType, themeCheckRun} from '@shopify/theme-check-node'
 
 const StreamZip = require('node-stream-zip')
 
 vi.mock('@shopify/cli-kit/node/ui')
+vi.mock('@shopify/theme-check-node', async () => {
+  const actual: any = await vi.importActual('@shopify/theme-check-node')
+  return {
+    ...actual,
+    themeCheckRun: vi.fn(),
+  }
+})
+
+const requiredThemeFiles = ['layout/theme.liquid', 'sections/header.liquid', 'templates/index.json']
 
 describe('packageTheme', () => {
   test('creates zip file from theme', async () => {
@@ -15,8 +26,8 @@ describe('packageTheme', () => {
       const inputDirectory = joinPath(tmpDir, 'theme')
       await mkdir(inputDirectory)
       const themeRelativePaths = [
+        ...requiredThemeFiles,
         'assets/base.css',
-        'layout/theme.liquid',
         'config/settings_schema.json',
         'release-notes.md',
         'update_extension.json',
@@ -32,13 +43,19 @@ describe('packageTheme', () => {
 
       // Then
       const expectedOutputZipPath = joinPath(inputDirectory, 'Dawn-7.0.2.zip')
+      const expectedManifestPath = joinPath(inputDirectory, 'Dawn-7.0.2.manifest.json')
       await expect(fileExists(expectedOutputZipPath)).resolves.toBeTruthy()
 
       const archiveEntries = await readArchiveFiles(expectedOutputZipPath)
       expect(themeRelativePaths.sort()).toEqual(archiveEntries.sort())
 
       expect(renderSuccess).toBeCalledWith({
-        body: ['Your local theme was packaged in', {filePath: expectedOutputZipPath}],
+        body: [
+          'Your local theme was packaged in',
+          {filePath: expectedOutputZipPath},
+          'along with its manifest',
+          {filePath: expectedManifestPath},
+        ],
       })
     })
   })
@@ -49,6 +66,7 @@ describe('packageTheme', () => {
       const inputDirectory = joinPath(tmpDir, 'theme')
       await mkdir(inputDirectory)
       const themeRelativePaths = [
+        ...requiredThemeFiles,
         'assets/base.css',
         'config/settings_schema.json',
         'config/unsupported_dir/settings_schema.json',
@@ -57,6 +75,7 @@ describe('packageTheme', () => {
         'invalid/file.liquid',
       ]
       const expectedThemeRelativePaths = [
+        ...requiredThemeFiles,
         'assets/base.css',
         'config/settings_schema.json',
         'templates/customers/account.json',
@@ -76,10 +95,87 @@ describe('packageTheme', () => {
 
       const archiveEntries = await readArchiveFiles(expectedOutputZipPath)
       expect(expectedThemeRelativePaths.sort()).toEqual(archiveEntries.sort())
+    })
+  })
 
-      expect(renderSuccess).toBeCalledWith({
-        body: ['Your local theme was packaged in', {filePath: expectedOutputZipPath}],
+  test('zip file excludes the files ignored by the .shopifyignore file', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const inputDirectory = joinPath(tmpDir, 'theme')
+      await mkdir(inputDirectory)
+      const themeRelativePaths = [
+        ...requiredThemeFiles,
+        'assets/base.css',
+        'assets/drafts/hero.css',
+        'assets/.DS_Store',
+        'config/settings_schema.json',
+        'templates/product.json',
+      ]
+      await createFiles(themeRelativePaths, inputDirectory)
+      await createSettingsSchema(
+        '[{"name": "theme_info", "theme_name": "Dawn", "theme_version": "7.0.2"}]',
+        inputDirectory,
+      )
+      await writeFile(joinPath(inputDirectory, '.shopifyignore'), 'drafts/\ntemplates/product.json\n')
+
+      // When
+      await packageTheme(inputDirectory)
+
+      // Then
+      const archiveEntries = await readArchiveFiles(joinPath(inputDirectory, 'Dawn-7.0.2.zip'))
+      expect(archiveEntries.sort()).toEqual(
+        [...requiredThemeFiles, 'assets/base.css', 'config/settings_schema.json'].sort(),
+      )
+    })
+  })
+
+  test('zip file excludes the development files with a warning', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const inputDirectory = joinPath(tmpDir, 'theme')
+      await mkdir(inputDirectory)
+      const themeRelativePaths = [...requiredThemeFiles, 'assets/.keep', 'config/settings_schema.json']
+      await createFiles([...themeRelativePaths, 'assets/theme.js.map', 'assets/theme.js~'], inputDirectory)
+      await createSettingsSchema('[{"name": "theme_info", "theme_name": "Dawn"}]', inputDirectory)
+
+      // When
+      await packageTheme(inputDirectory)
+
+      // Then
+      const archiveEntries = await readArchiveFiles(joinPath(inputDirectory, 'Dawn.zip'))
+      expect(archiveEntries.sort()).toEqual(themeRelativePaths.sort())
+      expect(renderWarning).toHaveBeenCalledWith({
+        headline: 'These development files were left out of the package.',
+        body: {list: {items: ['assets/theme.js.map', 'assets/theme.js~']}},
+        nextSteps: ['Add them to the .shopifyignore file to leave them out without this warning'],
+      })
+    })
+  })
+
+  test('writes a manifest with the checksum of every packaged file', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const inputDirectory = joinPath(tmpDir, 'theme')
+      await mkdir(inputDirectory)
+      await createFiles([...requiredThemeFiles, 'config/settings_schema.json'], inputDirectory)
+      await createSettingsSchema('[{"name": "theme_info", "theme_name": "Dawn"}]', inputDirectory)
+      await writeFile(joinPath(inputDirectory, 'layout/theme.liquid'), 'layout')
+
+      // When
+      await packageTheme(inputDirectory)
+
+      // Then
+      const manifest = JSON.parse(await readFile(joinPath(inputDirectory, 'Dawn.manifest.json')))
+      expect(manifest.name).toEqual('Dawn')
+      expect(manifest.files).toContainEqual({
+        path: 'layout/theme.liquid',
+        size: 6,
+        checksum: 'c61404957758dfda283709e89376ab3e',
       })
+      expect(manifest.files.map(({path}: {path: string}) => path)).toEqual([
+        'config/settings_schema.json',
+        ...requiredThemeFiles,
+      ])
     })
   })
 
@@ -89,8 +185,8 @@ describe('packageTheme', () => {
       const inputDirectory = joinPath(tmpDir, 'theme')
       await mkdir(inputDirectory)
       const themeRelativePaths = [
+        ...requiredThemeFiles,
         'assets/base.css',
-        'layout/theme.liquid',
         'config/settings_schema.json',
         'release-notes.md',
         'update_extension.json',
@@ -107,9 +203,70 @@ describe('packageTheme', () => {
 
       const archiveEntries = await readArchiveFiles(expectedOutputZipPath)
       expect(themeRelativePaths.sort()).toEqual(archiveEntries.sort())
+    })
+  })
 
-      expect(renderSuccess).toBeCalledWith({
-        body: ['Your local theme was packaged in', {filePath: expectedOutputZipPath}],
+  test('reports the validation issues instead of creating the zip file', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const inputDirectory = joinPath(tmpDir, 'theme')
+      await mkdir(inputDirectory)
+      await createFiles(['layout/theme.liquid', 'config/settings_schema.json'], inputDirectory)
+      await createSettingsSchema('[{"name": "theme_info", "theme_name": "Dawn"}]', inputDirectory)
+
+      // When
+      await expect(packageTheme(inputDirectory)).rejects.toThrow(AbortSilentError)
+
+      // Then
+      expect(renderError).toHaveBeenCalledWith({
+        headline: "Your theme can't be packaged.",
+        body: {
+          list: {
+            items: ['The theme must have the config, layout, sections, templates directories.'],
+          },
+        },
+      })
+      await expect(fileExists(joinPath(inputDirectory, 'Dawn.zip'))).resolves.toBe(false)
+      expect(renderSuccess).not.toBeCalled()
+    })
+  })
+
+  test('reports the theme-check errors when check is set', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const inputDirectory = joinPath(tmpDir, 'theme')
+      await mkdir(inputDirectory)
+      await createFiles([...requiredThemeFiles, 'config/settings_schema.json'], inputDirectory)
+      await createSettingsSchema('[{"name": "theme_info", "theme_name": "Dawn"}]', inputDirectory)
+      const offense = {
+        type: SourceCodeType.LiquidHtml,
+        check: 'LiquidHTMLSyntaxError',
+        message: 'Attempting to close HtmlElement',
+        absolutePath: joinPath(inputDirectory, 'sections/header.liquid'),
+        start: {index: 0, line: 2, character: 0},
+        end: {index: 10, line: 2, character: 10},
+      }
+      vi.mocked(themeCheckRun).mockResolvedValue({
+        theme: [],
+        config: {} as never,
+        offenses: [
+          {...offense, severity: Severity.ERROR},
+          {...offense, severity: Severity.WARNING},
+        ],
+      })
+
+      // When
+      await expect(packageTheme(inputDirectory, {check: true})).rejects.toThrow(AbortSilentError)
+
+      // Then
+      expect(themeCheckRun).toHaveBeenCalledWith(inputDirectory)
+      expect(renderError).toHaveBeenCalledWith({
+        headline: "Your theme can't be packaged.",
+        body: {
+          list: {
+            items: ['sections/header.liquid: LiquidHTMLSyntaxError on line 3: Attempting to close HtmlElement'],
+          },
+        },
       })
     })
   })
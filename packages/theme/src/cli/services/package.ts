@@ -1,8 +1,13 @@
+import {rejectIgnoredOffenses} from './check.js'
+import {explainIgnore, loadIgnoreRules} from '../utilities/asset-ignore.js'
+import {PackageValidationIssue, isDevelopmentFile, validateThemePackage} from '../utilities/theme-package-validator.js'
 import {zip} from '@shopify/cli-kit/node/archiver'
-import {fileExists, readFile} from '@shopify/cli-kit/node/fs'
-import {AbortError} from '@shopify/cli-kit/node/error'
-import {renderSuccess} from '@shopify/cli-kit/node/ui'
-import {resolvePath, relativizePath} from '@shopify/cli-kit/node/path'
+import {fileExists, fileSize, glob, readFile, readFileSync, writeFile} from '@shopify/cli-kit/node/fs'
+import {fileHash} from '@shopify/cli-kit/node/crypto'
+import {AbortError, AbortSilentError} from '@shopify/cli-kit/node/error'
+import {renderError, renderSuccess, renderWarning} from '@shopify/cli-kit/node/ui'
+import {joinPath, resolvePath, relativePath, relativizePath} from '@shopify/cli-kit/node/path'
+import {Severity, themeCheckRun} from '@shopify/theme-check-node'
 
 const themeFilesPattern = [
   'assets/**',
@@ -17,24 +22,116 @@ const themeFilesPattern = [
   'update_extension.json',
 ].join('|')
 
+interface PackageOptions {
+  /**
+   * Whether theme-check runs before packaging, so packaging fails on its
+   * errors.
+   */
+  check?: boolean
+}
+
+/**
+ * The manifest written next to a theme package, with a checksum of every
+ * file of the package.
+ */
+interface PackageManifest {
+  name: string
+  files: {path: string; size: number; checksum: string}[]
+}
+
 // package is a reserved word so the function needs to be named packageTheme
-export async function packageTheme(inputDirectory: string) {
+export async function packageTheme(inputDirectory: string, options: PackageOptions = {}) {
   const packageName = await getThemePackageName(inputDirectory)
 
-  const outputZipPath = `${inputDirectory}/${packageName}`
+  const outputZipPath = `${inputDirectory}/${packageName}.zip`
+  const manifestPath = `${inputDirectory}/${packageName}.manifest.json`
   const matchFilePattern = `${inputDirectory}/(${themeFilesPattern})`
+  const files = await packageFiles(inputDirectory, matchFilePattern)
+  const developmentFiles = [...files].filter(isDevelopmentFile)
+
+  if (developmentFiles.length > 0) {
+    developmentFiles.forEach((file) => files.delete(file))
+    renderWarning({
+      headline: 'These development files were left out of the package.',
+      body: {list: {items: developmentFiles}},
+      nextSteps: ['Add them to the .shopifyignore file to leave them out without this warning'],
+    })
+  }
+
+  const issues = await validateThemePackage(inputDirectory, [...files])
+  if (options.check) issues.push(...(await themeCheckIssues(inputDirectory)))
+
+  if (issues.length > 0) {
+    renderError({
+      headline: "Your theme can't be packaged.",
+      body: {list: {items: issues.map(({file, message}) => (file ? `${file}: ${message}` : message))}},
+    })
+    throw new AbortSilentError()
+  }
 
   await zip({
     inputDirectory,
     outputZipPath,
     matchFilePattern,
+    filter: (fileRelativePath) => files.has(fileRelativePath),
   })
+  await writeFile(manifestPath, JSON.stringify(await buildManifest(inputDirectory, packageName, files), null, 2))
 
   renderSuccess({
-    body: ['Your local theme was packaged in', {filePath: relativizePath(outputZipPath)}],
+    body: [
+      'Your local theme was packaged in',
+      {filePath: relativizePath(outputZipPath)},
+      'along with its manifest',
+      {filePath: relativizePath(manifestPath)},
+    ],
   })
 }
 
+/**
+ * Lists the files of the package, relative to the theme directory, leaving
+ * out the files ignored by the `.shopifyignore` file.
+ */
+async function packageFiles(inputDirectory: string, matchFilePattern: string) {
+  const ignoreRules = await loadIgnoreRules(inputDirectory)
+  const paths = await glob(matchFilePattern, {
+    cwd: inputDirectory,
+    absolute: true,
+    dot: true,
+    followSymbolicLinks: false,
+  })
+
+  return new Set(
+    paths
+      .map((path) => relativePath(inputDirectory, path))
+      .filter((path) => !explainIgnore(path, ignoreRules).ignored)
+      .sort(),
+  )
+}
+
+async function themeCheckIssues(inputDirectory: string): Promise<PackageValidationIssue[]> {
+  const {offenses} = await themeCheckRun(inputDirectory)
+  const errors = (await rejectIgnoredOffenses(inputDirectory, offenses)).filter(
+    (offense) => offense.severity === Severity.ERROR,
+  )
+
+  return errors.map(({absolutePath, start, check, message}) => ({
+    file: relativePath(inputDirectory, absolutePath),
+    // Theme check line numbers are zero indexed
+    message: `${check} on line ${start.line + 1}: ${message}`,
+  }))
+}
+
+async function buildManifest(inputDirectory: string, name: string, files: Set<string>): Promise<PackageManifest> {
+  const manifestFiles = await Promise.all(
+    [...files].map(async (path) => {
+      const absolutePath = joinPath(inputDirectory, path)
+      return {path, size: await fileSize(absolutePath), checksum: fileHash(readFileSync(absolutePath))}
+    }),
+  )
+
+  return {name, files: manifestFiles}
+}
+
 async function getThemePackageName(inputDirectory: string) {
   const settingsPath = resolvePath(inputDirectory, 'config/settings_schema.json')
 
@@ -42,14 +139,25 @@ async function getThemePackageName(inputDirectory: string) {
     throw new AbortError('Provide a config/settings_schema.json to package your theme.')
   }
 
-  const parsedSettings = JSON.parse(await readFile(settingsPath))
-  const themeInfo = parsedSettings.find((setting: {name: string}) => setting.name === 'theme_info')
+  const parsedSettings = await parseSettingsSchema(settingsPath)
+  const themeInfo = Array.isArray(parsedSettings)
+    ? parsedSettings.find((setting: {name: string}) => setting?.name === 'theme_info')
+    : undefined
 
   if (themeInfo === undefined || themeInfo.theme_name === undefined) {
     throw new AbortError('Provide a theme_info.theme_name configuration in config/settings_schema.json')
   }
 
-  const themeNameVersion = [themeInfo.theme_name, themeInfo.theme_version].filter(Boolean).join('-')
+  return [themeInfo.theme_name, themeInfo.theme_version].filter(Boolean).join('-')
+}
 
-  return `${themeNameVersion}.zip`
+async function parseSettingsSchema(settingsPath: string) {
+  try {
+    return JSON.parse(await readFile(settingsPath))
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new AbortError(`config/settings_schema.json isn't valid JSON: ${error.message}`)
+    }
+    throw error
+  }
 }
@@ -1,11 +1,14 @@
-import {downloadTheme} from '../utilities/theme-downloader.js'
+import {buildPullPlan, downloadTheme} from '../utilities/theme-downloader.js'
+import {renderThemeSyncPlan} from '../utilities/theme-sync-plan.js'
 import {hasRequiredThemeDirectories, mountThemeFileSystem} from '../utilities/theme-fs.js'
-import {currentDirectoryConfirmed, themeComponent} from '../utilities/theme-ui.js'
+import {currentDirectoryConfirmed, restoreSnapshotNextSteps, themeComponent} from '../utilities/theme-ui.js'
+import {createPullSnapshot} from '../utilities/theme-history.js'
+import {ThemeMergeConflict, writeMergeConflictsReport} from '../utilities/theme-merge.js'
 import {rejectLiquidChecksums} from '../utilities/asset-checksum.js'
 import {Theme} from '@shopify/cli-kit/node/themes/types'
 import {AdminSession} from '@shopify/cli-kit/node/session'
 import {fetchChecksums} from '@shopify/cli-kit/node/themes/api'
-import {renderSuccess} from '@shopify/cli-kit/node/ui'
+import {renderSuccess, renderWarning} from '@shopify/cli-kit/node/ui'
 import {glob} from '@shopify/cli-kit/node/fs'
 
 interface PullOptions {
@@ -14,12 +17,20 @@ interface PullOptions {
   force: boolean
   only?: string[]
   ignore?: string[]
+  dryRun?: boolean
+  json?: boolean
+  merge?: boolean
 }
 
 export async function pull(theme: Theme, session: AdminSession, options: PullOptions) {
   const path = options.path
   const force = options.force
 
+  if (options.dryRun) {
+    await renderPullPlan(theme, session, options)
+    return
+  }
+
   /**
    * If users are not forcing the `pull` command, the directory is not empty,
    * and the directory doesn't look like a theme directory, we ask for
@@ -41,7 +52,14 @@ export async function pull(theme: Theme, session: AdminSession, options: PullOpt
   const store = session.storeFqdn
   const themeId = theme.id
 
-  await downloadTheme(theme, session, themeChecksums, themeFileSystem, options)
+  const plan = await buildPullPlan(themeChecksums, themeFileSystem, options)
+  const snapshot = await createPullSnapshot(theme, session, themeFileSystem, plan)
+
+  const conflicts = await downloadTheme(theme, session, themeChecksums, themeFileSystem, options)
+
+  if (conflicts.length > 0) {
+    await renderMergeConflicts(themeFileSystem.root, conflicts)
+  }
 
   renderSuccess({
     body: ['The theme', ...themeComponent(theme), 'has been pulled.'],
@@ -62,10 +80,34 @@ export async function pull(theme: Theme, session: AdminSession, options: PullOpt
           },
         },
       ],
+      ...restoreSnapshotNextSteps(snapshot),
     ],
   })
 }
 
+async function renderMergeConflicts(root: string, conflicts: ThemeMergeConflict[]) {
+  const reportPath = await writeMergeConflictsReport(root, conflicts)
+
+  renderWarning({
+    headline: 'Some theme editor changes conflict with your local changes.',
+    body: [
+      'The local values were kept. Review the remote values in',
+      {filePath: reportPath},
+      {list: {items: conflicts.map(({key, path}) => (path ? `${key}: ${path}` : key))}},
+    ],
+  })
+}
+
+async function renderPullPlan(theme: Theme, session: AdminSession, options: PullOptions) {
+  const remoteChecksums = await fetchChecksums(theme.id, session)
+  const themeFileSystem = await mountThemeFileSystem(options.path)
+  const themeChecksums = rejectLiquidChecksums(remoteChecksums)
+
+  const plan = await buildPullPlan(themeChecksums, themeFileSystem, options)
+
+  renderThemeSyncPlan(theme, {download: plan.download.map(({key}) => key), delete: plan.delete}, options)
+}
+
 export async function isEmptyDir(path: string) {
   const entries = await glob('*', {
     cwd: path,
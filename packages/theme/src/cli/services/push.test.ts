@@ -0,0 +1,165 @@
+import {push} from './push.js'
+import {buildPushPlan, uploadTheme} from '../utilities/theme-uploader.js'
+import {renderThemeSyncPlan} from '../utilities/theme-sync-plan.js'
+import {createPushSnapshot} from '../utilities/theme-history.js'
+import {hasRequiredThemeDirectories, mountThemeFileSystem} from '../utilities/theme-fs.js'
+import {fetchChecksums, publishTheme} from '@shopify/cli-kit/node/themes/api'
+import {buildTheme} from '@shopify/cli-kit/node/themes/factories'
+import {ThemeFileSystem} from '@shopify/cli-kit/node/themes/types'
+import {renderConfirmationPrompt, renderError, renderSuccess} from '@shopify/cli-kit/node/ui'
+import {AbortSilentError} from '@shopify/cli-kit/node/error'
+import {mockAndCaptureOutput} from '@shopify/cli-kit/node/testing/output'
+import {test, describe, expect, vi, beforeEach} from 'vitest'
+
+vi.mock('../utilities/theme-uploader.js')
+vi.mock('../utilities/theme-sync-plan.js')
+vi.mock('../utilities/theme-history.js')
+vi.mock('../utilities/theme-fs.js')
+vi.mock('@shopify/cli-kit/node/themes/api')
+vi.mock('@shopify/cli-kit/node/ui')
+
+describe('push', () => {
+  const adminSession = {token: '', storeFqdn: 'my-shop.myshopify.com'}
+  const theme = buildTheme({id: 1, name: 'Theme', role: 'unpublished'})!
+  const themeFileSystem = {root: '/my-theme', files: new Map()} as ThemeFileSystem
+  const options = {
+    path: '/my-theme',
+    nodelete: false,
+    force: false,
+    json: false,
+    publish: false,
+    allowLive: false,
+  }
+
+  beforeEach(() => {
+    vi.mocked(hasRequiredThemeDirectories).mockResolvedValue(true)
+    vi.mocked(mountThemeFileSystem).mockResolvedValue(themeFileSystem)
+    vi.mocked(fetchChecksums).mockResolvedValue([
+      {key: 'assets/basic.css', checksum: '1'},
+      {key: 'assets/basic.css.liquid', checksum: '1'},
+    ])
+    vi.mocked(uploadTheme).mockResolvedValue([])
+  })
+
+  test('uploads the theme without the generated assets checksums', async () => {
+    // When
+    await push(theme, adminSession, options)
+
+    // Then
+    expect(uploadTheme).toHaveBeenCalledWith(
+      theme,
+      adminSession,
+      [{key: 'assets/basic.css.liquid', checksum: '1'}],
+      themeFileSystem,
+      options,
+    )
+    expect(publishTheme).not.toHaveBeenCalled()
+    expect(renderSuccess).toHaveBeenCalledOnce()
+  })
+
+  test('saves a snapshot of the remote files before uploading the theme', async () => {
+    // Given
+    const plan = {upload: [{key: 'assets/basic.css.liquid', checksum: '2'}], delete: []}
+    vi.mocked(buildPushPlan).mockResolvedValue(plan)
+
+    // When
+    await push(theme, adminSession, options)
+
+    // Then
+    expect(createPushSnapshot).toHaveBeenCalledWith(
+      theme,
+      adminSession,
+      [{key: 'assets/basic.css.liquid', checksum: '1'}],
+      themeFileSystem,
+      plan,
+    )
+  })
+
+  test('publishes the theme after uploading it', async () => {
+    // When
+    await push(theme, adminSession, {...options, publish: true})
+
+    // Then
+    expect(publishTheme).toHaveBeenCalledWith(theme.id, adminSession)
+  })
+
+  test('does not push to the live theme when users do not confirm', async () => {
+    // Given
+    const liveTheme = buildTheme({id: 2, name: 'Live', role: 'main'})!
+    vi.mocked(renderConfirmationPrompt).mockResolvedValue(false)
+
+    // When
+    await push(liveTheme, adminSession, options)
+
+    // Then
+    expect(uploadTheme).not.toHaveBeenCalled()
+  })
+
+  test('pushes to the live theme without confirmation when allowLive is set', async () => {
+    // Given
+    const liveTheme = buildTheme({id: 2, name: 'Live', role: 'main'})!
+
+    // When
+    await push(liveTheme, adminSession, {...options, allowLive: true})
+
+    // Then
+    expect(renderConfirmationPrompt).not.toHaveBeenCalled()
+    expect(uploadTheme).toHaveBeenCalledOnce()
+  })
+
+  test('reports the files that could not be uploaded', async () => {
+    // Given
+    vi.mocked(uploadTheme).mockResolvedValue([
+      {key: 'sections/broken.liquid', success: false, errors: ['Liquid syntax error'], asset: {} as never},
+    ])
+
+    // When
+    await expect(push(theme, adminSession, options)).rejects.toThrow(AbortSilentError)
+
+    // Then
+    expect(renderError).toHaveBeenCalledWith({
+      headline: 'Some theme files could not be uploaded.',
+      body: {list: {items: ['sections/broken.liquid: Liquid syntax error']}},
+    })
+  })
+
+  test('outputs the theme as JSON', async () => {
+    // Given
+    const outputMock = mockAndCaptureOutput()
+
+    // When
+    await push(theme, adminSession, {...options, json: true})
+
+    // Then
+    expect(JSON.parse(outputMock.info())).toEqual({
+      theme: {
+        id: 1,
+        name: 'Theme',
+        role: 'unpublished',
+        shop: 'my-shop.myshopify.com',
+        editor_url: 'https://my-shop.myshopify.com/admin/themes/1/editor',
+        preview_url: 'https://my-shop.myshopify.com?preview_theme_id=1',
+      },
+    })
+    expect(renderSuccess).not.toHaveBeenCalled()
+  })
+
+  test('renders the plan without uploading files when dryRun is set', async () => {
+    // Given
+    vi.mocked(buildPushPlan).mockResolvedValue({
+      upload: [{key: 'sections/header.liquid', checksum: '1'}],
+      delete: ['assets/old.css'],
+    })
+
+    // When
+    await push(theme, adminSession, {...options, dryRun: true})
+
+    // Then
+    expect(uploadTheme).not.toHaveBeenCalled()
+    expect(renderThemeSyncPlan).toHaveBeenCalledWith(
+      theme,
+      {upload: ['sections/header.liquid'], delete: ['assets/old.css']},
+      {...options, dryRun: true},
+    )
+  })
+})
@@ -0,0 +1,166 @@
+import {buildPushPlan, uploadTheme} from '../utilities/theme-uploader.js'
+import {renderThemeSyncPlan} from '../utilities/theme-sync-plan.js'
+import {hasRequiredThemeDirectories, mountThemeFileSystem, readThemeFile} from '../utilities/theme-fs.js'
+import {currentDirectoryConfirmed, restoreSnapshotNextSteps, themeComponent} from '../utilities/theme-ui.js'
+import {createPushSnapshot, saveSyncedFiles, ThemeSnapshot} from '../utilities/theme-history.js'
+import {isMergeableThemeFile} from '../utilities/theme-merge.js'
+import {rejectLiquidChecksums} from '../utilities/asset-checksum.js'
+import {AdminSession} from '@shopify/cli-kit/node/session'
+import {fetchChecksums, publishTheme} from '@shopify/cli-kit/node/themes/api'
+import {BulkUploadResult, Theme, ThemeFileSystem} from '@shopify/cli-kit/node/themes/types'
+import {themeEditorUrl, themePreviewUrl} from '@shopify/cli-kit/node/themes/urls'
+import {renderConfirmationPrompt, renderError, renderSuccess, renderWarning} from '@shopify/cli-kit/node/ui'
+import {outputInfo} from '@shopify/cli-kit/node/output'
+import {AbortSilentError} from '@shopify/cli-kit/node/error'
+
+interface PushOptions {
+  path: string
+  nodelete: boolean
+  force: boolean
+  json: boolean
+  publish: boolean
+  allowLive: boolean
+  only?: string[]
+  ignore?: string[]
+  dryRun?: boolean
+}
+
+export async function push(theme: Theme, session: AdminSession, options: PushOptions) {
+  const path = options.path
+
+  if (options.dryRun) {
+    await renderPushPlan(theme, session, options)
+    return
+  }
+
+  if (!(await hasRequiredThemeDirectories(path)) && !(await currentDirectoryConfirmed(options.force))) {
+    return
+  }
+
+  if (theme.role === 'live' && !options.allowLive && !(await liveThemeConfirmed(theme))) {
+    return
+  }
+
+  const remoteChecksums = await fetchChecksums(theme.id, session)
+  const themeFileSystem = await mountThemeFileSystem(path)
+  const themeChecksums = rejectLiquidChecksums(remoteChecksums)
+
+  const plan = await buildPushPlan(themeChecksums, themeFileSystem, options)
+  const snapshot = await createPushSnapshot(theme, session, themeChecksums, themeFileSystem, plan)
+
+  const results = await uploadTheme(theme, session, themeChecksums, themeFileSystem, options)
+  const failedResults = results.filter((result) => !result.success)
+
+  await saveUploadedSyncedFiles(theme, themeFileSystem, results)
+  const hasErrors = failedResults.length > 0
+
+  if (options.publish) {
+    await publishTheme(theme.id, session)
+  }
+
+  if (options.json) {
+    outputJson(theme, session, hasErrors)
+  } else {
+    if (hasErrors) renderUploadErrors(failedResults)
+    renderPushResult(theme, session, options, hasErrors, snapshot)
+  }
+
+  if (hasErrors) {
+    throw new AbortSilentError()
+  }
+}
+
+/**
+ * Saves the uploaded JSON files that `theme pull --merge` uses as common
+ * ancestors.
+ */
+async function saveUploadedSyncedFiles(theme: Theme, themeFileSystem: ThemeFileSystem, results: BulkUploadResult[]) {
+  const keys = results.filter(({key, success}) => success && isMergeableThemeFile(key)).map(({key}) => key)
+
+  const assets = await Promise.all(
+    keys.map(async (key) => {
+      const value = await readThemeFile(themeFileSystem.root, key)
+      return {key, checksum: themeFileSystem.files.get(key)?.checksum ?? '', value: value?.toString()}
+    }),
+  )
+
+  await saveSyncedFiles(themeFileSystem.root, theme, assets)
+}
+
+async function renderPushPlan(theme: Theme, session: AdminSession, options: PushOptions) {
+  const remoteChecksums = await fetchChecksums(theme.id, session)
+  const themeFileSystem = await mountThemeFileSystem(options.path)
+  const themeChecksums = rejectLiquidChecksums(remoteChecksums)
+
+  const plan = await buildPushPlan(themeChecksums, themeFileSystem, options)
+
+  renderThemeSyncPlan(theme, {upload: plan.upload.map(({key}) => key), delete: plan.delete}, options)
+}
+
+async function liveThemeConfirmed(theme: Theme) {
+  return renderConfirmationPrompt({
+    message: ['Push theme files to the live theme', ...themeComponent(theme), {char: '?'}],
+    confirmationMessage: 'Yes, push to the live theme',
+    cancellationMessage: 'No, cancel push',
+  })
+}
+
+function outputJson(theme: Theme, session: AdminSession, hasErrors: boolean) {
+  const output: {theme: {[key: string]: unknown}; warning?: string} = {
+    theme: {
+      id: theme.id,
+      name: theme.name,
+      role: theme.role,
+      shop: session.storeFqdn,
+      editor_url: themeEditorUrl(theme, session),
+      preview_url: themePreviewUrl(theme, session),
+    },
+  }
+
+  if (hasErrors) {
+    output.warning = 'Theme pushed with errors.'
+  }
+
+  outputInfo(JSON.stringify(output, null, 2))
+}
+
+function renderUploadErrors(failedResults: BulkUploadResult[]) {
+  renderError({
+    headline: 'Some theme files could not be uploaded.',
+    body: {
+      list: {
+        items: failedResults.map(({key, errors}) => `${key}: ${(errors ?? []).join(', ')}`),
+      },
+    },
+  })
+}
+
+function renderPushResult(
+  theme: Theme,
+  session: AdminSession,
+  options: PushOptions,
+  hasErrors: boolean,
+  snapshot?: ThemeSnapshot,
+) {
+  const previewUrl = themePreviewUrl(options.publish ? {...theme, role: 'live'} : theme, session)
+  const editorUrl = themeEditorUrl(theme, session)
+
+  const nextSteps = [
+    [{link: {label: 'View your theme', url: previewUrl}}],
+    [{link: {label: 'Customize your theme at the theme editor', url: editorUrl}}],
+    ...restoreSnapshotNextSteps(snapshot),
+  ]
+
+  if (hasErrors) {
+    renderWarning({
+      body: ['The theme', ...themeComponent(theme), 'was pushed with errors.'],
+      nextSteps,
+    })
+    return
+  }
+
+  renderSuccess({
+    body: ['The theme', ...themeComponent(theme), options.publish ? 'is pushed and live.' : 'has been pushed.'],
+    nextSteps,
+  })
+}
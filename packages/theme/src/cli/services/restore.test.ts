@@ -0,0 +1,143 @@
+import {restore} from './restore.js'
+import {findSnapshot, readSnapshotFile, ThemeSnapshot} from '../utilities/theme-history.js'
+import {removeThemeFile, writeThemeFile} from '../utilities/theme-fs.js'
+import {ensureAuthenticatedThemes} from '@shopify/cli-kit/node/session'
+import {bulkUploadThemeAssets, deleteThemeAsset} from '@shopify/cli-kit/node/themes/api'
+import {
+  renderConfirmationPrompt,
+  renderError,
+  renderSuccess,
+  renderTasks,
+  renderWarning,
+  Task,
+} from '@shopify/cli-kit/node/ui'
+import {AbortError, AbortSilentError} from '@shopify/cli-kit/node/error'
+import {test, describe, expect, vi, beforeEach} from 'vitest'
+
+vi.mock('../utilities/theme-history.js')
+vi.mock('../utilities/theme-fs.js')
+vi.mock('@shopify/cli-kit/node/session')
+vi.mock('@shopify/cli-kit/node/themes/api')
+vi.mock('@shopify/cli-kit/node/ui')
+
+describe('restore', () => {
+  const options = {path: '/my-theme', force: true}
+  const asset = {key: 'sections/header.liquid', checksum: 'a', value: 'header'}
+
+  function buildSnapshot(command: 'pull' | 'push'): ThemeSnapshot {
+    return {
+      id: '20240101T000000000Z',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      command,
+      store: 'my-shop.myshopify.com',
+      theme: {id: 1, name: 'Theme'},
+      files: [{key: 'sections/header.liquid', checksum: 'a'}],
+      created: ['sections/new.liquid'],
+    }
+  }
+
+  beforeEach(() => {
+    vi.mocked(readSnapshotFile).mockResolvedValue(asset)
+    vi.mocked(bulkUploadThemeAssets).mockResolvedValue([{key: 'sections/header.liquid', success: true, asset}])
+    vi.mocked(renderTasks).mockImplementation(async (tasks: Task[]) => {
+      for (const task of tasks) {
+        // eslint-disable-next-line no-await-in-loop
+        await task.task({}, task)
+      }
+    })
+  })
+
+  test('restores a pull snapshot in the local directory', async () => {
+    // Given
+    vi.mocked(findSnapshot).mockResolvedValue(buildSnapshot('pull'))
+
+    // When
+    await restore('20240101T000000000Z', options)
+
+    // Then
+    expect(writeThemeFile).toHaveBeenCalledWith('/my-theme', asset)
+    expect(removeThemeFile).toHaveBeenCalledWith('/my-theme', 'sections/new.liquid')
+    expect(bulkUploadThemeAssets).not.toHaveBeenCalled()
+  })
+
+  test('restores a push snapshot in the remote theme', async () => {
+    // Given
+    const session = {token: 'token', storeFqdn: 'my-shop.myshopify.com'}
+    vi.mocked(findSnapshot).mockResolvedValue(buildSnapshot('push'))
+    vi.mocked(ensureAuthenticatedThemes).mockResolvedValue(session)
+
+    // When
+    await restore('20240101T000000000Z', options)
+
+    // Then
+    expect(ensureAuthenticatedThemes).toHaveBeenCalledWith('my-shop.myshopify.com', undefined)
+    expect(bulkUploadThemeAssets).toHaveBeenCalledWith(
+      1,
+      [{key: 'sections/header.liquid', value: 'header', attachment: undefined}],
+      session,
+    )
+    expect(deleteThemeAsset).toHaveBeenCalledWith(1, 'sections/new.liquid', session)
+    expect(writeThemeFile).not.toHaveBeenCalled()
+  })
+
+  test('renders the files that could not be restored and fails', async () => {
+    // Given
+    const session = {token: 'token', storeFqdn: 'my-shop.myshopify.com'}
+    vi.mocked(findSnapshot).mockResolvedValue(buildSnapshot('push'))
+    vi.mocked(ensureAuthenticatedThemes).mockResolvedValue(session)
+    vi.mocked(bulkUploadThemeAssets).mockResolvedValue([
+      {key: 'sections/header.liquid', success: false, errors: ['Liquid syntax error'], asset},
+    ])
+
+    // When
+    const result = restore('20240101T000000000Z', options)
+
+    // Then
+    await expect(result).rejects.toThrowError(AbortSilentError)
+    expect(renderError).toHaveBeenCalledWith({
+      headline: "Some files of the snapshot 20240101T000000000Z could not be restored to the theme 'Theme'.",
+      body: {list: {items: ['sections/header.liquid: Liquid syntax error']}},
+    })
+    expect(renderSuccess).not.toHaveBeenCalled()
+  })
+
+  test('warns about the files of the snapshot that could not be read', async () => {
+    // Given
+    const snapshot = buildSnapshot('pull')
+    snapshot.files.push({key: 'sections/footer.liquid', checksum: 'b'})
+    vi.mocked(findSnapshot).mockResolvedValue(snapshot)
+    vi.mocked(readSnapshotFile).mockImplementation(async (_root, {key}) => (key === asset.key ? asset : undefined))
+
+    // When
+    await restore('20240101T000000000Z', options)
+
+    // Then
+    expect(writeThemeFile).toHaveBeenCalledOnce()
+    expect(writeThemeFile).toHaveBeenCalledWith('/my-theme', asset)
+    expect(renderWarning).toHaveBeenCalledWith({
+      headline: "Some files of the snapshot 20240101T000000000Z could not be read, so they weren't restored.",
+      body: {list: {items: ['sections/footer.liquid']}},
+    })
+    expect(renderSuccess).toHaveBeenCalled()
+  })
+
+  test('does not restore the snapshot when users do not confirm', async () => {
+    // Given
+    vi.mocked(findSnapshot).mockResolvedValue(buildSnapshot('pull'))
+    vi.mocked(renderConfirmationPrompt).mockResolvedValue(false)
+
+    // When
+    await restore('20240101T000000000Z', {...options, force: false})
+
+    // Then
+    expect(writeThemeFile).not.toHaveBeenCalled()
+  })
+
+  test('throws an error when the snapshot does not exist', async () => {
+    // Given
+    vi.mocked(findSnapshot).mockResolvedValue(undefined)
+
+    // When/Then
+    await expect(restore('unknown', options)).rejects.toThrowError(AbortError)
+  })
+})
@@ -0,0 +1,141 @@
+import {findSnapshot, readSnapshotFile, ThemeSnapshot} from '../utilities/theme-history.js'
+import {removeThemeFile, writeThemeFile} from '../utilities/theme-fs.js'
+import {MAX_BATCH_FILE_COUNT} from '../utilities/theme-uploader.js'
+import {AdminSession, ensureAuthenticatedThemes} from '@shopify/cli-kit/node/session'
+import {bulkUploadThemeAssets, deleteThemeAsset} from '@shopify/cli-kit/node/themes/api'
+import {BulkUploadResult, ThemeAsset} from '@shopify/cli-kit/node/themes/types'
+import {AbortError, AbortSilentError} from '@shopify/cli-kit/node/error'
+import {
+  renderConfirmationPrompt,
+  renderError,
+  renderSuccess,
+  renderTasks,
+  renderWarning,
+  Task,
+} from '@shopify/cli-kit/node/ui'
+
+interface RestoreOptions {
+  path: string
+  force: boolean
+  password?: string
+}
+
+export async function restore(snapshotId: string, options: RestoreOptions) {
+  const snapshot = await findSnapshot(options.path, snapshotId)
+
+  if (!snapshot) {
+    throw new AbortError(
+      `The snapshot ${snapshotId} could not be found.`,
+      'Run `shopify theme history` to list the snapshots of this directory.',
+    )
+  }
+
+  const target = snapshot.command === 'pull' ? 'your local directory' : `the theme '${snapshot.theme.name}'`
+
+  if (!options.force && !(await isConfirmed(snapshot, target))) {
+    return
+  }
+
+  const {assets, unreadableKeys} = await readSnapshotAssets(options.path, snapshot)
+
+  if (snapshot.command === 'pull') {
+    await restoreLocalFiles(options.path, snapshot, assets)
+  } else {
+    const session = await ensureAuthenticatedThemes(snapshot.store, options.password)
+    const results = await restoreRemoteFiles(session, snapshot, assets)
+    const failedResults = results.filter((result) => !result.success)
+
+    if (failedResults.length > 0) {
+      renderRestoreErrors(snapshot, failedResults)
+      throw new AbortSilentError()
+    }
+  }
+
+  if (unreadableKeys.length > 0) {
+    renderWarning({
+      headline: `Some files of the snapshot ${snapshot.id} could not be read, so they weren't restored.`,
+      body: {list: {items: unreadableKeys}},
+    })
+  }
+
+  renderSuccess({body: `The snapshot ${snapshot.id} has been restored to ${target}.`})
+}
+
+async function isConfirmed(snapshot: ThemeSnapshot, target: string) {
+  const fileCount = snapshot.files.length + snapshot.created.length
+
+  return renderConfirmationPrompt({
+    message: `Restore ${fileCount} file(s) from the snapshot ${snapshot.id} to ${target}?`,
+    confirmationMessage: 'Yes, restore the snapshot',
+    cancellationMessage: 'No, cancel restore',
+  })
+}
+
+async function readSnapshotAssets(root: string, snapshot: ThemeSnapshot) {
+  const assets = await Promise.all(snapshot.files.map((file) => readSnapshotFile(root, file)))
+
+  return {
+    assets: assets.filter((asset): asset is ThemeAsset => asset !== undefined),
+    unreadableKeys: snapshot.files.filter((_file, index) => !assets[index]).map(({key}) => key),
+  }
+}
+
+async function restoreLocalFiles(root: string, snapshot: ThemeSnapshot, assets: ThemeAsset[]) {
+  const tasks: Task[] = [
+    ...assets.map((asset) => ({
+      title: `Restoring ${asset.key}`,
+      task: async () => writeThemeFile(root, asset),
+    })),
+    ...snapshot.created.map((key) => ({
+      title: `Removing ${key}`,
+      task: async () => removeThemeFile(root, key),
+    })),
+  ]
+
+  if (tasks.length > 0) await renderTasks(tasks)
+}
+
+async function restoreRemoteFiles(session: AdminSession, snapshot: ThemeSnapshot, assets: ThemeAsset[]) {
+  const themeId = snapshot.theme.id
+  const batches: ThemeAsset[][] = []
+  const results: BulkUploadResult[] = []
+
+  for (let index = 0; index < assets.length; index += MAX_BATCH_FILE_COUNT) {
+    batches.push(assets.slice(index, index + MAX_BATCH_FILE_COUNT))
+  }
+
+  const tasks: Task[] = [
+    ...batches.map((batch) => ({
+      title: `Restoring ${batch.length} file(s) of the theme '${snapshot.theme.name}' (#${themeId})`,
+      task: async () => {
+        const batchResults = await bulkUploadThemeAssets(
+          themeId,
+          batch.map(({key, value, attachment}) => ({key, value, attachment})),
+          session,
+        )
+        results.push(...batchResults)
+      },
+    })),
+    ...snapshot.created.map((key) => ({
+      title: `Removing ${key} from the theme '${snapshot.theme.name}' (#${themeId})`,
+      task: async () => {
+        await deleteThemeAsset(themeId, key, session)
+      },
+    })),
+  ]
+
+  if (tasks.length > 0) await renderTasks(tasks)
+
+  return results
+}
+
+function renderRestoreErrors(snapshot: ThemeSnapshot, failedResults: BulkUploadResult[]) {
+  renderError({
+    headline: `Some files of the snapshot ${snapshot.id} could not be restored to the theme '${snapshot.theme.name}'.`,
+    body: {
+      list: {
+        items: failedResults.map(({key, errors}) => `${key}: ${(errors ?? []).join(', ')}`),
+      },
+    },
+  })
+}
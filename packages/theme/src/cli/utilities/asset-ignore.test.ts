@@ -1,4 +1,4 @@
-import {applyIgnoreFilters} from './asset-ignore.js'
+import {applyIgnoreFilters, explainIgnore, parseIgnorePatterns} from './asset-ignore.js'
 import {ReadOptions, fileExists, readFile} from '@shopify/cli-kit/node/fs'
 import {joinPath} from '@shopify/cli-kit/node/path'
 import {test, describe, beforeEach, vi, expect} from 'vitest'
@@ -88,3 +88,82 @@ describe('applyIgnoreFilters', () => {
     ])
   })
 })
+
+describe('explainIgnore', () => {
+  function isIgnored(key: string, ignore: string[], only: string[] = []) {
+    const rules = {ignore: parseIgnorePatterns(ignore, '--ignore'), only: parseIgnorePatterns(only, '--only')}
+
+    return explainIgnore(key, rules).ignored
+  }
+
+  test('matches unanchored patterns in any directory', () => {
+    expect(isIgnored('assets/vendor/jquery.js', ['*.js'])).toBe(true)
+    expect(isIgnored('assets/vendor/jquery.js', ['vendor'])).toBe(true)
+    expect(isIgnored('assets/base.css', ['*.js'])).toBe(false)
+  })
+
+  test('matches patterns with a slash from the theme root', () => {
+    expect(isIgnored('sections/header.liquid', ['/sections/*.liquid'])).toBe(true)
+    expect(isIgnored('sections/header.liquid', ['sections/*'])).toBe(true)
+    expect(isIgnored('assets/sections/header.liquid', ['sections/*'])).toBe(false)
+  })
+
+  test('matches any number of directories with **', () => {
+    expect(isIgnored('templates/customers/account.json', ['**/account.json'])).toBe(true)
+    expect(isIgnored('templates/customers/account.json', ['templates/**/*.json'])).toBe(true)
+    expect(isIgnored('templates/index.json', ['templates/**/*.json'])).toBe(true)
+    expect(isIgnored('templates/customers/account.json', ['templates/**'])).toBe(true)
+    expect(isIgnored('templates/customers/account.json', ['templates/*.json'])).toBe(false)
+  })
+
+  test('matches characters with ? and ranges', () => {
+    expect(isIgnored('locales/en.json', ['locales/??.json'])).toBe(true)
+    expect(isIgnored('locales/en.default.json', ['locales/??.json'])).toBe(false)
+    expect(isIgnored('locales/fr.json', ['locales/[!e]*.json'])).toBe(true)
+    expect(isIgnored('locales/en.json', ['locales/[!e]*.json'])).toBe(false)
+  })
+
+  test('matches only directories with a trailing slash', () => {
+    expect(isIgnored('assets/drafts/hero.css', ['drafts/'])).toBe(true)
+    expect(isIgnored('assets/drafts', ['drafts/'])).toBe(false)
+  })
+
+  test('includes files again with negated patterns', () => {
+    expect(isIgnored('config/settings_data.json', ['config/*', '!config/settings_data.json'])).toBe(false)
+    expect(isIgnored('config/settings_schema.json', ['config/*', '!config/settings_data.json'])).toBe(true)
+    expect(isIgnored('config/settings_data.json', ['!config/settings_data.json', 'config/*'])).toBe(true)
+  })
+
+  test('does not include files again when their directory is ignored', () => {
+    expect(isIgnored('assets/drafts/hero.css', ['drafts/', '!hero.css'])).toBe(true)
+  })
+
+  test('treats escaped characters literally', () => {
+    expect(isIgnored('assets/#hero.css', ['\\#hero.css'])).toBe(true)
+    expect(isIgnored('assets/!hero.css', ['\\!hero.css'])).toBe(true)
+    expect(isIgnored('assets/hero.css', ['hero\\*.css'])).toBe(false)
+  })
+
+  test('ignores the files that do not match an --only pattern', () => {
+    expect(isIgnored('sections/header.liquid', [], ['sections/'])).toBe(false)
+    expect(isIgnored('assets/base.css', [], ['sections/'])).toBe(true)
+    expect(isIgnored('sections/header.liquid', ['header.liquid'], ['sections/'])).toBe(true)
+  })
+
+  test('returns the rule that decides whether a file is ignored', () => {
+    // Given
+    const rules = {
+      ignore: parseIgnorePatterns(['', '# Vendor code', 'vendor/'], '.shopifyignore', {lineNumbers: true}),
+      only: [],
+    }
+
+    // When
+    const explanation = explainIgnore('assets/vendor/jquery.js', rules)
+
+    // Then
+    expect(explanation).toEqual({
+      ignored: true,
+      rule: expect.objectContaining({pattern: 'vendor/', source: '.shopifyignore:3', directoryOnly: true}),
+    })
+  })
+})
@@ -1,40 +1,272 @@
 import {fileExists, readFile} from '@shopify/cli-kit/node/fs'
 import {outputDebug} from '@shopify/cli-kit/node/output'
 import {joinPath} from '@shopify/cli-kit/node/path'
-import {Checksum, ThemeFileSystem} from '@shopify/cli-kit/node/themes/types'
+import {Checksum, Key, ThemeFileSystem} from '@shopify/cli-kit/node/themes/types'
 
 const SHOPIFY_IGNORE = '.shopifyignore'
 
+/**
+ * Files that are never part of a theme, in the `.gitignore` format.
+ */
+const DEFAULT_IGNORE_PATTERNS = [
+  '.git',
+  '.vscode',
+  '.hg',
+  '.bzr',
+  '.svn',
+  '_darcs',
+  'CVS',
+  '*.sublime-project',
+  '*.sublime-workspace',
+  '.DS_Store',
+  '.sass-cache',
+  'Thumbs.db',
+  'desktop.ini',
+  'config.yml',
+  'node_modules/',
+  '/.prettierrc.json',
+]
+
+export const DEFAULT_IGNORE_RULES = parseIgnorePatterns(DEFAULT_IGNORE_PATTERNS, 'default')
+
+interface IgnoreOptions {
+  ignore?: string[]
+  only?: string[]
+}
+
+/**
+ * A pattern of a `.shopifyignore` file, the `--ignore` flag or the `--only`
+ * flag. Patterns follow the `.gitignore` format.
+ */
+export interface IgnoreRule {
+  /**
+   * The pattern, as it was written.
+   */
+  pattern: string
+
+  /**
+   * Where the pattern comes from (e.g. `.shopifyignore:3` or `--ignore`).
+   */
+  source: string
+
+  /**
+   * Whether the pattern starts with `!`, so it includes the files it matches
+   * again.
+   */
+  negated: boolean
+
+  /**
+   * Whether the pattern ends with `/`, so it only matches directories.
+   */
+  directoryOnly: boolean
+
+  regex: RegExp
+}
+
+/**
+ * The rules that decide which theme files the commands handle.
+ */
+export interface IgnoreRules {
+  /**
+   * The default rules, followed by the rules of the `.shopifyignore` file and
+   * the `--ignore` rules.
+   */
+  ignore: IgnoreRule[]
+
+  /**
+   * The `--only` rules. When there's any, only the files they match are
+   * handled.
+   */
+  only: IgnoreRule[]
+}
+
+/**
+ * Explains whether a file is ignored and which rule decided it.
+ */
+export interface IgnoreExplanation {
+  ignored: boolean
+
+  /**
+   * The last rule that matches the file. It's `undefined` when no rule
+   * matches the file, which ignores it only when there are `--only` rules.
+   */
+  rule?: IgnoreRule
+}
+
 export async function applyIgnoreFilters(
   themeChecksums: Checksum[],
   themeFileSystem: ThemeFileSystem,
-  options: {ignore?: string[]; only?: string[]} = {},
+  options: IgnoreOptions = {},
 ) {
-  const shopifyIgnore = await shopifyIgnoredPatterns(themeFileSystem)
+  const rules = await loadIgnoreRules(themeFileSystem.root, options)
+
+  return themeChecksums.filter(({key}) => {
+    const {ignored, rule} = explainIgnore(key, rules)
+
+    if (ignored) {
+      outputDebug(`Ignoring theme file ${key} via ${rule?.source ?? '--only'}...`)
+    }
 
-  return themeChecksums
-    .filter(filterBy(shopifyIgnore, '.shopifyignore'))
-    .filter(filterBy(options.ignore, '--ignore'))
-    .filter(filterBy(options.only, '--only', true))
+    return !ignored
+  })
 }
 
-function filterBy(patterns: string[] | undefined, type: string, invertMatch = false) {
-  return ({key}: Checksum) => {
-    if (!patterns) return true
+/**
+ * Loads the default rules and the rules of the `.shopifyignore` file in the
+ * theme directory, along with the rules of the `--ignore` and `--only` flags.
+ */
+export async function loadIgnoreRules(root: string, options: IgnoreOptions = {}): Promise<IgnoreRules> {
+  const shopifyIgnoreRules = await shopifyIgnoredRules(root)
 
-    const match = patterns.some((pattern) => key.match(pattern))
-    const shouldIgnore = invertMatch ? !match : match
+  return {
+    ignore: [...DEFAULT_IGNORE_RULES, ...shopifyIgnoreRules, ...parseIgnorePatterns(options.ignore ?? [], '--ignore')],
+    only: parseIgnorePatterns(options.only ?? [], '--only'),
+  }
+}
 
-    if (shouldIgnore) {
-      outputDebug(`Ignoring theme file ${key} via ${type}...`)
-      return false
-    }
+export function explainIgnore(key: Key, {ignore, only}: IgnoreRules): IgnoreExplanation {
+  const ignoreRule = findMatchingRule(key, ignore)
+
+  if (ignoreRule && !ignoreRule.negated) {
+    return {ignored: true, rule: ignoreRule}
+  }
+
+  if (only.length === 0) {
+    return {ignored: false, rule: ignoreRule}
+  }
+
+  const onlyRule = findMatchingRule(key, only)
+
+  if (!onlyRule || onlyRule.negated) {
+    return {ignored: true, rule: onlyRule}
+  }
+
+  return {ignored: false, rule: onlyRule}
+}
+
+/**
+ * Parses patterns in the `.gitignore` format: blank lines and lines starting
+ * with `#` are skipped, `!` negates a pattern, a trailing `/` only matches
+ * directories, and a leading or middle `/` anchors the pattern to the theme
+ * root. `*`, `?`, `[...]` and `**` work as in `.gitignore` files.
+ *
+ * @param patterns - the patterns, one per line
+ * @param source - where the patterns come from; when `lineNumbers` is set,
+ * each rule gets the line number of its pattern (e.g. `.shopifyignore:3`)
+ */
+export function parseIgnorePatterns(patterns: string[], source: string, {lineNumbers = false} = {}): IgnoreRule[] {
+  return patterns
+    .map((pattern, index) => buildIgnoreRule(pattern, lineNumbers ? `${source}:${index + 1}` : source))
+    .filter((rule): rule is IgnoreRule => Boolean(rule))
+}
+
+/**
+ * Finds the last rule that matches a file or one of its directories.
+ *
+ * As in `.gitignore` files, a file can't be included again when one of its
+ * directories is ignored.
+ */
+export function findMatchingRule(key: Key, rules: IgnoreRule[]) {
+  const segments = key.split('/')
+
+  for (let index = 1; index < segments.length; index++) {
+    const directory = segments.slice(0, index).join('/')
+    const rule = lastMatchingRule(directory, rules, true)
+
+    if (rule && !rule.negated) return rule
+  }
+
+  return lastMatchingRule(key, rules, false)
+}
+
+function lastMatchingRule(path: string, rules: IgnoreRule[], isDirectory: boolean) {
+  for (let index = rules.length - 1; index >= 0; index--) {
+    const rule = rules[index]!
+
+    if (rule.directoryOnly && !isDirectory) continue
+    if (rule.regex.test(path)) return rule
+  }
+}
+
+function buildIgnoreRule(line: string, source: string): IgnoreRule | undefined {
+  // Trailing spaces are ignored unless they're escaped
+  let pattern = line.trimStart().replace(/(?<!\\)\s+$/, '')
+
+  if (pattern === '' || pattern.startsWith('#')) return
 
-    return true
+  const negated = pattern.startsWith('!')
+
+  if (negated) {
+    pattern = pattern.slice(1)
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.slice(1)
   }
+
+  const directoryOnly = pattern.endsWith('/')
+  if (directoryOnly) pattern = pattern.slice(0, -1)
+
+  const anchored = pattern.includes('/')
+  if (pattern.startsWith('/')) pattern = pattern.slice(1)
+
+  const regex = new RegExp(`^${anchored ? '' : '(?:.*/)?'}${globToRegexSource(pattern)}$`)
+
+  return {pattern: line.trim(), source, negated, directoryOnly, regex}
+}
+
+function globToRegexSource(glob: string) {
+  let source = ''
+  let index = 0
+
+  while (index < glob.length) {
+    const char = glob[index]!
+
+    if (char === '*' && glob[index + 1] === '*') {
+      const atSegmentStart = index === 0 || glob[index - 1] === '/'
+      const atSegmentEnd = index + 2 === glob.length || glob[index + 2] === '/'
+
+      if (atSegmentStart && index + 2 === glob.length) {
+        // `a/**` matches everything inside `a`
+        source += '.*'
+        index += 2
+      } else if (atSegmentStart && atSegmentEnd) {
+        // `**/a` and `a/**/b` match zero or more directories
+        source += '(?:.*/)?'
+        index += 3
+      } else {
+        source += '[^/]*'
+        index += 2
+      }
+    } else if (char === '*') {
+      source += '[^/]*'
+      index += 1
+    } else if (char === '?') {
+      source += '[^/]'
+      index += 1
+    } else if (char === '[' && glob.indexOf(']', index + 2) !== -1) {
+      const end = glob.indexOf(']', index + 2)
+      const range = glob
+        .slice(index + 1, end)
+        .replace(/^!/, '^')
+        .replace(/\\/g, '\\\\')
+      source += `[${range}]`
+      index = end + 1
+    } else if (char === '\\' && index + 1 < glob.length) {
+      source += escapeRegex(glob[index + 1]!)
+      index += 2
+    } else {
+      source += escapeRegex(char)
+      index += 1
+    }
+  }
+
+  return source
+}
+
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
 }
 
-async function shopifyIgnoredPatterns({root}: ThemeFileSystem) {
+async function shopifyIgnoredRules(root: string) {
   const shopifyIgnorePath = joinPath(root, SHOPIFY_IGNORE)
 
   const shopifyIgnoreExists = await fileExists(shopifyIgnorePath)
@@ -42,8 +274,5 @@ async function shopifyIgnoredPatterns({root}: ThemeFileSystem) {
 
   const content = await readFile(shopifyIgnorePath, {encoding: 'utf8'})
 
-  return content
-    .split(/(\r\n|\r|\n)/)
-    .map((line) => line.trim())
-    .filter((line) => line && !line.startsWith('#'))
+  return parseIgnorePatterns(content.split(/\r\n|\r|\n/), SHOPIFY_IGNORE, {lineNumbers: true})
 }
@@ -0,0 +1,135 @@
+import {copyTheme} from './theme-copier.js'
+import {MAX_BATCH_BYTESIZE, MAX_BATCH_FILE_COUNT} from './theme-uploader.js'
+import {
+  bulkUploadThemeAssets,
+  deleteThemeAsset,
+  fetchChecksums,
+  fetchThemeAsset,
+} from '@shopify/cli-kit/node/themes/api'
+import {buildTheme} from '@shopify/cli-kit/node/themes/factories'
+import {Checksum} from '@shopify/cli-kit/node/themes/types'
+import {test, describe, expect, vi, beforeEach} from 'vitest'
+
+vi.mock('@shopify/cli-kit/node/themes/api')
+
+describe('copyTheme', () => {
+  const source = {
+    theme: buildTheme({id: 1, name: 'Staging', role: 'unpublished'})!,
+    session: {token: 'staging-token', storeFqdn: 'staging.myshopify.com'},
+  }
+  const target = {
+    theme: buildTheme({id: 2, name: 'Production', role: 'unpublished'})!,
+    session: {token: 'production-token', storeFqdn: 'production.myshopify.com'},
+  }
+
+  function mockChecksums(sourceChecksums: Checksum[], targetChecksums: Checksum[]) {
+    vi.mocked(fetchChecksums).mockImplementation(async (id) =>
+      id === source.theme.id ? sourceChecksums : targetChecksums,
+    )
+  }
+
+  beforeEach(() => {
+    vi.mocked(fetchThemeAsset).mockImplementation(async (_id, key) => {
+      return key.endsWith('.png') ? {key, checksum: '', attachment: 'aW1hZ2U='} : {key, checksum: '', value: 'content'}
+    })
+    vi.mocked(bulkUploadThemeAssets).mockImplementation(async (_id, assets) =>
+      assets.map((asset) => ({key: asset.key!, success: true, errors: [], asset: {key: asset.key!, checksum: ''}})),
+    )
+  })
+
+  test('copies the modified files from the source theme to the target theme', async () => {
+    // Given
+    mockChecksums(
+      [
+        {key: 'assets/logo.png', checksum: '1'},
+        {key: 'sections/header.liquid', checksum: '2'},
+        {key: 'sections/footer.liquid', checksum: '3'},
+      ],
+      [{key: 'sections/footer.liquid', checksum: '3'}],
+    )
+
+    // When
+    const results = await copyTheme(source, target, {})
+
+    // Then
+    expect(fetchThemeAsset).toHaveBeenCalledWith(1, 'sections/header.liquid', source.session)
+    expect(fetchThemeAsset).not.toHaveBeenCalledWith(1, 'sections/footer.liquid', source.session)
+    expect(bulkUploadThemeAssets).toHaveBeenNthCalledWith(
+      1,
+      2,
+      [{key: 'sections/header.liquid', value: 'content'}],
+      target.session,
+    )
+    expect(bulkUploadThemeAssets).toHaveBeenNthCalledWith(
+      2,
+      2,
+      [{key: 'assets/logo.png', attachment: 'aW1hZ2U='}],
+      target.session,
+    )
+    expect(results.map(({key}) => key)).toEqual(['sections/header.liquid', 'assets/logo.png'])
+  })
+
+  test('deletes the files that only exist in the target theme', async () => {
+    // Given
+    mockChecksums([], [{key: 'sections/old.liquid', checksum: '1'}])
+
+    // When
+    await copyTheme(source, target, {})
+
+    // Then
+    expect(deleteThemeAsset).toHaveBeenCalledWith(2, 'sections/old.liquid', target.session)
+  })
+
+  test('does not delete files when nodelete is set', async () => {
+    // Given
+    mockChecksums([], [{key: 'sections/old.liquid', checksum: '1'}])
+
+    // When
+    await copyTheme(source, target, {nodelete: true})
+
+    // Then
+    expect(deleteThemeAsset).not.toHaveBeenCalled()
+  })
+
+  test('copies the files in batches', async () => {
+    // Given
+    const keys = Array.from({length: MAX_BATCH_FILE_COUNT + 1}, (_, index) => `snippets/${index}.liquid`)
+    mockChecksums(
+      keys.map((key) => ({key, checksum: '1'})),
+      [],
+    )
+
+    // When
+    await copyTheme(source, target, {})
+
+    // Then
+    expect(bulkUploadThemeAssets).toHaveBeenCalledTimes(2)
+    expect(vi.mocked(bulkUploadThemeAssets).mock.calls[0]![1]).toHaveLength(MAX_BATCH_FILE_COUNT)
+  })
+  test('keeps the results of a retried batch once', async () => {
+    // Given
+    mockChecksums(
+      [
+        {key: 'snippets/first.liquid', checksum: '1'},
+        {key: 'snippets/second.liquid', checksum: '2'},
+      ],
+      [],
+    )
+    vi.mocked(fetchThemeAsset).mockImplementation(async (_id, key) => ({
+      key,
+      checksum: '',
+      value: 'x'.repeat(MAX_BATCH_BYTESIZE),
+    }))
+    const uploadedAsset = (key: string) => ({key, success: true, errors: [], asset: {key, checksum: ''}})
+    vi.mocked(bulkUploadThemeAssets)
+      .mockResolvedValueOnce([uploadedAsset('snippets/first.liquid')])
+      .mockRejectedValueOnce(new Error('Service unavailable'))
+
+    // When
+    const results = await copyTheme(source, target, {})
+
+    // Then
+    expect(bulkUploadThemeAssets).toHaveBeenCalledTimes(4)
+    expect(results.map(({key}) => key)).toEqual(['snippets/first.liquid', 'snippets/second.liquid'])
+  })
+})
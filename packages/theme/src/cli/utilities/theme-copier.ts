@@ -0,0 +1,120 @@
+import {
+  MAX_BATCH_FILE_COUNT,
+  MAX_UPLOAD_RETRY_COUNT,
+  UploadableFile,
+  batchFiles,
+  partitionThemeFiles,
+} from './theme-uploader.js'
+import {rejectLiquidChecksums} from './asset-checksum.js'
+import {AdminSession} from '@shopify/cli-kit/node/session'
+import {
+  bulkUploadThemeAssets,
+  deleteThemeAsset,
+  fetchChecksums,
+  fetchThemeAsset,
+} from '@shopify/cli-kit/node/themes/api'
+import {BulkUploadResult, Checksum, Key, Theme, ThemeAsset} from '@shopify/cli-kit/node/themes/types'
+import {renderTasks, Task} from '@shopify/cli-kit/node/ui'
+import {chunk} from '@shopify/cli-kit/common/array'
+
+/**
+ * A theme in a store, along with the session to access it.
+ */
+export interface StoreTheme {
+  theme: Theme
+  session: AdminSession
+}
+
+interface CopyOptions {
+  nodelete?: boolean
+}
+
+/**
+ * Copies the files of a theme into another theme, which may be in a
+ * different store.
+ *
+ * Files are fetched from the source theme and uploaded to the target theme
+ * batch by batch, so they are never written to disk. Files with the same
+ * checksum on both themes are skipped, and the files that only exist in the
+ * target theme are deleted (unless `nodelete` is set).
+ *
+ * @returns the {@link BulkUploadResult} of every copied file
+ */
+export async function copyTheme(source: StoreTheme, target: StoreTheme, options: CopyOptions) {
+  const results: BulkUploadResult[] = []
+
+  const [sourceChecksums, targetChecksums] = await Promise.all([
+    fetchChecksums(source.theme.id, source.session).then(rejectLiquidChecksums),
+    fetchChecksums(target.theme.id, target.session).then(rejectLiquidChecksums),
+  ])
+
+  const targetChecksumValues = new Map(targetChecksums.map(({key, checksum}) => [key, checksum]))
+  const sourceKeys = new Set(sourceChecksums.map(({key}) => key))
+
+  const copy = sourceChecksums.filter(({key, checksum}) => targetChecksumValues.get(key) !== checksum)
+  const deletions = options.nodelete ? [] : targetChecksums.filter(({key}) => !sourceKeys.has(key))
+  const deleteKeys = deletions.map(({key}) => key)
+
+  const tasks = [...buildCopyTasks(copy, source, target, results), ...buildDeleteTasks(deleteKeys, target)]
+
+  if (tasks.length > 0) {
+    await renderTasks(tasks)
+  }
+
+  return results
+}
+
+function buildCopyTasks(files: Checksum[], source: StoreTheme, target: StoreTheme, results: BulkUploadResult[]) {
+  const batches = partitionThemeFiles(files).flatMap((group) => chunk(group, MAX_BATCH_FILE_COUNT))
+  const {theme, session} = target
+
+  let copiedCount = 0
+
+  return batches.map((batch): Task => {
+    copiedCount += batch.length
+    const progress = Math.round((copiedCount / files.length) * 100)
+
+    return {
+      title: `Copying theme "${source.theme.name}" (#${source.theme.id}) to "${theme.name}" (#${theme.id}) on ${session.storeFqdn} [${progress}%]`,
+      retry: MAX_UPLOAD_RETRY_COUNT,
+      task: async () => {
+        const assets = await Promise.all(batch.map(({key}) => fetchThemeAsset(source.theme.id, key, source.session)))
+        const uploadableFiles = assets.filter((asset): asset is ThemeAsset => Boolean(asset)).map(uploadableFile)
+        // A retried task uploads the whole batch again, so only the results of the last attempt are kept
+        const taskResults: BulkUploadResult[] = []
+
+        for (const uploadBatch of batchFiles(uploadableFiles)) {
+          // eslint-disable-next-line no-await-in-loop
+          const batchResults = await bulkUploadThemeAssets(
+            theme.id,
+            uploadBatch.map(({params}) => params),
+            session,
+          )
+          taskResults.push(...batchResults)
+        }
+
+        results.push(...taskResults)
+      },
+    }
+  })
+}
+
+function buildDeleteTasks(keys: Key[], {theme, session}: StoreTheme): Task[] {
+  return keys.map((key) => {
+    return {
+      title: `Cleaning the theme "${theme.name}" (#${theme.id}) (removing ${key})`,
+      task: async () => {
+        await deleteThemeAsset(theme.id, key, session)
+      },
+    }
+  })
+}
+
+function uploadableFile({key, value, attachment}: ThemeAsset): UploadableFile {
+  if (attachment) {
+    return {key, size: Buffer.byteLength(attachment), params: {key, attachment}}
+  }
+
+  const content = value ?? ''
+  return {key, size: Buffer.byteLength(content), params: {key, value: content}}
+}
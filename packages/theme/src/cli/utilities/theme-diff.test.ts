@@ -0,0 +1,143 @@
+import {diffTheme} from './theme-diff.js'
+import {readThemeFile} from './theme-fs.js'
+import {fetchThemeAsset} from '@shopify/cli-kit/node/themes/api'
+import {buildTheme} from '@shopify/cli-kit/node/themes/factories'
+import {ThemeFileSystem} from '@shopify/cli-kit/node/themes/types'
+import {test, describe, expect, vi} from 'vitest'
+
+vi.mock('./theme-fs.js', async (realImport) => {
+  const realModule = await realImport<typeof import('./theme-fs.js')>()
+  const mockModule = {readThemeFile: vi.fn()}
+
+  return {...realModule, ...mockModule}
+})
+vi.mock('@shopify/cli-kit/node/themes/api')
+
+describe('diffTheme', () => {
+  const theme = buildTheme({id: 1, name: 'Theme', role: 'unpublished'})!
+  const adminSession = {token: '', storeFqdn: 'my-shop.myshopify.com'}
+
+  function themeFileSystem(files: {key: string; checksum: string}[]) {
+    return {root: 'tmp', files: new Map(files.map((file) => [file.key, file]))} as ThemeFileSystem
+  }
+
+  test('returns the added and removed files without fetching them', async () => {
+    // Given
+    const remote = [
+      {key: 'sections/remote.liquid', checksum: '1'},
+      {key: 'sections/same.liquid', checksum: '2'},
+    ]
+    const local = themeFileSystem([
+      {key: 'sections/local.liquid', checksum: '3'},
+      {key: 'sections/same.liquid', checksum: '2'},
+    ])
+
+    // When
+    const changes = await diffTheme(theme, adminSession, remote, local)
+
+    // Then
+    expect(changes).toEqual([
+      {key: 'sections/local.liquid', status: 'removed', local: {checksum: '3'}},
+      {key: 'sections/remote.liquid', status: 'added', remote: {checksum: '1'}},
+    ])
+    expect(fetchThemeAsset).not.toHaveBeenCalled()
+  })
+
+  test('returns a unified diff for modified text files', async () => {
+    // Given
+    const key = 'sections/header.liquid'
+    vi.mocked(readThemeFile).mockResolvedValue('<h1>\n  Hello\n</h1>\n')
+    vi.mocked(fetchThemeAsset).mockResolvedValue({key, checksum: '2', value: '<h1>\n  Hello world\n</h1>\n'})
+
+    // When
+    const changes = await diffTheme(
+      theme,
+      adminSession,
+      [{key, checksum: '2'}],
+      themeFileSystem([{key, checksum: '1'}]),
+    )
+
+    // Then
+    expect(changes).toHaveLength(1)
+    expect(changes[0]).toMatchObject({key, status: 'modified', local: {checksum: '1'}, remote: {checksum: '2'}})
+    expect(changes[0]!.patch).toContain('--- local/sections/header.liquid')
+    expect(changes[0]!.patch).toContain('+++ remote/sections/header.liquid')
+    expect(changes[0]!.patch).toContain('-  Hello\n+  Hello world\n')
+  })
+
+  test('ignores JSON files that only differ in whitespace and escaped slashes', async () => {
+    // Given
+    const key = 'templates/index.json'
+    vi.mocked(readThemeFile).mockResolvedValue('{\n  "url": "/collections"\n}\n')
+    vi.mocked(fetchThemeAsset).mockResolvedValue({key, checksum: '2', value: '{"url":"\\/collections"}'})
+
+    // When
+    const changes = await diffTheme(
+      theme,
+      adminSession,
+      [{key, checksum: '2'}],
+      themeFileSystem([{key, checksum: '1'}]),
+    )
+
+    // Then
+    expect(changes).toEqual([])
+  })
+
+  test('returns a diff of the JSON files formatted the same way on both sides', async () => {
+    // Given
+    const key = 'templates/index.json'
+    vi.mocked(readThemeFile).mockResolvedValue('{\n    "title": "Home",\n    "url": "/collections"\n}\n')
+    vi.mocked(fetchThemeAsset).mockResolvedValue({key, checksum: '2', value: '{"title":"Home","url":"\\/products"}'})
+
+    // When
+    const changes = await diffTheme(
+      theme,
+      adminSession,
+      [{key, checksum: '2'}],
+      themeFileSystem([{key, checksum: '1'}]),
+    )
+
+    // Then
+    expect(changes[0]!.patch).toContain(
+      ' {\n   "title": "Home",\n-  "url": "/collections"\n+  "url": "/products"\n }\n',
+    )
+  })
+
+  test('returns the size and checksum changes of binary files', async () => {
+    // Given
+    const key = 'assets/logo.png'
+    vi.mocked(readThemeFile).mockResolvedValue('abc')
+    vi.mocked(fetchThemeAsset).mockResolvedValue({
+      key,
+      checksum: '2',
+      attachment: Buffer.from('abcdef').toString('base64'),
+    })
+
+    // When
+    const changes = await diffTheme(
+      theme,
+      adminSession,
+      [{key, checksum: '2'}],
+      themeFileSystem([{key, checksum: '1'}]),
+    )
+
+    // Then
+    expect(changes).toEqual([
+      {key, status: 'modified', local: {checksum: '1', size: 3}, remote: {checksum: '2', size: 6}},
+    ])
+  })
+
+  test('compares only the files that match the filters', async () => {
+    // Given
+    const remote = [
+      {key: 'sections/header.liquid', checksum: '1'},
+      {key: 'snippets/icon.liquid', checksum: '2'},
+    ]
+
+    // When
+    const changes = await diffTheme(theme, adminSession, remote, themeFileSystem([]), {only: ['sections']})
+
+    // Then
+    expect(changes.map(({key}) => key)).toEqual(['sections/header.liquid'])
+  })
+})
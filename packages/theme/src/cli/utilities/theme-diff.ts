@@ -0,0 +1,144 @@
+import {isJson, isTextFile, readThemeFile} from './theme-fs.js'
+import {applyIgnoreFilters} from './asset-ignore.js'
+import {normalizeJson} from './asset-checksum.js'
+import {AdminSession} from '@shopify/cli-kit/node/session'
+import {fetchThemeAsset} from '@shopify/cli-kit/node/themes/api'
+import {Checksum, Key, Theme, ThemeAsset, ThemeFileSystem} from '@shopify/cli-kit/node/themes/types'
+import {createTwoFilesPatch} from 'diff'
+
+/**
+ * The version of a file on one side of the comparison.
+ */
+export interface ThemeFileVersion {
+  checksum: string
+  size?: number
+}
+
+/**
+ * A file that differs between the local directory and the remote theme.
+ *
+ * The comparison goes from the local directory to the remote theme, so
+ * `added` files only exist in the remote theme and `removed` files only exist
+ * in the local directory.
+ */
+export interface ThemeFileChange {
+  key: Key
+  status: 'added' | 'removed' | 'modified'
+  local?: ThemeFileVersion
+  remote?: ThemeFileVersion
+
+  /**
+   * The unified diff of a modified text file.
+   */
+  patch?: string
+}
+
+/**
+ * Compares the files of a local directory with the files of a remote theme.
+ *
+ * Only the modified files are fetched. JSON files are compared after being
+ * normalized, so changes that only touch whitespace are not reported.
+ */
+export async function diffTheme(
+  theme: Theme,
+  session: AdminSession,
+  remoteChecksums: Checksum[],
+  themeFileSystem: ThemeFileSystem,
+  options: {only?: string[]; ignore?: string[]} = {},
+): Promise<ThemeFileChange[]> {
+  const remoteFiles = new Map(remoteChecksums.map((checksum) => [checksum.key, checksum]))
+  const localFiles = themeFileSystem.files
+
+  const keys = [...new Set([...remoteFiles.keys(), ...localFiles.keys()])].sort()
+  const checksums = keys.map((key) => remoteFiles.get(key) ?? localFiles.get(key)!)
+  const filteredChecksums = await applyIgnoreFilters(checksums, themeFileSystem, options)
+
+  const changes = await Promise.all(
+    filteredChecksums.map(async ({key}) => {
+      const local = localFiles.get(key)
+      const remote = remoteFiles.get(key)
+
+      if (!local) return {key, status: 'added', remote: {checksum: remote!.checksum}} as ThemeFileChange
+      if (!remote) return {key, status: 'removed', local: {checksum: local.checksum}} as ThemeFileChange
+      if (local.checksum === remote.checksum) return
+
+      return diffThemeFile(theme, session, themeFileSystem.root, local, remote)
+    }),
+  )
+
+  return changes.filter((change): change is ThemeFileChange => Boolean(change))
+}
+
+async function diffThemeFile(
+  theme: Theme,
+  session: AdminSession,
+  root: string,
+  local: Checksum,
+  remote: Checksum,
+): Promise<ThemeFileChange | undefined> {
+  const key = local.key
+  const [localContent, remoteAsset] = await Promise.all([
+    readThemeFile(root, key),
+    fetchThemeAsset(theme.id, key, session),
+  ])
+
+  if (!isTextFile(key)) {
+    const localSize = localContent ? Buffer.byteLength(localContent) : 0
+    const remoteSize = remoteAsset ? assetContent(remoteAsset).byteLength : 0
+
+    return {
+      key,
+      status: 'modified',
+      local: {checksum: local.checksum, size: localSize},
+      remote: {checksum: remote.checksum, size: remoteSize},
+    }
+  }
+
+  const localText = textContent(localContent?.toString() ?? '')
+  const remoteText = textContent(remoteAsset ? assetContent(remoteAsset).toString() : '')
+
+  if (localText === remoteText) return
+  if (isJson(key) && jsonContent(localText) === jsonContent(remoteText)) return
+
+  const [localPatchText, remotePatchText] = isJson(key)
+    ? [formattedJson(localText), formattedJson(remoteText)]
+    : [localText, remoteText]
+
+  return {
+    key,
+    status: 'modified',
+    local: {checksum: local.checksum},
+    remote: {checksum: remote.checksum},
+    patch: createTwoFilesPatch(`local/${key}`, `remote/${key}`, localPatchText, remotePatchText),
+  }
+}
+
+function assetContent({attachment, value}: ThemeAsset) {
+  return attachment ? Buffer.from(attachment, 'base64') : Buffer.from(value ?? '')
+}
+
+function textContent(content: string) {
+  return content.replace(/\r\n/g, '\n')
+}
+
+/**
+ * The Assets API escapes forward slashes in JSON files, so they are unescaped
+ * before comparing the normalized content.
+ */
+function jsonContent(content: string) {
+  return normalizeJson(content).replace(/\\\//g, '/')
+}
+
+/**
+ * Serializes both sides of a JSON file the same way, so the patch shows the
+ * values that changed rather than how each side is formatted. The content is
+ * kept as is when it isn't valid JSON.
+ */
+function formattedJson(content: string) {
+  try {
+    return `${JSON.stringify(JSON.parse(content), null, 2)}\n`
+  } catch (error) {
+    if (error instanceof SyntaxError) return content
+    throw error
+  }
+}
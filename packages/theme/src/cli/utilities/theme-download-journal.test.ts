@@ -0,0 +1,59 @@
+import {appendDownloadJournal, clearDownloadJournal, readDownloadJournal} from './theme-download-journal.js'
+import {buildTheme} from '@shopify/cli-kit/node/themes/factories'
+import {appendFile, inTemporaryDirectory} from '@shopify/cli-kit/node/fs'
+import {joinPath} from '@shopify/cli-kit/node/path'
+import {test, describe, expect} from 'vitest'
+
+describe('theme-download-journal', () => {
+  const theme = buildTheme({id: 1, name: 'Theme', role: 'unpublished'})!
+
+  test('reads the files recorded in the journal of a theme', async () => {
+    await inTemporaryDirectory(async (root) => {
+      // Given
+      await appendDownloadJournal(root, theme, {key: 'sections/header.liquid', checksum: '1', localChecksum: '1'})
+      await appendDownloadJournal(root, theme, {key: 'sections/footer.liquid', checksum: '2', localChecksum: '3'})
+
+      // When
+      const journal = await readDownloadJournal(root, theme)
+
+      // Then
+      expect(journal).toEqual(
+        new Map([
+          ['sections/header.liquid', {checksum: '1', localChecksum: '1'}],
+          ['sections/footer.liquid', {checksum: '2', localChecksum: '3'}],
+        ]),
+      )
+      await expect(readDownloadJournal(root, buildTheme({id: 2, name: 'Other', role: 'live'})!)).resolves.toEqual(
+        new Map(),
+      )
+    })
+  })
+
+  test('ignores the incomplete lines of the journal and the lines without a local checksum', async () => {
+    await inTemporaryDirectory(async (root) => {
+      // Given
+      await appendDownloadJournal(root, theme, {key: 'sections/header.liquid', checksum: '1', localChecksum: '1'})
+      await appendFile(joinPath(root, '.shopify/theme-downloads/1.jsonl'), '{"key":"sections/old","checksum":"1"}\n')
+      await appendFile(joinPath(root, '.shopify/theme-downloads/1.jsonl'), '{"key":"sections/foo')
+
+      // When
+      const journal = await readDownloadJournal(root, theme)
+
+      // Then
+      expect(journal).toEqual(new Map([['sections/header.liquid', {checksum: '1', localChecksum: '1'}]]))
+    })
+  })
+
+  test('clears the journal', async () => {
+    await inTemporaryDirectory(async (root) => {
+      // Given
+      await appendDownloadJournal(root, theme, {key: 'sections/header.liquid', checksum: '1', localChecksum: '1'})
+
+      // When
+      await clearDownloadJournal(root, theme)
+
+      // Then
+      await expect(readDownloadJournal(root, theme)).resolves.toEqual(new Map())
+    })
+  })
+})
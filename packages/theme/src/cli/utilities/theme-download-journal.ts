@@ -0,0 +1,81 @@
+import {Checksum, Key, Theme} from '@shopify/cli-kit/node/themes/types'
+import {appendFile, fileExists, mkdir, readFile, removeFile} from '@shopify/cli-kit/node/fs'
+import {dirname, joinPath} from '@shopify/cli-kit/node/path'
+import {outputDebug} from '@shopify/cli-kit/node/output'
+
+const JOURNAL_DIRECTORY = '.shopify/theme-downloads'
+
+/**
+ * A file that `theme pull` downloaded.
+ */
+export interface DownloadJournalEntry {
+  /**
+   * The checksum of the remote file.
+   */
+  checksum: string
+
+  /**
+   * The checksum of the local file once downloaded, which differs from the
+   * remote one when the file was merged.
+   */
+  localChecksum: string
+}
+
+/**
+ * Reads the files that an interrupted `theme pull` already downloaded from
+ * a theme.
+ *
+ * @returns the entry of each downloaded file, by key
+ */
+export async function readDownloadJournal(root: string, theme: Theme): Promise<Map<Key, DownloadJournalEntry>> {
+  const journalPath = downloadJournalPath(root, theme)
+  const entries = new Map<Key, DownloadJournalEntry>()
+
+  if (!(await fileExists(journalPath))) return entries
+
+  const lines = (await readFile(journalPath)).split('\n').filter((line) => line.trim() !== '')
+
+  lines.forEach((line) => {
+    try {
+      const {key, checksum, localChecksum} = JSON.parse(line) as Checksum & Partial<DownloadJournalEntry>
+      // The lines without the local checksum can't tell whether the local file changed since
+      if (localChecksum !== undefined) entries.set(key, {checksum, localChecksum})
+      // eslint-disable-next-line no-catch-all/no-catch-all
+    } catch {
+      // The last line may be incomplete when the process was killed while writing it
+      outputDebug(`Ignoring an invalid line of the download journal ${journalPath}...`)
+    }
+  })
+
+  return entries
+}
+
+/**
+ * Records a file as downloaded, so a rerun of an interrupted `theme pull`
+ * doesn't download it again.
+ */
+export async function appendDownloadJournal(
+  root: string,
+  theme: Theme,
+  {key, checksum, localChecksum}: Checksum & DownloadJournalEntry,
+) {
+  const journalPath = downloadJournalPath(root, theme)
+
+  await mkdir(dirname(journalPath))
+  await appendFile(journalPath, `${JSON.stringify({key, checksum, localChecksum})}\n`)
+}
+
+/**
+ * Removes the journal once every file of the `theme pull` is downloaded.
+ */
+export async function clearDownloadJournal(root: string, theme: Theme) {
+  const journalPath = downloadJournalPath(root, theme)
+
+  if (await fileExists(journalPath)) {
+    await removeFile(journalPath)
+  }
+}
+
+function downloadJournalPath(root: string, theme: Theme) {
+  return joinPath(root, JOURNAL_DIRECTORY, `${theme.id}.jsonl`)
+}
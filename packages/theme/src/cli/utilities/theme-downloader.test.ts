@@ -1,10 +1,16 @@
-import {downloadTheme} from './theme-downloader.js'
-import {removeThemeFile, writeThemeFile} from './theme-fs.js'
+import {MAX_CONCURRENT_DOWNLOADS, buildPullPlan, downloadTheme, transferProgress} from './theme-downloader.js'
+import {readThemeFile, removeThemeFile, writeThemeFile} from './theme-fs.js'
+import {readSyncedFile, saveSyncedFiles} from './theme-history.js'
+import {appendDownloadJournal, clearDownloadJournal, readDownloadJournal} from './theme-download-journal.js'
+import {checksum as fileChecksum} from './asset-checksum.js'
 import {fetchThemeAsset} from '@shopify/cli-kit/node/themes/api'
 import {Checksum, ThemeFileSystem} from '@shopify/cli-kit/node/themes/types'
-import {test, describe, expect, vi} from 'vitest'
+import {test, describe, expect, vi, beforeEach} from 'vitest'
 
 vi.mock('./theme-fs.js')
+vi.mock('./theme-history.js')
+vi.mock('./theme-download-journal.js')
+vi.mock('./asset-checksum.js')
 vi.mock('@shopify/cli-kit/node/themes/api')
 
 describe('theme-downloader', () => {
@@ -13,6 +19,10 @@ describe('theme-downloader', () => {
     const adminSession = {token: '', storeFqdn: ''}
     const downloadOptions = {nodelete: false}
 
+    beforeEach(() => {
+      vi.mocked(readDownloadJournal).mockResolvedValue(new Map())
+    })
+
     test('deletes new local files', async () => {
       // Given
       const remote = [{key: 'keepme', checksum: '1'}]
@@ -66,5 +76,193 @@ describe('theme-downloader', () => {
       expect(vi.mocked(writeThemeFile)).toHaveBeenCalledOnce()
       expect(vi.mocked(writeThemeFile)).toHaveBeenCalledWith('tmp', fileToDownload)
     })
+
+    test('records the downloaded files in the journal and clears it when the download completes', async () => {
+      // Given
+      const file = {key: 'sections/header.liquid', checksum: '1'}
+      const local = {root: 'tmp', files: new Map()} as ThemeFileSystem
+      vi.mocked(fetchThemeAsset).mockResolvedValue({...file, value: 'header'})
+      vi.mocked(fileChecksum).mockResolvedValue('1')
+
+      // When
+      await downloadTheme(remoteTheme, adminSession, [file], local, downloadOptions)
+
+      // Then
+      expect(fileChecksum).toHaveBeenCalledWith('tmp', 'sections/header.liquid')
+      expect(appendDownloadJournal).toHaveBeenCalledWith('tmp', remoteTheme, {...file, localChecksum: '1'})
+      expect(clearDownloadJournal).toHaveBeenCalledWith('tmp', remoteTheme)
+    })
+
+    test('resumes an interrupted download without downloading the files in the journal again', async () => {
+      // Given
+      const remote = [
+        {key: 'templates/merged.json', checksum: '1'},
+        {key: 'sections/changed.liquid', checksum: '2'},
+        {key: 'sections/pending.liquid', checksum: '3'},
+      ]
+      const local = {root: 'tmp', files: new Map([['templates/merged.json', {checksum: 'merged'}]])} as ThemeFileSystem
+      vi.mocked(readDownloadJournal).mockResolvedValue(
+        new Map([
+          ['templates/merged.json', {checksum: '1', localChecksum: 'merged'}],
+          ['sections/changed.liquid', {checksum: 'outdated', localChecksum: 'outdated'}],
+        ]),
+      )
+      vi.mocked(fetchThemeAsset).mockImplementation(async (_id, key) => ({key, checksum: '', value: ''}))
+
+      // When
+      await downloadTheme(remoteTheme, adminSession, remote, local, downloadOptions)
+
+      // Then
+      expect(fetchThemeAsset).toHaveBeenCalledTimes(2)
+      expect(fetchThemeAsset).not.toHaveBeenCalledWith(remoteTheme.id, 'templates/merged.json', adminSession)
+    })
+
+    test('downloads the files in the journal again when they were edited or deleted locally since', async () => {
+      // Given
+      const remote = [
+        {key: 'templates/edited.json', checksum: '1'},
+        {key: 'templates/deleted.json', checksum: '2'},
+      ]
+      const local = {root: 'tmp', files: new Map([['templates/edited.json', {checksum: 'edited'}]])} as ThemeFileSystem
+      vi.mocked(readDownloadJournal).mockResolvedValue(
+        new Map([
+          ['templates/edited.json', {checksum: '1', localChecksum: 'merged'}],
+          ['templates/deleted.json', {checksum: '2', localChecksum: '2'}],
+        ]),
+      )
+      vi.mocked(fetchThemeAsset).mockImplementation(async (_id, key) => ({key, checksum: '', value: ''}))
+
+      // When
+      await downloadTheme(remoteTheme, adminSession, remote, local, downloadOptions)
+
+      // Then
+      expect(fetchThemeAsset).toHaveBeenCalledWith(remoteTheme.id, 'templates/edited.json', adminSession)
+      expect(fetchThemeAsset).toHaveBeenCalledWith(remoteTheme.id, 'templates/deleted.json', adminSession)
+    })
+
+    test('downloads the files concurrently', async () => {
+      // Given
+      const remote = Array.from({length: 10}, (_, index) => ({key: `snippets/${index}.liquid`, checksum: '1'}))
+      const local = {root: 'tmp', files: new Map()} as ThemeFileSystem
+      let runningCount = 0
+      let maxRunningCount = 0
+      vi.mocked(fetchThemeAsset).mockImplementation(async (_id, key) => {
+        runningCount += 1
+        maxRunningCount = Math.max(maxRunningCount, runningCount)
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        runningCount -= 1
+        return {key, checksum: '1', value: ''}
+      })
+
+      // When
+      await downloadTheme(remoteTheme, adminSession, remote, local, downloadOptions)
+
+      // Then
+      expect(fetchThemeAsset).toHaveBeenCalledTimes(10)
+      expect(maxRunningCount).toBe(MAX_CONCURRENT_DOWNLOADS)
+    })
+
+    test('saves the downloaded JSON templates as the last synced files', async () => {
+      // Given
+      const template = {key: 'templates/index.json', checksum: '1', value: '{}'}
+      const local = {root: 'tmp', files: new Map()} as ThemeFileSystem
+      vi.mocked(fetchThemeAsset).mockResolvedValue(template)
+
+      // When
+      await downloadTheme(remoteTheme, adminSession, [{key: template.key, checksum: '1'}], local, downloadOptions)
+
+      // Then
+      expect(saveSyncedFiles).toHaveBeenCalledWith('tmp', remoteTheme, [template])
+    })
+
+    test('saves the synced files of each task before recording them in the journal', async () => {
+      // Given
+      const remote = Array.from({length: 26}, (_, index) => ({key: `templates/page-${index}.json`, checksum: '1'}))
+      const local = {root: 'tmp', files: new Map()} as ThemeFileSystem
+      vi.mocked(fetchThemeAsset).mockImplementation(async (_id, key) => ({key, checksum: '1', value: '{}'}))
+
+      // When
+      await downloadTheme(remoteTheme, adminSession, remote, local, downloadOptions)
+
+      // Then
+      expect(saveSyncedFiles).toHaveBeenCalledTimes(2)
+      expect(vi.mocked(saveSyncedFiles).mock.calls.map(([, , assets]) => assets.length)).toEqual([25, 1])
+      expect(appendDownloadJournal).toHaveBeenCalledTimes(26)
+      const [firstSave, secondSave] = vi.mocked(saveSyncedFiles).mock.invocationCallOrder
+      const journalOrder = vi.mocked(appendDownloadJournal).mock.invocationCallOrder
+      expect(journalOrder.slice(0, 25).every((order) => order > firstSave! && order < secondSave!)).toBe(true)
+      expect(journalOrder[25]).toBeGreaterThan(secondSave!)
+    })
+
+    test('merges the remote changes of JSON templates when merge is set', async () => {
+      // Given
+      const key = 'templates/index.json'
+      const local = {root: 'tmp', files: new Map([[key, {key, checksum: '2'}]])} as ThemeFileSystem
+      vi.mocked(readSyncedFile).mockResolvedValue('{"title":"Base","color":"red","size":1}')
+      vi.mocked(readThemeFile).mockResolvedValue('{"title":"Local","color":"red","size":2}')
+      vi.mocked(fetchThemeAsset).mockResolvedValue({
+        key,
+        checksum: '1',
+        value: '{"title":"Base","color":"blue","size":3}',
+      })
+
+      // When
+      const conflicts = await downloadTheme(remoteTheme, adminSession, [{key, checksum: '1'}], local, {
+        ...downloadOptions,
+        merge: true,
+      })
+
+      // Then
+      expect(writeThemeFile).toHaveBeenCalledWith('tmp', {
+        key,
+        checksum: '1',
+        value: `${JSON.stringify({title: 'Local', color: 'blue', size: 2}, null, 2)}\n`,
+      })
+      expect(conflicts).toEqual([{key, path: 'size', base: 1, local: 2, remote: 3}])
+    })
+  })
+
+  describe('buildPullPlan', () => {
+    test('returns the files to download and the local files to delete', async () => {
+      // Given
+      const remote = [
+        {key: 'sections/modified.liquid', checksum: '1'},
+        {key: 'sections/unmodified.liquid', checksum: '2'},
+        {key: 'sections/new.liquid', checksum: '3'},
+      ]
+      const local = {
+        root: 'tmp',
+        files: new Map([
+          ['sections/modified.liquid', {checksum: '4'}],
+          ['sections/unmodified.liquid', {checksum: '2'}],
+          ['sections/deleteme.liquid', {checksum: '5'}],
+        ]),
+      } as ThemeFileSystem
+
+      // When
+      const plan = await buildPullPlan(remote, local, {nodelete: false})
+
+      // Then
+      expect(plan).toEqual({
+        download: [
+          {key: 'sections/modified.liquid', checksum: '1'},
+          {key: 'sections/new.liquid', checksum: '3'},
+        ],
+        delete: ['sections/deleteme.liquid'],
+      })
+      expect(vi.mocked(writeThemeFile)).not.toHaveBeenCalled()
+      expect(vi.mocked(removeThemeFile)).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('transferProgress', () => {
+    test('returns the percentage and the number of files before any file is transferred', () => {
+      expect(transferProgress(0, 200, 0)).toEqual('0% · 0/200 files')
+    })
+
+    test('returns the throughput and the estimated time left', () => {
+      expect(transferProgress(50, 200, 10000)).toEqual('25% · 50/200 files · 5.0 files/s · ETA 30s')
+      expect(transferProgress(10, 200, 10000)).toEqual('5% · 10/200 files · 1.0 files/s · ETA 3m 10s')
+    })
   })
 })
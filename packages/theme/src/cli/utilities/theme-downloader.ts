@@ -1,43 +1,150 @@
 import {applyIgnoreFilters} from './asset-ignore.js'
-import {removeThemeFile, writeThemeFile} from './theme-fs.js'
+import {checksum as fileChecksum} from './asset-checksum.js'
+import {readThemeFile, removeThemeFile, writeThemeFile} from './theme-fs.js'
+import {isMergeableThemeFile, mergeThemeJson, ThemeMergeConflict} from './theme-merge.js'
+import {readSyncedFile, saveSyncedFiles} from './theme-history.js'
+import {appendDownloadJournal, clearDownloadJournal, readDownloadJournal} from './theme-download-journal.js'
 
 import {AdminSession} from '@shopify/cli-kit/node/session'
 import {fetchThemeAsset} from '@shopify/cli-kit/node/themes/api'
-import {ThemeFileSystem, Theme, Checksum} from '@shopify/cli-kit/node/themes/types'
-import {renderTasks} from '@shopify/cli-kit/node/ui'
+import {ThemeFileSystem, Theme, Checksum, Key, ThemeAsset} from '@shopify/cli-kit/node/themes/types'
+import {renderTasks, Task} from '@shopify/cli-kit/node/ui'
+import {chunk} from '@shopify/cli-kit/common/array'
+import {outputDebug} from '@shopify/cli-kit/node/output'
 
 interface DownloadOptions {
   nodelete: boolean
   only?: string[]
   ignore?: string[]
+  merge?: boolean
 }
 
+export interface PullPlan {
+  download: Checksum[]
+  delete: Key[]
+}
+
+/**
+ * The number of files downloaded at the same time. It matches the number of
+ * parallel requests the themes API throttler allows, so downloads don't wait
+ * in the throttler queue. The throttler still holds the requests when the API
+ * call limit is close.
+ */
+export const MAX_CONCURRENT_DOWNLOADS = 5
+
+/**
+ * The number of files downloaded by each task, which is how often the
+ * progress (throughput and ETA) is refreshed.
+ */
+const DOWNLOAD_TASK_FILE_COUNT = 25
+
+/**
+ * Downloads the remote files that differ from the local ones and deletes the
+ * local files that don't exist remotely (unless `nodelete` is set).
+ *
+ * Every downloaded file is recorded in a journal, so when a pull is
+ * interrupted, the next pull of the same theme resumes where it stopped. The
+ * files that changed remotely or locally since they were recorded are
+ * downloaded again.
+ *
+ * @returns the conflicts of the merged files, when `merge` is set
+ */
 export async function downloadTheme(
   theme: Theme,
   session: AdminSession,
   remoteChecksums: Checksum[],
   themeFileSystem: ThemeFileSystem,
   options: DownloadOptions,
-) {
-  const deleteTasks = buildDeleteTasks(remoteChecksums, themeFileSystem, options)
-  const downloadTasks = await buildDownloadTasks(remoteChecksums, theme, themeFileSystem, session, options)
+): Promise<ThemeMergeConflict[]> {
+  const root = themeFileSystem.root
+  const plan = await buildPullPlan(remoteChecksums, themeFileSystem, options)
+  const downloadedAssets = new Map<Key, ThemeAsset>()
+  const conflicts: ThemeMergeConflict[] = []
+
+  const journal = await readDownloadJournal(root, theme)
+  const pendingFiles = plan.download.filter(({key, checksum}) => {
+    const entry = journal.get(key)
+    return entry?.checksum !== checksum || entry.localChecksum !== themeFileSystem.files.get(key)?.checksum
+  })
+
+  if (pendingFiles.length < plan.download.length) {
+    outputDebug(`Resuming the download of ${pendingFiles.length} of ${plan.download.length} files...`)
+  }
+
+  const deleteTasks = buildDeleteTasks(plan, themeFileSystem)
+  const downloadTasks = buildDownloadTasks(
+    pendingFiles,
+    theme,
+    session,
+    async (checksum) => {
+      const themeAsset = await downloadFile(theme, themeFileSystem, checksum, session, options)
+      if (!themeAsset) return
+
+      downloadedAssets.set(checksum.key, themeAsset.asset)
+      conflicts.push(...themeAsset.conflicts)
+    },
+    // The synced files are saved along with the journal entries, so a resumed pull
+    // doesn't skip files whose synced content is missing
+    async (batch) => {
+      const downloaded = batch.filter(({key}) => downloadedAssets.has(key))
+      const assets = downloaded.map(({key}) => downloadedAssets.get(key)!)
+      downloaded.forEach(({key}) => downloadedAssets.delete(key))
+
+      await saveSyncedFiles(
+        root,
+        theme,
+        assets.filter(({key}) => isMergeableThemeFile(key)),
+      )
+      await Promise.all(
+        downloaded.map(async (checksum) => {
+          await appendDownloadJournal(root, theme, {...checksum, localChecksum: await fileChecksum(root, checksum.key)})
+        }),
+      )
+    },
+  )
 
   const tasks = [...deleteTasks, ...downloadTasks]
 
   if (tasks.length > 0) {
     await renderTasks(tasks)
   }
+
+  await clearDownloadJournal(root, theme)
+
+  return conflicts
 }
 
-function buildDeleteTasks(remoteChecksums: Checksum[], themeFileSystem: ThemeFileSystem, options: DownloadOptions) {
-  if (options.nodelete) return []
+/**
+ * Compares the remote checksums with the local theme files and returns the
+ * files the `pull` command downloads and the local files it deletes.
+ */
+export async function buildPullPlan(
+  remoteChecksums: Checksum[],
+  themeFileSystem: ThemeFileSystem,
+  options: DownloadOptions,
+): Promise<PullPlan> {
+  const checksums = await applyIgnoreFilters(remoteChecksums, themeFileSystem, options)
+
+  const download = checksums.filter((checksum) => {
+    const localAsset = themeFileSystem.files.get(checksum.key)
+    return localAsset?.checksum !== checksum.checksum
+  })
 
-  const remoteKeys = new Set(remoteChecksums.map((checksum) => checksum.key))
+  return {
+    download,
+    delete: options.nodelete ? [] : localKeysToBeDeleted(remoteChecksums, themeFileSystem),
+  }
+}
 
+function localKeysToBeDeleted(remoteChecksums: Checksum[], themeFileSystem: ThemeFileSystem) {
+  const remoteKeys = new Set(remoteChecksums.map((checksum) => checksum.key))
   const localKeys = Array.from(themeFileSystem.files.keys())
-  const localFilesToBeDeleted = localKeys.filter((key) => !remoteKeys.has(key))
 
-  return localFilesToBeDeleted.map((key) => {
+  return localKeys.filter((key) => !remoteKeys.has(key))
+}
+
+function buildDeleteTasks(plan: PullPlan, themeFileSystem: ThemeFileSystem) {
+  return plan.delete.map((key) => {
     return {
       title: `Cleaning your local directory (removing ${key})`,
       task: async () => removeThemeFile(themeFileSystem.root, key),
@@ -45,50 +152,122 @@ function buildDeleteTasks(remoteChecksums: Checksum[], themeFileSystem: ThemeFil
   })
 }
 
-async function buildDownloadTasks(
-  remoteChecksums: Checksum[],
+/**
+ * Splits the downloads in tasks of {@link DOWNLOAD_TASK_FILE_COUNT} files,
+ * downloaded {@link MAX_CONCURRENT_DOWNLOADS} at a time. When a task
+ * completes, it runs `complete` with its files and updates the title of the
+ * next one with the progress.
+ */
+function buildDownloadTasks(
+  files: Checksum[],
   theme: Theme,
-  themeFileSystem: ThemeFileSystem,
   session: AdminSession,
-  options: DownloadOptions,
-) {
-  const checksums = await applyIgnoreFilters(remoteChecksums, themeFileSystem, options)
+  download: (checksum: Checksum) => Promise<void>,
+  complete: (batch: Checksum[]) => Promise<void>,
+): Task[] {
+  const title = (progress: string) =>
+    `Pulling theme "${theme.name}" (#${theme.id}) from ${session.storeFqdn} [${progress}]`
+  const startedAt = Date.now()
+  let downloadedCount = 0
 
-  return checksums
-    .map((checksum) => {
-      const remoteChecksumValue = checksum.checksum
-      const localAsset = themeFileSystem.files.get(checksum.key)
+  const tasks: Task[] = chunk(files, DOWNLOAD_TASK_FILE_COUNT).map((batch, index) => {
+    return {
+      title: title(''),
+      task: async () => {
+        await forEachConcurrently(batch, MAX_CONCURRENT_DOWNLOADS, async (checksum) => {
+          await download(checksum)
+          downloadedCount += 1
+        })
+        await complete(batch)
 
-      if (localAsset?.checksum === remoteChecksumValue) {
-        return
-      }
+        const nextTask = tasks[index + 1]
+        if (nextTask) {
+          nextTask.title = title(transferProgress(downloadedCount, files.length, Date.now() - startedAt))
+        }
+      },
+    }
+  })
 
-      const progress = progressPct(remoteChecksums, checksum)
-      const title = `Pulling theme "${theme.name}" (#${theme.id}) from ${session.storeFqdn} [${progress}%]`
+  if (tasks[0]) tasks[0].title = title(transferProgress(0, files.length, 0))
 
-      return {
-        title,
-        task: async () => downloadFile(theme, themeFileSystem, checksum, session),
-      }
-    })
-    .filter(notNull)
+  return tasks
 }
 
-async function downloadFile(theme: Theme, {root}: ThemeFileSystem, checksum: Checksum, session: AdminSession) {
+/**
+ * Formats the progress of a transfer, including the throughput and the
+ * estimated time left once some files are transferred.
+ */
+export function transferProgress(doneCount: number, totalCount: number, elapsedMs: number) {
+  const percentage = totalCount === 0 ? 100 : Math.round((doneCount / totalCount) * 100)
+  const progress = `${percentage}% · ${doneCount}/${totalCount} files`
+
+  if (doneCount === 0 || elapsedMs <= 0) return progress
+
+  const filesPerSecond = doneCount / (elapsedMs / 1000)
+  const secondsLeft = Math.ceil((totalCount - doneCount) / filesPerSecond)
+
+  return `${progress} · ${filesPerSecond.toFixed(1)} files/s · ETA ${formatDuration(secondsLeft)}`
+}
+
+function formatDuration(seconds: number) {
+  const minutes = Math.floor(seconds / 60)
+
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`
+}
+
+/**
+ * Runs the action for every item, with at most `concurrency` actions
+ * running at the same time.
+ */
+async function forEachConcurrently<T>(items: T[], concurrency: number, action: (item: T) => Promise<void>) {
+  const queue = [...items]
+
+  const worker = async () => {
+    let item = queue.shift()
+
+    while (item !== undefined) {
+      // eslint-disable-next-line no-await-in-loop
+      await action(item)
+      item = queue.shift()
+    }
+  }
+
+  await Promise.all(Array.from({length: Math.min(concurrency, items.length)}, worker))
+}
+
+async function downloadFile(
+  theme: Theme,
+  themeFileSystem: ThemeFileSystem,
+  checksum: Checksum,
+  session: AdminSession,
+  options: DownloadOptions,
+) {
   const themeAsset = await fetchThemeAsset(theme.id, checksum.key, session)
 
   if (!themeAsset) return
 
-  await writeThemeFile(root, themeAsset)
-}
+  const shouldMerge = options.merge && isMergeableThemeFile(themeAsset.key) && themeFileSystem.files.has(themeAsset.key)
+  const conflicts = shouldMerge ? await mergeFile(theme, themeFileSystem, themeAsset) : []
 
-function progressPct(themeChecksums: Checksum[], checksum: Checksum): number {
-  const current = themeChecksums.indexOf(checksum) + 1
-  const total = themeChecksums.length
+  if (!shouldMerge) {
+    await writeThemeFile(themeFileSystem.root, themeAsset)
+  }
 
-  return Math.round((current / total) * 100)
+  return {asset: themeAsset, conflicts}
 }
 
-function notNull<T>(value: T | null | undefined): value is T {
-  return value !== null && value !== undefined
+/**
+ * Merges the remote changes of a JSON file into the local file, using the
+ * content of the file at the last sync as the common ancestor.
+ */
+async function mergeFile(theme: Theme, {root}: ThemeFileSystem, themeAsset: ThemeAsset) {
+  const key = themeAsset.key
+  const base = await readSyncedFile(root, theme, key)
+  const local = (await readThemeFile(root, key)) ?? ''
+
+  const {value, conflicts} = mergeThemeJson(key, base, local.toString(), themeAsset.value ?? '')
+
+  await writeThemeFile(root, {key, checksum: themeAsset.checksum, value})
+
+  return conflicts
 }
@@ -1,28 +1,11 @@
 import {checksum} from './asset-checksum.js'
+import {DEFAULT_IGNORE_RULES, findMatchingRule} from './asset-ignore.js'
 import {ThemeFileSystem, Key, ThemeAsset} from '@shopify/cli-kit/node/themes/types'
 import {glob, readFile, ReadOptions, fileExists, mkdir, writeFile, removeFile} from '@shopify/cli-kit/node/fs'
 import {joinPath, basename} from '@shopify/cli-kit/node/path'
 import {lookupMimeType, setMimeTypes} from '@shopify/cli-kit/node/mimes'
 import {outputDebug} from '@shopify/cli-kit/node/output'
 
-const DEFAULT_IGNORE_PATTERNS = [
-  '**/.git',
-  '**/.vscode',
-  '**/.hg',
-  '**/.bzr',
-  '**/.svn',
-  '**/_darcs',
-  '**/CVS',
-  '**/*.sublime-(project|workspace)',
-  '**/.DS_Store',
-  '**/.sass-cache',
-  '**/Thumbs.db',
-  '**/desktop.ini',
-  '**/config.yml',
-  '**/node_modules/',
-  '.prettierrc.json',
-]
-
 const THEME_DIRECTORY_PATTERNS = [
   'assets/**/*.*',
   'config/**/*.json',
@@ -38,8 +21,7 @@ export async function mountThemeFileSystem(root: string): Promise<ThemeFileSyste
   const filesPaths = await glob(THEME_DIRECTORY_PATTERNS, {
     cwd: root,
     deep: 3,
-    ignore: DEFAULT_IGNORE_PATTERNS,
-  })
+  }).then((paths) => paths.filter((path) => !isDefaultIgnored(path)))
 
   const assets = await Promise.all(
     filesPaths.map(async (key) => {
@@ -139,6 +121,12 @@ export async function hasRequiredThemeDirectories(path: string) {
   return requiredDirectories.every((dir) => directories.has(dir))
 }
 
+function isDefaultIgnored(key: Key) {
+  const rule = findMatchingRule(key, DEFAULT_IGNORE_RULES)
+
+  return Boolean(rule && !rule.negated)
+}
+
 async function ensureDirExists(path: string) {
   const directoryPath = dirPath(path)
 
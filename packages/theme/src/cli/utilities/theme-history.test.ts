@@ -0,0 +1,158 @@
+import {
+  createPullSnapshot,
+  createPushSnapshot,
+  listSnapshots,
+  readSnapshotFile,
+  readSyncedFile,
+  saveSyncedFiles,
+} from './theme-history.js'
+import {fetchThemeAsset} from '@shopify/cli-kit/node/themes/api'
+import {buildTheme} from '@shopify/cli-kit/node/themes/factories'
+import {ThemeFileSystem} from '@shopify/cli-kit/node/themes/types'
+import {inTemporaryDirectory, mkdir, writeFile} from '@shopify/cli-kit/node/fs'
+import {joinPath} from '@shopify/cli-kit/node/path'
+import {test, describe, expect, vi} from 'vitest'
+
+vi.mock('@shopify/cli-kit/node/themes/api')
+
+describe('theme-history', () => {
+  const theme = buildTheme({id: 1, name: 'Theme', role: 'unpublished'})!
+  const adminSession = {token: '', storeFqdn: 'my-shop.myshopify.com'}
+
+  describe('createPullSnapshot', () => {
+    test('saves the local files that are overwritten or deleted', async () => {
+      await inTemporaryDirectory(async (root) => {
+        // Given
+        await mkdir(joinPath(root, 'sections'))
+        await writeFile(joinPath(root, 'sections/header.liquid'), 'header')
+        await writeFile(joinPath(root, 'sections/footer.liquid'), 'footer')
+        const themeFileSystem = {
+          root,
+          files: new Map([
+            ['sections/header.liquid', {key: 'sections/header.liquid', checksum: 'a'}],
+            ['sections/footer.liquid', {key: 'sections/footer.liquid', checksum: 'b'}],
+          ]),
+        } as ThemeFileSystem
+        const plan = {
+          download: [
+            {key: 'sections/header.liquid', checksum: 'c'},
+            {key: 'sections/new.liquid', checksum: 'd'},
+          ],
+          delete: ['sections/footer.liquid'],
+        }
+
+        // When
+        const snapshot = await createPullSnapshot(theme, adminSession, themeFileSystem, plan)
+
+        // Then
+        expect(snapshot).toMatchObject({
+          command: 'pull',
+          store: 'my-shop.myshopify.com',
+          theme: {id: 1, name: 'Theme'},
+          files: [
+            {key: 'sections/header.liquid', checksum: 'a'},
+            {key: 'sections/footer.liquid', checksum: 'b'},
+          ],
+          created: ['sections/new.liquid'],
+        })
+        await expect(listSnapshots(root)).resolves.toEqual([snapshot])
+        await expect(readSnapshotFile(root, {key: 'sections/header.liquid', checksum: 'a'})).resolves.toEqual({
+          key: 'sections/header.liquid',
+          checksum: 'a',
+          value: 'header',
+        })
+      })
+    })
+
+    test('does not save a snapshot when no local file changes', async () => {
+      await inTemporaryDirectory(async (root) => {
+        // Given
+        const themeFileSystem = {root, files: new Map()} as ThemeFileSystem
+        const plan = {download: [{key: 'sections/new.liquid', checksum: 'd'}], delete: []}
+
+        // When
+        const snapshot = await createPullSnapshot(theme, adminSession, themeFileSystem, plan)
+
+        // Then
+        expect(snapshot).toBeUndefined()
+        await expect(listSnapshots(root)).resolves.toEqual([])
+      })
+    })
+  })
+
+  describe('createPushSnapshot', () => {
+    test('saves the remote files that are overwritten or deleted', async () => {
+      await inTemporaryDirectory(async (root) => {
+        // Given
+        const attachment = Buffer.from('image').toString('base64')
+        vi.mocked(fetchThemeAsset).mockImplementation(async (_id, key) => {
+          return key === 'assets/image.png' ? {key, checksum: 'b', attachment} : {key, checksum: 'a', value: 'header'}
+        })
+        const remoteChecksums = [
+          {key: 'sections/header.liquid', checksum: 'a'},
+          {key: 'assets/image.png', checksum: 'b'},
+        ]
+        const themeFileSystem = {root, files: new Map()} as ThemeFileSystem
+        const plan = {
+          upload: [
+            {key: 'sections/header.liquid', checksum: 'c'},
+            {key: 'sections/new.liquid', checksum: 'd'},
+          ],
+          delete: ['assets/image.png'],
+        }
+
+        // When
+        const snapshot = await createPushSnapshot(theme, adminSession, remoteChecksums, themeFileSystem, plan)
+
+        // Then
+        expect(snapshot).toMatchObject({
+          command: 'push',
+          files: remoteChecksums,
+          created: ['sections/new.liquid'],
+        })
+        await expect(readSnapshotFile(root, {key: 'assets/image.png', checksum: 'b'})).resolves.toEqual({
+          key: 'assets/image.png',
+          checksum: 'b',
+          attachment,
+        })
+      })
+    })
+
+    test("leaves out the files that couldn't be fetched from the theme", async () => {
+      await inTemporaryDirectory(async (root) => {
+        // Given
+        vi.mocked(fetchThemeAsset).mockImplementation(async (_id, key) => {
+          return key === 'sections/header.liquid' ? {key, checksum: 'a', value: 'header'} : undefined
+        })
+        const remoteChecksums = [
+          {key: 'sections/header.liquid', checksum: 'a'},
+          {key: 'sections/footer.liquid', checksum: 'b'},
+        ]
+        const themeFileSystem = {root, files: new Map()} as ThemeFileSystem
+        const plan = {upload: [], delete: ['sections/header.liquid', 'sections/footer.liquid']}
+
+        // When
+        const snapshot = await createPushSnapshot(theme, adminSession, remoteChecksums, themeFileSystem, plan)
+
+        // Then
+        expect(snapshot?.files).toEqual([{key: 'sections/header.liquid', checksum: 'a'}])
+      })
+    })
+  })
+  describe('saveSyncedFiles', () => {
+    test('saves the synced content of the files per theme', async () => {
+      await inTemporaryDirectory(async (root) => {
+        // Given
+        const otherTheme = buildTheme({id: 2, name: 'Other', role: 'unpublished'})!
+
+        // When
+        await saveSyncedFiles(root, theme, [{key: 'templates/index.json', checksum: 'a', value: '{"v":1}'}])
+        await saveSyncedFiles(root, theme, [{key: 'templates/index.json', checksum: 'b', value: '{"v":2}'}])
+
+        // Then
+        await expect(readSyncedFile(root, theme, 'templates/index.json')).resolves.toEqual('{"v":2}')
+        await expect(readSyncedFile(root, otherTheme, 'templates/index.json')).resolves.toBeUndefined()
+      })
+    })
+  })
+})
@@ -0,0 +1,267 @@
+import {isTextFile, readThemeFile, writeThemeFile} from './theme-fs.js'
+import {PullPlan} from './theme-downloader.js'
+import {PushPlan} from './theme-uploader.js'
+import {AdminSession} from '@shopify/cli-kit/node/session'
+import {fetchThemeAsset} from '@shopify/cli-kit/node/themes/api'
+import {Checksum, Key, Theme, ThemeAsset, ThemeFileSystem} from '@shopify/cli-kit/node/themes/types'
+import {fileExists, mkdir, readFile, writeFile} from '@shopify/cli-kit/node/fs'
+import {dirname, joinPath} from '@shopify/cli-kit/node/path'
+import {outputDebug} from '@shopify/cli-kit/node/output'
+
+const HISTORY_DIRECTORY = '.shopify/theme-history'
+const SNAPSHOTS_INDEX = 'snapshots.json'
+const SYNC_DIRECTORY = 'sync'
+const EMPTY_FILE_CHECKSUM = 'd41d8cd98f00b204e9800998ecf8427e'
+
+/**
+ * Represents the state of the theme files before a `pull` (local files) or a
+ * `push` (remote files) changed them.
+ */
+export interface ThemeSnapshot {
+  /**
+   * The unique identifier of the snapshot.
+   */
+  id: string
+
+  /**
+   * The date (ISO 8601) when the snapshot was created.
+   */
+  createdAt: string
+
+  /**
+   * The command that changed the files: `pull` changes local files and
+   * `push` changes remote files.
+   */
+  command: 'pull' | 'push'
+
+  /**
+   * The store of the theme the command synced with.
+   */
+  store: string
+
+  /**
+   * The theme the command synced with.
+   */
+  theme: Pick<Theme, 'id' | 'name'>
+
+  /**
+   * The files that were overwritten or deleted, with the checksum of their
+   * previous content.
+   */
+  files: Checksum[]
+
+  /**
+   * The files that didn't exist before the command ran.
+   */
+  created: Key[]
+}
+
+/**
+ * Saves the local files a `pull` is about to overwrite or delete.
+ *
+ * @returns the {@link ThemeSnapshot}, or `undefined` when the pull doesn't
+ * change any existing file
+ */
+export async function createPullSnapshot(
+  theme: Theme,
+  session: AdminSession,
+  themeFileSystem: ThemeFileSystem,
+  plan: PullPlan,
+) {
+  const localFiles = themeFileSystem.files
+  const overwrittenKeys = plan.download.map(({key}) => key).filter((key) => localFiles.has(key))
+  const files = [...overwrittenKeys, ...plan.delete].map((key) => ({key, checksum: localFiles.get(key)!.checksum}))
+
+  if (files.length === 0) return
+
+  const root = themeFileSystem.root
+
+  await Promise.all(
+    files.map(async ({key, checksum}) => {
+      const content = (await readThemeFile(root, key)) ?? ''
+      await writeSnapshotObject(root, checksum, content)
+    }),
+  )
+
+  const created = plan.download.map(({key}) => key).filter((key) => !localFiles.has(key))
+
+  return saveSnapshot(root, {command: 'pull', store: session.storeFqdn, theme, files, created})
+}
+
+/**
+ * Saves the remote files a `push` is about to overwrite or delete.
+ *
+ * @returns the {@link ThemeSnapshot}, or `undefined` when the push doesn't
+ * change any existing remote file
+ */
+export async function createPushSnapshot(
+  theme: Theme,
+  session: AdminSession,
+  remoteChecksums: Checksum[],
+  themeFileSystem: ThemeFileSystem,
+  plan: PushPlan,
+) {
+  const remoteFiles = new Map(remoteChecksums.map((checksum) => [checksum.key, checksum]))
+  const overwrittenKeys = plan.upload.map(({key}) => key).filter((key) => remoteFiles.has(key))
+  const files = [...overwrittenKeys, ...plan.delete].map((key) => remoteFiles.get(key)!)
+
+  if (files.length === 0) return
+
+  const root = themeFileSystem.root
+
+  const savedFiles = await Promise.all(
+    files.map(async (file) => {
+      const asset = await fetchThemeAsset(theme.id, file.key, session)
+
+      // The file can't be restored without its content, so it's left out of the snapshot
+      if (!asset) {
+        outputDebug(`${file.key} isn't saved in the snapshot because it couldn't be fetched from the theme...`)
+        return
+      }
+
+      const content = asset.attachment ? Buffer.from(asset.attachment, 'base64') : asset.value ?? ''
+      await writeSnapshotObject(root, file.checksum, content)
+      return file
+    }),
+  )
+
+  const created = plan.upload.map(({key}) => key).filter((key) => !remoteFiles.has(key))
+
+  return saveSnapshot(root, {
+    command: 'push',
+    store: session.storeFqdn,
+    theme,
+    files: savedFiles.filter((file): file is Checksum => file !== undefined),
+    created,
+  })
+}
+
+/**
+ * Lists the snapshots of a theme directory, from the most recent to the oldest.
+ */
+export async function listSnapshots(root: string): Promise<ThemeSnapshot[]> {
+  const snapshots = await readSnapshotsIndex(root)
+
+  return snapshots.reverse()
+}
+
+export async function findSnapshot(root: string, id: string) {
+  const snapshots = await listSnapshots(root)
+
+  return snapshots.find((snapshot) => snapshot.id === id)
+}
+
+/**
+ * Reads the content of a file saved in a snapshot as a {@link ThemeAsset}.
+ */
+export async function readSnapshotFile(root: string, {key, checksum}: Checksum): Promise<ThemeAsset | undefined> {
+  const objectPath = joinPath(root, snapshotObjectKey(checksum))
+
+  if (!(await fileExists(objectPath))) {
+    outputDebug(`The snapshot of ${key} can't be read because ${objectPath} doesn't exist...`)
+    return
+  }
+
+  const content = await readFile(objectPath, {})
+
+  if (isTextFile(key)) {
+    return {key, checksum, value: content.toString()}
+  }
+
+  return {key, checksum, attachment: Buffer.from(content).toString('base64')}
+}
+
+/**
+ * Saves the content of theme files as it was right after a sync with the
+ * theme, so `theme pull --merge` can use it as the common ancestor of the
+ * local and remote changes.
+ */
+export async function saveSyncedFiles(root: string, theme: Theme, assets: ThemeAsset[]) {
+  if (assets.length === 0) return
+
+  const index = await readSyncIndex(root, theme)
+
+  await Promise.all(
+    assets.map(async ({key, checksum, value}) => {
+      await writeSnapshotObject(root, checksum, value ?? '')
+      index[key] = checksum || EMPTY_FILE_CHECKSUM
+    }),
+  )
+
+  const indexPath = syncIndexPath(root, theme)
+  await mkdir(dirname(indexPath))
+  await writeFile(indexPath, JSON.stringify(index, null, 2))
+}
+
+/**
+ * Reads the content of a theme file as it was after the last sync with the
+ * theme.
+ */
+export async function readSyncedFile(root: string, theme: Theme, key: Key) {
+  const index = await readSyncIndex(root, theme)
+  const checksum = index[key]
+
+  if (!checksum) return
+
+  const asset = await readSnapshotFile(root, {key, checksum})
+
+  return asset?.value
+}
+
+async function readSyncIndex(root: string, theme: Theme): Promise<{[key: Key]: string}> {
+  const indexPath = syncIndexPath(root, theme)
+
+  if (!(await fileExists(indexPath))) return {}
+
+  return JSON.parse(await readFile(indexPath))
+}
+
+function syncIndexPath(root: string, theme: Theme) {
+  return joinPath(root, HISTORY_DIRECTORY, SYNC_DIRECTORY, `${theme.id}.json`)
+}
+
+async function writeSnapshotObject(root: string, checksum: string, content: string | Buffer) {
+  const key = snapshotObjectKey(checksum)
+
+  // Objects are content-addressed, so an existing object has the same content
+  if (await fileExists(joinPath(root, key))) return
+
+  if (typeof content === 'string') {
+    await writeThemeFile(root, {key, checksum, value: content})
+  } else {
+    await writeThemeFile(root, {key, checksum, attachment: content.toString('base64')})
+  }
+}
+
+async function readSnapshotsIndex(root: string): Promise<ThemeSnapshot[]> {
+  const indexPath = joinPath(root, HISTORY_DIRECTORY, SNAPSHOTS_INDEX)
+
+  if (!(await fileExists(indexPath))) return []
+
+  return JSON.parse(await readFile(indexPath))
+}
+
+async function saveSnapshot(
+  root: string,
+  snapshot: Omit<ThemeSnapshot, 'id' | 'createdAt' | 'theme'> & {theme: Theme},
+) {
+  const createdAt = new Date()
+  const newSnapshot: ThemeSnapshot = {
+    ...snapshot,
+    id: createdAt.toISOString().replace(/[-:.]/g, ''),
+    createdAt: createdAt.toISOString(),
+    theme: {id: snapshot.theme.id, name: snapshot.theme.name},
+  }
+
+  const snapshots = await readSnapshotsIndex(root)
+  snapshots.push(newSnapshot)
+
+  await mkdir(joinPath(root, HISTORY_DIRECTORY))
+  await writeFile(joinPath(root, HISTORY_DIRECTORY, SNAPSHOTS_INDEX), JSON.stringify(snapshots, null, 2))
+
+  return newSnapshot
+}
+
+function snapshotObjectKey(checksum: string) {
+  return joinPath(HISTORY_DIRECTORY, 'objects', checksum || EMPTY_FILE_CHECKSUM)
+}
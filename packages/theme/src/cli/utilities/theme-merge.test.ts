@@ -0,0 +1,117 @@
+import {isMergeableThemeFile, mergeThemeJson} from './theme-merge.js'
+import {test, describe, expect} from 'vitest'
+
+describe('theme-merge', () => {
+  describe('isMergeableThemeFile', () => {
+    test('returns true for the JSON files the theme editor changes', () => {
+      expect(isMergeableThemeFile('templates/index.json')).toBe(true)
+      expect(isMergeableThemeFile('templates/customers/account.json')).toBe(true)
+      expect(isMergeableThemeFile('sections/header-group.json')).toBe(true)
+      expect(isMergeableThemeFile('config/settings_data.json')).toBe(true)
+    })
+
+    test('returns false for the other theme files', () => {
+      expect(isMergeableThemeFile('config/settings_schema.json')).toBe(false)
+      expect(isMergeableThemeFile('locales/en.default.json')).toBe(false)
+      expect(isMergeableThemeFile('sections/header.liquid')).toBe(false)
+    })
+  })
+
+  describe('mergeThemeJson', () => {
+    const key = 'templates/index.json'
+    const base = {
+      sections: {
+        hero: {type: 'hero', settings: {title: 'Welcome', color: 'red'}},
+        footer: {type: 'footer', settings: {}},
+      },
+      order: ['hero', 'footer'],
+    }
+
+    test('merges the changes of different keys', () => {
+      // Given
+      const local = {
+        sections: {
+          hero: {type: 'hero', settings: {title: 'Hello', color: 'red'}},
+          footer: {type: 'footer', settings: {}},
+          banner: {type: 'banner', settings: {}},
+        },
+        order: ['hero', 'banner', 'footer'],
+      }
+      const remote = {
+        sections: {
+          hero: {type: 'hero', settings: {title: 'Welcome', color: 'blue'}},
+          newsletter: {type: 'newsletter', settings: {}},
+        },
+        order: ['hero', 'newsletter'],
+      }
+
+      // When
+      const result = mergeThemeJson(key, json(base), json(local), json(remote))
+
+      // Then
+      expect(result.conflicts).toEqual([])
+      expect(JSON.parse(result.value)).toEqual({
+        sections: {
+          hero: {type: 'hero', settings: {title: 'Hello', color: 'blue'}},
+          banner: {type: 'banner', settings: {}},
+          newsletter: {type: 'newsletter', settings: {}},
+        },
+        order: ['hero', 'banner', 'newsletter'],
+      })
+    })
+
+    test('reports a conflict and keeps the local value when the same key changes on both sides', () => {
+      // Given
+      const local = {...base, sections: {...base.sections, hero: {type: 'hero', settings: {title: 'Hello'}}}}
+      const remote = {...base, sections: {...base.sections, hero: {type: 'hero', settings: {title: 'Hi'}}}}
+
+      // When
+      const result = mergeThemeJson(key, json(base), json(local), json(remote))
+
+      // Then
+      expect(result.conflicts).toEqual([
+        {key, path: 'sections.hero.settings.title', base: 'Welcome', local: 'Hello', remote: 'Hi'},
+      ])
+      expect(JSON.parse(result.value)).toEqual(local)
+    })
+
+    test('keeps the remote content when there are no local changes', () => {
+      // Given
+      const remote = `/*\n * Auto-generated\n */\n${JSON.stringify({...base, order: ['footer', 'hero']})}`
+
+      // When
+      const result = mergeThemeJson(key, json(base), json(base), remote)
+
+      // Then
+      expect(result).toEqual({value: remote, conflicts: []})
+    })
+
+    test('keeps the comment header of the local file', () => {
+      // Given
+      const local = `/* header */\n${json({...base, order: ['footer', 'hero']})}`
+      const remote = json({...base, sections: {...base.sections, footer: {type: 'footer', settings: {dark: true}}}})
+
+      // When
+      const result = mergeThemeJson(key, json(base), local, remote)
+
+      // Then
+      expect(result.value.startsWith('/* header */\n{')).toBe(true)
+      expect(JSON.parse(result.value.replace('/* header */\n', ''))).toMatchObject({
+        sections: {footer: {settings: {dark: true}}},
+        order: ['footer', 'hero'],
+      })
+    })
+
+    test('reports a conflict on the whole file when it is not valid JSON', () => {
+      // When
+      const result = mergeThemeJson(key, json(base), '{"invalid', json(base))
+
+      // Then
+      expect(result).toEqual({value: '{"invalid', conflicts: [{key, path: ''}]})
+    })
+  })
+})
+
+function json(value: object) {
+  return JSON.stringify(value, null, 2)
+}
@@ -0,0 +1,152 @@
+import {Key} from '@shopify/cli-kit/node/themes/types'
+import {deepCompare} from '@shopify/cli-kit/common/object'
+import {mkdir, writeFile} from '@shopify/cli-kit/node/fs'
+import {dirname, joinPath} from '@shopify/cli-kit/node/path'
+
+const MERGE_CONFLICTS_REPORT = '.shopify/theme-merge-conflicts.json'
+
+type JsonValue = unknown
+
+/**
+ * A key that changed both in the local file and in the remote file since the
+ * last sync.
+ */
+export interface ThemeMergeConflict {
+  /**
+   * The theme file with the conflict.
+   */
+  key: Key
+
+  /**
+   * The dot-separated path of the conflicting key in the JSON file
+   * (e.g. `sections.main.settings.title`). It's empty when the whole file
+   * conflicts.
+   */
+  path: string
+
+  base?: JsonValue
+  local?: JsonValue
+  remote?: JsonValue
+}
+
+export interface ThemeMergeResult {
+  /**
+   * The merged content. Conflicting keys keep the local value.
+   */
+  value: string
+  conflicts: ThemeMergeConflict[]
+}
+
+/**
+ * Theme editor changes are saved in these files, so they are merged instead
+ * of overwritten when `theme pull --merge` runs.
+ */
+export function isMergeableThemeFile(key: Key) {
+  return /^(templates\/.+|sections\/[^/]+)\.json$/.test(key) || key === 'config/settings_data.json'
+}
+
+/**
+ * Merges the remote changes of a JSON theme file into the local file, using
+ * the content of the file at the last sync as the common ancestor.
+ *
+ * Objects (sections, blocks, settings) are merged key by key, and lists of
+ * names (`order`, `block_order`) keep the entries added and drop the entries
+ * removed on either side. A conflict is reported only when the same key
+ * changed on both sides with different values.
+ */
+export function mergeThemeJson(key: Key, base: string | undefined, local: string, remote: string): ThemeMergeResult {
+  const baseJson = base === undefined ? undefined : parseThemeJson(base)
+  const localJson = parseThemeJson(local)
+  const remoteJson = parseThemeJson(remote)
+
+  if (localJson === undefined || remoteJson === undefined || (base !== undefined && baseJson === undefined)) {
+    return {value: local, conflicts: [{key, path: ''}]}
+  }
+
+  const conflicts: ThemeMergeConflict[] = []
+  const merged = mergeValues(baseJson?.value ?? {}, localJson.value, remoteJson.value, [], (path, values) => {
+    conflicts.push({key, path: path.join('.'), ...values})
+  })
+
+  // Keep the original formatting when one of the sides already has the merged content
+  if (isEqual(merged, remoteJson.value)) return {value: remote, conflicts}
+  if (isEqual(merged, localJson.value)) return {value: local, conflicts}
+
+  return {value: `${localJson.header}${JSON.stringify(merged, null, 2)}\n`, conflicts}
+}
+
+/**
+ * Writes the conflicts of a `theme pull --merge` to a report in the theme
+ * directory, so they can be resolved after the pull.
+ *
+ * @returns the relative path of the report
+ */
+export async function writeMergeConflictsReport(root: string, conflicts: ThemeMergeConflict[]) {
+  const reportPath = joinPath(root, MERGE_CONFLICTS_REPORT)
+
+  await mkdir(dirname(reportPath))
+  await writeFile(reportPath, JSON.stringify(conflicts, null, 2))
+
+  return MERGE_CONFLICTS_REPORT
+}
+
+function mergeValues(
+  base: JsonValue,
+  local: JsonValue,
+  remote: JsonValue,
+  path: string[],
+  onConflict: (path: string[], values: {base: JsonValue; local: JsonValue; remote: JsonValue}) => void,
+): JsonValue {
+  if (isEqual(local, remote)) return local
+  if (isEqual(base, local)) return remote
+  if (isEqual(base, remote)) return local
+
+  if (isObject(local) && isObject(remote)) {
+    const baseObject = isObject(base) ? base : {}
+    const keys = [...new Set([...Object.keys(local), ...Object.keys(remote)])]
+
+    return keys.reduce<{[key: string]: JsonValue}>((merged, key) => {
+      const value = mergeValues(baseObject[key], local[key], remote[key], [...path, key], onConflict)
+      if (value !== undefined) merged[key] = value
+      return merged
+    }, {})
+  }
+
+  if (isNameList(local) && isNameList(remote)) {
+    const baseList = isNameList(base) ? base : []
+    const removed = baseList.filter((name) => !remote.includes(name))
+    const added = remote.filter((name) => !baseList.includes(name) && !local.includes(name))
+
+    return [...local.filter((name) => !removed.includes(name)), ...added]
+  }
+
+  onConflict(path, {base, local, remote})
+  return local
+}
+
+/**
+ * Splits the content of a JSON theme file into the comment header that
+ * Shopify adds to the files saved by the theme editor and the parsed JSON.
+ */
+function parseThemeJson(content: string) {
+  const header = content.match(/^\s*\/\*[\s\S]*?\*\/\s*/)?.[0] ?? ''
+
+  try {
+    return {header, value: JSON.parse(content.slice(header.length)) as JsonValue}
+    // eslint-disable-next-line no-catch-all/no-catch-all
+  } catch {
+    return undefined
+  }
+}
+
+function isEqual(one: JsonValue, two: JsonValue) {
+  return deepCompare({value: one}, {value: two})
+}
+
+function isObject(value: JsonValue): value is {[key: string]: JsonValue} {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNameList(value: JsonValue): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
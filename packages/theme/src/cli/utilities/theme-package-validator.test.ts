@@ -0,0 +1,126 @@
+import {MAX_LIQUID_FILE_SIZE, isDevelopmentFile, validateThemePackage} from './theme-package-validator.js'
+import {inTemporaryDirectory, mkdir, writeFile} from '@shopify/cli-kit/node/fs'
+import {dirname, joinPath} from '@shopify/cli-kit/node/path'
+import {describe, expect, test} from 'vitest'
+
+describe('validateThemePackage', () => {
+  const themeFiles: {[path: string]: string} = {
+    'config/settings_schema.json': '[{"name": "theme_info", "theme_name": "Dawn"}]',
+    'layout/theme.liquid': '',
+    'sections/header.liquid': '',
+    'templates/index.json': '{}',
+  }
+
+  async function createTheme(root: string, files: {[path: string]: string}) {
+    const allFiles = {...themeFiles, ...files}
+
+    await Promise.all(
+      Object.entries(allFiles).map(async ([path, content]) => {
+        await mkdir(dirname(joinPath(root, path)))
+        await writeFile(joinPath(root, path), content)
+      }),
+    )
+
+    return Object.keys(allFiles)
+  }
+
+  test('returns no issues when the theme is valid', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const files = await createTheme(tmpDir, {
+        'locales/en.default.json': '{"general": {"title": "Hello"}}',
+        'locales/fr.json': '{"general": {"title": "Bonjour"}}',
+      })
+
+      // When
+      const issues = await validateThemePackage(tmpDir, files)
+
+      // Then
+      expect(issues).toEqual([])
+    })
+  })
+
+  test('returns the keys missing from the locale files', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const files = await createTheme(tmpDir, {
+        'locales/en.default.json': '{"general": {"title": "Hello", "close": "Close"}}',
+        'locales/fr.json': '{"general": {"title": "Bonjour"}}',
+        'locales/en.default.schema.json': '{"settings": {"logo": "Logo"}}',
+        'locales/fr.schema.json': '{}',
+      })
+
+      // When
+      const issues = await validateThemePackage(tmpDir, files)
+
+      // Then
+      expect(issues).toEqual([
+        {file: 'locales/fr.json', message: 'Missing translations of locales/en.default.json: general.close'},
+        {
+          file: 'locales/fr.schema.json',
+          message: 'Missing translations of locales/en.default.schema.json: settings.logo',
+        },
+      ])
+    })
+  })
+
+  test('returns an issue when there is no default locale file', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const files = await createTheme(tmpDir, {'locales/fr.json': '{}'})
+
+      // When
+      const issues = await validateThemePackage(tmpDir, files)
+
+      // Then
+      expect(issues).toEqual([
+        {file: 'locales/fr.json', message: 'Provide a default locale file (e.g. locales/en.default.json).'},
+      ])
+    })
+  })
+
+  test('returns an issue when the settings schema is not well-formed', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const files = await createTheme(tmpDir, {
+        'config/settings_schema.json': '[{"name": "theme_info", "theme_name": "Dawn"}, {"settings": []}]',
+      })
+
+      // When
+      const issues = await validateThemePackage(tmpDir, files)
+
+      // Then
+      expect(issues).toEqual([
+        {file: 'config/settings_schema.json', message: 'The settings group at position 2 must have a name.'},
+      ])
+    })
+  })
+
+  test('returns an issue when a file is larger than its limit', async () => {
+    await inTemporaryDirectory(async (tmpDir) => {
+      // Given
+      const files = await createTheme(tmpDir, {'snippets/large.liquid': 'a'.repeat(MAX_LIQUID_FILE_SIZE + 10 * 1024)})
+
+      // When
+      const issues = await validateThemePackage(tmpDir, files)
+
+      // Then
+      expect(issues).toEqual([{file: 'snippets/large.liquid', message: "It's 266 KB, larger than the 256 KB limit."}])
+    })
+  })
+})
+
+describe('isDevelopmentFile', () => {
+  test.each(['assets/theme.js.map', 'assets/debug.log', 'snippets/card.liquid.orig', 'snippets/card.liquid~'])(
+    'returns true for %s',
+    (file) => {
+      // When/Then
+      expect(isDevelopmentFile(file)).toBe(true)
+    },
+  )
+
+  test('returns false for the theme files', () => {
+    // When/Then
+    expect(isDevelopmentFile('assets/theme.js')).toBe(false)
+  })
+})
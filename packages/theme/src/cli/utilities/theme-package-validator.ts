@@ -0,0 +1,208 @@
+import {hasRequiredThemeDirectories} from './theme-fs.js'
+import {fileExists, fileSize, readFile} from '@shopify/cli-kit/node/fs'
+import {joinPath} from '@shopify/cli-kit/node/path'
+
+/**
+ * The largest file the Online Store accepts, in bytes.
+ */
+export const MAX_FILE_SIZE = 20 * 1024 * 1024
+
+/**
+ * The largest Liquid file the Online Store accepts, in bytes.
+ */
+export const MAX_LIQUID_FILE_SIZE = 256 * 1024
+
+/**
+ * The largest theme package the Theme Store accepts, in bytes.
+ */
+export const MAX_PACKAGE_SIZE = 50 * 1024 * 1024
+
+const REQUIRED_DIRECTORIES = ['config', 'layout', 'sections', 'templates']
+
+/**
+ * Files that development tools leave behind, which don't belong to a theme
+ * package.
+ */
+const DEV_FILE_PATTERNS = [/\.map$/, /\.log$/, /\.orig$/, /\.swp$/, /~$/]
+
+/**
+ * A reason why the Theme Store would reject a theme package.
+ */
+export interface PackageValidationIssue {
+  /**
+   * The file that causes the issue, relative to the theme directory. It's
+   * `undefined` when the issue concerns the whole package.
+   */
+  file?: string
+  message: string
+}
+
+/**
+ * Whether a file looks like it was left behind by a development tool (e.g. a
+ * source map or a log file), so it's left out of the theme package.
+ *
+ * @param file - the file, relative to the theme directory
+ */
+export function isDevelopmentFile(file: string) {
+  return DEV_FILE_PATTERNS.some((pattern) => pattern.test(file))
+}
+
+/**
+ * Validates a theme before it's packaged, so the Theme Store doesn't reject
+ * the package later.
+ *
+ * @param root - the theme directory
+ * @param files - the files of the package, relative to the theme directory
+ * @returns the issues found, which are empty when the package is valid
+ */
+export async function validateThemePackage(root: string, files: string[]): Promise<PackageValidationIssue[]> {
+  const issues: PackageValidationIssue[] = []
+
+  if (!(await hasRequiredThemeDirectories(root))) {
+    issues.push({message: `The theme must have the ${REQUIRED_DIRECTORIES.join(', ')} directories.`})
+  }
+
+  issues.push(...(await validateSettingsSchema(root)))
+  issues.push(...(await validateLocales(root, files)))
+  issues.push(...(await validateFileSizes(root, files)))
+
+  return issues
+}
+
+async function validateSettingsSchema(root: string): Promise<PackageValidationIssue[]> {
+  const file = 'config/settings_schema.json'
+  const content = await readFile(joinPath(root, file))
+
+  let settings: unknown
+  try {
+    settings = JSON.parse(content)
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return [{file, message: `It isn't valid JSON: ${error.message}`}]
+    }
+    throw error
+  }
+
+  if (!Array.isArray(settings)) {
+    return [{file, message: 'It must be a list of settings groups.'}]
+  }
+
+  return settings
+    .map((group, index) => ({group, position: index + 1}))
+    .filter(({group}) => typeof group?.name !== 'string')
+    .map(({position}) => ({file, message: `The settings group at position ${position} must have a name.`}))
+}
+
+/**
+ * Checks that every locale file has the keys of the default locale file
+ * (e.g. `locales/fr.json` has every key of `locales/en.default.json`). The
+ * schema locale files are compared with the default schema locale file.
+ */
+async function validateLocales(root: string, files: string[]): Promise<PackageValidationIssue[]> {
+  const localeFiles = files.filter((file) => /^locales\/[^/]+\.json$/.test(file))
+  const schemaLocaleFiles = localeFiles.filter((file) => file.endsWith('.schema.json'))
+  const storefrontLocaleFiles = localeFiles.filter((file) => !file.endsWith('.schema.json'))
+
+  const issues = await Promise.all([
+    validateLocaleParity(root, storefrontLocaleFiles),
+    validateLocaleParity(root, schemaLocaleFiles),
+  ])
+
+  return issues.flat()
+}
+
+async function validateLocaleParity(root: string, localeFiles: string[]): Promise<PackageValidationIssue[]> {
+  if (localeFiles.length === 0) return []
+
+  const defaultLocaleFile = localeFiles.find((file) => /\.default(\.schema)?\.json$/.test(file))
+
+  if (!defaultLocaleFile) {
+    return [
+      {file: localeFiles[0], message: `Provide a default locale file (e.g. ${defaultLocaleName(localeFiles[0]!)}).`},
+    ]
+  }
+
+  const localeKeys = new Map<string, Set<string> | PackageValidationIssue>()
+
+  await Promise.all(
+    localeFiles.map(async (file) => {
+      localeKeys.set(file, await readLocaleKeys(root, file))
+    }),
+  )
+
+  const defaultKeys = localeKeys.get(defaultLocaleFile)!
+  const issues = [...localeKeys.values()].filter((keys): keys is PackageValidationIssue => !(keys instanceof Set))
+
+  if (!(defaultKeys instanceof Set)) return issues
+
+  for (const file of localeFiles) {
+    const keys = localeKeys.get(file)!
+    if (file === defaultLocaleFile || !(keys instanceof Set)) continue
+
+    const missingKeys = [...defaultKeys].filter((key) => !keys.has(key))
+
+    if (missingKeys.length > 0) {
+      issues.push({file, message: `Missing translations of ${defaultLocaleFile}: ${missingKeys.join(', ')}`})
+    }
+  }
+
+  return issues
+}
+
+async function readLocaleKeys(root: string, file: string) {
+  const path = joinPath(root, file)
+
+  if (!(await fileExists(path))) return {file, message: `The locale file doesn't exist.`}
+
+  try {
+    return new Set(flattenKeys(JSON.parse(await readFile(path))))
+  } catch (error) {
+    if (error instanceof SyntaxError) return {file, message: `It isn't valid JSON: ${error.message}`}
+    throw error
+  }
+}
+
+function flattenKeys(value: unknown, prefix = ''): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return prefix ? [prefix] : []
+  }
+
+  return Object.entries(value).flatMap(([key, child]) => flattenKeys(child, prefix ? `${prefix}.${key}` : key))
+}
+
+function defaultLocaleName(file: string) {
+  return file.endsWith('.schema.json') ? 'locales/en.default.schema.json' : 'locales/en.default.json'
+}
+
+async function validateFileSizes(root: string, files: string[]): Promise<PackageValidationIssue[]> {
+  const issues: PackageValidationIssue[] = []
+  const sizes = await Promise.all(files.map((file) => fileSize(joinPath(root, file))))
+
+  files.forEach((file, index) => {
+    const size = sizes[index]!
+    const maxSize = file.endsWith('.liquid') ? MAX_LIQUID_FILE_SIZE : MAX_FILE_SIZE
+
+    if (size > maxSize) {
+      issues.push({file, message: `It's ${formatSize(size)}, larger than the ${formatSize(maxSize)} limit.`})
+    }
+  })
+
+  const packageSize = sizes.reduce((total, size) => total + size, 0)
+
+  if (packageSize > MAX_PACKAGE_SIZE) {
+    issues.push({
+      message: `The theme files add up to ${formatSize(packageSize)}, larger than the ${formatSize(
+        MAX_PACKAGE_SIZE,
+      )} limit.`,
+    })
+  }
+
+  return issues
+}
+
+function formatSize(bytes: number) {
+  if (bytes >= 1024 * 1024) return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`
+  if (bytes >= 1024) return `${Math.round((bytes / 1024) * 10) / 10} KB`
+
+  return `${bytes} B`
+}
@@ -0,0 +1,59 @@
+import {renderThemeSyncPlan} from './theme-sync-plan.js'
+import {buildTheme} from '@shopify/cli-kit/node/themes/factories'
+import {renderInfo, renderTable} from '@shopify/cli-kit/node/ui'
+import {mockAndCaptureOutput} from '@shopify/cli-kit/node/testing/output'
+import {test, describe, expect, vi} from 'vitest'
+
+vi.mock('@shopify/cli-kit/node/ui')
+
+describe('renderThemeSyncPlan', () => {
+  const theme = buildTheme({id: 1, name: 'Theme', role: 'unpublished'})!
+
+  test('renders a table with the changes', async () => {
+    // When
+    renderThemeSyncPlan(theme, {download: ['sections/header.liquid'], delete: ['assets/old.css']}, {})
+
+    // Then
+    expect(renderInfo).toHaveBeenCalledWith({
+      headline: 'Dry run: no files have been changed.',
+      body: ['2 file(s) would be changed when syncing with the theme', "'Theme'", {subdued: '(#1)'}],
+    })
+    expect(renderTable).toHaveBeenCalledWith({
+      rows: [
+        {action: 'download', key: 'sections/header.liquid'},
+        {action: 'delete', key: 'assets/old.css'},
+      ],
+      columns: {
+        action: {header: 'Action', color: 'dim'},
+        key: {header: 'File'},
+      },
+    })
+  })
+
+  test('reports when there are no changes', async () => {
+    // When
+    renderThemeSyncPlan(theme, {upload: [], delete: []}, {})
+
+    // Then
+    expect(renderInfo).toHaveBeenCalledWith({
+      body: ['Dry run: the theme', "'Theme'", {subdued: '(#1)'}, 'is already in sync.'],
+    })
+    expect(renderTable).not.toHaveBeenCalled()
+  })
+
+  test('outputs the plan as JSON', async () => {
+    // Given
+    const outputMock = mockAndCaptureOutput()
+
+    // When
+    renderThemeSyncPlan(theme, {upload: ['templates/index.json'], delete: []}, {json: true})
+
+    // Then
+    expect(JSON.parse(outputMock.info())).toEqual({
+      theme: {id: 1, name: 'Theme'},
+      upload: ['templates/index.json'],
+      delete: [],
+    })
+    expect(renderTable).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,38 @@
+import {themeComponent} from './theme-ui.js'
+import {Key, Theme} from '@shopify/cli-kit/node/themes/types'
+import {renderInfo, renderTable} from '@shopify/cli-kit/node/ui'
+import {outputInfo} from '@shopify/cli-kit/node/output'
+
+type ThemeSyncAction = 'download' | 'upload' | 'delete'
+
+/**
+ * The files a `pull` or `push` would change, grouped by action.
+ */
+export type ThemeSyncPlan = {[action in ThemeSyncAction]?: Key[]}
+
+export function renderThemeSyncPlan(theme: Theme, plan: ThemeSyncPlan, options: {json?: boolean}) {
+  if (options.json) {
+    outputInfo(JSON.stringify({theme: {id: theme.id, name: theme.name}, ...plan}, null, 2))
+    return
+  }
+
+  const rows = Object.entries(plan).flatMap(([action, keys]) => keys.map((key) => ({action, key})))
+
+  if (rows.length === 0) {
+    renderInfo({body: ['Dry run: the theme', ...themeComponent(theme), 'is already in sync.']})
+    return
+  }
+
+  renderInfo({
+    headline: 'Dry run: no files have been changed.',
+    body: [`${rows.length} file(s) would be changed when syncing with the theme`, ...themeComponent(theme)],
+  })
+
+  renderTable({
+    rows,
+    columns: {
+      action: {header: 'Action', color: 'dim'},
+      key: {header: 'File'},
+    },
+  })
+}
@@ -1,3 +1,4 @@
+import {ThemeSnapshot} from './theme-history.js'
 import {Theme} from '@shopify/cli-kit/node/themes/types'
 import {renderConfirmationPrompt, renderWarning} from '@shopify/cli-kit/node/ui'
 
@@ -16,6 +17,12 @@ export function themesComponent(themes: Theme[]) {
   return {list: {items}}
 }
 
+export function restoreSnapshotNextSteps(snapshot?: ThemeSnapshot) {
+  if (!snapshot) return []
+
+  return [['Run', {command: `shopify theme restore ${snapshot.id}`}, 'to undo these changes']]
+}
+
 export async function currentDirectoryConfirmed(force: boolean) {
   if (force) {
     return true
@@ -0,0 +1,237 @@
+import {
+  MAX_BATCH_FILE_COUNT,
+  buildPushPlan,
+  partitionThemeFiles,
+  uploadTheme,
+  uploadThemeQuietly,
+} from './theme-uploader.js'
+import {readThemeFile} from './theme-fs.js'
+import {bulkUploadThemeAssets, deleteThemeAsset} from '@shopify/cli-kit/node/themes/api'
+import {ThemeFileSystem} from '@shopify/cli-kit/node/themes/types'
+import {test, describe, expect, vi, beforeEach} from 'vitest'
+
+vi.mock('./theme-fs.js', async (realImport) => {
+  const realModule = await realImport<typeof import('./theme-fs.js')>()
+  const mockModule = {readThemeFile: vi.fn()}
+
+  return {...realModule, ...mockModule}
+})
+vi.mock('@shopify/cli-kit/node/themes/api')
+
+describe('theme-uploader', () => {
+  describe('uploadTheme', () => {
+    const remoteTheme = {id: 1, name: '', createdAtRuntime: false, processing: false, role: ''}
+    const adminSession = {token: '', storeFqdn: ''}
+    const uploadOptions = {nodelete: false}
+
+    beforeEach(() => {
+      vi.mocked(readThemeFile).mockResolvedValue('content')
+      vi.mocked(bulkUploadThemeAssets).mockImplementation(async (_id, assets) =>
+        assets.map((asset) => ({key: asset.key!, success: true, errors: [], asset: {key: asset.key!, checksum: ''}})),
+      )
+    })
+
+    test('deletes remote files that do not exist locally', async () => {
+      // Given
+      const remote = [
+        {key: 'keepme', checksum: '1'},
+        {key: 'deleteme', checksum: '2'},
+      ]
+      const local = {root: 'tmp', files: new Map([['keepme', {key: 'keepme', checksum: '1'}]])} as ThemeFileSystem
+
+      // When
+      await uploadTheme(remoteTheme, adminSession, remote, local, uploadOptions)
+
+      // Then
+      expect(deleteThemeAsset).toHaveBeenCalledOnce()
+      expect(deleteThemeAsset).toHaveBeenCalledWith(remoteTheme.id, 'deleteme', adminSession)
+    })
+
+    test('does not delete remote files when nodelete is set', async () => {
+      // Given
+      const remote = [{key: 'deleteme', checksum: '2'}]
+      const local = {root: 'tmp', files: new Map()} as ThemeFileSystem
+
+      // When
+      await uploadTheme(remoteTheme, adminSession, remote, local, {nodelete: true})
+
+      // Then
+      expect(deleteThemeAsset).not.toHaveBeenCalled()
+    })
+
+    test('uploads the modified files that match the filters', async () => {
+      // Given
+      const options = {nodelete: true, only: ['sections'], ignore: ['sections/ignoreme.liquid']}
+      const remote = [
+        {key: 'sections/modified.liquid', checksum: '1'},
+        {key: 'sections/unmodified.liquid', checksum: '2'},
+      ]
+      const local = {
+        root: 'tmp',
+        files: new Map([
+          ['sections/modified.liquid', {key: 'sections/modified.liquid', checksum: '3'}],
+          ['sections/unmodified.liquid', {key: 'sections/unmodified.liquid', checksum: '2'}],
+          ['sections/new.liquid', {key: 'sections/new.liquid', checksum: '4'}],
+          ['sections/ignoreme.liquid', {key: 'sections/ignoreme.liquid', checksum: '5'}],
+          ['snippets/other.liquid', {key: 'snippets/other.liquid', checksum: '6'}],
+        ]),
+      } as ThemeFileSystem
+
+      // When
+      const results = await uploadTheme(remoteTheme, adminSession, remote, local, options)
+
+      // Then
+      expect(bulkUploadThemeAssets).toHaveBeenCalledOnce()
+      expect(bulkUploadThemeAssets).toHaveBeenCalledWith(
+        remoteTheme.id,
+        [
+          {key: 'sections/modified.liquid', value: 'content'},
+          {key: 'sections/new.liquid', value: 'content'},
+        ],
+        adminSession,
+      )
+      expect(results.map(({key}) => key)).toEqual(['sections/modified.liquid', 'sections/new.liquid'])
+    })
+
+    test('uploads binary files as base64 attachments', async () => {
+      // Given
+      const local = {
+        root: 'tmp',
+        files: new Map([['assets/image.png', {key: 'assets/image.png', checksum: '1'}]]),
+      } as ThemeFileSystem
+
+      // When
+      await uploadTheme(remoteTheme, adminSession, [], local, uploadOptions)
+
+      // Then
+      expect(bulkUploadThemeAssets).toHaveBeenCalledWith(
+        remoteTheme.id,
+        [{key: 'assets/image.png', attachment: Buffer.from('content').toString('base64')}],
+        adminSession,
+      )
+    })
+
+    test('splits the upload in batches', async () => {
+      // Given
+      const keys = Array.from({length: MAX_BATCH_FILE_COUNT + 1}, (_, index) => `snippets/${index}.liquid`)
+      const local = {
+        root: 'tmp',
+        files: new Map(keys.map((key) => [key, {key, checksum: '1'}])),
+      } as ThemeFileSystem
+
+      // When
+      await uploadTheme(remoteTheme, adminSession, [], local, uploadOptions)
+
+      // Then
+      expect(bulkUploadThemeAssets).toHaveBeenCalledTimes(2)
+      expect(vi.mocked(bulkUploadThemeAssets).mock.calls[0]![1]).toHaveLength(MAX_BATCH_FILE_COUNT)
+      expect(vi.mocked(bulkUploadThemeAssets).mock.calls[1]![1]).toHaveLength(1)
+    })
+  })
+
+  describe('uploadThemeQuietly', () => {
+    const remoteTheme = {id: 1, name: '', createdAtRuntime: false, processing: false, role: ''}
+    const adminSession = {token: '', storeFqdn: ''}
+
+    beforeEach(() => {
+      vi.mocked(readThemeFile).mockResolvedValue('content')
+    })
+
+    test('uploads the modified files and deletes the remote-only files', async () => {
+      // Given
+      const remote = [{key: 'sections/deleteme.liquid', checksum: '1'}]
+      const local = {
+        root: 'tmp',
+        files: new Map([['sections/new.liquid', {key: 'sections/new.liquid', checksum: '2'}]]),
+      } as ThemeFileSystem
+      vi.mocked(bulkUploadThemeAssets).mockResolvedValue([
+        {key: 'sections/new.liquid', success: true, errors: [], asset: {key: 'sections/new.liquid', checksum: ''}},
+      ])
+
+      // When
+      const results = await uploadThemeQuietly(remoteTheme, adminSession, remote, local, {})
+
+      // Then
+      expect(results.map(({key}) => key)).toEqual(['sections/new.liquid'])
+      expect(deleteThemeAsset).toHaveBeenCalledWith(remoteTheme.id, 'sections/deleteme.liquid', adminSession)
+    })
+
+    test('retries the batches that fail', async () => {
+      // Given
+      const local = {
+        root: 'tmp',
+        files: new Map([['sections/new.liquid', {key: 'sections/new.liquid', checksum: '2'}]]),
+      } as ThemeFileSystem
+      vi.mocked(bulkUploadThemeAssets)
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce([
+          {key: 'sections/new.liquid', success: true, errors: [], asset: {key: 'sections/new.liquid', checksum: ''}},
+        ])
+
+      // When
+      const results = await uploadThemeQuietly(remoteTheme, adminSession, [], local, {})
+
+      // Then
+      expect(bulkUploadThemeAssets).toHaveBeenCalledTimes(2)
+      expect(results).toHaveLength(1)
+    })
+  })
+
+  describe('buildPushPlan', () => {
+    test('returns the files to upload and the remote files to delete', async () => {
+      // Given
+      const remote = [
+        {key: 'sections/modified.liquid', checksum: '1'},
+        {key: 'sections/unmodified.liquid', checksum: '2'},
+        {key: 'sections/deleteme.liquid', checksum: '3'},
+      ]
+      const local = {
+        root: 'tmp',
+        files: new Map([
+          ['sections/modified.liquid', {key: 'sections/modified.liquid', checksum: '4'}],
+          ['sections/unmodified.liquid', {key: 'sections/unmodified.liquid', checksum: '2'}],
+          ['sections/new.liquid', {key: 'sections/new.liquid', checksum: '5'}],
+        ]),
+      } as ThemeFileSystem
+
+      // When
+      const plan = await buildPushPlan(remote, local, {nodelete: false})
+
+      // Then
+      expect(plan).toEqual({
+        upload: [
+          {key: 'sections/modified.liquid', checksum: '4'},
+          {key: 'sections/new.liquid', checksum: '5'},
+        ],
+        delete: ['sections/deleteme.liquid'],
+      })
+      expect(bulkUploadThemeAssets).not.toHaveBeenCalled()
+      expect(deleteThemeAsset).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('partitionThemeFiles', () => {
+    test('groups the files in the order they must be uploaded', async () => {
+      // Given
+      const files = [
+        {key: 'assets/base.css'},
+        {key: 'config/settings_data.json'},
+        {key: 'templates/index.json'},
+        {key: 'config/settings_schema.json'},
+        {key: 'sections/header.liquid'},
+        {key: 'assets/theme.js.liquid'},
+      ]
+
+      // When
+      const partitions = partitionThemeFiles(files)
+
+      // Then
+      expect(partitions).toEqual([
+        [{key: 'sections/header.liquid'}, {key: 'assets/theme.js.liquid'}],
+        [{key: 'templates/index.json'}],
+        [{key: 'config/settings_schema.json'}, {key: 'config/settings_data.json'}],
+        [{key: 'assets/base.css'}],
+      ])
+    })
+  })
+})
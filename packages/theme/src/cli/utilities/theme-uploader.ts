@@ -0,0 +1,245 @@
+import {applyIgnoreFilters} from './asset-ignore.js'
+import {isTextFile, readThemeFile} from './theme-fs.js'
+import {AdminSession} from '@shopify/cli-kit/node/session'
+import {AssetParams, bulkUploadThemeAssets, deleteThemeAsset} from '@shopify/cli-kit/node/themes/api'
+import {BulkUploadResult, Checksum, Key, Theme, ThemeFileSystem} from '@shopify/cli-kit/node/themes/types'
+import {renderTasks, Task} from '@shopify/cli-kit/node/ui'
+
+interface UploadOptions {
+  nodelete?: boolean
+  only?: string[]
+  ignore?: string[]
+  json?: boolean
+}
+
+export interface PushPlan {
+  upload: Checksum[]
+  delete: Key[]
+}
+
+export interface UploadableFile {
+  key: Key
+  size: number
+  params: AssetParams
+}
+
+/**
+ * Limits of the bulk upload endpoint of the Assets API.
+ */
+export const MAX_BATCH_FILE_COUNT = 10
+export const MAX_BATCH_BYTESIZE = 102400
+export const MAX_UPLOAD_RETRY_COUNT = 2
+
+const CONFIG_FILES = ['config/settings_schema.json', 'config/settings_data.json']
+
+/**
+ * Uploads the local theme files that differ from the remote ones and deletes
+ * the remote files that don't exist locally (unless `nodelete` is set).
+ *
+ * @returns the {@link BulkUploadResult} of every uploaded file
+ */
+export async function uploadTheme(
+  theme: Theme,
+  session: AdminSession,
+  remoteChecksums: Checksum[],
+  themeFileSystem: ThemeFileSystem,
+  options: UploadOptions,
+) {
+  const results: BulkUploadResult[] = []
+  const tasks = await buildThemeTasks(theme, session, remoteChecksums, themeFileSystem, options, results)
+
+  if (tasks.length > 0) {
+    /**
+     * When the output is JSON, the progress goes to stderr, so stdout only
+     * contains the JSON document.
+     */
+    const renderOptions = options.json ? {stdout: process.stderr} : undefined
+    await renderTasks(tasks, {renderOptions})
+  }
+
+  return results
+}
+
+/**
+ * Uploads the theme files like {@link uploadTheme}, without rendering the
+ * progress, so callers can upload several themes at the same time.
+ *
+ * @returns the {@link BulkUploadResult} of every uploaded file
+ */
+export async function uploadThemeQuietly(
+  theme: Theme,
+  session: AdminSession,
+  remoteChecksums: Checksum[],
+  themeFileSystem: ThemeFileSystem,
+  options: UploadOptions,
+) {
+  const results: BulkUploadResult[] = []
+  const tasks = await buildThemeTasks(theme, session, remoteChecksums, themeFileSystem, options, results)
+
+  for (const task of tasks) {
+    // eslint-disable-next-line no-await-in-loop
+    await runTaskWithRetries(task)
+  }
+
+  return results
+}
+
+/**
+ * Compares the local theme files with the remote checksums and returns the
+ * files the `push` command uploads and the remote files it deletes.
+ */
+export async function buildPushPlan(
+  remoteChecksums: Checksum[],
+  themeFileSystem: ThemeFileSystem,
+  options: UploadOptions,
+): Promise<PushPlan> {
+  const remoteChecksumValues = new Map(remoteChecksums.map(({key, checksum}) => [key, checksum]))
+  const localChecksums = Array.from(themeFileSystem.files.values())
+  const upload = (await applyIgnoreFilters(localChecksums, themeFileSystem, options)).filter(
+    ({key, checksum}) => remoteChecksumValues.get(key) !== checksum,
+  )
+
+  if (options.nodelete) return {upload, delete: []}
+
+  const remoteOnlyChecksums = remoteChecksums.filter(({key}) => !themeFileSystem.files.has(key))
+  const deletions = await applyIgnoreFilters(remoteOnlyChecksums, themeFileSystem, options)
+
+  return {upload, delete: deletions.map(({key}) => key)}
+}
+
+async function buildThemeTasks(
+  theme: Theme,
+  session: AdminSession,
+  remoteChecksums: Checksum[],
+  themeFileSystem: ThemeFileSystem,
+  options: UploadOptions,
+  results: BulkUploadResult[],
+) {
+  const plan = await buildPushPlan(remoteChecksums, themeFileSystem, options)
+
+  const deleteTasks = buildDeleteTasks(plan, theme, session)
+  const uploadTasks = await buildUploadTasks(plan, theme, themeFileSystem, session, results)
+
+  return [...uploadTasks, ...deleteTasks]
+}
+
+async function runTaskWithRetries(task: Task, retryCount = 0): Promise<void> {
+  try {
+    await task.task(undefined, task)
+  } catch (error) {
+    if (retryCount >= (task.retry ?? 0)) throw error
+    await runTaskWithRetries(task, retryCount + 1)
+  }
+}
+
+function buildDeleteTasks(plan: PushPlan, theme: Theme, session: AdminSession): Task[] {
+  return plan.delete.map((key) => {
+    return {
+      title: `Cleaning your remote theme (removing ${key})`,
+      task: async () => {
+        await deleteThemeAsset(theme.id, key, session)
+      },
+    }
+  })
+}
+
+async function buildUploadTasks(
+  plan: PushPlan,
+  theme: Theme,
+  themeFileSystem: ThemeFileSystem,
+  session: AdminSession,
+  results: BulkUploadResult[],
+): Promise<Task[]> {
+  const files = await Promise.all(plan.upload.map(({key}) => readUploadableFile(themeFileSystem.root, key)))
+  const batches = partitionThemeFiles(files).flatMap(batchFiles)
+
+  let uploadedCount = 0
+
+  return batches.map((batch) => {
+    uploadedCount += batch.length
+    const progress = Math.round((uploadedCount / files.length) * 100)
+
+    return {
+      title: `Pushing theme "${theme.name}" (#${theme.id}) to ${session.storeFqdn} [${progress}%]`,
+      retry: MAX_UPLOAD_RETRY_COUNT,
+      task: async () => {
+        const batchResults = await bulkUploadThemeAssets(
+          theme.id,
+          batch.map(({params}) => params),
+          session,
+        )
+        results.push(...batchResults)
+      },
+    }
+  })
+}
+
+async function readUploadableFile(root: string, key: Key): Promise<UploadableFile> {
+  const content = (await readThemeFile(root, key)) ?? ''
+
+  if (isTextFile(key)) {
+    return {key, size: Buffer.byteLength(content), params: {key, value: content}}
+  }
+
+  const attachment = Buffer.from(content).toString('base64')
+  return {key, size: Buffer.byteLength(attachment), params: {key, attachment}}
+}
+
+/**
+ * Splits the files in the order they must be uploaded to the theme.
+ *
+ * JSON templates and section groups reference the Liquid sections, and
+ * `config/settings_data.json` is validated against
+ * `config/settings_schema.json`, so each group is only uploaded after the
+ * groups it depends on. Static assets go last, as nothing fails to render
+ * while they're missing.
+ */
+export function partitionThemeFiles<T extends {key: Key}>(files: T[]): T[][] {
+  const liquidFiles: T[] = []
+  const jsonFiles: T[] = []
+  const configFiles: T[] = []
+  const staticAssetFiles: T[] = []
+
+  files.forEach((file) => {
+    if (CONFIG_FILES.includes(file.key)) {
+      configFiles.push(file)
+    } else if (file.key.endsWith('.liquid')) {
+      liquidFiles.push(file)
+    } else if (file.key.endsWith('.json')) {
+      jsonFiles.push(file)
+    } else {
+      staticAssetFiles.push(file)
+    }
+  })
+
+  configFiles.sort((fileA, fileB) => CONFIG_FILES.indexOf(fileA.key) - CONFIG_FILES.indexOf(fileB.key))
+
+  return [liquidFiles, jsonFiles, configFiles, staticAssetFiles]
+}
+
+/**
+ * Splits the files in batches that fit the limits of the bulk upload endpoint.
+ */
+export function batchFiles(files: UploadableFile[]) {
+  const batches: UploadableFile[][] = []
+  let batch: UploadableFile[] = []
+  let batchSize = 0
+
+  files.forEach((file) => {
+    const exceedsFileCount = batch.length + 1 > MAX_BATCH_FILE_COUNT
+    const exceedsByteSize = batchSize + file.size > MAX_BATCH_BYTESIZE
+
+    if (batch.length > 0 && (exceedsFileCount || exceedsByteSize)) {
+      batches.push(batch)
+      batch = []
+      batchSize = 0
+    }
+
+    batch.push(file)
+    batchSize += file.size
+  })
+
+  if (batch.length > 0) batches.push(batch)
+
+  return batches
+}